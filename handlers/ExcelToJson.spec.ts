@@ -0,0 +1,24 @@
+import { cellToAmount } from "./ExcelToJson";
+
+describe("cellToAmount", () => {
+  it("reads COP thousand separators", () => {
+    expect(cellToAmount("150.000")).toBe(150000);
+    expect(cellToAmount("$ 1.500.000")).toBe(1500000);
+  });
+
+  it("keeps the decimal separator instead of multiplying the amount", () => {
+    expect(cellToAmount("150000.00")).toBe(150000);
+    expect(cellToAmount("150000,50")).toBe(150001);
+  });
+
+  it("rejects negative amounts", () => {
+    expect(cellToAmount("-5000")).toBeNull();
+    expect(cellToAmount(-5000)).toBeNull();
+  });
+
+  it("reads numeric cells and ignores empty ones", () => {
+    expect(cellToAmount(150000)).toBe(150000);
+    expect(cellToAmount("")).toBeNull();
+    expect(cellToAmount(undefined)).toBeNull();
+  });
+});
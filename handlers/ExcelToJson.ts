@@ -1,4 +1,5 @@
 import { utils, WorkBook } from "xlsx";
+import { parseCop } from "./money";
 
 export interface TableProps {
   [key: string]: string | undefined;
@@ -38,3 +39,25 @@ export function xlsxTojson(workbook: WorkBook) {
 
   return tablePropsArray;
 }
+
+// Normalize header names: lowercase, no accents, spaces or separators ("Valor Descontado" -> "valordescontado")
+export function normalizeHeaders(row: Record<string, any>) {
+  const normalized: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(row)) {
+    const name = String(key)
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[\s_-]/g, "")
+      .toLowerCase();
+    normalized[name] = value;
+  }
+
+  return normalized;
+}
+
+// Read a COP amount from a cell, either numeric or formatted text ("$ 150.000", "150000.00").
+// Empty cells, negative values and text that is not an amount return null
+export function cellToAmount(value: unknown): number | null {
+  return parseCop(typeof value === "number" ? value : String(value ?? ""));
+}
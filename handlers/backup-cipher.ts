@@ -0,0 +1,55 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+
+// Formato del archivo cifrado: encabezado | sal | iv | etiqueta GCM | datos
+const MAGIC = Buffer.from("CYBAK1");
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+export const BACKUP_CIPHER = "aes-256-gcm";
+
+/**
+ * Cifra un backup con AES-256-GCM. La llave se deriva de la clave configurada
+ * con scrypt y una sal nueva por archivo, que viaja en el encabezado.
+ */
+export const encryptBackup = (data: Buffer, secret: string): Buffer => {
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(BACKUP_CIPHER, scryptSync(secret, salt, 32), iv);
+
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+    return Buffer.concat([MAGIC, salt, iv, cipher.getAuthTag(), encrypted]);
+};
+
+/**
+ * Descifra un backup generado por encryptBackup. Lanza error si la clave
+ * no corresponde o si el archivo fue modificado (la etiqueta GCM no coincide).
+ */
+export const decryptBackup = (data: Buffer, secret: string): Buffer => {
+    if (!isEncryptedBackup(data) || data.length < HEADER_LENGTH) {
+        throw new Error("El archivo no es un backup cifrado");
+    }
+
+    let offset = MAGIC.length;
+    const salt = data.subarray(offset, offset += SALT_LENGTH);
+    const iv = data.subarray(offset, offset += IV_LENGTH);
+    const tag = data.subarray(offset, offset += TAG_LENGTH);
+
+    const decipher = createDecipheriv(BACKUP_CIPHER, scryptSync(secret, salt, 32), iv);
+    decipher.setAuthTag(tag);
+
+    try {
+        return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+    } catch {
+        throw new Error("No se pudo descifrar el backup: clave incorrecta o archivo alterado");
+    }
+};
+
+// Los backups anteriores al cifrado son gzip sin encabezado
+export const isEncryptedBackup = (data: Buffer): boolean =>
+    data.subarray(0, MAGIC.length).equals(MAGIC);
+
+export const sha256 = (data: Buffer | string): string =>
+    createHash("sha256").update(data).digest("hex");
@@ -0,0 +1,17 @@
+import { ValidationPipe } from '@nestjs/common';
+
+/**
+ * Aplica los decoradores de class-validator de los DTOs. Descarta las propiedades que el
+ * DTO no declara y convierte el body a la clase del DTO.
+ */
+class DtoValidationPipe extends ValidationPipe {
+  // Los parámetros sueltos (@Query('page'), @Body('cantity')) los convierten sus propios pipes;
+  // convertirlos antes a Number dejaría en NaN montos como "1.500.000" que espera ParseCopPipe
+  protected transformPrimitive(value: unknown): unknown {
+    return value;
+  }
+}
+
+export function createValidationPipe(): ValidationPipe {
+  return new DtoValidationPipe({ whitelist: true, transform: true });
+}
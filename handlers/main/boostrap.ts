@@ -1,5 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { checkPortStatus } from './CheckPorts';
+import { createValidationPipe } from './ValidationPipe';
 import { AppModule } from 'src/app.module';
 import { Logger } from '@nestjs/common';
 import { CustomLoggerService } from 'src/services/logger.service';
@@ -72,9 +73,13 @@ export async function bootstrap() {
 
     // Crear la aplicación
     const app = await NestFactory.create(AppModule, {
-      logger: ['log', 'error', 'warn', 'debug', 'verbose']
+      logger: ['log', 'error', 'warn', 'debug', 'verbose'],
+      rawBody: true, // Necesario para validar la firma del webhook de WhatsApp
     });
 
+    // Sin este pipe los decoradores de class-validator de los DTOs no se aplican
+    app.useGlobalPipes(createValidationPipe());
+
     // **CONFIGURAR LOGGER PERSONALIZADO DESPUÉS DE CREAR LA APP**
     const customLogger = app.get(CustomLoggerService);
     app.useLogger(customLogger);
@@ -121,10 +126,13 @@ export async function bootstrap() {
           },
           'JWT-auth'
         )
+        .addApiKey({ type: 'apiKey', name: 'x-api-key', in: 'header' }, 'api-key')
         .addCookieAuth('intranet_token')
         .addCookieAuth('creditoya_token')
         .addTag('auth', 'Autenticación y autorización')
         .addTag('loans', 'Gestión de préstamos')
+        .addTag('loan-products', 'Productos de préstamo y planes de pago')
+        .addTag('payroll-deductions', 'Descuentos de nómina por empresa')
         .addTag('clients', 'Gestión de clientes')
         .addTag('pdfs', 'Generación de PDFs')
         .addTag('mail', 'Envío de correos')
@@ -133,6 +141,15 @@ export async function bootstrap() {
         .addTag('dev', 'Herramientas de desarrollo')
         .addTag('mcp', 'Model Context Protocol')
         .addTag('password-reset', 'Restablecimiento de contraseña')
+        .addTag('support', 'Reportes de problemas y soporte')
+        .addTag('whatsapp', 'Canal de WhatsApp del bot')
+        .addTag('audit', 'Auditoría de acciones de intranet')
+        .addTag('storage', 'Almacenamiento de archivos')
+        .addTag('analytics', 'Métricas de operación de crédito')
+        .addTag('api-clients', 'Llaves de API de clientes máquina')
+        .addTag('rate-limits', 'Límites de peticiones y bloqueos de autenticación')
+        .addTag('roles', 'Roles y permisos de usuarios de intranet')
+        .addTag('loan-assignment', 'Asignación de solicitudes a analistas y carga de trabajo')
         .build();
 
       const document = SwaggerModule.createDocument(app, config);
@@ -181,11 +198,19 @@ export async function bootstrap() {
         'http://127.0.0.1:3002'
       ];
 
+    // Detrás de un proxy, request.ip (lo que usan los límites de peticiones) sale de X-Forwarded-For
+    // solo si se confía en él; TRUST_PROXY acepta el número de saltos o una lista de IPs
+    const trustProxy = process.env.TRUST_PROXY;
+    if (trustProxy) {
+      app.getHttpAdapter().getInstance().set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+      console.log(`🔁 trust proxy: ${trustProxy}`);
+    }
+
     app.enableCors({
       origin: corsOrigins,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'X-API-Key'],
     });
 
     customLogger.logWithMetadata('info', 'CORS configurado', {
@@ -0,0 +1,61 @@
+// Los montos de los préstamos se guardan como pesos colombianos enteros (sin centavos)
+
+const copFormatter = new Intl.NumberFormat("es-CO", {
+    style: "currency",
+    currency: "COP",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+});
+
+/**
+ * Convierte un monto recibido del cliente o guardado como texto a pesos enteros.
+ * Acepta números y textos como "1500000", "1.500.000", "$ 1,500,000" o "1500000,50";
+ * devuelve null si el valor no es un monto válido.
+ */
+export const parseCop = (value: unknown): number | null => {
+    if (typeof value === "number") {
+        return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+    }
+
+    if (typeof value !== "string") {
+        return null;
+    }
+
+    const cleaned = value.replace(/[^\d.,-]/g, "");
+    if (!/\d/.test(cleaned) || cleaned.includes("-")) {
+        return null;
+    }
+
+    const lastDot = cleaned.lastIndexOf(".");
+    const lastComma = cleaned.lastIndexOf(",");
+    let decimalSeparator: string | null = null;
+
+    if (lastDot !== -1 && lastComma !== -1) {
+        // Con ambos separadores, el último es el decimal
+        decimalSeparator = lastDot > lastComma ? "." : ",";
+    } else if (lastDot !== -1 || lastComma !== -1) {
+        // Con uno solo, es de miles si se repite o si le siguen exactamente tres dígitos
+        const separator = lastDot !== -1 ? "." : ",";
+        const parts = cleaned.split(separator);
+        const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+        decimalSeparator = isThousands ? null : separator;
+    }
+
+    const [integerPart, decimalPart = ""] = decimalSeparator
+        ? [
+            cleaned.slice(0, cleaned.lastIndexOf(decimalSeparator)),
+            cleaned.slice(cleaned.lastIndexOf(decimalSeparator) + 1),
+        ]
+        : [cleaned, ""];
+
+    const amount = Number(`${integerPart.replace(/[.,]/g, "") || "0"}.${decimalPart.replace(/[.,]/g, "") || "0"}`);
+
+    return Number.isFinite(amount) ? Math.round(amount) : null;
+};
+
+/**
+ * Formato de moneda colombiana para correos, PDFs y mensajes (ej. "$ 1.500.000")
+ */
+export const formatCop = (value: number | null | undefined): string => {
+    return copFormatter.format(value ?? 0);
+};
@@ -0,0 +1,97 @@
+// Normalización de textos para el índice de búsqueda de clientes
+
+/**
+ * Minúsculas y sin tildes ni diéresis: "Gómez" -> "gomez", "Muñoz" -> "munoz"
+ */
+export const foldText = (text: string): string => {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase();
+};
+
+/**
+ * Palabras normalizadas de un texto; los espacios repetidos y la puntuación no cuentan
+ */
+export const tokenize = (text: string): string[] => {
+    return foldText(text)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 0);
+};
+
+export const digitsOf = (text: string): string => text.replace(/\D/g, "");
+
+/**
+ * Errores de tipeo que se toleran según el largo de la palabra buscada:
+ * las palabras cortas deben coincidir exactamente.
+ */
+export const typoBudget = (token: string): number => {
+    if (token.length < 4) return 0;
+    if (token.length < 8) return 1;
+    return 2;
+};
+
+/**
+ * Distancia de edición con transposiciones (Damerau-Levenshtein restringida).
+ * Deja de calcular en cuanto supera `max` y en ese caso devuelve `max + 1`.
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, beforePrevious[j - 2] + 1);
+            }
+
+            current.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+
+        if (rowMin > max) return max + 1;
+
+        beforePrevious = previous;
+        previous = current;
+    }
+
+    return Math.min(previous[b.length], max + 1);
+};
+
+/**
+ * Palabras del texto original con su posición, para resaltar coincidencias
+ * sobre el valor tal como está guardado (con tildes y mayúsculas).
+ */
+export const wordsWithPositions = (text: string): { word: string; start: number; end: number }[] => {
+    return Array.from(text.matchAll(/[\p{L}\p{N}\p{M}]+/gu), match => ({
+        word: foldText(match[0]),
+        start: match.index,
+        end: match.index + match[0].length,
+    }));
+};
+
+/**
+ * Posición en el texto original de una secuencia de dígitos, ignorando espacios,
+ * puntos o guiones intermedios ("300 123 4567" contiene "1234567").
+ */
+export const digitRange = (text: string, digits: string): [number, number] | null => {
+    const positions: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (/\d/.test(text[i])) positions.push(i);
+    }
+
+    const index = positions.map(i => text[i]).join("").indexOf(digits);
+    if (index === -1 || digits.length === 0) return null;
+
+    return [positions[index], positions[index + digits.length - 1] + 1];
+};
+
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
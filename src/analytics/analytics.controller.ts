@@ -0,0 +1,87 @@
+import { Controller, ForbiddenException, Get, Query, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { companiesUser } from '@prisma/client';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { CompanyScope } from 'src/auth/decorators/company-scope.decorator';
+import { AnalyticsService } from './analytics.service';
+import { ANALYTICS_GRANULARITIES } from './analytics.metrics';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+
+@ApiTags('analytics')
+@Controller('analytics')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@RequirePermission('analytics.view')
+export class AnalyticsController {
+  constructor(private readonly analytics: AnalyticsService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Métricas de operación de crédito por periodo y empresa (permiso analytics.view)' })
+  @ApiQuery({ name: 'from', required: false, description: 'Fecha inicial (ISO). Por defecto, doce meses atrás' })
+  @ApiQuery({ name: 'to', required: false, description: 'Fecha final (ISO). Por defecto, hoy' })
+  @ApiQuery({ name: 'granularity', required: false, enum: ANALYTICS_GRANULARITIES, description: 'Agrupación de la serie', example: 'month' })
+  @ApiQuery({ name: 'company', required: false, enum: companiesUser, description: 'Empresa del cliente (currentCompanie)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Totales del rango, serie de tiempo y desglose por empresa' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso analytics.view; un rol limitado a algunas empresas debe indicar una de ellas' })
+  @ApiBadRequestResponse({ description: 'Rango de fechas, agrupación o empresa inválidos' })
+  async report(
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('granularity') granularity?: string,
+    @Query('company') company?: string,
+  ) {
+    this.assertCompanyInScope(company, companies);
+    return this.analytics.report({ from, to, granularity, company });
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Exportar las métricas a XLSX (permiso analytics.view)' })
+  @ApiQuery({ name: 'from', required: false, description: 'Fecha inicial (ISO). Por defecto, doce meses atrás' })
+  @ApiQuery({ name: 'to', required: false, description: 'Fecha final (ISO). Por defecto, hoy' })
+  @ApiQuery({ name: 'granularity', required: false, enum: ANALYTICS_GRANULARITIES, description: 'Agrupación de la serie', example: 'month' })
+  @ApiQuery({ name: 'company', required: false, enum: companiesUser, description: 'Empresa del cliente (currentCompanie)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Archivo XLSX con las hojas Resumen y Serie' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso analytics.view; un rol limitado a algunas empresas debe indicar una de ellas' })
+  @ApiBadRequestResponse({ description: 'Rango de fechas, agrupación o empresa inválidos' })
+  async export(
+    @Res() res: Response,
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('granularity') granularity?: string,
+    @Query('company') company?: string,
+  ) {
+    this.assertCompanyInScope(company, companies);
+    const { buffer, fileName, contentType } = await this.analytics.exportXlsx({ from, to, granularity, company });
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    return res.send(buffer);
+  }
+
+  // Las métricas sin empresa suman todas; un rol limitado solo puede pedir las de sus empresas
+  private assertCompanyInScope(company: string | undefined, companies: companiesUser[] | null) {
+    if (companies && !(company && companies.includes(company as companiesUser))) {
+      throw new ForbiddenException('Indique una empresa que su rol atienda');
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { companiesUser, StatusLoan } from '@prisma/client';
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export const ANALYTICS_GRANULARITIES: AnalyticsGranularity[] = ['day', 'week', 'month'];
+
+// Préstamo con lo necesario para las métricas, ya leído de la agregación
+export interface AnalyticsLoan {
+  created_at: Date;
+  status: StatusLoan;
+  cantity: number;
+  newCantity: number | null;
+  newCantityOpt: boolean | null;
+  isDisbursed: boolean | null;
+  dateDisbursed: Date | null;
+  company: companiesUser | null;
+  approvedAt: Date | null; // Primera transición a Aprobado en LoanStatusHistory
+  docsRejected: number; // Eventos DOCS_REJECT
+  amountChanges: number; // Eventos CHANGE_CANTITY
+}
+
+export interface AnalyticsMetrics {
+  applications: number;
+  approved: number;
+  deferred: number;
+  approvalRate: number | null;
+  deferralRate: number | null;
+  medianHoursToApproval: number | null;
+  medianHoursToDisbursement: number | null;
+  disbursedLoans: number;
+  disbursedAmount: number; // Pesos desembolsados en el periodo, por fecha de desembolso
+  amountChanges: number;
+  amountChangeRate: number | null; // Solicitudes con propuesta de nuevo monto
+  documentRejections: number;
+  documentRejectionRate: number | null; // Solicitudes con al menos un documento rechazado
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Calcula las métricas de un grupo de préstamos. Las solicitudes, tasas y tiempos se
+ * cuentan por fecha de creación; el desembolso por `dateDisbursed`, así un préstamo
+ * creado antes del rango sí suma al monto desembolsado dentro de él.
+ */
+export function computeMetrics(loans: AnalyticsLoan[], from: Date, to: Date): AnalyticsMetrics {
+  const created = loans.filter(loan => inRange(loan.created_at, from, to));
+  const disbursed = loans.filter(loan => loan.isDisbursed && loan.dateDisbursed && inRange(loan.dateDisbursed, from, to));
+
+  const approved = created.filter(loan => loan.status === 'Aprobado').length;
+  const deferred = created.filter(loan => loan.status === 'Aplazado').length;
+  const withAmountChange = created.filter(loan => loan.newCantity !== null || loan.amountChanges > 0).length;
+  const withRejectedDocs = created.filter(loan => loan.docsRejected > 0).length;
+
+  return {
+    applications: created.length,
+    approved,
+    deferred,
+    approvalRate: rate(approved, created.length),
+    deferralRate: rate(deferred, created.length),
+    medianHoursToApproval: median(created
+      .filter(loan => loan.approvedAt)
+      .map(loan => hoursBetween(loan.created_at, loan.approvedAt!))),
+    medianHoursToDisbursement: median(created
+      .filter(loan => loan.isDisbursed && loan.dateDisbursed)
+      .map(loan => hoursBetween(loan.created_at, loan.dateDisbursed!))),
+    disbursedLoans: disbursed.length,
+    disbursedAmount: disbursed.reduce((total, loan) => total + principalOf(loan), 0),
+    amountChanges: created.reduce((total, loan) => total + loan.amountChanges, 0),
+    amountChangeRate: rate(withAmountChange, created.length),
+    documentRejections: created.reduce((total, loan) => total + loan.docsRejected, 0),
+    documentRejectionRate: rate(withRejectedDocs, created.length),
+  };
+}
+
+// Periodos en UTC: día YYYY-MM-DD, semana por su lunes YYYY-MM-DD y mes YYYY-MM
+export function periodKey(date: Date, granularity: AnalyticsGranularity): string {
+  return periodStart(date, granularity).toISOString().slice(0, granularity === 'month' ? 7 : 10);
+}
+
+export function periodStart(date: Date, granularity: AnalyticsGranularity): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (granularity === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (granularity === 'month') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+}
+
+export function nextPeriod(start: Date, granularity: AnalyticsGranularity): Date {
+  const next = new Date(start);
+
+  if (granularity === 'day') next.setUTCDate(next.getUTCDate() + 1);
+  if (granularity === 'week') next.setUTCDate(next.getUTCDate() + 7);
+  if (granularity === 'month') next.setUTCMonth(next.getUTCMonth() + 1);
+
+  return next;
+}
+
+// Todos los periodos del rango, incluidos los que no tienen solicitudes
+export function periodsBetween(from: Date, to: Date, granularity: AnalyticsGranularity): { key: string; from: Date; to: Date }[] {
+  const periods: { key: string; from: Date; to: Date }[] = [];
+
+  for (let start = periodStart(from, granularity); start <= to; start = nextPeriod(start, granularity)) {
+    const end = new Date(nextPeriod(start, granularity).getTime() - 1);
+    periods.push({
+      key: periodKey(start, granularity),
+      from: start < from ? from : start,
+      to: end > to ? to : end,
+    });
+  }
+
+  return periods;
+}
+
+// Mismo criterio que LoanScheduleService.principalOf: el nuevo monto cuenta solo si el cliente lo aceptó
+function principalOf(loan: AnalyticsLoan): number {
+  return loan.newCantity && loan.newCantityOpt ? loan.newCantity : loan.cantity;
+}
+
+function inRange(date: Date, from: Date, to: Date): boolean {
+  return date >= from && date <= to;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 10000) / 10000 : null;
+}
+
+function hoursBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / HOUR_MS;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return Math.round(value * 10) / 10;
+}
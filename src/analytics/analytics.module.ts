@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsController } from './analytics.controller';
+
+@Module({
+  imports: [PrismaModule, ScheduleModule.forRoot(), IntranetRoleModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService, IntranetAuthGuard],
+})
+export class AnalyticsModule { }
@@ -0,0 +1,339 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { companiesUser, Prisma } from '@prisma/client';
+import { utils, write } from 'xlsx';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { fromRawLoanDocument } from 'src/loan/services/loan-listing';
+import {
+  ANALYTICS_GRANULARITIES,
+  AnalyticsGranularity,
+  AnalyticsLoan,
+  AnalyticsMetrics,
+  computeMetrics,
+  periodKey,
+  periodsBetween,
+} from './analytics.metrics';
+
+export interface AnalyticsQuery {
+  from?: string;
+  to?: string;
+  granularity?: string;
+  company?: string;
+}
+
+export interface AnalyticsFilters {
+  from: Date;
+  to: Date;
+  granularity: AnalyticsGranularity;
+  company: companiesUser | null;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  company: companiesUser | null;
+  computedAt: string;
+  totals: AnalyticsMetrics;
+  series: { period: string; metrics: AnalyticsMetrics }[];
+  // Sin filtro de empresa; "sin_empresa" agrupa a los clientes sin currentCompanie
+  byCompany: { company: companiesUser | 'sin_empresa'; metrics: AnalyticsMetrics }[];
+}
+
+interface CachedReport {
+  report: AnalyticsReport;
+  requestedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Los reportes en caché se recalculan cada hora; pasado este tiempo se calculan al pedirlos
+const CACHE_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+// Un reporte que nadie pidió en este tiempo sale de la caché en vez de recalcularse
+const CACHE_IDLE_MS = DAY_MS;
+const MAX_CACHED_REPORTS = 50;
+const MAX_PERIODS = 400;
+const DEFAULT_MONTHS = 12;
+
+const SERIES_HEADERS = [
+  'Periodo', 'Solicitudes', 'Aprobadas', 'Aplazadas', 'Tasa de aprobación', 'Tasa de aplazamiento',
+  'Mediana horas a aprobación', 'Mediana horas a desembolso', 'Desembolsos', 'Monto desembolsado',
+  'Cambios de monto', 'Tasa de cambio de monto', 'Rechazos de documentos', 'Tasa de rechazo de documentos',
+];
+
+@Injectable()
+export class AnalyticsService {
+  private logger = new Logger(AnalyticsService.name);
+  private cache = new Map<string, CachedReport>();
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  async report(query: AnalyticsQuery): Promise<AnalyticsReport> {
+    const filters = this.parseFilters(query);
+    const key = this.cacheKey(filters);
+    const cached = this.cache.get(key);
+
+    if (cached && Date.now() - Date.parse(cached.report.computedAt) < CACHE_MAX_AGE_MS) {
+      cached.requestedAt = Date.now();
+      return cached.report;
+    }
+
+    const report = await this.compute(filters);
+    this.store(key, { report, requestedAt: Date.now() });
+
+    return report;
+  }
+
+  async exportXlsx(query: AnalyticsQuery): Promise<{ buffer: Buffer; fileName: string; contentType: string }> {
+    const report = await this.report(query);
+
+    const row = (label: string, metrics: AnalyticsMetrics) => [
+      label,
+      metrics.applications,
+      metrics.approved,
+      metrics.deferred,
+      metrics.approvalRate ?? '',
+      metrics.deferralRate ?? '',
+      metrics.medianHoursToApproval ?? '',
+      metrics.medianHoursToDisbursement ?? '',
+      metrics.disbursedLoans,
+      metrics.disbursedAmount,
+      metrics.amountChanges,
+      metrics.amountChangeRate ?? '',
+      metrics.documentRejections,
+      metrics.documentRejectionRate ?? '',
+    ];
+
+    const summary = [
+      ['Desde', report.from],
+      ['Hasta', report.to],
+      ['Empresa', report.company ?? 'Todas'],
+      ['Calculado', report.computedAt],
+      [],
+      ['Empresa', ...SERIES_HEADERS.slice(1)],
+      row('Total', report.totals),
+      ...report.byCompany.map(({ company, metrics }) => row(company, metrics)),
+    ];
+
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet(summary), 'Resumen');
+    utils.book_append_sheet(
+      workbook,
+      utils.aoa_to_sheet([SERIES_HEADERS, ...report.series.map(({ period, metrics }) => row(period, metrics))]),
+      'Serie',
+    );
+
+    const buffer: Buffer = write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    return {
+      buffer,
+      fileName: `analitica_${report.from.slice(0, 10)}_${report.to.slice(0, 10)}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  /**
+   * Recalcula cada hora los reportes en caché y el reporte por defecto,
+   * para que el tablero no espere la agregación en cada consulta.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshCache() {
+    // El reporte por defecto avanza con la fecha, así que se calcula aunque no esté en caché
+    const defaults = this.parseFilters({});
+    const pending = new Map<string, { filters: AnalyticsFilters; requestedAt: number }>([
+      [this.cacheKey(defaults), { filters: defaults, requestedAt: this.cache.get(this.cacheKey(defaults))?.requestedAt ?? 0 }],
+    ]);
+
+    for (const [key, { report, requestedAt }] of this.cache) {
+      if (Date.now() - requestedAt > CACHE_IDLE_MS) {
+        this.cache.delete(key);
+        continue;
+      }
+
+      pending.set(key, {
+        filters: { from: new Date(report.from), to: new Date(report.to), granularity: report.granularity, company: report.company },
+        requestedAt,
+      });
+    }
+
+    let refreshed = 0;
+    for (const [key, { filters, requestedAt }] of pending) {
+      try {
+        this.store(key, { report: await this.compute(filters), requestedAt });
+        refreshed++;
+      } catch (error) {
+        this.logger.error(`Error al recalcular la analítica ${key}`, error);
+      }
+    }
+
+    this.logger.log(`Analítica recalculada: ${refreshed} reportes`, {
+      event: 'analytics_refreshed',
+      reports: refreshed,
+    });
+  }
+
+  private async compute(filters: AnalyticsFilters): Promise<AnalyticsReport> {
+    const loans = await this.loadLoans(filters);
+
+    const companies = [...new Set(loans.map(loan => loan.company ?? 'sin_empresa'))].sort();
+
+    // Cada préstamo va al periodo de su creación y al de su desembolso
+    const byPeriod = new Map<string, AnalyticsLoan[]>();
+    for (const loan of loans) {
+      const keys = new Set([periodKey(loan.created_at, filters.granularity)]);
+      if (loan.dateDisbursed) keys.add(periodKey(loan.dateDisbursed, filters.granularity));
+
+      for (const key of keys) {
+        const bucket = byPeriod.get(key);
+        if (bucket) bucket.push(loan);
+        else byPeriod.set(key, [loan]);
+      }
+    }
+
+    return {
+      from: filters.from.toISOString(),
+      to: filters.to.toISOString(),
+      granularity: filters.granularity,
+      company: filters.company,
+      computedAt: new Date().toISOString(),
+      totals: computeMetrics(loans, filters.from, filters.to),
+      series: periodsBetween(filters.from, filters.to, filters.granularity).map(period => ({
+        period: period.key,
+        metrics: computeMetrics(byPeriod.get(period.key) ?? [], period.from, period.to),
+      })),
+      byCompany: filters.company ? [] : companies.map(company => ({
+        company,
+        metrics: computeMetrics(loans.filter(loan => (loan.company ?? 'sin_empresa') === company), filters.from, filters.to),
+      })),
+    };
+  }
+
+  /**
+   * Trae en una sola agregación los préstamos creados o desembolsados en el rango,
+   * con la empresa del cliente, la primera aprobación y el conteo de eventos.
+   */
+  private async loadLoans(filters: AnalyticsFilters): Promise<AnalyticsLoan[]> {
+    const range = { $gte: { $date: filters.from.toISOString() }, $lte: { $date: filters.to.toISOString() } };
+
+    const pipeline: Prisma.InputJsonObject[] = [
+      { $match: { $or: [{ created_at: range }, { dateDisbursed: range }] } },
+      {
+        $lookup: {
+          from: 'User',
+          localField: 'userId',
+          foreignField: '_id',
+          as: 'user',
+          pipeline: [{ $project: { currentCompanie: 1 } }],
+        },
+      },
+      ...(filters.company ? [{ $match: { 'user.currentCompanie': filters.company } }] : []),
+      {
+        $lookup: {
+          from: 'LoanStatusHistory',
+          localField: '_id',
+          foreignField: 'loanId',
+          as: 'approvals',
+          pipeline: [
+            { $match: { toState: 'Aprobado' } },
+            { $sort: { created_at: 1 } },
+            { $limit: 1 },
+            { $project: { created_at: 1 } },
+          ],
+        },
+      },
+      {
+        $lookup: {
+          from: 'EventLoanApplication',
+          localField: '_id',
+          foreignField: 'loanId',
+          as: 'events',
+          pipeline: [{ $group: { _id: '$type', count: { $sum: 1 } } }],
+        },
+      },
+      {
+        $project: {
+          created_at: 1,
+          status: 1,
+          cantity: 1,
+          newCantity: 1,
+          newCantityOpt: 1,
+          isDisbursed: 1,
+          dateDisbursed: 1,
+          company: { $first: '$user.currentCompanie' },
+          approvedAt: { $first: '$approvals.created_at' },
+          events: 1,
+        },
+      },
+    ];
+
+    const rows = fromRawLoanDocument(await this.prisma.loanApplication.aggregateRaw({ pipeline })) as any[];
+
+    return rows.map(row => {
+      const eventCount = (type: string) => row.events?.find((event: any) => event.id === type)?.count ?? 0;
+
+      return {
+        created_at: row.created_at,
+        status: row.status,
+        cantity: row.cantity,
+        newCantity: row.newCantity ?? null,
+        newCantityOpt: row.newCantityOpt ?? null,
+        isDisbursed: row.isDisbursed ?? null,
+        dateDisbursed: row.dateDisbursed ?? null,
+        company: row.company ?? null,
+        approvedAt: row.approvedAt ?? null,
+        docsRejected: eventCount('DOCS_REJECT'),
+        amountChanges: eventCount('CHANGE_CANTITY'),
+      };
+    });
+  }
+
+  // Sin rango se toman los últimos doce meses completos más el actual, agrupados por mes
+  private parseFilters(query: AnalyticsQuery): AnalyticsFilters {
+    const granularity = (query.granularity ?? 'month') as AnalyticsGranularity;
+    if (!ANALYTICS_GRANULARITIES.includes(granularity)) {
+      throw new BadRequestException(`Agrupación inválida; use ${ANALYTICS_GRANULARITIES.join(', ')}`);
+    }
+
+    const company = (query.company ?? null) as companiesUser | null;
+    if (company && !Object.values(companiesUser).includes(company)) {
+      throw new BadRequestException('Empresa inválida');
+    }
+
+    const now = new Date();
+    const to = query.to
+      ? new Date(query.to)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) + DAY_MS - 1);
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - DEFAULT_MONTHS, 1));
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      throw new BadRequestException('Rango de fechas inválido');
+    }
+
+    // Una fecha sin hora como "hasta" incluye todo ese día
+    if (query.to && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+      to.setTime(to.getTime() + DAY_MS - 1);
+    }
+
+    if (periodsBetween(from, to, granularity).length > MAX_PERIODS) {
+      throw new BadRequestException(`El rango tiene más de ${MAX_PERIODS} periodos; use una agrupación mayor`);
+    }
+
+    return { from, to, granularity, company };
+  }
+
+  private cacheKey(filters: AnalyticsFilters): string {
+    return [filters.from.toISOString(), filters.to.toISOString(), filters.granularity, filters.company ?? '*'].join('|');
+  }
+
+  // Se descarta el reporte más antiguo al superar el límite
+  private store(key: string, entry: CachedReport) {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
+    if (this.cache.size > MAX_CACHED_REPORTS) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey) this.cache.delete(oldestKey);
+    }
+  }
+}
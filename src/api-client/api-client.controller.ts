@@ -0,0 +1,121 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuditEntity } from 'src/audit/decorators/audit-entity.decorator';
+import { ApiClientService } from './api-client.service';
+import { API_SCOPES, ApiScope } from './dto/api-client.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+
+@ApiTags('api-clients')
+@Controller('admin/api-clients')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@RequirePermission('api-client.manage')
+export class ApiClientController {
+  constructor(private readonly apiClients: ApiClientService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar los clientes de API y el último uso de sus llaves (permiso api-client.manage)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Clientes de API, sin sus llaves' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso api-client.manage' })
+  async list() {
+    return this.apiClients.list();
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Emitir una llave de API para un cliente máquina (permiso api-client.manage)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Nombre único del cliente, p. ej. whatsapp-bot' },
+        description: { type: 'string', description: 'Uso de la llave (opcional)' },
+        scopes: { type: 'array', items: { type: 'string', enum: [...API_SCOPES] }, description: 'Permisos de la llave' },
+        expiresAt: { type: 'string', format: 'date-time', description: 'Vencimiento de la llave (opcional)' },
+      },
+      required: ['name', 'scopes'],
+    },
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Cliente creado; la llave completa solo se muestra en esta respuesta' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso api-client.manage' })
+  @ApiBadRequestResponse({ description: 'Nombre repetido, permisos o vencimiento inválidos' })
+  async issue(
+    @Body('name') name: string,
+    @Body('scopes') scopes: ApiScope[],
+    @CurrentUser() user: any,
+    @Body('description') description?: string,
+    @Body('expiresAt') expiresAt?: string,
+  ) {
+    return this.apiClients.issue(
+      { name, description, scopes, expiresAt: expiresAt ? new Date(expiresAt) : null },
+      user.id,
+    );
+  }
+
+  @Post(':id/rotate')
+  @AuditEntity('apiClient')
+  @ApiOperation({ summary: 'Rotar la llave de un cliente de API (permiso api-client.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del cliente de API' })
+  @ApiBody({
+    required: false,
+    schema: {
+      type: 'object',
+      properties: {
+        graceHours: { type: 'number', description: 'Horas que la llave anterior sigue siendo válida (por defecto 0)' },
+      },
+    },
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Llave nueva; la completa solo se muestra en esta respuesta' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso api-client.manage' })
+  @ApiNotFoundResponse({ description: 'Cliente de API no encontrado' })
+  @ApiBadRequestResponse({ description: 'La llave está revocada o el periodo de gracia es inválido' })
+  async rotate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('graceHours') graceHours?: number,
+  ) {
+    return this.apiClients.rotate(id, graceHours !== undefined ? Number(graceHours) : 0);
+  }
+
+  @Post(':id/revoke')
+  @AuditEntity('apiClient')
+  @ApiOperation({ summary: 'Revocar la llave de un cliente de API (permiso api-client.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del cliente de API' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Llave revocada' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso api-client.manage' })
+  @ApiNotFoundResponse({ description: 'Cliente de API no encontrado' })
+  @ApiBadRequestResponse({ description: 'La llave ya estaba revocada' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.apiClients.revoke(id, user.id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ApiClientService } from './api-client.service';
+import { ApiClientController } from './api-client.controller';
+import { ApiKeyGuard } from 'src/auth/guards/api-key.guard';
+import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+
+// Los módulos que usan ApiKeyGuard importan este módulo para resolver sus dependencias
+@Module({
+  imports: [PrismaModule, IntranetRoleModule],
+  controllers: [ApiClientController],
+  providers: [
+    ApiClientService,
+    ApiKeyGuard,
+    ClientAuthGuard,
+    IntranetAuthGuard,
+    CombinedAuthGuard,
+  ],
+  exports: [ApiClientService, ApiKeyGuard, CombinedAuthGuard, IntranetRoleModule],
+})
+export class ApiClientModule { }
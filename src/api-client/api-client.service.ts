@@ -0,0 +1,202 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ApiClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  API_SCOPES,
+  ApiScope,
+  AuthenticatedApiClient,
+  IssueApiClientInput,
+  IssuedApiKey,
+  PublicApiClient,
+} from './dto/api-client.dto';
+
+const KEY_PREFIX = 'cya_';
+const KEY_BYTES = 32;
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// Escribir el último uso en cada petición satura la colección; basta con una vez por minuto
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+const MAX_GRACE_HOURS = 24 * 7;
+
+const PUBLIC_FIELDS = { keyHash: true, previousKeyHash: true } as const;
+
+@Injectable()
+export class ApiClientService {
+  private logger = new Logger(ApiClientService.name);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  async list(): Promise<PublicApiClient[]> {
+    return this.prisma.apiClient.findMany({
+      omit: PUBLIC_FIELDS,
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  async issue(input: IssueApiClientInput, issuedById: string): Promise<IssuedApiKey> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BadRequestException('El nombre del cliente de API es requerido');
+    }
+
+    const scopes = this.validateScopes(input.scopes);
+    const expiresAt = this.validateExpiry(input.expiresAt);
+
+    const existing = await this.prisma.apiClient.findUnique({ where: { name } });
+    if (existing) {
+      throw new BadRequestException(`Ya existe un cliente de API llamado ${name}`);
+    }
+
+    const apiKey = this.generateKey();
+    const client = await this.prisma.apiClient.create({
+      data: {
+        name,
+        description: input.description?.trim() || null,
+        scopes,
+        keyPrefix: apiKey.slice(0, VISIBLE_PREFIX_LENGTH),
+        keyHash: this.hash(apiKey),
+        expiresAt,
+        createdById: issuedById,
+      },
+      omit: PUBLIC_FIELDS,
+    });
+
+    this.logger.log(`Llave de API emitida para ${name} con permisos ${scopes.join(', ')}`);
+
+    return { client, apiKey };
+  }
+
+  /**
+   * Reemplaza la llave del cliente. Con graceHours > 0 la llave anterior sigue sirviendo
+   * ese tiempo, para que el servicio alcance a desplegar la nueva sin cortes.
+   */
+  async rotate(id: string, graceHours = 0): Promise<IssuedApiKey> {
+    const current = await this.findActive(id);
+
+    if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_GRACE_HOURS) {
+      throw new BadRequestException(`El periodo de gracia debe estar entre 0 y ${MAX_GRACE_HOURS} horas`);
+    }
+
+    const apiKey = this.generateKey();
+    const client = await this.prisma.apiClient.update({
+      where: { id },
+      data: {
+        keyPrefix: apiKey.slice(0, VISIBLE_PREFIX_LENGTH),
+        keyHash: this.hash(apiKey),
+        previousKeyHash: graceHours > 0 ? current.keyHash : null,
+        previousKeyExpiresAt: graceHours > 0 ? new Date(Date.now() + graceHours * 60 * 60 * 1000) : null,
+        rotatedAt: new Date(),
+      },
+      omit: PUBLIC_FIELDS,
+    });
+
+    this.logger.log(`Llave de API rotada para ${current.name}`);
+
+    return { client, apiKey };
+  }
+
+  async revoke(id: string, revokedById: string): Promise<PublicApiClient> {
+    const current = await this.findActive(id);
+
+    const client = await this.prisma.apiClient.update({
+      where: { id },
+      data: {
+        revokedAt: new Date(),
+        revokedById,
+        previousKeyHash: null,
+        previousKeyExpiresAt: null,
+      },
+      omit: PUBLIC_FIELDS,
+    });
+
+    this.logger.warn(`Llave de API revocada para ${current.name}`);
+
+    return client;
+  }
+
+  /**
+   * Busca el cliente dueño de la llave. Devuelve null si no existe, está revocada o vencida,
+   * sin distinguir el motivo para no dar pistas a quien prueba llaves.
+   */
+  async authenticate(apiKey: string, ip?: string): Promise<AuthenticatedApiClient | null> {
+    if (!apiKey.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const keyHash = this.hash(apiKey);
+    const now = new Date();
+
+    const client = await this.prisma.apiClient.findFirst({
+      where: {
+        OR: [
+          { keyHash },
+          { previousKeyHash: keyHash, previousKeyExpiresAt: { gt: now } },
+        ],
+      },
+    });
+
+    if (!client || client.revokedAt || (client.expiresAt && client.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!client.lastUsedAt || now.getTime() - client.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+      this.prisma.apiClient.update({
+        where: { id: client.id },
+        data: { lastUsedAt: now, lastUsedIp: ip ?? null },
+      }).catch(error => this.logger.error(`Error al registrar el uso de la llave de ${client.name}`, error));
+    }
+
+    return {
+      id: client.id,
+      name: client.name,
+      scopes: client.scopes.filter((scope): scope is ApiScope => (API_SCOPES as readonly string[]).includes(scope)),
+    };
+  }
+
+  private async findActive(id: string): Promise<ApiClient> {
+    const client = await this.prisma.apiClient.findUnique({ where: { id } });
+
+    if (!client) {
+      throw new NotFoundException(`Cliente de API con ID ${id} no encontrado`);
+    }
+
+    if (client.revokedAt) {
+      throw new BadRequestException(`La llave de ${client.name} ya fue revocada`);
+    }
+
+    return client;
+  }
+
+  private validateScopes(scopes: unknown): ApiScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new BadRequestException(`Debe indicar al menos un permiso: ${API_SCOPES.join(', ')}`);
+    }
+
+    const invalid = scopes.filter(scope => !(API_SCOPES as readonly string[]).includes(scope));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Permisos no válidos: ${invalid.join(', ')}`);
+    }
+
+    return [...new Set(scopes as ApiScope[])];
+  }
+
+  private validateExpiry(expiresAt: Date | string | null | undefined): Date | null {
+    if (!expiresAt) return null;
+
+    const date = new Date(expiresAt);
+    if (isNaN(date.getTime()) || date <= new Date()) {
+      throw new BadRequestException('La fecha de vencimiento debe ser una fecha futura válida');
+    }
+
+    return date;
+  }
+
+  private generateKey(): string {
+    return `${KEY_PREFIX}${randomBytes(KEY_BYTES).toString('base64url')}`;
+  }
+
+  // Las llaves son aleatorias de 256 bits, así que un SHA-256 basta y permite buscarlas por índice
+  private hash(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+}
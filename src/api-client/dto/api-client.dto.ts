@@ -0,0 +1,28 @@
+import { ApiClient } from '@prisma/client';
+
+export const API_SCOPES = ['mail:send', 'bot:tools', 'media:upload'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface IssueApiClientInput {
+  name: string;
+  description?: string | null;
+  scopes: ApiScope[];
+  expiresAt?: Date | null;
+}
+
+// Cliente sin los hashes de sus llaves
+export type PublicApiClient = Omit<ApiClient, 'keyHash' | 'previousKeyHash'>;
+
+// La llave completa solo viaja en esta respuesta; después no hay forma de recuperarla
+export interface IssuedApiKey {
+  client: PublicApiClient;
+  apiKey: string;
+}
+
+// Lo que queda en request.apiClient cuando la petición se autentica con llave
+export interface AuthenticatedApiClient {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+}
@@ -15,6 +15,15 @@ import { PdfsModule } from './pdfs/pdfs.module';
 import { PasswordResetModule } from './password-reset/password-reset.module';
 import { CustomLoggerService } from './services/logger.service';
 import { McpModule } from './mcp/mcp.module';
+import { SessionModule } from './session/session.module';
+import { SupportModule } from './support/support.module';
+import { WhatsappModule } from './whatsapp/whatsapp.module';
+import { AuditModule } from './audit/audit.module';
+import { StorageModule } from './storage/storage.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { ApiClientModule } from './api-client/api-client.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { IntranetRoleModule } from './intranet-role/intranet-role.module';
 
 @Module({
   imports: [
@@ -31,6 +40,15 @@ import { McpModule } from './mcp/mcp.module';
     PdfsModule,
     PasswordResetModule,
     McpModule,
+    SessionModule,
+    SupportModule,
+    WhatsappModule,
+    AuditModule,
+    StorageModule,
+    AnalyticsModule,
+    ApiClientModule,
+    RateLimitModule,
+    IntranetRoleModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,89 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  ParseIntPipe,
+  DefaultValuePipe,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { AuditService } from './audit.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+
+@ApiTags('audit')
+@Controller('admin/audit')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@RequirePermission('audit.view')
+export class AuditController {
+  constructor(private readonly audit: AuditService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Consultar el registro de auditoría (permiso audit.view)' })
+  @ApiQuery({ name: 'actorId', required: false, description: 'Usuario de intranet que hizo la acción' })
+  @ApiQuery({ name: 'entity', required: false, description: 'Entidad afectada, p. ej. loanApplication' })
+  @ApiQuery({ name: 'entityId', required: false, description: 'ID de la entidad afectada' })
+  @ApiQuery({ name: 'from', required: false, description: 'Fecha inicial (ISO)' })
+  @ApiQuery({ name: 'to', required: false, description: 'Fecha final (ISO)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 20 })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de registros de auditoría' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso audit.view' })
+  @ApiBadRequestResponse({ description: 'Rango de fechas inválido' })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(20), ParseIntPipe) pageSize: number,
+    @Query('actorId') actorId?: string,
+    @Query('entity') entity?: string,
+    @Query('entityId') entityId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.audit.findAll({ actorId, entity, entityId, from, to }, page, pageSize);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Exportar el registro de auditoría a XLSX (permiso audit.view)' })
+  @ApiQuery({ name: 'actorId', required: false, description: 'Usuario de intranet que hizo la acción' })
+  @ApiQuery({ name: 'entity', required: false, description: 'Entidad afectada, p. ej. loanApplication' })
+  @ApiQuery({ name: 'entityId', required: false, description: 'ID de la entidad afectada' })
+  @ApiQuery({ name: 'from', required: false, description: 'Fecha inicial (ISO)' })
+  @ApiQuery({ name: 'to', required: false, description: 'Fecha final (ISO)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Archivo XLSX' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso audit.view' })
+  @ApiBadRequestResponse({ description: 'Rango de fechas inválido o demasiados registros' })
+  async export(
+    @Res() res: Response,
+    @Query('actorId') actorId?: string,
+    @Query('entity') entity?: string,
+    @Query('entityId') entityId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const { buffer, fileName, contentType } = await this.audit.exportXlsx({ actorId, entity, entityId, from, to });
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    return res.send(buffer);
+  }
+}
@@ -0,0 +1,72 @@
+import { CallHandler, ExecutionContext, HttpException, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, from, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { AuditService } from './audit.service';
+import { AUDIT_ENTITY_KEY, AuditEntityOptions } from './decorators/audit-entity.decorator';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Registra en la auditoría toda petición de escritura hecha por un usuario de intranet.
+ * Se ejecuta después de los guards, así que request.user ya está resuelto. Si la ruta
+ * declara @AuditEntity se guarda además el diff de la entidad antes y después.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly audit: AuditService,
+  ) { }
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!MUTATING_METHODS.has(request.method) || user?.type !== 'intranet') {
+      return next.handle();
+    }
+
+    const target = this.reflector.get<AuditEntityOptions>(AUDIT_ENTITY_KEY, context.getHandler());
+    const entityId: string | undefined = target ? request.params?.[target.param] : undefined;
+    const before = target && entityId ? await this.audit.snapshot(target, entityId) : null;
+
+    const base = {
+      actorId: user.id,
+      actorEmail: user.email,
+      actorRole: user.rol,
+      method: request.method,
+      route: request.route?.path ?? request.path,
+      path: request.originalUrl ?? request.url,
+      entity: target?.model,
+      entityId,
+      before,
+      payload: request.body && Object.keys(request.body).length > 0 ? request.body : undefined,
+      ip: request.ip,
+    };
+
+    return next.handle().pipe(
+      mergeMap(data => from((async () => {
+        const after = target && entityId ? await this.audit.snapshot(target, entityId) : null;
+        await this.audit.record({
+          ...base,
+          after,
+          statusCode: context.switchToHttp().getResponse().statusCode,
+          success: true,
+        });
+        return data;
+      })())),
+      catchError(error => from(this.audit.record({
+        ...base,
+        after: before,
+        statusCode: error instanceof HttpException ? error.getStatus() : 500,
+        success: false,
+        error: error?.message,
+      })).pipe(mergeMap(() => throwError(() => error)))),
+    );
+  }
+}
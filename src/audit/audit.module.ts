@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './audit.interceptor';
+
+@Module({
+  imports: [PrismaModule, IntranetRoleModule],
+  controllers: [AuditController],
+  providers: [
+    AuditService,
+    IntranetAuthGuard,
+    // Interceptor global: audita las escrituras de intranet en todos los módulos
+    { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+  ],
+  exports: [AuditService],
+})
+export class AuditModule { }
@@ -0,0 +1,229 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { utils, write } from 'xlsx';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AuditEntityOptions } from './decorators/audit-entity.decorator';
+
+export interface AuditEntry {
+  actorId: string;
+  actorEmail?: string;
+  actorRole?: string;
+  method: string;
+  route: string;
+  path: string;
+  entity?: string;
+  entityId?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  payload?: any;
+  statusCode: number;
+  success: boolean;
+  error?: string;
+  ip?: string;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  entity?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+type AuditChanges = Record<string, { before: any; after: any }>;
+
+// Campos que nunca se guardan en la auditoría
+const SENSITIVE_KEY = /^(password|pin)$|token|secret|hash/i;
+// Campos que cambian en cada escritura y no aportan al diff
+const IGNORED_FIELDS = new Set(['updated_at', 'update_at']);
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 4;
+const MAX_EXPORT_ROWS = 10000;
+
+const EXPORT_HEADERS = ['Fecha', 'Usuario', 'Correo', 'Rol', 'Método', 'Ruta', 'Entidad', 'ID entidad', 'Cambios', 'Estado HTTP', 'Resultado', 'Error', 'IP'];
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Guarda un registro de auditoría. Nunca lanza: una falla al auditar
+   * no debe revertir ni ocultar la respuesta de la acción auditada.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      const changes = this.diff(entry.before ?? null, entry.after ?? null);
+
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: entry.actorId,
+          actorEmail: entry.actorEmail ?? null,
+          actorRole: entry.actorRole ?? null,
+          method: entry.method,
+          route: entry.route,
+          path: entry.path,
+          entity: entry.entity ?? null,
+          entityId: entry.entityId ?? null,
+          changes: changes ?? undefined,
+          payload: entry.payload === undefined ? undefined : this.sanitize(entry.payload),
+          statusCode: entry.statusCode,
+          success: entry.success,
+          error: entry.error?.slice(0, MAX_STRING_LENGTH) ?? null,
+          ip: entry.ip ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Error al guardar el registro de auditoría de ${entry.method} ${entry.path}`, error);
+    }
+  }
+
+  /**
+   * Estado actual de la entidad afectada por una ruta, sin campos sensibles
+   */
+  async snapshot(target: AuditEntityOptions, value: string): Promise<Record<string, any> | null> {
+    try {
+      const delegate = this.prisma[target.model] as any;
+      const entity = await delegate.findFirst({ where: { [target.lookup ?? 'id']: value } });
+      return entity ? this.sanitize(entity) : null;
+    } catch (error) {
+      this.logger.warn(`No se pudo leer ${target.model} ${value} para auditoría: ${error.message}`);
+      return null;
+    }
+  }
+
+  async findAll(filters: AuditFilters, page: number = 1, pageSize: number = 20) {
+    const where = this.buildWhere(filters);
+
+    const [total, data] = await Promise.all([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { created_at: 'desc' },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  async exportXlsx(filters: AuditFilters) {
+    const where = this.buildWhere(filters);
+    const total = await this.prisma.auditLog.count({ where });
+
+    if (total > MAX_EXPORT_ROWS) {
+      throw new BadRequestException(`La exportación supera ${MAX_EXPORT_ROWS} registros, ajuste los filtros`);
+    }
+
+    const logs = await this.prisma.auditLog.findMany({ where, orderBy: { created_at: 'desc' } });
+
+    const rows = logs.map(log => [
+      log.created_at.toISOString(),
+      log.actorId,
+      log.actorEmail ?? '',
+      log.actorRole ?? '',
+      log.method,
+      log.path,
+      log.entity ?? '',
+      log.entityId ?? '',
+      log.changes ? this.formatChanges(log.changes as AuditChanges) : '',
+      log.statusCode,
+      log.success ? 'Exitoso' : 'Fallido',
+      log.error ?? '',
+      log.ip ?? '',
+    ]);
+
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet([EXPORT_HEADERS, ...rows]), 'Auditoría');
+
+    const buffer: Buffer = write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    return {
+      buffer,
+      fileName: `auditoria_${new Date().toISOString().slice(0, 10)}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  private buildWhere(filters: AuditFilters): Prisma.AuditLogWhereInput {
+    const from = filters.from ? new Date(filters.from) : undefined;
+    const to = filters.to ? new Date(filters.to) : undefined;
+
+    if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+      throw new BadRequestException('Rango de fechas inválido');
+    }
+
+    return {
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.entity && { entity: filters.entity }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...((from || to) && {
+        created_at: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        },
+      }),
+    };
+  }
+
+  // Campos que cambiaron entre dos estados; en altas o bajas uno de los lados es null
+  private diff(before: Record<string, any> | null, after: Record<string, any> | null): AuditChanges | null {
+    if (!before && !after) {
+      return null;
+    }
+
+    const changes: AuditChanges = {};
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    for (const key of keys) {
+      if (IGNORED_FIELDS.has(key)) continue;
+
+      const previous = before?.[key] ?? null;
+      const current = after?.[key] ?? null;
+
+      if (JSON.stringify(previous) !== JSON.stringify(current)) {
+        changes[key] = { before: previous, after: current };
+      }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+  }
+
+  // Copia serializable sin datos sensibles y con textos y listas largas recortados (p. ej. imágenes base64)
+  private sanitize(value: any, depth: number = 0): any {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Buffer.isBuffer(value)) return `[buffer ${value.length} bytes]`;
+
+    if (typeof value === 'string') {
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, 100)}… (${value.length} caracteres)`
+        : value;
+    }
+
+    if (typeof value !== 'object') return value;
+    if (depth >= MAX_DEPTH) return '[…]';
+
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => this.sanitize(item, depth + 1));
+      if (value.length > MAX_ARRAY_ITEMS) items.push(`… (${value.length} elementos)`);
+      return items;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? '[oculto]' : this.sanitize(item, depth + 1),
+      ]),
+    );
+  }
+
+  private formatChanges(changes: AuditChanges): string {
+    return Object.entries(changes)
+      .map(([field, { before, after }]) => `${field}: ${JSON.stringify(before)} → ${JSON.stringify(after)}`)
+      .join('\n');
+  }
+}
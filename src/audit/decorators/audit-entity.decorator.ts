@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Modelos de Prisma que se pueden auditar con antes/después
+export type AuditableModel =
+  | 'loanApplication'
+  | 'user'
+  | 'usersIntranet'
+  | 'document'
+  | 'loanProduct'
+  | 'payrollDeductionBatch'
+  | 'emailOutbox'
+  | 'reportIssue'
+  | 'whatsappSession'
+  | 'apiClient'
+  | 'intranetRole';
+
+export interface AuditEntityOptions {
+  model: AuditableModel;
+  param: string; // Parámetro de la ruta con el ID de la entidad
+  lookup?: string; // Campo único por el que se busca, por defecto id
+}
+
+export const AUDIT_ENTITY_KEY = 'audit_entity';
+
+/**
+ * Indica qué entidad modifica la ruta para guardar su estado antes y después en la auditoría
+ */
+export const AuditEntity = (model: AuditableModel, param: string = 'id', lookup: string = 'id') =>
+  SetMetadata(AUDIT_ENTITY_KEY, { model, param, lookup } as AuditEntityOptions);
@@ -1,12 +1,13 @@
-import { Controller, Post, Body, UseGuards, Get, Res } from '@nestjs/common';
-import { AuthService } from './auth.service';
+import { Controller, Post, Body, UseGuards, Get, Res, Req, Logger } from '@nestjs/common';
+import { AUTH_COOKIES, AuthService } from './auth.service';
 import { LocalClientAuthGuard } from './guards/local-client-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { LocalIntranetAuthGuard } from './guards/local-intranet-auth.guard';
 import { ClientAuthGuard } from './guards/client-auth.guard';
 import { IntranetAuthGuard } from './guards/intranet-auth.guard';
 import { DevGuard } from './guards/dev.guard';
-import { Response } from 'express';
+import { Request, Response } from 'express';
+import { RateLimit } from 'src/rate-limit/decorators/rate-limit.decorator';
 import {
   ApiTags,
   ApiOperation,
@@ -14,19 +15,24 @@ import {
   ApiBody,
   ApiBearerAuth,
   ApiUnauthorizedResponse,
-  ApiBadRequestResponse
+  ApiBadRequestResponse,
+  ApiTooManyRequestsResponse
 } from '@nestjs/swagger';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
+  private logger = new Logger(AuthController.name);
+
   constructor(private authService: AuthService) { }
 
   @UseGuards(LocalClientAuthGuard)
   @Post('login/client')
+  @RateLimit('login')
   @ApiOperation({ summary: 'Iniciar sesión como cliente' })
   @ApiResponse({ status: 200, description: 'Login exitoso' })
   @ApiUnauthorizedResponse({ description: 'Credenciales inválidas' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados intentos; ver el encabezado Retry-After' })
   async loginClient(
     @CurrentUser() user,
     @Res({ passthrough: true }) response: Response,
@@ -42,9 +48,11 @@ export class AuthController {
   // AuthController - loginIntranet endpoint
   @UseGuards(LocalIntranetAuthGuard)
   @Post('login/intranet')
+  @RateLimit('login')
   @ApiOperation({ summary: 'Iniciar sesión como usuario de intranet' })
   @ApiResponse({ status: 200, description: 'Login exitoso' })
   @ApiUnauthorizedResponse({ description: 'Credenciales inválidas' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados intentos; ver el encabezado Retry-After' })
   async loginIntranet(
     @CurrentUser() user,
     @Res({ passthrough: true }) response: Response,
@@ -57,6 +65,31 @@ export class AuthController {
     }
   }
 
+  // El refresh token solo viaja en su cookie httpOnly; nunca se expone en el body
+  @Post('refresh/client')
+  @ApiOperation({ summary: 'Renovar el access token del cliente con el refresh token' })
+  @ApiResponse({ status: 200, description: 'Tokens renovados' })
+  @ApiUnauthorizedResponse({ description: 'Refresh token inválido, expirado o reutilizado' })
+  async refreshClient(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const refreshToken = request.cookies?.[AUTH_COOKIES.client.refresh];
+    return await this.authService.refreshClient(refreshToken, response);
+  }
+
+  @Post('refresh/intranet')
+  @ApiOperation({ summary: 'Renovar el access token del usuario de intranet con el refresh token' })
+  @ApiResponse({ status: 200, description: 'Tokens renovados' })
+  @ApiUnauthorizedResponse({ description: 'Refresh token inválido, expirado o reutilizado' })
+  async refreshIntranet(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const refreshToken = request.cookies?.[AUTH_COOKIES.intranet.refresh];
+    return await this.authService.refreshIntranet(refreshToken, response);
+  }
+
   // @UseGuards(LocalClientAuthGuard)
   @Post('register/client')
   @ApiOperation({ summary: 'Registrar nuevo cliente' })
@@ -103,61 +136,45 @@ export class AuthController {
     return this.authService.getIntranetProfile(user.id);
   }
 
-  // AuthController - logoutClient endpoint
-  @UseGuards(ClientAuthGuard)
+  // El logout no pasa por el guard de access token: si este expiró la sesión se
+  // identifica con el refresh token, y las cookies se limpian en cualquier caso
   @Post('logout/client')
   @ApiOperation({ summary: 'Cerrar sesión del cliente' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Sesión cerrada correctamente' })
-  @ApiUnauthorizedResponse({ description: 'No autenticado' })
   async logoutClient(
-    @CurrentUser() user,
+    @Req() request: Request,
     @Res({ passthrough: true }) response: Response
   ) {
     try {
-      // Also revoke the token if you implement a token blacklist
-      await this.authService.revokeToken(
-        user.id,
-        'client',
-        'creditoya_token',
-        response
-      );
-
+      await this.authService.logout('client', this.logoutTokens(request, 'client'), response);
       return { message: 'Sesión cerrada correctamente' };
     } catch (error) {
-      console.error('Error in client logout:', error);
+      this.logger.error('Error en el logout de cliente', error);
       throw error;
     }
   }
 
-  // AuthController - logoutIntranet endpoint
-  @UseGuards(IntranetAuthGuard)
   @Post('logout/intranet')
   @ApiOperation({ summary: 'Cerrar sesión del usuario de intranet' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Sesión cerrada correctamente' })
-  @ApiUnauthorizedResponse({ description: 'No autenticado' })
   async logoutIntranet(
-    @CurrentUser() user,
+    @Req() request: Request,
     @Res({ passthrough: true }) response: Response
   ) {
     try {
-      // Also revoke the token if you implement a token blacklist
-      await this.authService.revokeToken(
-        user.id,
-        'intranet',
-        'intranet_token',
-        response
-      );
+      await this.authService.logout('intranet', this.logoutTokens(request, 'intranet'), response);
       return { message: 'Sesión cerrada correctamente' };
     } catch (error) {
-      console.error('Error in intranet logout:', error);
+      this.logger.error('Error en el logout de intranet', error);
       throw error;
     }
   }
 
   // Enviar PIN de autenticación por email
   @Post('send-pin')
+  @RateLimit('pin-send')
   @ApiOperation({ summary: 'Enviar código PIN de autenticación por email' })
   @ApiBody({
     schema: {
@@ -170,12 +187,14 @@ export class AuthController {
   })
   @ApiResponse({ status: 200, description: 'Código enviado exitosamente' })
   @ApiBadRequestResponse({ description: 'Usuario no encontrado o cuenta suspendida' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados códigos solicitados; ver el encabezado Retry-After' })
   async sendAuthPin(@Body() body: { email: string }) {
     return await this.authService.sendAuthPin(body.email);
   }
 
   // Verificar PIN y autenticar
   @Post('verify-pin')
+  @RateLimit('pin-verify')
   @ApiOperation({ summary: 'Verificar código PIN y autenticar usuario' })
   @ApiBody({
     schema: {
@@ -189,10 +208,23 @@ export class AuthController {
   })
   @ApiResponse({ status: 200, description: 'Autenticación exitosa' })
   @ApiBadRequestResponse({ description: 'Código incorrecto, expirado o usuario no encontrado' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados intentos; ver el encabezado Retry-After' })
   async verifyAuthPin(
     @Body() body: { email: string; pin: string },
     @Res({ passthrough: true }) response: Response
   ) {
     return await this.authService.verifyAuthPin(body.email, body.pin, response);
   }
-}
\ No newline at end of file
+
+  // Tokens con los que el logout ubica la sesión: las cookies o, sin ellas, el header Authorization
+  private logoutTokens(request: Request, userType: 'client' | 'intranet') {
+    const cookies = AUTH_COOKIES[userType];
+    const header = request.headers?.authorization;
+
+    return {
+      refreshToken: request.cookies?.[cookies.refresh],
+      accessToken: request.cookies?.[cookies.access]
+        ?? (header?.startsWith('Bearer ') ? header.slice(7) : undefined),
+    };
+  }
+}
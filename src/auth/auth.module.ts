@@ -14,6 +14,10 @@ import { ClientModule } from 'src/client/client.module';
 import { MailModule } from 'src/mail/mail.module';
 import { GoogleCloudModule } from 'src/gcp/gcp.module';
 import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
+import { SessionModule } from 'src/session/session.module';
+import { SearchModule } from 'src/search/search.module';
+import { DocumentHistoryModule } from 'src/document-history/document-history.module';
+import { OtpModule } from 'src/otp/otp.module';
 
 @Module({
   imports: [
@@ -33,7 +37,11 @@ import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
     ClientModule,
     MailModule,
     GoogleCloudModule,
-    CloudinaryModule
+    CloudinaryModule,
+    SessionModule,
+    SearchModule,
+    DocumentHistoryModule,
+    OtpModule,
   ],
   controllers: [AuthController],
   providers: [
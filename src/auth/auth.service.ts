@@ -2,10 +2,22 @@ import { Injectable, UnauthorizedException, Logger, ConflictException, BadReques
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
 import * as bcrypt from 'bcryptjs';
-import { User, UsersIntranet } from '@prisma/client';
+import { SessionUserType, User, UsersIntranet } from '@prisma/client';
 import { ClientService } from 'src/client/client.service';
 import { Response } from 'express';
-import { MailService } from 'src/mail/mail.service';
+import { OtpService } from 'src/otp/otp.service';
+import {
+  ACCESS_TOKEN_TTL,
+  ACCESS_TOKEN_TTL_MS,
+  SESSION_TTL_MS,
+  SessionService
+} from 'src/session/session.service';
+
+// Cookies de acceso y de refresh por tipo de usuario
+export const AUTH_COOKIES: Record<SessionUserType, { access: string; refresh: string }> = {
+  client: { access: 'creditoya_token', refresh: 'creditoya_refresh' },
+  intranet: { access: 'intranet_token', refresh: 'intranet_refresh' },
+};
 
 @Injectable()
 export class AuthService {
@@ -15,7 +27,8 @@ export class AuthService {
     private prisma: PrismaService,
     private jwtService: JwtService,
     private clientService: ClientService,
-    private mailService: MailService,
+    private otpService: OtpService,
+    private sessionService: SessionService,
   ) { }
 
   // Para usuarios normales (clientes)
@@ -152,30 +165,9 @@ export class AuthService {
         type: 'client'
       };
 
-      const token = this.jwtService.sign(payload);
-
-      // Set cookie with improved error handling
-      if (response && typeof response.cookie === 'function') {
-        try {
-          response.cookie('creditoya_token', token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 86400000, // 24 hours
-            path: '/',
-            sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax'
-          });
-          
-          this.logger.debug('Cookie de cliente establecida correctamente', { 
-            userId: user.id,
-            cookieName: 'creditoya_token'
-          });
-        } catch (error) {
-          this.logger.error('Error estableciendo cookie de cliente', error, { 
-            userId: user.id,
-            cookieName: 'creditoya_token'
-          });
-        }
-      }
+      // Cada token queda ligado a una sesión para poder revocarlo
+      const session = await this.sessionService.create(user.id, 'client', this.requestMeta(response));
+      const accessToken = await this.issueTokens(payload, session.id, 'client', response);
 
       this.logger.debug('Login de cliente exitoso', { 
         userId: user.id,
@@ -193,7 +185,7 @@ export class AuthService {
           secondLastName: user.secondLastName,
           avatar: user.avatar,
         },
-        accessToken: token,
+        accessToken,
       };
     } catch (error) {
       this.logger.error('Error durante login de cliente', error, { 
@@ -221,30 +213,8 @@ export class AuthService {
         type: 'intranet'
       };
 
-      const token = this.jwtService.sign(payload);
-
-      // Set cookie consistently with client login
-      if (response && typeof response.cookie === 'function') {
-        try {
-          response.cookie('intranet_token', token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 86400000, // 24 hours
-            path: '/',
-            sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax'
-          });
-          
-          this.logger.debug('Cookie de intranet establecida correctamente', { 
-            userId: user.id,
-            cookieName: 'intranet_token'
-          });
-        } catch (error) {
-          this.logger.error('Error estableciendo cookie de intranet', error, { 
-            userId: user.id,
-            cookieName: 'intranet_token'
-          });
-        }
-      }
+      const session = await this.sessionService.create(user.id, 'intranet', this.requestMeta(response));
+      const accessToken = await this.issueTokens(payload, session.id, 'intranet', response);
 
       this.logger.debug('Login de intranet exitoso', { 
         userId: user.id,
@@ -263,7 +233,7 @@ export class AuthService {
           avatar: user.avatar,
           rol: user.rol,
         },
-        accessToken: token,
+        accessToken,
       };
     } catch (error) {
       this.logger.error('Error durante login de intranet', error, { 
@@ -275,59 +245,207 @@ export class AuthService {
     }
   }
 
-  // Revocar token (logout)
-  async revokeToken(
-    userId: string,
-    userType: 'client' | 'intranet',
-    cookieApp: 'creditoya_token' | 'intranet_token',
+  /**
+   * Cierra la sesión (logout). No exige un access token vigente: la sesión se ubica con el
+   * refresh token o, en su defecto, con el access token aunque haya expirado. Las cookies
+   * se limpian siempre, incluso si ninguno de los tokens es válido.
+   */
+  async logout(
+    userType: SessionUserType,
+    tokens: { refreshToken?: string; accessToken?: string },
     response: Response
   ): Promise<void> {
-    this.logger.debug('Iniciando revocación de token', { 
-      userId,
-      userType,
-      cookieApp
-    });
+    let sessionId: string | null = null;
 
     try {
-      // Token revocation would need to be implemented differently without Redis
-      // Consider using a database table to track revoked tokens or implementing
-      // a shorter token expiration with refresh tokens
-      
-      // Clear cookie
-      response.clearCookie(cookieApp, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        path: '/',
-        sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax'
-      });
+      if (tokens.refreshToken) {
+        sessionId = await this.sessionService.revokeByRefreshToken(tokens.refreshToken, userType, 'logout');
+      }
 
-      this.logger.debug('Token revocado exitosamente', { 
-        userId,
+      if (!sessionId && tokens.accessToken) {
+        const payload = this.verifyIgnoringExpiration(tokens.accessToken);
+        if (payload?.jti && payload.type === userType) {
+          await this.sessionService.revoke(payload.jti, 'logout');
+          sessionId = payload.jti;
+        }
+      }
+
+      this.logger.debug('Sesión cerrada', {
         userType,
-        cookieApp,
+        sessionId,
         action: 'logout'
       });
     } catch (error) {
-      this.logger.error('Error revocando token', error, { 
-        userId,
+      this.logger.error('Error revocando la sesión en logout', error, {
         userType,
-        cookieApp,
-        operation: 'revokeToken'
+        operation: 'logout'
       });
       throw error;
+    } finally {
+      const cookies = AUTH_COOKIES[userType];
+      response.clearCookie(cookies.access, this.cookieOptions());
+      response.clearCookie(cookies.refresh, this.cookieOptions());
+    }
+  }
+
+  // Renovar tokens de cliente con el refresh token
+  async refreshClient(refreshToken: string, response?: Response) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotateRefreshToken(refreshToken, 'client');
+
+    const user = await this.prisma.user.findUnique({ where: { id: session.userId } });
+
+    if (!user || user.isBan) {
+      await this.sessionService.revoke(session.id, user ? 'ban' : 'killed');
+      this.logger.warn('Renovación de token rechazada para cliente', {
+        userId: session.userId,
+        sessionId: session.id,
+        reason: user ? 'user_banned' : 'user_not_found'
+      });
+      throw new UnauthorizedException('La sesión ha expirado, inicie sesión nuevamente');
     }
+
+    const accessToken = this.signAccessToken(
+      { sub: user.id, email: user.email, type: 'client' },
+      session.id,
+    );
+    this.setAuthCookies(response, 'client', accessToken, nextRefreshToken, user.id);
+
+    this.logger.debug('Tokens de cliente renovados', {
+      userId: user.id,
+      sessionId: session.id,
+      rotationCount: session.rotationCount + 1
+    });
+
+    return { accessToken };
+  }
+
+  // Renovar tokens de intranet con el refresh token
+  async refreshIntranet(refreshToken: string, response?: Response) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotateRefreshToken(refreshToken, 'intranet');
+
+    const user = await this.prisma.usersIntranet.findUnique({ where: { id: session.userId } });
+
+    if (!user || !user.isActive) {
+      await this.sessionService.revoke(session.id, user ? 'deactivated' : 'killed');
+      this.logger.warn('Renovación de token rechazada para usuario intranet', {
+        userId: session.userId,
+        sessionId: session.id,
+        reason: user ? 'user_inactive' : 'user_not_found'
+      });
+      throw new UnauthorizedException('La sesión ha expirado, inicie sesión nuevamente');
+    }
+
+    // El rol se vuelve a leer para que un cambio de rol aplique en la siguiente renovación
+    const accessToken = this.signAccessToken(
+      { sub: user.id, email: user.email, rol: user.rol, type: 'intranet' },
+      session.id,
+    );
+    this.setAuthCookies(response, 'intranet', accessToken, nextRefreshToken, user.id);
+
+    this.logger.debug('Tokens de intranet renovados', {
+      userId: user.id,
+      sessionId: session.id,
+      rotationCount: session.rotationCount + 1
+    });
+
+    return { accessToken };
   }
 
-  // Verificar si un token está en la lista negra
-  async isTokenRevoked(userId: string, userType: 'client' | 'intranet'): Promise<boolean> {
+  // Verificar si la sesión de un token fue revocada o expiró
+  async isTokenRevoked(sessionId: string, userId: string, userType: 'client' | 'intranet'): Promise<boolean> {
     this.logger.debug('Verificando si token está revocado', { 
+      sessionId,
       userId,
       userType
     });
 
-    // Without Redis, you would need to implement this differently
-    // For now, assume tokens are always valid (not revoked)
-    return false;
+    return !(await this.sessionService.isActive(sessionId, userId, userType));
+  }
+
+  // Genera el par de tokens de una sesión nueva y los deja en cookies. Solo se devuelve el
+  // access token: el refresh token vive únicamente en su cookie httpOnly, fuera del alcance de scripts
+  private async issueTokens(
+    payload: Record<string, any>,
+    sessionId: string,
+    userType: SessionUserType,
+    response?: any
+  ): Promise<string> {
+    const accessToken = this.signAccessToken(payload, sessionId);
+    const refreshToken = await this.sessionService.issueRefreshToken(sessionId);
+
+    this.setAuthCookies(response, userType, accessToken, refreshToken, payload.sub);
+
+    return accessToken;
+  }
+
+  // El logout acepta tokens expirados; la firma se sigue validando
+  private verifyIgnoringExpiration(token: string): { sub?: string; jti?: string; type?: string } | null {
+    try {
+      return this.jwtService.verify(token, { ignoreExpiration: true });
+    } catch {
+      return null;
+    }
+  }
+
+  private signAccessToken(payload: Record<string, any>, sessionId: string): string {
+    return this.jwtService.sign(payload, { jwtid: sessionId, expiresIn: ACCESS_TOKEN_TTL });
+  }
+
+  private setAuthCookies(
+    response: any,
+    userType: SessionUserType,
+    accessToken: string,
+    refreshToken: string,
+    userId: string
+  ): void {
+    if (!response || typeof response.cookie !== 'function') {
+      return;
+    }
+
+    const cookies = AUTH_COOKIES[userType];
+
+    try {
+      response.cookie(cookies.access, accessToken, {
+        ...this.cookieOptions(),
+        maxAge: ACCESS_TOKEN_TTL_MS,
+      });
+      response.cookie(cookies.refresh, refreshToken, {
+        ...this.cookieOptions(),
+        maxAge: SESSION_TTL_MS,
+      });
+
+      this.logger.debug('Cookies de autenticación establecidas correctamente', {
+        userId,
+        cookieName: cookies.access
+      });
+    } catch (error) {
+      this.logger.error('Error estableciendo cookies de autenticación', error, {
+        userId,
+        cookieName: cookies.access
+      });
+    }
+  }
+
+  private cookieOptions() {
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      sameSite: (process.env.NODE_ENV === 'production' ? 'none' : 'lax') as 'none' | 'lax'
+    };
+  }
+
+  // IP y user agent de la petición de login, para identificar la sesión
+  private requestMeta(response?: any): { ip?: string; userAgent?: string } {
+    const req = response?.req;
+    if (!req) return {};
+
+    return {
+      ip: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    };
   }
 
   // Hash de contraseñas para registro
@@ -505,14 +623,6 @@ export class AuthService {
     return loginResult;
   }
 
-  // Generar PIN de 6 dígitos
-  private generatePin(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  }
-
-  // Mapa temporal para almacenar PINs (en producción usar Redis o similar)
-  private pinStore = new Map<string, { pin: string; expiry: Date }>();
-
   // Enviar PIN por email para autenticación (solo clientes)
   async sendAuthPin(email: string): Promise<{ success: boolean; message: string }> {
     this.logger.debug('Iniciando envío de PIN de autenticación', { email });
@@ -534,25 +644,14 @@ export class AuthService {
         throw new BadRequestException('Su cuenta ha sido suspendida');
       }
 
-      // Generar PIN
-      const pin = this.generatePin();
-      const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutos
-
-      // Guardar PIN en memoria temporal
-      this.pinStore.set(email, { pin, expiry: pinExpiry });
-
-      // Enviar email con el PIN
-      await this.mailService.sendCustomEmail({
-        email: user.email,
-        subject: 'Código de autenticación - CreditoYa',
-        message: `Su código de autenticación es: ${pin}\n\nEste código expira en 10 minutos.\n\nSi no solicitó este código, ignore este mensaje.`,
-        files: []
+      const { expiresAt } = await this.otpService.issue('client-login', user.email, {
+        destination: user.email,
       });
 
       this.logger.debug('PIN de autenticación enviado exitosamente', {
         userId: user.id,
         email: user.email,
-        pinExpiry: pinExpiry.toISOString()
+        pinExpiry: expiresAt.toISOString()
       });
 
       return {
@@ -588,29 +687,8 @@ export class AuthService {
         throw new BadRequestException('Usuario no encontrado');
       }
 
-      // Obtener PIN almacenado
-      const storedPinData = this.pinStore.get(email);
-
-      if (!storedPinData) {
-        this.logger.warn('No hay PIN almacenado para este email', { email, userId: user.id });
-        throw new BadRequestException('Debe solicitar un código de autenticación primero');
-      }
-
-      // Verificar PIN
-      if (storedPinData.pin !== pin) {
-        this.logger.warn('PIN incorrecto', { email, userId: user.id });
-        throw new BadRequestException('Código de autenticación incorrecto');
-      }
-
-      // Verificar expiración
-      if (storedPinData.expiry < new Date()) {
-        this.logger.warn('PIN expirado', { email, userId: user.id });
-        this.pinStore.delete(email); // Limpiar PIN expirado
-        throw new BadRequestException('Código de autenticación expirado');
-      }
-
-      // Limpiar PIN usado
-      this.pinStore.delete(email);
+      // Valida el PIN y gasta un intento; lanza BadRequestException si no sirve
+      await this.otpService.verify('client-login', user.email, pin);
 
       // Realizar login automático
       const loginResult = await this.loginClient(user, response);
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from 'src/api-client/dto/api-client.dto';
+
+export const API_SCOPES_KEY = 'api_scopes';
+
+/**
+ * Permisos que debe tener la llave de API para usar la ruta (ver ApiKeyGuard)
+ */
+export const ApiScopes = (...scopes: ApiScope[]) => SetMetadata(API_SCOPES_KEY, scopes);
@@ -0,0 +1,8 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+// Empresas que puede atender el usuario según su rol (null = todas). Lo llena PermissionsGuard
+export const CompanyScope = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    return ctx.switchToHttp().getRequest().companyScope ?? null;
+  },
+);
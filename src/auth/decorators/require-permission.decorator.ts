@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission, ScopedModel } from 'src/intranet-role/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+export interface PermissionRequirement {
+  permissions: Permission[];
+  // Entidad de la ruta que debe pertenecer a una empresa del rol
+  scope?: { model: ScopedModel; param: string };
+}
+
+/**
+ * Exige permisos del rol del usuario de intranet. Con `scope`, además verifica que el
+ * préstamo, cliente o lote de nómina de la ruta sea de una empresa que el rol puede atender.
+ */
+export const RequirePermission = (
+  permissions: Permission | Permission[],
+  scope?: PermissionRequirement['scope'],
+) =>
+  SetMetadata(PERMISSIONS_KEY, {
+    permissions: Array.isArray(permissions) ? permissions : [permissions],
+    scope,
+  } as PermissionRequirement);
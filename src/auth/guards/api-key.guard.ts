@@ -0,0 +1,57 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiClientService } from 'src/api-client/api-client.service';
+import { ApiScope } from 'src/api-client/dto/api-client.dto';
+import { API_SCOPES_KEY } from '../decorators/api-scopes.decorator';
+import { CombinedAuthGuard } from './combined-auth.guard';
+import { PermissionsGuard } from './permissions.guard';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Acepta peticiones de clientes máquina con la cabecera x-api-key y los permisos de @ApiScopes.
+ * Sin cabecera se comporta como CombinedAuthGuard más PermissionsGuard, así las sesiones de
+ * clientes e intranet siguen entrando a la misma ruta.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiClients: ApiClientService,
+    private combinedGuard: CombinedAuthGuard,
+    private permissionsGuard: PermissionsGuard,
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const apiKey = request.headers[API_KEY_HEADER];
+
+    if (!apiKey) {
+      const authenticated = await this.combinedGuard.canActivate(context);
+      return authenticated && this.permissionsGuard.canActivate(context);
+    }
+
+    const client = await this.apiClients.authenticate(String(apiKey), request.ip);
+    if (!client) {
+      throw new UnauthorizedException('Llave de API inválida, vencida o revocada');
+    }
+
+    const required = this.reflector.getAllAndOverride<ApiScope[]>(API_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]) ?? [];
+
+    // Una ruta sin @ApiScopes no queda abierta a cualquier llave válida
+    if (required.length === 0) {
+      throw new ForbiddenException('Esta ruta no acepta llaves de API');
+    }
+
+    const missing = required.filter(scope => !client.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`La llave de API no tiene los permisos: ${missing.join(', ')}`);
+    }
+
+    request.apiClient = client;
+    return true;
+  }
+}
@@ -0,0 +1,54 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IntranetRoleService } from 'src/intranet-role/intranet-role.service';
+import { PERMISSIONS_KEY, PermissionRequirement } from '../decorators/require-permission.decorator';
+
+/**
+ * Verifica los permisos del rol del usuario de intranet. Va después de IntranetAuthGuard,
+ * que es quien deja el usuario en la petición. Deja en request.companyScope las empresas
+ * que puede atender para que los listados las filtren.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly roles: IntranetRoleService,
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.getAllAndOverride<PermissionRequirement>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requirement) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const access = await this.roles.accessFor(request.user);
+
+    if (!access) {
+      throw new ForbiddenException('Su usuario no tiene un rol de intranet válido');
+    }
+
+    const missing = requirement.permissions.filter(permission => !access.permissions.has(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Requiere el permiso ${missing.join(', ')}`);
+    }
+
+    request.companyScope = access.companies;
+
+    const id = requirement.scope ? request.params?.[requirement.scope.param] : undefined;
+    if (requirement.scope && access.companies && id) {
+      const company = await this.roles.companyOf(requirement.scope.model, id);
+
+      // Si la entidad no existe, el handler responde el 404
+      if (company !== undefined && !this.roles.inScope(access, company)) {
+        throw new ForbiddenException('El cliente pertenece a una empresa que su rol no atiende');
+      }
+    }
+
+    return true;
+  }
+}
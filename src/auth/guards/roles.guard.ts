@@ -1,27 +0,0 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
-
-@Injectable()
-export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
-
-  canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.getAllAndOverride<string[]>('roles', [
-      context.getHandler(),
-      context.getClass(),
-    ]);
-    
-    if (!requiredRoles) {
-      return true;
-    }
-    
-    const { user } = context.switchToHttp().getRequest();
-    
-    // Si no es usuario de intranet, no tiene roles
-    if (user.type !== 'intranet') {
-      return false;
-    }
-    
-    return requiredRoles.some(role => user.rol === role);
-  }
-}
\ No newline at end of file
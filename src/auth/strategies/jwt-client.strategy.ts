@@ -2,11 +2,15 @@ import { Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { SessionService } from 'src/session/session.service';
 import { Request } from 'express';
 
 @Injectable()
 export class JwtClientStrategy extends PassportStrategy(Strategy, 'jwt-client') {
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private sessions: SessionService,
+  ) {
     super({
       // Usar una función que extraiga el token tanto de cookies como del header Authorization
       jwtFromRequest: (req) => {
@@ -53,10 +57,16 @@ export class JwtClientStrategy extends PassportStrategy(Strategy, 'jwt-client')
       throw new UnauthorizedException();
     }
 
+    // El token debe pertenecer a una sesión vigente (no cerrada ni revocada)
+    if (!(await this.sessions.isActive(payload.jti, payload.sub, 'client'))) {
+      throw new UnauthorizedException('La sesión ha sido cerrada');
+    }
+
     return {
       id: payload.sub,
       email: payload.email,
-      type: 'client'
+      type: 'client',
+      sessionId: payload.jti
     };
   }
 }
\ No newline at end of file
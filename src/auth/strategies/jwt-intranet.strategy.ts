@@ -2,11 +2,15 @@ import { Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { SessionService } from 'src/session/session.service';
 import { Request } from 'express';
 
 @Injectable()
 export class JwtIntranetStrategy extends PassportStrategy(Strategy, 'jwt-intranet') {
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private sessions: SessionService,
+  ) {
     super({
       // Match the approach used in JwtClientStrategy
       jwtFromRequest: (req) => {
@@ -45,11 +49,16 @@ export class JwtIntranetStrategy extends PassportStrategy(Strategy, 'jwt-intrane
       throw new UnauthorizedException();
     }
 
+    if (!(await this.sessions.isActive(payload.jti, payload.sub, 'intranet'))) {
+      throw new UnauthorizedException('La sesión ha sido cerrada');
+    }
+
     return {
       id: payload.sub,
       email: payload.email,
-      rol: payload.rol,
-      type: 'intranet'
+      rol: user.rol, // El de la base, no el del token: un cambio de rol aplica sin volver a iniciar sesión
+      type: 'intranet',
+      sessionId: payload.jti
     };
   }
 }
@@ -1,9 +1,11 @@
-import { Controller, Post, Get, Body, Param, UseGuards, Logger } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, UseGuards, Logger, Ip } from '@nestjs/common';
 import { BackupService } from './backup.service';
+import { RestoreBackupOptions } from './dto/create-backup.dto';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
-import { RolesGuard } from 'src/auth/guards/roles.guard';
-import { Roles } from 'src/auth/decorators/roles.decorator';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
 import {
   ApiTags,
   ApiOperation,
@@ -24,45 +26,103 @@ export class BackupController {
 
   constructor(private readonly databaseBackupService: BackupService) {}
 
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('backup.manage')
   @Post('backup')
-  @ApiOperation({ summary: 'Crear backup manual de la base de datos' })
+  @ApiOperation({ summary: 'Crear backup manual de la base de datos (permiso backup.manage)' })
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Backup creado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso backup.manage' })
   @ApiBadRequestResponse({ description: 'Error al crear el backup' })
   async createBackup() {
     this.logger.log('Solicitud de backup manual recibida');
     return this.databaseBackupService.createBackupNow();
   }
 
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('backup.manage')
   @Get('backups')
-  @ApiOperation({ summary: 'Listar todos los backups disponibles' })
+  @ApiOperation({ summary: 'Listar todos los backups disponibles (permiso backup.manage)' })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Lista de backups disponibles' })
+  @ApiResponse({ status: 200, description: 'Lista de backups disponibles y resultado de la última verificación' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso backup.manage' })
   async listBackups() {
     this.logger.log('Solicitud para listar backups recibida');
     return this.databaseBackupService.listAvailableBackups();
   }
 
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('backup.manage')
+  @Post('backups/verify')
+  @ApiOperation({ summary: 'Verificar un backup contra su manifiesto (permiso backup.manage)' })
+  @ApiBody({ required: false, schema: { type: 'object', properties: { backupPath: { type: 'string', description: 'Ruta del backup; por defecto el más reciente' } } } })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Resultado de la verificación por colección' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso backup.manage' })
+  async verifyBackup(@Body() body?: { backupPath?: string }) {
+    this.logger.log(`Solicitud para verificar backup: ${body?.backupPath ?? 'el más reciente'}`);
+    return body?.backupPath
+      ? this.databaseBackupService.verifyBackup(body.backupPath)
+      : this.databaseBackupService.verifyLatestBackup();
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('backup.restore')
   @Post('restore')
-  @ApiOperation({ summary: 'Restaurar base de datos desde un backup' })
-  @ApiBody({ schema: { type: 'object', properties: { backupPath: { type: 'string', description: 'Ruta del archivo de backup' } } } })
+  @ApiOperation({
+    summary: 'Restaurar base de datos desde un backup (permiso backup.restore)',
+    description: 'Sin colecciones ni documentos restaura todo el backup. Antes de escribir guarda una copia de las colecciones afectadas en database_backups/safety/. Las colecciones de auditoría y seguridad (AuditLog, AuthSession, ApiClient, OneTimeCode, RateLimitCounter) nunca se restauran.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['backupPath'],
+      properties: {
+        backupPath: { type: 'string', description: 'Ruta del archivo de backup' },
+        dryRun: { type: 'boolean', description: 'Solo reportar por colección qué se insertaría, cambiaría o eliminaría' },
+        collections: { type: 'array', items: { type: 'string' }, description: 'Reemplazar solo estas colecciones', example: ['LoanProduct'] },
+        documents: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+          description: 'Colección -> ids de los documentos a restaurar',
+          example: { LoanApplication: ['3f0c2d9e-...'] },
+        },
+        userId: { type: 'string', description: 'Restaurar un cliente con sus documentos, solicitudes y los registros de sus préstamos' },
+      },
+    },
+  })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Base de datos restaurada exitosamente' })
+  @ApiResponse({ status: 200, description: 'Resultado por colección y ruta de la copia previa' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso backup.restore' })
   @ApiBadRequestResponse({ description: 'Archivo de backup no válido o error en restauración' })
-  async restoreBackup(@Body() body: { backupPath: string }) {
-    this.logger.log(`Solicitud para restaurar backup: ${body.backupPath}`);
-    return this.databaseBackupService.restoreFromBackup(body.backupPath);
+  async restoreBackup(
+    @Body() body: RestoreBackupOptions,
+    @CurrentUser() user: any,
+    @Ip() ip: string,
+  ) {
+    this.logger.log(`Solicitud para restaurar backup: ${body.backupPath}${body.dryRun ? ' (simulación)' : ''}`);
+    return this.databaseBackupService.restoreFromBackup({
+      backupPath: body.backupPath,
+      dryRun: body.dryRun === true || String(body.dryRun) === 'true',
+      collections: body.collections,
+      documents: body.documents,
+      userId: body.userId,
+    }, { id: user.id, email: user.email, rol: user.rol, ip });
   }
 
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('backup.manage')
   @Get('backup/download/*path')
   @ApiOperation({ summary: 'Generar URL de descarga para un backup' })
   @ApiParam({ name: 'path', description: 'Ruta del archivo de backup' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'URL de descarga generada' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso backup.manage' })
   @ApiNotFoundResponse({ description: 'Archivo de backup no encontrado' })
   async generateDownloadUrl(@Param('path') backupPath: string) {
     this.logger.log(`Solicitud de URL de descarga para: ${backupPath}`);
@@ -3,8 +3,11 @@ import { BackupService } from './backup.service';
 import { BackupController } from './backup.controller';
 import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from 'src/prisma/prisma.module';
+import { SessionModule } from 'src/session/session.module';
+import { StorageModule } from 'src/storage/storage.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { AuditModule } from 'src/audit/audit.module';
 import { AuthModule } from 'src/auth/auth.module';
-import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
 import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
@@ -16,6 +19,10 @@ import { ApiTags } from '@nestjs/swagger';
   imports: [
     ScheduleModule.forRoot(),
     PrismaModule,
+    SessionModule,
+    StorageModule,
+    IntranetRoleModule,
+    AuditModule,
   ],
   controllers: [BackupController],
   providers: [
@@ -27,7 +34,6 @@ import { ApiTags } from '@nestjs/swagger';
     ClientAuthGuard,
     IntranetAuthGuard,
     CombinedAuthGuard,
-    RolesGuard,
     BackupService
   ],
   exports: [BackupService]
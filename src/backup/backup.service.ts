@@ -1,88 +1,80 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Cron } from '@nestjs/schedule';
-import { Storage } from '@google-cloud/storage';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { BackupVerification, Prisma } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as zlib from 'zlib';
 import { promisify } from 'util';
-import DecryptJson from 'handlers/decryptJson';
+import { pipeline } from 'stream/promises';
 import { PrismaService } from '../prisma/prisma.service';
+import { StorageService } from 'src/storage/storage.service';
+import { StorageDriver } from 'src/storage/drivers/storage-driver';
+import { AuditService } from 'src/audit/audit.service';
+import { BACKUP_CIPHER, decryptBackup, encryptBackup, isEncryptedBackup, sha256 } from 'handlers/backup-cipher';
 import {
   BackupInfo,
+  BackupManifest,
   BackupResponse,
   DownloadUrlResponse,
-  ListBackupsResponse
+  ListBackupsResponse,
+  RestoreBackupOptions,
+  RestoreCollectionReport,
+  RestoreResponse
 } from './dto/create-backup.dto';
 
 const gzipPromise = promisify(zlib.gzip);
 const gunzipPromise = promisify(zlib.gunzip);
-const writeFilePromise = promisify(fs.writeFile);
 const readFilePromise = promisify(fs.readFile);
 
+const BACKUP_EXTENSION = '.gz.enc';
+const MANIFEST_SUFFIX = '.manifest.json';
+const SAFETY_PREFIX = 'database_backups/safety/';
+const RESTORE_BATCH_SIZE = 1000;
+// Colecciones que se restauran junto con un cliente (por userId) y con sus préstamos (por loanId)
+const USER_COLLECTIONS = ['Document', 'PreLoanApplication', 'LoanApplication', 'ClientSearchIndex', 'LoanDocument'];
+const LOAN_COLLECTIONS = ['LoanInstallment', 'Payment', 'LoanStatusHistory', 'EventLoanApplication', 'GeneratedDocuments'];
+// Auditoría y seguridad: restaurarlas borraría el rastro de auditoría o revivirían sesiones,
+// API keys y códigos ya revocados, así que se excluyen de toda restauración
+const PROTECTED_COLLECTIONS = ['AuditLog', 'AuthSession', 'ApiClient', 'OneTimeCode', 'RateLimitCounter'];
+
+// Usuario de intranet que pide la restauración, para la auditoría
+export interface RestoreActor {
+  id: string;
+  email?: string;
+  rol?: string;
+  ip?: string;
+}
+
 @Injectable()
 export class BackupService {
   private readonly logger = new Logger(BackupService.name);
-  private storage: Storage | null = null;
+  private bucketReady = false;
 
-  constructor(private readonly prismaService: PrismaService) { }
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly storage: StorageService,
+    private readonly configService: ConfigService,
+    private readonly audit: AuditService,
+  ) { }
 
   /**
-   * Crea una instancia de Storage utilizando las credenciales desencriptadas.
-   * Implementa un patrón singleton para evitar crear múltiples instancias.
+   * Driver del almacenamiento de backups. La primera vez crea el bucket si no existe.
    */
-  private async getStorageInstance(): Promise<Storage> {
-    if (this.storage) {
-      return this.storage;
-    }
-
-    // Use path.resolve to get an absolute path to the credentials file
-    const credentialPath = path.resolve(process.cwd(), 'jsons', 'cloud.json');
-
-    // Load the credential file dynamically
-    let credentialObj: { k: string } | null;
-    try {
-      credentialObj = JSON.parse(fs.readFileSync(credentialPath, 'utf8'));
-      this.logger.log('Credential object loaded successfully');
-    } catch (error) {
-      this.logger.error(`Failed to load credential file from ${credentialPath}`, error);
-      throw new Error('Cloud credentials file could not be loaded');
-    }
+  private async getBackupStorage(): Promise<StorageDriver> {
+    const driver = this.storage.driver('backups');
 
-    // Check if the credential has the expected structure
-    if (!credentialObj || !credentialObj.k) {
-      this.logger.error('Cloud credentials are missing the required "k" property');
-      throw new Error('Invalid cloud credential format - missing "k" property');
-    }
-
-    const EnCredential = credentialObj.k;
-    const decryptedCredentials = DecryptJson({
-      encryptedData: EnCredential,
-      password: process.env.KEY_DECRYPT as string,
-    });
-
-    this.storage = new Storage({
-      projectId: process.env.PROJECT_ID_GOOGLE,
-      credentials: decryptedCredentials,
-    });
-
-    // Check if bucket exists and create it if it doesn't
-    const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
-    try {
-      const [exists] = await this.storage.bucket(bucketName).exists();
-      if (!exists) {
-        this.logger.log(`Bucket ${bucketName} does not exist. Creating it now...`);
-        await this.storage.createBucket(bucketName, {
-          location: 'us-central1',
-          storageClass: 'STANDARD',
-        });
-        this.logger.log(`Bucket ${bucketName} created successfully`);
+    if (!this.bucketReady) {
+      try {
+        await driver.ensureBucket?.();
+        this.bucketReady = true;
+      } catch (error) {
+        this.logger.error(`Error checking/creating bucket ${driver.bucket}:`, error);
+        throw new Error(`Failed to access or create storage bucket: ${driver.bucket}`);
       }
-    } catch (error) {
-      this.logger.error(`Error checking/creating bucket ${bucketName}:`, error);
-      throw new Error(`Failed to access or create storage bucket: ${bucketName}`);
     }
 
-    return this.storage;
+    return driver;
   }
 
   /**
@@ -94,12 +86,6 @@ export class BackupService {
     this.logger.log('Iniciando backup mensual de la base de datos MongoDB con Prisma...');
 
     try {
-      // Crear directorio temporal para el backup si no existe
-      const tempDir = path.join(process.cwd(), 'temp_backups');
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-
       // Generar nombre de archivo con timestamp y nomenclatura estructurada
       const now = new Date();
       const timestamp = now.toISOString().replace(/:/g, '-');
@@ -107,9 +93,7 @@ export class BackupService {
       const month = String(now.getMonth() + 1).padStart(2, '0');
 
       // Formato: año/mes/mongodb_backup_YYYY-MM-DD...
-      const backupFileName = `mongodb_backup_${timestamp}.gz`;
-      const backupFilePath = path.join(tempDir, backupFileName);
-      const storageDestinationPath = `database_backups/${year}/${month}/${backupFileName}`;
+      const storageDestinationPath = `database_backups/${year}/${month}/mongodb_backup_${timestamp}${BACKUP_EXTENSION}`;
 
       // Extraer el nombre de la base de datos desde la URL de conexión
       const mongoUrl = process.env.MONGODB_URI || process.env.DATABASE_URL || '';
@@ -117,81 +101,36 @@ export class BackupService {
 
       // Ejecutar backup utilizando las funciones nativas de Prisma para MongoDB
       this.logger.log('Exportando datos con Prisma para MongoDB...');
+      let backupData: Record<string, any[]>;
       try {
         // Obtener todos los modelos/colecciones desde MongoDB
         const collections = await this.getMongoCollections();
 
         // Hacer una consulta para cada colección y guardarlos en un objeto
-        const backupData: Record<string, any[]> = {};
-
-        for (const collection of collections) {
-          this.logger.log(`Exportando datos de la colección: ${collection}`);
-
-          const result = await this.prismaService.$runCommandRaw({
-            find: collection,
-            limit: 0
-          });
-
-          let data: any[] = [];
-          // Usar una verificación más segura
-          if (result && typeof result === 'object' && 'cursor' in result &&
-            result.cursor && typeof result.cursor === 'object' && 'firstBatch' in result.cursor &&
-            Array.isArray(result.cursor.firstBatch)) {
-            data = result.cursor.firstBatch as any[];
-          }
-
-          backupData[collection] = data;
-          this.logger.log(`Exportados ${data.length} documentos de la colección ${collection}`);
-        }
-
-        // Convertir a JSON y comprimir
-        const jsonData = JSON.stringify(backupData, null, 2);
-        const compressedData = await gzipPromise(Buffer.from(jsonData, 'utf-8'));
-
-        // Guardar en archivo temporal
-        await writeFilePromise(backupFilePath, compressedData);
-
-        this.logger.log(`Backup generado exitosamente: ${backupFilePath}`);
+        backupData = await this.exportCollections(collections);
       } catch (dumpError) {
         this.logger.error('Error al crear el backup con Prisma:', dumpError);
         throw new Error(`Error al exportar datos: ${dumpError.message}`);
       }
 
-      // Subir archivo de backup a Google Cloud Storage
-      this.logger.log('Subiendo backup a Google Cloud Storage...');
+      // Subir archivo de backup al almacenamiento de backups
+      this.logger.log('Subiendo backup al almacenamiento...');
 
-      const storage = await this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const storage = await this.getBackupStorage();
+      const location = `${storage.name}://${storage.bucket}/${storageDestinationPath}`;
 
       try {
-        await storage
-          .bucket(bucketName)
-          .upload(backupFilePath, {
-            destination: storageDestinationPath,
-            metadata: {
-              contentType: 'application/gzip',
-              metadata: {
-                database: databaseName,
-                type: 'prisma-mongodb-backup',
-                createdBy: 'automated-system'
-              }
-            },
-          });
+        await this.storeBackup(storageDestinationPath, backupData, {
+          database: databaseName,
+          type: 'prisma-mongodb-backup',
+          createdBy: 'automated-system'
+        });
       } catch (uploadError) {
-        this.logger.error('Error al subir el backup a Google Cloud Storage:', uploadError);
+        this.logger.error('Error al subir el backup al almacenamiento:', uploadError);
         throw new Error(`Error al subir el backup: ${uploadError.message}`);
       }
 
-      this.logger.log(`Backup subido exitosamente a gs://${bucketName}/${storageDestinationPath}`);
-
-      // Limpiar archivo temporal
-      try {
-        fs.unlinkSync(backupFilePath);
-        this.logger.log('Archivo temporal eliminado');
-      } catch (unlinkError) {
-        this.logger.warn('No se pudo eliminar el archivo temporal:', unlinkError);
-        // Continuamos con la ejecución aunque no se pueda borrar el archivo temporal
-      }
+      this.logger.log(`Backup subido exitosamente a ${location}`);
 
       // Implementar retención de backups: eliminar backups más antiguos de 1 año
       await this.cleanOldBackups().catch(error => {
@@ -199,9 +138,12 @@ export class BackupService {
         // Continuamos con la ejecución aunque falle la limpieza
       });
 
+      // Comprobar de inmediato que el backup recién subido se puede recuperar
+      await this.verifyBackup(storageDestinationPath);
+
       return {
         success: true,
-        message: `Backup completado y almacenado en gs://${bucketName}/${storageDestinationPath}`,
+        message: `Backup completado y almacenado en ${location}`,
         path: storageDestinationPath
       };
     } catch (error) {
@@ -213,6 +155,94 @@ export class BackupService {
     }
   }
 
+  /**
+   * Verifica a diario el backup más reciente: lo descarga, lo descifra y
+   * compara el archivo y cada colección con los SHA-256 de su manifiesto.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async verifyLatestBackup(): Promise<BackupVerification | null> {
+    try {
+      const storage = await this.getBackupStorage();
+      const latest = (await storage.list('database_backups/'))
+        .filter(file => this.isBackupFile(file.key) && !file.key.startsWith(SAFETY_PREFIX))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+      if (!latest) {
+        this.logger.warn('No hay backups para verificar');
+        return null;
+      }
+
+      return await this.verifyBackup(latest.key);
+    } catch (error) {
+      this.logger.error('Error al verificar el último backup:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Comprueba un backup contra su manifiesto y guarda el resultado.
+   * Nunca lanza: una verificación fallida queda registrada con su error.
+   */
+  async verifyBackup(backupPath: string): Promise<BackupVerification> {
+    const startTime = Date.now();
+    let collections: Record<string, { count: number; sha256: string; ok: boolean }> | undefined;
+    let error: string | undefined;
+
+    try {
+      const storage = await this.getBackupStorage();
+      const manifest = await this.readManifest(storage, backupPath);
+      if (!manifest) {
+        throw new Error('El backup no tiene manifiesto');
+      }
+
+      const backupData = await this.downloadBackup(storage, backupPath, manifest);
+
+      collections = {};
+      for (const [collection, expected] of Object.entries(manifest.collections)) {
+        const documents = backupData[collection];
+        const hash = sha256(JSON.stringify(documents ?? null));
+        collections[collection] = {
+          count: Array.isArray(documents) ? documents.length : 0,
+          sha256: hash,
+          ok: Array.isArray(documents) && documents.length === expected.count && hash === expected.sha256,
+        };
+      }
+
+      const extra = Object.keys(backupData).filter(collection => !(collection in manifest.collections));
+      const failed = Object.keys(collections).filter(collection => !collections![collection].ok);
+
+      if (failed.length > 0) {
+        error = `Colecciones que no coinciden con el manifiesto: ${failed.join(', ')}`;
+      } else if (extra.length > 0) {
+        error = `Colecciones que no están en el manifiesto: ${extra.join(', ')}`;
+      }
+    } catch (verifyError) {
+      error = verifyError instanceof Error ? verifyError.message : 'Error desconocido';
+    }
+
+    if (error) {
+      this.logger.error(`Verificación fallida del backup ${backupPath}: ${error}`);
+    } else {
+      this.logger.log(`Backup verificado: ${backupPath}`);
+    }
+
+    const result = {
+      backupPath,
+      success: !error,
+      error: error ?? null,
+      durationMs: Date.now() - startTime,
+    };
+
+    try {
+      return await this.prismaService.backupVerification.create({
+        data: { ...result, collections: collections as Prisma.InputJsonObject | undefined },
+      });
+    } catch (saveError) {
+      this.logger.error('Error al guardar el resultado de la verificación:', saveError);
+      return { id: '', ...result, collections: collections ?? null, checked_at: new Date() };
+    }
+  }
+
   /**
    * Obtiene las colecciones disponibles en MongoDB
    * Utiliza el acceso directo al cliente MongoDB subyacente de Prisma
@@ -254,27 +284,21 @@ export class BackupService {
    */
   private async cleanOldBackups(): Promise<void> {
     try {
-      const storage = await this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const storage = await this.getBackupStorage();
       const oneYearAgo = new Date();
       oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
 
       this.logger.log('Buscando backups antiguos para eliminar...');
 
       // Listar archivos en el directorio de backups
-      const [files] = await storage
-        .bucket(bucketName)
-        .getFiles({ prefix: 'database_backups/' });
+      const files = await storage.list('database_backups/');
 
       const deletePromises: Promise<void>[] = [];
       for (const file of files) {
-        const [metadata] = await file.getMetadata();
-        const createTime = new Date(metadata.timeCreated ?? 0);
-
         // Eliminar si es más antiguo que un año
-        if (createTime < oneYearAgo) {
-          this.logger.log(`Eliminando backup antiguo: ${file.name}`);
-          deletePromises.push(file.delete().then(() => undefined));
+        if (file.createdAt < oneYearAgo) {
+          this.logger.log(`Eliminando backup antiguo: ${file.key}`);
+          deletePromises.push(storage.delete(file.key));
         }
       }
 
@@ -310,30 +334,31 @@ export class BackupService {
    */
   async listAvailableBackups(): Promise<ListBackupsResponse> {
     try {
-      const storage = await this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const storage = await this.getBackupStorage();
+      const allFiles = await storage.list('database_backups/');
+      const lastVerification = await this.prismaService.backupVerification.findFirst({
+        orderBy: { checked_at: 'desc' },
+      });
 
-      const [files] = await storage
-        .bucket(bucketName)
-        .getFiles({ prefix: 'database_backups/' });
+      const manifests = new Set(allFiles.filter(file => file.key.endsWith(MANIFEST_SUFFIX)).map(file => file.key));
+      const files = allFiles.filter(file => this.isBackupFile(file.key));
 
       if (files.length === 0) {
         return {
           success: true,
           backups: [],
+          lastVerification,
           message: 'No se encontraron backups disponibles'
         };
       }
 
-      const backups: BackupInfo[] = await Promise.all(files.map(async (file) => {
-        const [metadata] = await file.getMetadata();
-        const sizeInMB = (parseInt(String(metadata.size || '0')) / (1024 * 1024)).toFixed(2);
-
-        return {
-          name: file.name,
-          timeCreated: metadata.timeCreated || 'Unknown',
-          size: `${sizeInMB} MB`,
-        };
+      const backups: BackupInfo[] = files.map(file => ({
+        name: file.key,
+        timeCreated: file.createdAt.toISOString(),
+        size: `${(file.size / (1024 * 1024)).toFixed(2)} MB`,
+        encrypted: file.key.endsWith(BACKUP_EXTENSION),
+        hasManifest: manifests.has(`${file.key}${MANIFEST_SUFFIX}`),
+        safetySnapshot: file.key.startsWith(SAFETY_PREFIX),
       }));
 
       // Ordenar por fecha de creación, el más reciente primero
@@ -344,6 +369,7 @@ export class BackupService {
       return {
         success: true,
         backups,
+        lastVerification,
         message: `Se encontraron ${backups.length} backups disponibles`
       };
     } catch (error) {
@@ -356,37 +382,35 @@ export class BackupService {
   }
 
   /**
-   * Método para restaurar un backup específico
-   * @param backupPath Ruta del archivo de backup en Google Cloud Storage
+   * Restaura un backup completo, solo algunas colecciones o documentos puntuales.
+   * Con `dryRun` solo reporta por colección cuántos documentos se insertarían,
+   * cambiarían o eliminarían. Antes de escribir se guarda una copia de las
+   * colecciones afectadas en database_backups/safety/ para poder deshacer. Las
+   * colecciones de PROTECTED_COLLECTIONS nunca se restauran, y cada restauración
+   * que escribe queda en la auditoría a nombre de `actor`.
    */
-  async restoreFromBackup(backupPath: string): Promise<BackupResponse> {
-    if (!backupPath) {
+  async restoreFromBackup(options: RestoreBackupOptions, actor?: RestoreActor): Promise<RestoreResponse> {
+    if (!options?.backupPath) {
       return {
         success: false,
         message: 'Ruta de backup no especificada'
       };
     }
 
+    const { backupPath } = options;
+
     try {
       this.logger.log(`Iniciando restauración desde backup: ${backupPath}`);
 
-      // Crear directorio temporal si no existe
-      const tempDir = path.join(process.cwd(), 'temp_backups');
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-
-      const localFilePath = path.join(tempDir, path.basename(backupPath));
-      const storage = await this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const storage = await this.getBackupStorage();
 
       // Verificar si el archivo existe en el bucket
       try {
-        const [exists] = await storage.bucket(bucketName).file(backupPath).exists();
+        const exists = await storage.exists(backupPath);
         if (!exists) {
           return {
             success: false,
-            message: `El archivo de backup no existe en gs://${bucketName}/${backupPath}`
+            message: `El archivo de backup no existe en ${storage.name}://${storage.bucket}/${backupPath}`
           };
         }
       } catch (checkError) {
@@ -397,13 +421,9 @@ export class BackupService {
         };
       }
 
-      // Descargar archivo de backup
-      this.logger.log('Descargando archivo de backup de Google Cloud Storage...');
+      let backupData: Record<string, any[]>;
       try {
-        await storage
-          .bucket(bucketName)
-          .file(backupPath)
-          .download({ destination: localFilePath });
+        backupData = await this.downloadBackup(storage, backupPath, await this.readManifest(storage, backupPath));
       } catch (downloadError) {
         this.logger.error('Error al descargar el archivo de backup:', downloadError);
         return {
@@ -412,102 +432,443 @@ export class BackupService {
         };
       }
 
-      // Descomprimir y leer el archivo
-      const compressedData = await readFilePromise(localFilePath);
-      const jsonData = await gunzipPromise(compressedData);
-      const backupData = JSON.parse(jsonData.toString('utf8'));
+      const plan = this.planRestore(backupData, options);
+      if ('error' in plan) {
+        return { success: false, message: plan.error };
+      }
+
+      const skippedCollections = plan.mode === 'full'
+        ? PROTECTED_COLLECTIONS.filter(collection => collection in backupData)
+        : [];
 
-      // Cerrar conexión antes de restaurar
-      this.logger.log('Cerrando conexión de Prisma antes de la restauración...');
-      await this.prismaService.$disconnect();
+      const reports: RestoreCollectionReport[] = [];
+      for (const collection of Object.keys(plan.targets)) {
+        reports.push(await this.compareCollection(collection, backupData[collection] ?? [], plan.targets[collection]));
+      }
 
+      if (options.dryRun) {
+        return {
+          success: true,
+          message: `Simulación de restauración (${plan.mode}): nada fue modificado`,
+          mode: plan.mode,
+          dryRun: true,
+          collections: reports,
+          ...(skippedCollections.length && { skippedCollections }),
+        };
+      }
+
+      // Sin copia de seguridad no se restaura
+      let snapshotPath: string;
       try {
-        // Establecer nueva conexión
-        await this.prismaService.$connect();
-
-        // Restaurar datos para cada colección
-        await this.prismaService.$transaction(async (prisma) => {
-          // @ts-ignore - Accedemos al cliente MongoDB subyacente
-          const db = prisma._baseDmmf.containerEngine.client.db();
-
-          // Obtener colecciones del backup
-          const collections = Object.keys(backupData);
-
-          for (const collection of collections) {
-            this.logger.log(`Restaurando datos para la colección: ${collection}`);
-
-            // Eliminar datos existentes
-            await db.collection(collection).deleteMany({});
-
-            // Insertar datos del backup
-            const collectionData = backupData[collection];
-            if (Array.isArray(collectionData) && collectionData.length > 0) {
-              // Si hay muchos documentos, dividir en lotes para mejorar rendimiento
-              const batchSize = 1000;
-              for (let i = 0; i < collectionData.length; i += batchSize) {
-                const batch = collectionData.slice(i, i + batchSize);
-                if (batch.length > 0) {
-                  await db.collection(collection).insertMany(batch, { ordered: false });
-                }
-              }
-
-              this.logger.log(`Insertados ${collectionData.length} documentos en ${collection}`);
-            }
-          }
-        }, {
-          // Opciones de transacción para MongoDB - máxima duración
-          maxWait: 60000, // 60 segundos
-          timeout: 120000 // 120 segundos
+        snapshotPath = await this.takeSafetySnapshot(Object.keys(plan.targets), backupPath);
+      } catch (snapshotError) {
+        this.logger.error('Error al tomar la copia de seguridad previa a la restauración:', snapshotError);
+        return this.auditRestore(actor, options, {
+          success: false,
+          message: `No se restauró: falló la copia de seguridad previa (${snapshotError instanceof Error ? snapshotError.message : 'Error desconocido'})`
         });
+      }
+
+      try {
+        for (const [collection, ids] of Object.entries(plan.targets)) {
+          this.logger.log(`Restaurando datos para la colección: ${collection}`);
 
+          if (ids) {
+            await this.upsertDocuments(collection, this.documentsById(backupData[collection] ?? [], ids));
+          } else {
+            await this.replaceCollection(collection, backupData[collection] ?? []);
+          }
+        }
       } catch (restoreError) {
         this.logger.error('Error durante la restauración de datos:', restoreError);
+        return this.auditRestore(actor, options, {
+          success: false,
+          message: `Error al restaurar la base de datos: ${restoreError instanceof Error ? restoreError.message : 'Error desconocido'}. Copia previa en ${snapshotPath}`,
+          mode: plan.mode,
+          snapshotPath,
+        });
+      }
 
-        // Intentar reconectar Prisma después del error
-        try {
-          await this.prismaService.$connect();
-        } catch (connError) {
-          this.logger.error('Error al reconectar Prisma después del fallo:', connError);
-        }
+      return this.auditRestore(actor, options, {
+        success: true,
+        message: 'Base de datos restaurada exitosamente desde el backup',
+        mode: plan.mode,
+        dryRun: false,
+        snapshotPath,
+        collections: reports,
+        ...(skippedCollections.length && { skippedCollections }),
+      });
+    } catch (error) {
+      this.logger.error('Error durante la restauración:', error);
 
-        return {
-          success: false,
-          message: `Error al restaurar la base de datos: ${restoreError instanceof Error ? restoreError.message : 'Error desconocido'}`
-        };
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Error desconocido durante la restauración'
+      };
+    }
+  }
+
+  /**
+   * Colecciones que toca la restauración. `null` reemplaza la colección completa;
+   * una lista de ids restaura solo esos documentos.
+   */
+  private planRestore(
+    backupData: Record<string, any[]>,
+    options: RestoreBackupOptions,
+  ): { mode: RestoreResponse['mode']; targets: Record<string, string[] | null> } | { error: string } {
+    if (options.collections !== undefined && !Array.isArray(options.collections)) {
+      return { error: 'Las colecciones deben ser una lista' };
+    }
+    if (options.documents !== undefined && (typeof options.documents !== 'object' || Array.isArray(options.documents))) {
+      return { error: 'Los documentos deben ser un objeto colección -> ids' };
+    }
+
+    const protectedIn = (collections: string[]) =>
+      collections.filter(collection => PROTECTED_COLLECTIONS.includes(collection));
+
+    const documents: Record<string, string[]> = {};
+    const addIds = (collection: string, ids: string[]) => {
+      documents[collection] = [...new Set([...(documents[collection] ?? []), ...ids])];
+    };
+
+    for (const [collection, ids] of Object.entries(options.documents ?? {})) {
+      if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+        return { error: `Los ids de ${collection} deben ser una lista de textos` };
+      }
+      addIds(collection, ids);
+    }
+
+    if (options.userId) {
+      for (const [collection, ids] of Object.entries(this.userDocumentIds(backupData, options.userId))) {
+        addIds(collection, ids);
+      }
+    }
+
+    const forbidden = protectedIn([...Object.keys(documents), ...(options.collections ?? [])]);
+    if (forbidden.length > 0) {
+      return { error: `Colecciones de auditoría y seguridad que no se pueden restaurar: ${forbidden.join(', ')}` };
+    }
+
+    if (Object.keys(documents).length > 0) {
+      if (options.collections?.length) {
+        return { error: 'Use colecciones o documentos, no ambos' };
+      }
+      return { mode: 'documents', targets: documents };
+    }
+
+    if (options.collections?.length) {
+      const unknown = options.collections.filter(collection => !(collection in backupData));
+      if (unknown.length > 0) {
+        return { error: `Colecciones que no están en el backup: ${unknown.join(', ')}` };
       }
+      return { mode: 'collections', targets: Object.fromEntries(options.collections.map(collection => [collection, null])) };
+    }
+
+    const collections = Object.keys(backupData).filter(collection => !PROTECTED_COLLECTIONS.includes(collection));
+    return { mode: 'full', targets: Object.fromEntries(collections.map(collection => [collection, null])) };
+  }
+
+  // Deja en la auditoría la restauración y su resultado; se guarda después de escribir
+  // para que la restauración no lo sobrescriba
+  private async auditRestore(
+    actor: RestoreActor | undefined,
+    options: RestoreBackupOptions,
+    result: RestoreResponse,
+  ): Promise<RestoreResponse> {
+    await this.audit.record({
+      actorId: actor?.id ?? 'system',
+      actorEmail: actor?.email,
+      actorRole: actor?.rol,
+      method: 'POST',
+      route: '/backup/restore',
+      path: options.backupPath,
+      entity: 'backup',
+      entityId: options.backupPath,
+      payload: {
+        mode: result.mode,
+        collections: options.collections,
+        documents: options.documents,
+        userId: options.userId,
+        snapshotPath: result.snapshotPath,
+        restored: result.collections?.map(({ collection, toInsert, toChange, toDelete }) => ({ collection, toInsert, toChange, toDelete })),
+      },
+      statusCode: 200,
+      success: result.success,
+      error: result.success ? undefined : result.message,
+      ip: actor?.ip,
+    });
+
+    return result;
+  }
+
+  // El cliente, sus registros directos y los de cada uno de sus préstamos según el backup
+  private userDocumentIds(backupData: Record<string, any[]>, userId: string): Record<string, string[]> {
+    const idsWhere = (collection: string, field: string, values: string[]) =>
+      (backupData[collection] ?? [])
+        .filter(document => values.includes(this.plainId(document[field])))
+        .map(document => this.plainId(document._id));
+
+    const loanIds = idsWhere('LoanApplication', 'userId', [userId]);
+    const result: Record<string, string[]> = { User: idsWhere('User', '_id', [userId]) };
+
+    for (const collection of USER_COLLECTIONS) {
+      result[collection] = idsWhere(collection, 'userId', [userId]);
+    }
+    for (const collection of LOAN_COLLECTIONS) {
+      result[collection] = idsWhere(collection, 'loanId', loanIds);
+    }
+
+    return Object.fromEntries(Object.entries(result).filter(([, ids]) => ids.length > 0));
+  }
+
+  private async compareCollection(
+    collection: string,
+    backupDocuments: any[],
+    ids: string[] | null,
+  ): Promise<RestoreCollectionReport> {
+    const source = ids ? this.documentsById(backupDocuments, ids) : backupDocuments;
+    const current = await this.readCollection(collection, ids ? { _id: { $in: ids } } : {});
+
+    const currentById = new Map(current.map(document => [this.plainId(document._id), this.stableStringify(document)]));
+    const sourceIds = new Set(source.map(document => this.plainId(document._id)));
+
+    let toInsert = 0;
+    let toChange = 0;
+    let unchanged = 0;
+    for (const document of source) {
+      const existing = currentById.get(this.plainId(document._id));
+      if (existing === undefined) toInsert++;
+      else if (existing === this.stableStringify(document)) unchanged++;
+      else toChange++;
+    }
+
+    const missingIds = ids?.filter(id => !sourceIds.has(id));
+
+    return {
+      collection,
+      inBackup: source.length,
+      inDatabase: current.length,
+      toInsert,
+      toChange,
+      // Restaurar documentos puntuales nunca elimina otros
+      toDelete: ids ? 0 : current.filter(document => !sourceIds.has(this.plainId(document._id))).length,
+      unchanged,
+      ...(missingIds?.length && { missingIds }),
+    };
+  }
+
+  private async replaceCollection(collection: string, documents: any[]): Promise<void> {
+    await this.prismaService.$runCommandRaw({ delete: collection, deletes: [{ q: {}, limit: 0 }] });
+
+    // Si hay muchos documentos, dividir en lotes para mejorar rendimiento
+    for (let i = 0; i < documents.length; i += RESTORE_BATCH_SIZE) {
+      await this.prismaService.$runCommandRaw({
+        insert: collection,
+        documents: documents.slice(i, i + RESTORE_BATCH_SIZE),
+        ordered: false,
+      });
+    }
+
+    this.logger.log(`Insertados ${documents.length} documentos en ${collection}`);
+  }
+
+  private async upsertDocuments(collection: string, documents: any[]): Promise<void> {
+    for (let i = 0; i < documents.length; i += RESTORE_BATCH_SIZE) {
+      await this.prismaService.$runCommandRaw({
+        update: collection,
+        updates: documents.slice(i, i + RESTORE_BATCH_SIZE).map(document => ({
+          q: { _id: document._id },
+          u: document,
+          upsert: true,
+        })),
+      });
+    }
+
+    this.logger.log(`Restaurados ${documents.length} documentos en ${collection}`);
+  }
+
+  // Copia de las colecciones que se van a sobrescribir, con el mismo formato de un backup
+  private async takeSafetySnapshot(collections: string[], backupPath: string): Promise<string> {
+    const data = await this.exportCollections(collections);
+    const timestamp = new Date().toISOString().replace(/:/g, '-');
+    const snapshotPath = `${SAFETY_PREFIX}pre_restore_${timestamp}${BACKUP_EXTENSION}`;
+
+    await this.storeBackup(snapshotPath, data, {
+      type: 'prisma-mongodb-safety-snapshot',
+      restoredFrom: backupPath,
+      collections: collections.join(','),
+    });
+
+    this.logger.log(`Copia previa a la restauración guardada en ${snapshotPath}`);
+    return snapshotPath;
+  }
+
+  /**
+   * Comprime, cifra y sube un backup junto con su manifiesto. Sin clave
+   * configurada no se genera el backup: contiene cuentas bancarias y documentos.
+   */
+  private async storeBackup(destinationPath: string, data: Record<string, any[]>, metadata: Record<string, string>): Promise<BackupManifest> {
+    const secret = this.encryptionKey();
+    const storage = await this.getBackupStorage();
+
+    const collections: BackupManifest['collections'] = {};
+    for (const [collection, documents] of Object.entries(data)) {
+      collections[collection] = { count: documents.length, sha256: sha256(JSON.stringify(documents)) };
+    }
+
+    const compressedData = await gzipPromise(Buffer.from(JSON.stringify(data), 'utf-8'));
+    const encryptedData = encryptBackup(compressedData, secret);
+
+    const manifest: BackupManifest = {
+      version: 1,
+      file: destinationPath,
+      createdAt: new Date().toISOString(),
+      encryption: BACKUP_CIPHER,
+      compression: 'gzip',
+      size: encryptedData.length,
+      sha256: sha256(encryptedData),
+      collections,
+    };
+
+    await storage.upload(destinationPath, encryptedData, {
+      contentType: 'application/octet-stream',
+      metadata: { ...metadata, encryption: BACKUP_CIPHER },
+    });
+    await storage.upload(`${destinationPath}${MANIFEST_SUFFIX}`, Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'), {
+      contentType: 'application/json',
+    });
 
-      // Eliminar archivo temporal
+    return manifest;
+  }
+
+  private async readManifest(storage: StorageDriver, backupPath: string): Promise<BackupManifest | null> {
+    const manifestPath = `${backupPath}${MANIFEST_SUFFIX}`;
+    if (!(await storage.exists(manifestPath))) {
+      return null;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.stream(manifestPath)) {
+      chunks.push(Buffer.from(chunk));
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as BackupManifest;
+  }
+
+  /**
+   * Descarga y abre un backup. Con manifiesto, el archivo debe coincidir con su SHA-256
+   * antes de descifrarlo; los backups anteriores al cifrado se leen como gzip.
+   */
+  private async downloadBackup(storage: StorageDriver, backupPath: string, manifest?: BackupManifest | null): Promise<Record<string, any[]>> {
+    // Crear directorio temporal si no existe
+    const tempDir = path.join(process.cwd(), 'temp_backups');
+    if (!fs.existsSync(tempDir)) {
+      fs.mkdirSync(tempDir, { recursive: true });
+    }
+
+    const localFilePath = path.join(tempDir, path.basename(backupPath));
+
+    this.logger.log('Descargando archivo de backup del almacenamiento...');
+    await pipeline(await storage.stream(backupPath), fs.createWriteStream(localFilePath));
+
+    try {
+      const storedData = await readFilePromise(localFilePath);
+
+      if (manifest && sha256(storedData) !== manifest.sha256) {
+        throw new Error('El SHA-256 del archivo no coincide con el manifiesto');
+      }
+
+      // Descomprimir y leer el archivo
+      const compressedData = isEncryptedBackup(storedData)
+        ? decryptBackup(storedData, this.encryptionKey())
+        : storedData;
+      const jsonData = await gunzipPromise(compressedData);
+      return JSON.parse(jsonData.toString('utf8'));
+    } finally {
       try {
         fs.unlinkSync(localFilePath);
       } catch (unlinkError) {
         this.logger.warn('No se pudo eliminar el archivo temporal:', unlinkError);
-        // Continuamos aunque no se pueda borrar el archivo
       }
+    }
+  }
 
-      return {
-        success: true,
-        message: 'Base de datos restaurada exitosamente desde el backup'
-      };
-    } catch (error) {
-      this.logger.error('Error durante la restauración:', error);
+  private encryptionKey(): string {
+    const secret = this.configService.get<string>('BACKUP_ENCRYPTION_KEY');
+    if (!secret || secret.length < 32) {
+      throw new Error('BACKUP_ENCRYPTION_KEY no está configurada o tiene menos de 32 caracteres');
+    }
+    return secret;
+  }
 
-      // Intentar reconectar Prisma en caso de error
-      try {
-        await this.prismaService.$connect();
-      } catch (connError) {
-        this.logger.error('Error al reconectar Prisma:', connError);
-      }
+  // Archivos de datos del backup; los manifiestos se guardan junto a cada uno
+  private isBackupFile(key: string): boolean {
+    return !key.endsWith(MANIFEST_SUFFIX) && (key.endsWith(BACKUP_EXTENSION) || key.endsWith('.gz'));
+  }
 
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Error desconocido durante la restauración'
-      };
+  private async exportCollections(collections: string[]): Promise<Record<string, any[]>> {
+    const backupData: Record<string, any[]> = {};
+
+    for (const collection of collections) {
+      this.logger.log(`Exportando datos de la colección: ${collection}`);
+      backupData[collection] = await this.readCollection(collection);
+      this.logger.log(`Exportados ${backupData[collection].length} documentos de la colección ${collection}`);
     }
+
+    return backupData;
+  }
+
+  /**
+   * Lee todos los documentos de una colección por lotes ordenados por _id.
+   * Un solo `find` devuelve únicamente el primer lote del cursor.
+   */
+  private async readCollection(collection: string, filter: Record<string, any> = {}): Promise<any[]> {
+    const documents: any[] = [];
+    let lastId: unknown = undefined;
+
+    for (; ;) {
+      const result = await this.prismaService.$runCommandRaw({
+        find: collection,
+        filter: lastId === undefined ? filter : { $and: [filter, { _id: { $gt: lastId } }] },
+        sort: { _id: 1 },
+        limit: RESTORE_BATCH_SIZE,
+        batchSize: RESTORE_BATCH_SIZE,
+      }) as { cursor?: { firstBatch?: any[] } };
+
+      const batch = result?.cursor?.firstBatch ?? [];
+      documents.push(...batch);
+
+      if (batch.length < RESTORE_BATCH_SIZE) break;
+      lastId = batch[batch.length - 1]._id;
+    }
+
+    return documents;
+  }
+
+  private documentsById(documents: any[], ids: string[]): any[] {
+    const wanted = new Set(ids);
+    return documents.filter(document => wanted.has(this.plainId(document._id)));
+  }
+
+  // Los ids de Prisma son textos; los ObjectId llegan en JSON extendido como { $oid }
+  private plainId(value: any): string {
+    return typeof value === 'object' && value !== null && '$oid' in value ? value.$oid : String(value);
+  }
+
+  // JSON con las llaves ordenadas para comparar documentos sin depender del orden de los campos
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
   }
 
   /**
    * Genera una URL firmada para descargar un backup específico
-   * @param backupPath Ruta del archivo de backup en Google Cloud Storage
+   * @param backupPath Ruta del archivo de backup en el almacenamiento de backups
    */
   async generateBackupDownloadUrl(backupPath: string): Promise<DownloadUrlResponse> {
     if (!backupPath) {
@@ -518,26 +879,18 @@ export class BackupService {
     }
 
     try {
-      const storage = await this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const storage = await this.getBackupStorage();
 
       // Verificar si el archivo existe
-      const [exists] = await storage.bucket(bucketName).file(backupPath).exists();
+      const exists = await storage.exists(backupPath);
       if (!exists) {
         return {
           success: false,
-          message: `El archivo de backup no existe en gs://${bucketName}/${backupPath}`
+          message: `El archivo de backup no existe en ${storage.name}://${storage.bucket}/${backupPath}`
         };
       }
 
-      const [url] = await storage
-        .bucket(bucketName)
-        .file(backupPath)
-        .getSignedUrl({
-          version: 'v4',
-          action: 'read',
-          expires: Date.now() + 15 * 60 * 1000, // URL válida por 15 minutos
-        });
+      const url = await storage.signedUrl(backupPath, 15 * 60); // URL válida por 15 minutos
 
       return {
         success: true,
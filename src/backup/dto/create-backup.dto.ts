@@ -1,9 +1,14 @@
+import { BackupVerification } from '@prisma/client';
+
 // Exportamos la interfaz para que sea accesible desde el controlador
 export class BackupInfo {
     name: string;
     timeCreated: string;
     size: string;
     downloadUrl?: string;
+    encrypted?: boolean;
+    hasManifest?: boolean;
+    safetySnapshot?: boolean; // Copia tomada antes de una restauración
   }
   
   // Interfaces para respuestas de los métodos
@@ -16,6 +21,7 @@ export class BackupInfo {
   export interface ListBackupsResponse {
     success: boolean;
     backups?: BackupInfo[];
+    lastVerification?: BackupVerification | null;
     message?: string;
   }
   
@@ -24,4 +30,44 @@ export class BackupInfo {
     downloadUrl?: string;
     message?: string;
     expiresIn?: string
-  }
\ No newline at end of file
+  }
+
+  // Sin colecciones ni documentos la restauración es completa
+  export interface RestoreBackupOptions {
+    backupPath: string;
+    dryRun?: boolean; // Solo reporta lo que cambiaría
+    collections?: string[]; // Reemplaza únicamente estas colecciones
+    documents?: Record<string, string[]>; // Colección -> ids a restaurar, sin tocar el resto
+    userId?: string; // Restaura un cliente con sus documentos, solicitudes y registros de sus préstamos
+  }
+
+  export interface RestoreCollectionReport {
+    collection: string;
+    inBackup: number;
+    inDatabase: number;
+    toInsert: number;
+    toChange: number;
+    toDelete: number;
+    unchanged: number;
+    missingIds?: string[]; // Ids pedidos que no están en el backup
+  }
+
+  export interface RestoreResponse extends BackupResponse {
+    mode?: 'full' | 'collections' | 'documents';
+    dryRun?: boolean;
+    snapshotPath?: string; // Copia de seguridad tomada antes de restaurar
+    collections?: RestoreCollectionReport[];
+    skippedCollections?: string[]; // Colecciones del backup que nunca se restauran (auditoría y seguridad)
+  }
+
+  // Se guarda junto al backup como <archivo>.manifest.json
+  export interface BackupManifest {
+    version: 1;
+    file: string;
+    createdAt: string;
+    encryption: string;
+    compression: 'gzip';
+    size: number; // Bytes del archivo cifrado
+    sha256: string; // Del archivo cifrado tal como está en el almacenamiento
+    collections: Record<string, { count: number; sha256: string }>; // SHA-256 del JSON de cada colección
+  }
@@ -13,15 +13,19 @@ import {
   UseInterceptors,
   UploadedFile,
   Logger,
+  DefaultValuePipe,
+  ParseIntPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ClientService } from './client.service';
-import { User, Document } from '@prisma/client';
+import { User, Document, companiesUser } from '@prisma/client';
 import { ClientAuthGuard } from '../auth/guards/client-auth.guard';
 import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CompanyScope } from '../auth/decorators/company-scope.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IntranetRoleService } from '../intranet-role/intranet-role.service';
 import { RejectReasonDto, UpdateDocumentDto, UpdatePasswordDto, CreateClientDto } from './dto/create-client.dto';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
 import {
@@ -38,12 +42,17 @@ import {
   ApiNotFoundResponse,
   ApiBadRequestResponse
 } from '@nestjs/swagger';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
+import { ClientSearchHit } from 'src/search/client-search.service';
 
 @ApiTags('clients')
 @Controller('clients')
 export class ClientController {
   private logger = new Logger(ClientController.name);
-  constructor(private readonly clientService: ClientService) { }
+  constructor(
+    private readonly clientService: ClientService,
+    private readonly roles: IntranetRoleService,
+  ) { }
 
   @Post()
   @ApiOperation({ summary: 'Crear nuevo cliente' })
@@ -85,37 +94,52 @@ export class ClientController {
   }
 
   // Solo intranet puede ver todos los usuarios
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('client.view')
   @Get()
   @ApiOperation({ summary: 'Obtener lista paginada de todos los clientes (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '8' })
-  @ApiQuery({ name: 'search', required: false, description: 'Término de búsqueda' })
+  @ApiQuery({ name: 'search', required: false, description: 'Nombre, documento, teléfono o correo; con búsqueda se ordena por relevancia' })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Lista de clientes con paginación' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lista de clientes con paginación. Con búsqueda, `truncated` indica que hubo demasiadas coincidencias para ordenarlas todas y `totalCount` es estimado'
+  })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
   async all(
     @Query('page') page: string = '1',
     @Query('pageSize') pageSize: string = '8',
+    @CompanyScope() companies: companiesUser[] | null,
     @Query('search') search?: string,
-  ): Promise<{ users: User[]; totalCount: number }> {
+  ): Promise<{ users: User[]; totalCount: number; truncated: boolean }> {
     return await this.clientService.all(
       parseInt(page),
       parseInt(pageSize),
-      search
+      search,
+      companies
     );
   }
 
   // Solo intranet puede buscar usuarios
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('client.view')
   @Get('search/:query')
-  @ApiOperation({ summary: 'Buscar clientes por término (solo intranet)' })
+  @ApiOperation({
+    summary: 'Buscar clientes por nombre, documento, teléfono o correo (solo intranet)',
+    description: 'Ignora tildes y mayúsculas y tolera errores de tipeo en los nombres. Los resultados vienen ordenados por relevancia; `highlights` indica los tramos [inicio, fin) de cada campo que coincidieron.',
+  })
   @ApiParam({ name: 'query', description: 'Término de búsqueda' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Máximo de resultados', example: 20 })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Resultados de búsqueda' })
+  @ApiResponse({ status: 200, description: 'Resultados de búsqueda con puntaje y coincidencias' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  async search(@Param('query') query: string): Promise<User[]> {
-    const results = await this.clientService.searchUser(query);
+  async search(
+    @Param('query') query: string,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @CompanyScope() companies: companiesUser[] | null,
+  ): Promise<ClientSearchHit[]> {
+    const results = await this.clientService.searchUser(query, Math.min(Math.max(limit, 1), 100), companies);
     if (!results) {
       throw new HttpException('Error en la búsqueda', HttpStatus.INTERNAL_SERVER_ERROR);
     }
@@ -124,6 +148,7 @@ export class ClientController {
 
   // El cliente solo puede actualizar su propio perfil
   @UseGuards(CombinedAuthGuard)
+  @AuditEntity('user')
   @Put(':id')
   @ApiOperation({ summary: 'Actualizar perfil de cliente' })
   @ApiParam({ name: 'id', description: 'ID del cliente' })
@@ -131,7 +156,7 @@ export class ClientController {
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Perfil actualizado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No autorizado para actualizar este perfil' })
+  @ApiForbiddenResponse({ description: 'No autorizado para actualizar este perfil, o cambio de isBan sin el permiso client.ban' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async update(
     @Param('id') id: string,
@@ -143,6 +168,14 @@ export class ClientController {
       throw new HttpException('No autorizado', HttpStatus.FORBIDDEN);
     }
 
+    // Bloquear o desbloquear a un cliente requiere client.ban sobre la empresa del cliente
+    if (dataUser?.isBan !== undefined) {
+      if (user.type === 'client') {
+        throw new HttpException('No autorizado', HttpStatus.FORBIDDEN);
+      }
+      await this.roles.assertPermission(user, 'client.ban', await this.roles.companyOf('user', id));
+    }
+
     try {
       return await this.clientService.update(id, dataUser);
     } catch (error) {
@@ -178,17 +211,18 @@ export class ClientController {
     }
   }
 
-  // Solo administradores de intranet pueden eliminar usuarios
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin')
+  // Eliminar usuarios requiere el permiso client.delete
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('client.delete', { model: 'user', param: 'id' })
+  @AuditEntity('user')
   @Delete(':id')
-  @ApiOperation({ summary: 'Eliminar cliente (solo administradores)' })
+  @ApiOperation({ summary: 'Eliminar cliente (permiso client.delete)' })
   @ApiParam({ name: 'id', description: 'ID del cliente a eliminar' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Cliente eliminado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos de administrador' })
-  @ApiBadRequestResponse({ description: 'Error al eliminar cliente' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso client.delete sobre la empresa del cliente' })
+  @ApiBadRequestResponse({ description: 'El cliente tiene préstamos desembolsados o no se pudo eliminar' })
   async delete(@Param('id') id: string): Promise<User> {
     try {
       return await this.clientService.delete(id);
@@ -351,7 +385,7 @@ export class ClientController {
         throw new HttpException('El archivo está vacío o corrupto', HttpStatus.BAD_REQUEST);
       }
 
-      const updatedDocument = await this.clientService.updateDocument(user.id, file);
+      const updatedDocument = await this.clientService.updateDocument(userId, file, { id: user.id, type: user.type });
 
       this.logger.log("Resultado de actualización de documento:", !!updatedDocument);
 
@@ -553,11 +587,12 @@ export class ClientController {
     return document;
   }
 
-  // Solo empleados o administradores de intranet pueden rechazar solicitudes
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Rechazar solicitudes requiere el permiso loan.approve
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.approve', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Put('loan-application/:id/reject')
-  @ApiOperation({ summary: 'Rechazar solicitud de préstamo (solo empleados/admin)' })
+  @ApiOperation({ summary: 'Rechazar solicitud de préstamo (permiso loan.approve)' })
   @ApiParam({ name: 'id', description: 'ID de la solicitud de préstamo' })
   @ApiBody({ type: RejectReasonDto, description: 'Razón del rechazo' })
   @ApiBearerAuth()
@@ -577,13 +612,16 @@ export class ClientController {
   }
 
   // Solo intranet puede ver información de todos los clientes
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('client.view')
   @Get('all/info')
   @ApiOperation({ summary: 'Obtener información básica de todos los clientes (solo intranet)' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de información básica de clientes' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  async getAllClientsInfo(): Promise<{ id: string; email: string; names: string }[]> {
-    return await this.clientService.getAllClientsInfo();
+  async getAllClientsInfo(
+    @CompanyScope() companies: companiesUser[] | null,
+  ): Promise<{ id: string; email: string; names: string }[]> {
+    return await this.clientService.getAllClientsInfo(companies);
   }
 }
\ No newline at end of file
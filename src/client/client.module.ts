@@ -5,6 +5,10 @@ import { PrismaModule } from 'src/prisma/prisma.module';
 import { MailModule } from 'src/mail/mail.module';
 import { GoogleCloudModule } from 'src/gcp/gcp.module';
 import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
+import { SessionModule } from 'src/session/session.module';
+import { SearchModule } from 'src/search/search.module';
+import { DocumentHistoryModule } from 'src/document-history/document-history.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
 import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
@@ -16,6 +20,10 @@ import { ApiTags } from '@nestjs/swagger';
     MailModule,
     GoogleCloudModule,
     CloudinaryModule,
+    SessionModule,
+    SearchModule,
+    DocumentHistoryModule,
+    IntranetRoleModule,
   ],
   controllers: [ClientController],
   providers: [
@@ -1,12 +1,15 @@
 import { Injectable, Logger, ConflictException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { User, Document, Prisma } from '@prisma/client';
+import { User, Document, Prisma, companiesUser } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 import { MailService } from 'src/mail/mail.service';
 import { GoogleCloudService } from 'src/gcp/gcp.service';
 import * as uuid from "uuid"
 import { FileToString } from 'handlers/FileToString';
 import { CloudinaryService, FolderNames } from 'src/cloudinary/cloudinary.service';
+import { SessionService } from 'src/session/session.service';
+import { ClientSearchHit, ClientSearchService } from 'src/search/client-search.service';
+import { DocumentActor, DocumentHistoryService } from 'src/document-history/document-history.service';
 
 @Injectable()
 export class ClientService {
@@ -17,6 +20,9 @@ export class ClientService {
     private mail: MailService,
     private googleCloud: GoogleCloudService,
     private cloudinary: CloudinaryService,
+    private sessions: SessionService,
+    private search: ClientSearchService,
+    private documentHistory: DocumentHistoryService,
   ) { }
 
   async create(data: User): Promise<User> {
@@ -62,6 +68,8 @@ export class ClientService {
       return user;
     });
 
+    await this.search.reindexUser(newUser.id);
+
     try {
       await this.mail.sendNewClientMail({
         mail: data.email.trim(),
@@ -91,112 +99,12 @@ export class ClientService {
     });
   }
 
-  async searchUser(query: string): Promise<User[] | null> {
+  async searchUser(query: string, limit: number = 20, companies?: companiesUser[] | null): Promise<ClientSearchHit[] | null> {
     try {
-      // Separar el query en partes usando espacios
-      const queryParts = query.trim().split(' ');
-
-      // Construir condiciones de búsqueda dependiendo de cuántas partes tenga el query
-      let searchConditions: Prisma.UserWhereInput[] = [];
-
-      if (queryParts.length === 1) {
-        // Si solo hay una parte (e.g., solo el primer nombre)
-        searchConditions = [
-          {
-            names: { contains: queryParts[0], mode: 'insensitive' }, // Buscar por nombres
-          },
-          {
-            firstLastName: { contains: queryParts[0], mode: 'insensitive' }, // Buscar por primer apellido
-          },
-          {
-            secondLastName: { contains: queryParts[0], mode: 'insensitive' }, // Buscar por segundo apellido
-          },
-        ];
-      } else if (queryParts.length === 2) {
-        // Si hay dos partes (e.g., nombre y apellido)
-        searchConditions = [
-          {
-            // Buscar por primer nombre y primer apellido
-            AND: [
-              { names: { contains: queryParts[0], mode: 'insensitive' } }, // Primer nombre
-              {
-                firstLastName: { contains: queryParts[1], mode: 'insensitive' },
-              }, // Primer apellido
-            ],
-          },
-          {
-            // Alternativamente, buscar por nombre y segundo apellido
-            AND: [
-              { names: { contains: queryParts[0], mode: 'insensitive' } }, // Primer nombre
-              {
-                secondLastName: {
-                  contains: queryParts[1],
-                  mode: 'insensitive',
-                },
-              }, // Segundo apellido
-            ],
-          },
-        ];
-      } else if (queryParts.length >= 3) {
-        // Si hay tres o más partes (e.g., dos nombres y un apellido)
-        searchConditions = [
-          {
-            // Buscar por ambos nombres y primer apellido
-            AND: [
-              {
-                names: {
-                  contains: `${queryParts[0]} ${queryParts[1]}`,
-                  mode: 'insensitive',
-                },
-              }, // Ambos nombres
-              {
-                firstLastName: { contains: queryParts[2], mode: 'insensitive' },
-              }, // Primer apellido
-            ],
-          },
-          {
-            // Alternativamente, buscar por ambos nombres y segundo apellido
-            AND: [
-              {
-                names: {
-                  contains: `${queryParts[0]} ${queryParts[1]}`,
-                  mode: 'insensitive',
-                },
-              }, // Ambos nombres
-              {
-                secondLastName: {
-                  contains: queryParts[2],
-                  mode: 'insensitive',
-                },
-              }, // Segundo apellido
-            ],
-          },
-        ];
-      }
-
-      // Hacer la búsqueda con Prisma
-      const users = await this.prisma.user.findMany({
-        where: {
-          OR: [
-            ...searchConditions,
-            {
-              // Filtrar también por número de documento si coincide con el query
-              Document: {
-                some: {
-                  number: { contains: query, mode: 'insensitive' },
-                },
-              },
-            },
-          ],
-        },
-        include: {
-          Document: true, // Incluir los documentos en la respuesta
-        },
-      });
-
-      return users;
+      const { hits } = await this.search.search(query, { take: limit, companies: companies ?? undefined });
+      return hits;
     } catch (error) {
-      console.log(error);
+      this.logger.error(`Error al buscar clientes: "${query}"`, error);
       return null;
     }
   }
@@ -204,37 +112,21 @@ export class ClientService {
   async all(
     page: number = 1,
     pageSize: number = 8,
-    searchQuery?: string
-  ): Promise<{ users: User[]; totalCount: number }> {
+    searchQuery?: string,
+    companies?: companiesUser[] | null
+  ): Promise<{ users: User[]; totalCount: number; truncated: boolean }> {
     try {
       const skip = (page - 1) * pageSize;
 
-      // Construir condiciones de búsqueda si se proporciona searchQuery
-      let where: Prisma.UserWhereInput = {};
-
+      // Con búsqueda, los clientes vienen del índice ordenados por relevancia. Si la
+      // búsqueda es demasiado amplia se marca `truncated` y totalCount es estimado
       if (searchQuery && searchQuery.trim() !== '') {
-        const cleanSearchQuery = searchQuery.trim();
-
-        // Crear condiciones OR para buscar en diferentes campos
-        const searchConditions: Prisma.UserWhereInput[] = [
-          // Buscar por nombre
-          { names: { contains: cleanSearchQuery, mode: 'insensitive' as Prisma.QueryMode } },
-          // Buscar por primer apellido
-          { firstLastName: { contains: cleanSearchQuery, mode: 'insensitive' as Prisma.QueryMode } },
-          // Buscar por segundo apellido
-          { secondLastName: { contains: cleanSearchQuery, mode: 'insensitive' as Prisma.QueryMode } },
-          // Buscar por documento
-          { Document: { some: { number: { contains: cleanSearchQuery } } } }
-        ];
-
-        // Asignar condiciones OR al filtro where
-        where.OR = searchConditions;
-
-        console.log(`Aplicando búsqueda avanzada para: "${cleanSearchQuery}"`);
+        const { total, truncated, hits } = await this.search.search(searchQuery, { skip, take: pageSize, companies: companies ?? undefined });
+        return { users: hits.map(hit => hit.user), totalCount: total, truncated };
       }
 
-      // Añado logging para diagnóstico
-      console.log(`Fetching users with skip=${skip}, take=${pageSize}, search=${searchQuery || 'none'}`);
+      // Sin alcance (null) el rol atiende a todas las empresas
+      const where: Prisma.UserWhereInput = companies ? { currentCompanie: { in: companies } } : {};
 
       const [users, totalCount] = await Promise.all([
         this.prisma.user.findMany({
@@ -244,16 +136,14 @@ export class ClientService {
           include: { Document: true }, // Incluye documentos relacionados
           orderBy: { createdAt: 'desc' } // Ordenar por fecha de creación descendente
         }),
-        this.prisma.user.count({ where }) // Contar solo los usuarios que coinciden con el filtro
+        this.prisma.user.count({ where })
       ]);
 
-      console.log(`Found ${users.length} users out of ${totalCount} total for search: ${searchQuery || 'none'}`);
-
-      return { users, totalCount };
+      return { users, totalCount, truncated: false };
     } catch (error) {
       console.error('Error fetching users:', error);
       // Puedes lanzar una excepción aquí o devolver un valor por defecto
-      return { users: [], totalCount: 0 };
+      return { users: [], totalCount: 0, truncated: false };
     }
   }
 
@@ -331,6 +221,13 @@ export class ClientService {
       });
 
       this.logger.log(`Usuario actualizado: ${id}`, filteredData);
+      await this.search.reindexUser(id);
+
+      // Un usuario suspendido pierde de inmediato todas sus sesiones
+      if (filteredData.isBan === true) {
+        await this.sessions.revokeAllForUser(id, 'client', 'ban');
+      }
+
       return updatedUser;
 
     } catch (prismaError) {
@@ -341,10 +238,13 @@ export class ClientService {
 
   async updatePassword(id: string, password: string): Promise<User> {
     const hashedPassword = await bcrypt.hash(password, 10);
-    return this.prisma.user.update({
+    const user = await this.prisma.user.update({
       where: { id },
       data: { password: hashedPassword },
     });
+
+    await this.sessions.revokeAllForUser(id, 'client', 'password_change');
+    return user;
   }
 
   async updateAvatar(id: string, avatar: Express.Multer.File): Promise<User> {
@@ -366,13 +266,19 @@ export class ClientService {
   }
 
   async delete(id: string): Promise<User> {
-    return this.prisma.$transaction(async (tx) => {
+    const deleted = await this.prisma.$transaction(async (tx) => {
       // First, delete related GeneratedDocuments
       const loanApplications = await tx.loanApplication.findMany({
         where: { userId: id },
-        select: { id: true }
+        select: { id: true, isDisbursed: true }
       });
 
+      // Un préstamo desembolsado tiene plan de pagos y pagos registrados que deben conservarse
+      const disbursed = loanApplications.filter(loan => loan.isDisbursed).length;
+      if (disbursed > 0) {
+        throw new BadRequestException(`El cliente tiene ${disbursed} préstamo(s) desembolsado(s) y no se puede eliminar`);
+      }
+
       for (const loan of loanApplications) {
         await tx.generatedDocuments.deleteMany({
           where: { loanId: loan.id }
@@ -380,6 +286,9 @@ export class ClientService {
         await tx.eventLoanApplication.deleteMany({
           where: { loanId: loan.id }
         });
+        await tx.loanStatusHistory.deleteMany({
+          where: { loanId: loan.id }
+        });
       }
 
       // Delete LoanApplications
@@ -392,6 +301,11 @@ export class ClientService {
         where: { userId: id }
       });
 
+      // Delete document versions
+      await tx.loanDocument.deleteMany({
+        where: { userId: id }
+      });
+
       // Delete Documents
       await tx.document.deleteMany({
         where: { userId: id }
@@ -402,6 +316,9 @@ export class ClientService {
         where: { id }
       });
     });
+
+    await this.search.reindexUser(id);
+    return deleted;
   }
 
   async signin(email: string, password: string): Promise<User> {
@@ -432,7 +349,7 @@ export class ClientService {
     );
   }
 
-  async updateDocument(userId: string, documentFile: Express.Multer.File): Promise<User | null> {
+  async updateDocument(userId: string, documentFile: Express.Multer.File, uploadedBy: DocumentActor): Promise<User | null> {
     try {
       this.logger.log(`Iniciando actualización de documento para usuario ${userId}`);
 
@@ -525,6 +442,18 @@ export class ClientService {
         throw new Error('Error al subir el documento a Google Cloud Storage');
       }
 
+      // La cédula anterior queda en el historial; la vigente es la última versión
+      const previous = user.Document[0];
+      await this.documentHistory.record({
+        userId,
+        kind: 'cc_scan',
+        url: public_name,
+        upId,
+        file: documentFile,
+        uploadedBy,
+        legacy: previous.documentSides !== 'No definido' ? { url: previous.documentSides, upId: previous.upId } : null,
+      });
+
       // Actualiza los documentos del usuario
       try {
         const updatedDocuments = await Promise.all(user.Document.map((document) =>
@@ -694,8 +623,9 @@ export class ClientService {
     });
   }
 
-  async getAllClientsInfo(): Promise<{ id: string; email: string; names: string }[]> {
+  async getAllClientsInfo(companies?: companiesUser[] | null): Promise<{ id: string; email: string; names: string }[]> {
     const clients = await this.prisma.user.findMany({
+      where: companies ? { currentCompanie: { in: companies } } : undefined,
       select: {
         id: true,
         email: true,
@@ -1,25 +1,52 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
 export class CreateClientDto {
+  @IsEmail()
   email: string;
+
+  @IsNotEmpty()
+  @IsString()
   password: string;
+
+  @IsNotEmpty()
+  @IsString()
   names: string;
+
+  @IsNotEmpty()
+  @IsString()
   firstLastName: string;
+
+  @IsString()
   secondLastName: string;
+
+  @IsNotEmpty()
+  @IsString()
   currentCompanie: string
 };
 
 export class SignInDto {
+  @IsEmail()
   email: string;
+
+  @IsNotEmpty()
+  @IsString()
   password: string;
 }
 
 export class UpdatePasswordDto {
+  @IsNotEmpty()
+  @IsString()
   password: string;
 }
 
 export class UpdateDocumentDto {
+  @IsNotEmpty()
+  @IsString()
   documentSides: string;
 }
 
 export class RejectReasonDto {
+  @IsNotEmpty()
+  @IsString()
   reason: string;
-}
\ No newline at end of file
+}
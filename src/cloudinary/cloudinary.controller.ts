@@ -1,15 +1,21 @@
-import { Body, Controller, Post, UploadedFile, UseInterceptors } from "@nestjs/common";
+import { Body, Controller, Post, UploadedFile, UseGuards, UseInterceptors } from "@nestjs/common";
 import { CloudinaryService, FolderNames } from "./cloudinary.service";
 import { FileInterceptor } from "@nestjs/platform-express"
 import * as sharp from "sharp";
 import { FileToString } from "handlers/FileToString";
+import { ApiKeyGuard } from "src/auth/guards/api-key.guard";
+import { ApiScopes } from "src/auth/decorators/api-scopes.decorator";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiConsumes,
   ApiBody,
-  ApiBadRequestResponse
+  ApiBadRequestResponse,
+  ApiSecurity,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse
 } from '@nestjs/swagger';
 
 @ApiTags('cloudinary')
@@ -19,6 +25,8 @@ export class CloudinaryController {
         private readonly cloudinaryService: CloudinaryService,
     ) { }
 
+    @UseGuards(ApiKeyGuard)
+    @ApiScopes('media:upload')
     @Post('upload')
     @UseInterceptors(FileInterceptor('file'))
     @ApiOperation({ summary: 'Subir imagen a Cloudinary' })
@@ -46,6 +54,10 @@ export class CloudinaryController {
         }
     })
     @ApiResponse({ status: 201, description: 'Imagen subida exitosamente' })
+    @ApiSecurity('api-key')
+    @ApiBearerAuth()
+    @ApiUnauthorizedResponse({ description: 'Sin sesión o llave de API inválida' })
+    @ApiForbiddenResponse({ description: 'La llave no tiene el permiso media:upload' })
     @ApiBadRequestResponse({ description: 'Error al subir la imagen' })
     async uploadImage(
         @UploadedFile() file: Express.Multer.File,
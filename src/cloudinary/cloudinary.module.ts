@@ -2,8 +2,11 @@ import { Module } from '@nestjs/common';
 import { CloudinaryService } from './cloudinary.service';
 import { CloudinaryController } from './cloudinary.controller';
 import { ApiTags } from '@nestjs/swagger';
+import { StorageModule } from 'src/storage/storage.module';
+import { ApiClientModule } from 'src/api-client/api-client.module';
 
 @Module({
+  imports: [StorageModule, ApiClientModule],
   controllers: [CloudinaryController],
   providers: [CloudinaryService],
   exports: [CloudinaryService],
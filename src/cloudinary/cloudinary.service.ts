@@ -1,5 +1,7 @@
 import { Injectable, InternalServerErrorException, BadRequestException, Logger } from '@nestjs/common';
-import { v2 as cloudinary } from 'cloudinary';
+import { randomUUID } from 'crypto';
+import axios from 'axios';
+import { StorageService } from 'src/storage/storage.service';
 
 export type FolderNames = 'reports-images' | 'avatars_users' | 'images_with_cc' | 'signatures';
 
@@ -7,35 +9,10 @@ export type FolderNames = 'reports-images' | 'avatars_users' | 'images_with_cc'
 export class CloudinaryService {
   private readonly logger = new Logger(CloudinaryService.name);
 
-  constructor() {
-    // Configuración de Cloudinary
-    cloudinary.config({
-      cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-      api_key: process.env.CLOUDINARY_API_KEY,
-      api_secret: process.env.CLOUDINARY_API_SECRET,
-    });
-
-    // Verificar configuración de Cloudinary
-    this.validateCloudinaryConfig();
-  }
-
-  /**
-   * Valida la configuración de Cloudinary
-   */
-  private validateCloudinaryConfig() {
-    const { cloud_name, api_key, api_secret } = cloudinary.config();
-
-    if (!cloud_name || !api_key || !api_secret) {
-      this.logger.error('Configuración de Cloudinary incompleta');
-      // No lanzamos excepción para permitir que la aplicación inicie,
-      // pero registramos el error para alertar
-    } else {
-      this.logger.log('Configuración de Cloudinary cargada correctamente');
-    }
-  }
+  constructor(private readonly storage: StorageService) { }
 
   /**
-   * Sube una imagen a Cloudinary y retorna la URL segura.
+   * Sube una imagen al almacenamiento de imágenes (Cloudinary por defecto) y retorna la URL segura.
    * @param img La imagen en formato base64, URL remota u otro formato soportado.
    * @param folder La carpeta donde se guardará la imagen
    * @param publicId ID público opcional para la imagen
@@ -57,46 +34,27 @@ export class CloudinaryService {
     }
 
     try {
-      this.logger.log(`Iniciando subida a Cloudinary: folder=${folder}, publicId=${publicId || 'no definido'}`);
-
-      // Configuración para la carga con opciones optimizadas
-      const uploadOptions: cloudinary.uploader.UploadApiOptions = {
-        folder,
-        resource_type: 'auto', // Detecta automáticamente el tipo de recurso
-        overwrite: true, // Sobrescribir si existe
-        quality: 'auto:good', // Equilibrio entre calidad y tamaño
-        fetch_format: 'auto', // Optimiza el formato
-        timeout: 60000, // 60 segundos de timeout
-      };
+      const driver = this.storage.driver('images');
+      const key = `${folder}/${publicId || randomUUID()}`;
 
-      // Agrega el public_id solo si se proporciona
-      if (publicId) {
-        uploadOptions.public_id = publicId;
-      }
+      this.logger.log(`Iniciando subida de imagen: driver=${driver.name}, key=${key}`);
 
-      // Realiza la carga a Cloudinary con manejadores específicos
-      const result = await new Promise<cloudinary.uploader.UploadApiResponse>((resolve, reject) => {
-        cloudinary.uploader.upload(img, uploadOptions, (error, result) => {
-          if (error) {
-            reject(error);
-          } else if (result) {
-            resolve(result);
-          } else {
-            reject(new Error('Upload result is undefined'));
-          }
-        });
-      });
+      const { buffer, contentType } = await this.readImage(img);
+      const result = await driver.upload(key, buffer, { contentType, public: true });
 
-      this.logger.log('Subida a Cloudinary exitosa', {
-        url: result.secure_url,
-        publicId: result.public_id,
-        format: result.format,
-        size: result.bytes
+      this.logger.log('Subida de imagen exitosa', {
+        url: result.url,
+        key: result.key,
+        size: buffer.length
       });
 
-      return result.secure_url;
+      return result.url;
     } catch (error) {
-      this.logger.error('Error al subir imagen a Cloudinary:', error);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      this.logger.error('Error al subir imagen:', error);
 
       // Manejo específico de errores comunes
       if (error.http_code === 400) {
@@ -122,6 +80,27 @@ export class CloudinaryService {
     }
   }
 
+  /**
+   * Obtiene el contenido de la imagen desde base64 o desde una URL remota
+   */
+  private async readImage(img: string): Promise<{ buffer: Buffer; contentType: string }> {
+    const dataUri = img.match(/^data:([^;]+);base64,(.*)$/s);
+
+    if (dataUri) {
+      return { buffer: Buffer.from(dataUri[2], 'base64'), contentType: dataUri[1] };
+    }
+
+    if (/^https?:\/\//.test(img)) {
+      const response = await axios.get<ArrayBuffer>(img, { responseType: 'arraybuffer', timeout: 60000 });
+      return {
+        buffer: Buffer.from(response.data),
+        contentType: String(response.headers['content-type'] || 'application/octet-stream'),
+      };
+    }
+
+    throw new BadRequestException('Formato de imagen no soportado. Se esperaba base64 o una URL.');
+  }
+
   /**
    * Valida el formato de una imagen en base64
    */
@@ -164,17 +143,15 @@ export class CloudinaryService {
   }
 
   /**
-   * Elimina una imagen de Cloudinary por su public_id
+   * Elimina una imagen por su public_id (ruta dentro del almacenamiento de imágenes)
    */
   async deleteImage(publicId: string): Promise<boolean> {
     try {
-      this.logger.log(`Eliminando imagen de Cloudinary: ${publicId}`);
-
-      const result = await cloudinary.uploader.destroy(publicId);
+      this.logger.log(`Eliminando imagen: ${publicId}`);
 
-      this.logger.log(`Resultado de eliminación: ${result.result}`);
+      await this.storage.driver('images').delete(publicId);
 
-      return result.result === 'ok';
+      return true;
     } catch (error) {
       this.logger.error(`Error eliminando imagen ${publicId}:`, error);
       return false;
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { DocumentHistoryService } from './document-history.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [DocumentHistoryService],
+  exports: [DocumentHistoryService],
+})
+export class DocumentHistoryModule { }
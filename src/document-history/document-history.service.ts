@@ -0,0 +1,238 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { LoanDocument, LoanDocumentKind, Prisma, SessionUserType } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+export type LoanDocumentField = Exclude<LoanDocumentKind, 'cc_scan'>;
+
+export const LOAN_DOCUMENT_FIELDS: LoanDocumentField[] = ['fisrt_flyer', 'second_flyer', 'third_flyer', 'labor_card'];
+
+export interface DocumentActor {
+  id: string;
+  type: SessionUserType;
+}
+
+export interface RecordDocumentInput {
+  userId: string;
+  kind: LoanDocumentKind;
+  loanId?: string | null;
+  preLoanId?: string | null;
+  url: string;
+  upId?: string | null;
+  file?: Express.Multer.File | null;
+  uploadedBy: DocumentActor;
+  // Archivo vigente antes de existir el historial; se guarda como versión 1 si aún no hay versiones
+  legacy?: { url: string | null; upId?: string | null } | null;
+}
+
+type DocumentChanges = Record<string, { before: any; after: any }>;
+
+export interface DocumentVersion extends LoanDocument {
+  changes: DocumentChanges | null; // Metadatos que cambiaron frente a la versión anterior
+  sameFileAsPrevious: boolean | null; // null cuando alguna de las dos versiones no tiene checksum
+}
+
+export interface DocumentHistory {
+  kind: LoanDocumentKind;
+  current: LoanDocument | null;
+  versions: DocumentVersion[];
+}
+
+// Metadatos comparados entre una versión y la que reemplaza
+const DIFF_FIELDS = ['url', 'fileName', 'contentType', 'size', 'checksum', 'uploadedById', 'uploadedByType', 'created_at'] as const;
+
+@Injectable()
+export class DocumentHistoryService {
+  private logger = new Logger(DocumentHistoryService.name);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Guarda una versión nueva del documento y marca la anterior como reemplazada.
+   * No lanza error: el archivo ya quedó subido y un fallo del historial no debe revertir la carga.
+   */
+  async record(input: RecordDocumentInput): Promise<LoanDocument | null> {
+    try {
+      const where = this.scope(input);
+      const previous = await this.ensureCurrent(where, input, input.legacy ?? null);
+
+      const created = await this.prisma.loanDocument.create({
+        data: {
+          userId: input.userId,
+          loanId: input.loanId ?? null,
+          preLoanId: input.preLoanId ?? null,
+          kind: input.kind,
+          version: (previous?.version ?? 0) + 1,
+          url: input.url,
+          upId: input.upId ?? null,
+          ...this.describe(input.file),
+          uploadedById: input.uploadedBy.id,
+          uploadedByType: input.uploadedBy.type,
+        },
+      });
+
+      if (previous) {
+        await this.prisma.loanDocument.update({
+          where: { id: previous.id },
+          data: { replacedById: created.id },
+        });
+      }
+
+      return created;
+    } catch (error) {
+      this.logger.error(`Error al guardar la versión de ${input.kind} del usuario ${input.userId}`, error);
+      return null;
+    }
+  }
+
+  // Las versiones de la pre-solicitud pasan al préstamo cuando el cliente la verifica
+  async attachToLoan(preLoanId: string, loanId: string): Promise<void> {
+    try {
+      await this.prisma.loanDocument.updateMany({
+        where: { preLoanId },
+        data: { loanId },
+      });
+    } catch (error) {
+      this.logger.error(`Error al asociar los documentos de la pre-solicitud ${preLoanId} al préstamo ${loanId}`, error);
+    }
+  }
+
+  /**
+   * Marca como aceptada o rechazada la versión vigente de un documento del préstamo.
+   * Si el préstamo es anterior al historial, la versión se crea a partir del archivo actual.
+   */
+  async review(
+    loan: { id: string; userId: string },
+    kind: LoanDocumentField,
+    legacy: { url: string | null; upId?: string | null },
+    reviewer: DocumentActor,
+    decision: { status: 'accepted' } | { status: 'rejected'; reason: string },
+  ): Promise<LoanDocument> {
+    const current = await this.ensureCurrent(
+      { loanId: loan.id, kind },
+      { userId: loan.userId, kind, loanId: loan.id },
+      legacy,
+    );
+
+    if (!current) {
+      throw new NotFoundException(`El préstamo no tiene ${kind} para revisar`);
+    }
+
+    return this.prisma.loanDocument.update({
+      where: { id: current.id },
+      data: {
+        reviewStatus: decision.status,
+        rejectionReason: decision.status === 'rejected' ? decision.reason : null,
+        reviewedById: reviewer.id,
+        reviewedAt: new Date(),
+      },
+    });
+  }
+
+  // Historial de los documentos del préstamo más la cédula del cliente, de la versión más reciente a la más antigua
+  async loanHistory(loanId: string): Promise<DocumentHistory[]> {
+    const loan = await this.prisma.loanApplication.findUnique({
+      where: { id: loanId },
+      select: { userId: true },
+    });
+
+    if (!loan) {
+      throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+    }
+
+    const documents = await this.prisma.loanDocument.findMany({
+      where: {
+        OR: [
+          { loanId },
+          { userId: loan.userId, kind: 'cc_scan' },
+        ],
+      },
+      orderBy: [{ kind: 'asc' }, { version: 'asc' }],
+    });
+
+    const kinds: LoanDocumentKind[] = [...LOAN_DOCUMENT_FIELDS, 'cc_scan'];
+
+    return kinds.map(kind => {
+      const versions = this.withChanges(documents.filter(document => document.kind === kind));
+      return {
+        kind,
+        current: versions[versions.length - 1] ?? null,
+        versions: versions.reverse(),
+      };
+    });
+  }
+
+  private withChanges(versions: LoanDocument[]): DocumentVersion[] {
+    return versions.map((version, index) => {
+      const previous = index > 0 ? versions[index - 1] : null;
+      if (!previous) {
+        return { ...version, changes: null, sameFileAsPrevious: null };
+      }
+
+      const changes: DocumentChanges = {};
+      for (const field of DIFF_FIELDS) {
+        const before = previous[field] instanceof Date ? (previous[field] as Date).toISOString() : previous[field];
+        const after = version[field] instanceof Date ? (version[field] as Date).toISOString() : version[field];
+        if (before !== after) changes[field] = { before, after };
+      }
+
+      return {
+        ...version,
+        changes,
+        sameFileAsPrevious: previous.checksum && version.checksum ? previous.checksum === version.checksum : null,
+      };
+    });
+  }
+
+  // Última versión del documento; si no hay ninguna pero el registro tiene un archivo, lo guarda como versión 1
+  private async ensureCurrent(
+    where: Prisma.LoanDocumentWhereInput,
+    owner: Pick<RecordDocumentInput, 'userId' | 'kind' | 'loanId' | 'preLoanId'>,
+    legacy: { url: string | null; upId?: string | null } | null,
+  ): Promise<LoanDocument | null> {
+    const latest = await this.prisma.loanDocument.findFirst({
+      where,
+      orderBy: { version: 'desc' },
+    });
+
+    if (latest || !legacy?.url) {
+      return latest;
+    }
+
+    return this.prisma.loanDocument.create({
+      data: {
+        userId: owner.userId,
+        loanId: owner.loanId ?? null,
+        preLoanId: owner.preLoanId ?? null,
+        kind: owner.kind,
+        version: 1,
+        url: legacy.url,
+        upId: legacy.upId ?? null,
+        uploadedById: owner.userId,
+        uploadedByType: 'client',
+      },
+    });
+  }
+
+  // La cédula se versiona por cliente; los demás documentos por préstamo o pre-solicitud
+  private scope(input: RecordDocumentInput): Prisma.LoanDocumentWhereInput {
+    if (input.kind === 'cc_scan') {
+      return { userId: input.userId, kind: 'cc_scan' };
+    }
+
+    return input.loanId
+      ? { loanId: input.loanId, kind: input.kind }
+      : { preLoanId: input.preLoanId, kind: input.kind };
+  }
+
+  private describe(file: Express.Multer.File | null | undefined) {
+    if (!file) return {};
+
+    return {
+      fileName: file.originalname ?? null,
+      contentType: file.mimetype ?? null,
+      size: file.size ?? file.buffer?.length ?? null,
+      checksum: file.buffer ? createHash('sha256').update(file.buffer).digest('hex') : null,
+    };
+  }
+}
@@ -1,15 +1,11 @@
 import { Module } from '@nestjs/common';
 import { GoogleCloudService } from './gcp.service';
-import { CredentialGCP } from 'templates/cloud';
+import { StorageModule } from 'src/storage/storage.module';
+import { PaystubModule } from 'src/paystub/paystub.module';
 
 @Module({
-  providers: [
-    GoogleCloudService,
-    {
-      provide: 'CREDENTIAL_GCP',
-      useValue: CredentialGCP,
-    }
-  ],
+  imports: [StorageModule, PaystubModule],
+  providers: [GoogleCloudService],
   exports: [GoogleCloudService]
 })
 export class GoogleCloudModule {}
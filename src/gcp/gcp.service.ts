@@ -1,7 +1,8 @@
-import { Inject, Injectable, Logger } from '@nestjs/common';
-import { Storage } from '@google-cloud/storage';
-import DecryptJson from 'handlers/decryptJson';
-import { CREDENTIAL_GCP, GpcTypes } from 'templates/cloud';
+import { Injectable, Logger } from '@nestjs/common';
+import { StorageService } from 'src/storage/storage.service';
+import { StorageRole } from 'src/storage/storage.config';
+import { PaystubFlyer, PaystubService } from 'src/paystub/paystub.service';
+import { PaystubExtraction } from 'src/paystub/paystub.parser';
 
 export interface PropsUpload {
   file: Express.Multer.File;
@@ -24,41 +25,12 @@ export class GoogleCloudService {
   private logger = new Logger(GoogleCloudService.name);
 
   constructor(
-    @Inject(CREDENTIAL_GCP)
-    private readonly credential: GpcTypes,
+    private readonly storage: StorageService,
+    private readonly paystub: PaystubService,
   ) { }
 
   /**
-   * Crea una instancia de Storage utilizando las credenciales desencriptadas.
-   */
-  private getStorageInstance(): Storage {
-    this.logger.log('Iniciando obtención de instancia de Storage');
-    try {
-      const EnCredential = this.credential.k;
-      this.logger.log('Credenciales obtenidas, procediendo a desencriptar');
-
-      const decryptedCredentials = DecryptJson({
-        encryptedData: EnCredential,
-        password: process.env.KEY_DECRYPT as string,
-      });
-
-      this.logger.log('Credenciales desencriptadas correctamente');
-
-      const storage = new Storage({
-        projectId: process.env.PROJECT_ID_GOOGLE,
-        credentials: decryptedCredentials,
-      });
-
-      this.logger.log('Instancia de Storage creada exitosamente');
-      return storage;
-    } catch (error) {
-      this.logger.error('Error al obtener instancia de Storage:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Sube un archivo a Google Cloud Storage.
+   * Sube un archivo al almacenamiento de documentos (o al de backups si isBackup).
    * @param param0 Datos necesarios para subir el archivo.
    * @returns Un objeto indicando el éxito y el nombre público del archivo.
    * @throws Error si falla la subida del archivo
@@ -83,69 +55,34 @@ export class GoogleCloudService {
     }
 
     try {
-      // Determinar el bucket correcto
-      const bucketName = isBackup
-        ? process.env.NAME_BUCKET_GOOGLE_STORAGE
-        : process.env.NAME_BUCKET_GOOGLE_STORAGE_DOCS;
-
-      if (!bucketName) {
-        this.logger.error(`Error: Falta configuración del bucket (isBackup: ${isBackup})`);
-        throw new Error('Configuración de bucket no encontrada');
-      }
-
-      // Mapeo de tipos MIME a extensiones de archivo
-      const mimeToExt: Record<string, string> = {
-        'application/pdf': '.pdf',
-        'application/zip': '.zip',
-        'application/gzip': '.gz',
-        'application/x-gzip': '.gz',
-        'image/jpeg': '.jpg',
-        'image/png': '.png',
-        'application/msword': '.doc',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx'
-      };
+      const driver = this.storage.driver(isBackup ? 'backups' : 'docs');
 
       // Obtener la extensión basada en el contentType
-      const extension = contentType ? (mimeToExt[contentType] || '.pdf') : '.pdf';
+      const extension = contentType ? this.getFileExtensionFromContentType(contentType) : '.pdf';
       const fileName = `${name}-${userId}-${upId}${extension}`;
 
-      this.logger.log(`Intentando subir archivo ${fileName} al bucket ${bucketName}`);
-
-      // Obtener instancia de Storage
-      const storage = this.getStorageInstance();
-      if (!storage) {
-        throw new Error('No se pudo inicializar la instancia de Storage');
-      }
+      this.logger.log(`Intentando subir archivo ${fileName} al bucket ${driver.bucket} (${driver.name})`);
 
       // Convertir a buffer de forma segura (evitando doble conversión)
       const buffer = file.buffer instanceof Buffer ? file.buffer : Buffer.from(file.buffer);
 
-      // Subir el archivo con un Promise adecuado
-      await storage
-        .bucket(bucketName)
-        .file(fileName)
-        .save(buffer, {
-          metadata: {
-            contentType: contentType || 'application/octet-stream'
-          },
-          resumable: file.size > 5 * 1024 * 1024 // Usar resumable para archivos >5MB
-        });
+      const { url } = await driver.upload(fileName, buffer, {
+        contentType: contentType || 'application/octet-stream',
+      });
 
       this.logger.log(`Archivo subido exitosamente: ${fileName}`);
 
-      const public_name = `https://storage.googleapis.com/${bucketName}/${fileName}`;
-
       return {
         success: true,
-        public_name,
+        public_name: url,
       };
     } catch (error) {
       // Logging detallado del error
       const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-      this.logger.error(`Error al subir archivo a GCS (${name}-${userId}): ${errorMessage}`, error);
+      this.logger.error(`Error al subir archivo (${name}-${userId}): ${errorMessage}`, error);
 
       // Re-lanzar el error con información específica
-      throw new Error(`Error al subir el archivo a Google Cloud Storage: ${errorMessage}`);
+      throw new Error(`Error al subir el archivo al almacenamiento: ${errorMessage}`);
     }
   }
 
@@ -174,6 +111,7 @@ export class GoogleCloudService {
     fisrt_flyer: string | null,
     second_flyer: string | null,
     third_flyer: string | null,
+    paystubs: Partial<Record<PaystubFlyer, PaystubExtraction>>,
   }> {
     this.logger.log('Iniciando carga de documentos de préstamo');
     const contentType = 'application/pdf';
@@ -189,6 +127,9 @@ export class GoogleCloudService {
         third_flyer: null,
       };
 
+      // Datos leídos de cada volante subido (empleador, periodo, devengado, neto)
+      const paystubs: Partial<Record<PaystubFlyer, PaystubExtraction>> = {};
+
       // Procesar cada archivo si no es null y tiene ID correspondiente
       if (labor_card && upid_labor_card) {
         const laborCardResult = await this.uploadToGcs({
@@ -210,6 +151,7 @@ export class GoogleCloudService {
           contentType,
         });
         results.fisrt_flyer = firstFlyerResult.public_name;
+        paystubs.fisrt_flyer = await this.paystub.extract(fisrt_flyer.buffer);
       }
 
       if (second_flyer && upid_second_flyer) {
@@ -221,6 +163,7 @@ export class GoogleCloudService {
           contentType,
         });
         results.second_flyer = secondFlyerResult.public_name;
+        paystubs.second_flyer = await this.paystub.extract(second_flyer.buffer);
       }
 
       if (third_flyer && upid_third_flyer) {
@@ -232,6 +175,7 @@ export class GoogleCloudService {
           contentType,
         });
         results.third_flyer = thirdFlyerResult.public_name;
+        paystubs.third_flyer = await this.paystub.extract(third_flyer.buffer);
       }
 
       this.logger.log(`Documentos de préstamo cargados exitosamente para cliente: ${userId}`);
@@ -241,6 +185,7 @@ export class GoogleCloudService {
         fisrt_flyer: results.fisrt_flyer,
         second_flyer: results.second_flyer,
         third_flyer: results.third_flyer,
+        paystubs,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Error desconocido';
@@ -257,37 +202,30 @@ export class GoogleCloudService {
   // async getFileGcs(fileName: string): Promise<Buffer> {}
 
   /**
-   * Elimina un archivo de Google Cloud Storage usando su URL completa o mediante parámetros individuales.
+   * Elimina un archivo usando su URL completa o mediante parámetros individuales.
    * @param props Puede ser un objeto con la URL del archivo o los parámetros tradicionales (type, userId, upId)
    * @returns Un objeto indicando el éxito y un mensaje.
    */
   async deleteFileGcs(props: { fileUrl: string } | PropsDelete): Promise<{ success: boolean; message: string }> {
     try {
-      const storage = this.getStorageInstance();
-      let bucketName: string;
+      let role: StorageRole;
       let fileName: string;
 
       // Comprobar si estamos recibiendo una URL o los parámetros tradicionales
       if ('fileUrl' in props) {
-        // Procesar URL completa: https://storage.googleapis.com/BUCKET_NAME/FILE_NAME
-        const url = new URL(props.fileUrl);
+        const located = this.locateUrl(props.fileUrl);
 
-        // La ruta comienza con '/' seguido del nombre del bucket y del archivo
-        const pathParts = url.pathname.split('/').filter(part => part !== '');
-
-        if (pathParts.length < 2) {
-          throw new Error('URL de archivo inválida. Formato esperado: https://storage.googleapis.com/BUCKET_NAME/FILE_NAME');
+        if (!located) {
+          throw new Error(`La URL ${props.fileUrl} no pertenece a ningún almacenamiento configurado`);
         }
 
-        bucketName = pathParts[0];
-        // El nombre del archivo puede contener '/', así que unimos todas las partes restantes
-        fileName = pathParts.slice(1).join('/');
+        ({ role, key: fileName } = located);
 
-        this.logger.log(`Eliminando archivo desde URL. Bucket: ${bucketName}, Archivo: ${fileName}`);
+        this.logger.log(`Eliminando archivo desde URL. Almacenamiento: ${role}, Archivo: ${fileName}`);
       } else {
         // Usar los parámetros tradicionales
         const { type, userId, upId, contentType } = props;
-        bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+        role = 'backups';
 
         // Determinar la extensión correcta basada en contentType o usar PDF por defecto
         const extension = contentType
@@ -296,16 +234,16 @@ export class GoogleCloudService {
 
         fileName = `${type}-${userId}-${upId}${extension}`;
 
-        this.logger.log(`Eliminando archivo con parámetros. Bucket: ${bucketName}, Archivo: ${fileName}`);
+        this.logger.log(`Eliminando archivo con parámetros. Almacenamiento: ${role}, Archivo: ${fileName}`);
       }
 
       // Validar que tenemos toda la información necesaria
-      if (!bucketName || !fileName) {
-        throw new Error('No se pudo determinar el bucket o nombre del archivo');
+      if (!fileName) {
+        throw new Error('No se pudo determinar el nombre del archivo');
       }
 
       // Eliminar el archivo
-      await storage.bucket(bucketName).file(fileName).delete();
+      await this.storage.driver(role).delete(fileName);
 
       return {
         success: true,
@@ -321,6 +259,27 @@ export class GoogleCloudService {
     }
   }
 
+  /**
+   * Busca el almacenamiento al que pertenece una URL guardada en base de datos.
+   * @param fileUrl URL pública del archivo
+   * @returns El rol y la ruta del objeto, o null si ningún driver la reconoce
+   */
+  private locateUrl(fileUrl: string): { role: StorageRole; key: string } | null {
+    for (const role of ['docs', 'extracts', 'backups'] as StorageRole[]) {
+      try {
+        const key = this.storage.driver(role).keyFromUrl(fileUrl);
+        if (key) {
+          return { role, key };
+        }
+      } catch (error) {
+        // Un rol sin configurar no puede ser el dueño de la URL
+        this.logger.debug(`Almacenamiento ${role} no disponible: ${error.message}`);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Obtiene la extensión de archivo basada en el tipo de contenido MIME.
    * @param contentType Tipo de contenido MIME
@@ -342,16 +301,13 @@ export class GoogleCloudService {
   }
 
   /**
-   * Verifica si un archivo existe en Google Cloud Storage.
+   * Verifica si un archivo existe en el bucket principal.
    * @param fileName Nombre del archivo a verificar.
    * @returns Verdadero si el archivo existe, falso de lo contrario.
    */
   async fileExists(fileName: string): Promise<boolean> {
     try {
-      const storage = this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
-      const [exists] = await storage.bucket(bucketName).file(fileName).exists();
-      return exists;
+      return await this.storage.driver('backups').exists(fileName);
     } catch (error) {
       this.logger.error('Error al verificar si el archivo existe:', error);
       return false;
@@ -366,19 +322,7 @@ export class GoogleCloudService {
    */
   async getSignedUrl(fileName: string, expirationMinutes = 60): Promise<string | null> {
     try {
-      const storage = this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
-
-      const [url] = await storage
-        .bucket(bucketName)
-        .file(fileName)
-        .getSignedUrl({
-          version: 'v4',
-          action: 'read',
-          expires: Date.now() + expirationMinutes * 60 * 1000,
-        });
-
-      return url;
+      return await this.storage.driver('backups').signedUrl(fileName, expirationMinutes * 60);
     } catch (error) {
       this.logger.error('Error al obtener la URL firmada:', error);
       return null;
@@ -386,28 +330,25 @@ export class GoogleCloudService {
   }
 
   /**
-   * Downloads a ZIP archive from Google Cloud Storage.
+   * Downloads a ZIP archive from the main bucket.
    * @param documentId ID of the document (used for logging)
-   * @param filePath Path of the file within the bucket (not the full URL)
+   * @param filePath Path of the file within the bucket, or the public URL stored for it
    * @returns Buffer containing the ZIP file data
    */
   async downloadZipFromGcs(documentId: string, filePath: string): Promise<Buffer> {
     try {
-      const storage = this.getStorageInstance();
-      const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
+      const driver = this.storage.driver('backups');
+      const key = this.storage.resolveKey('backups', filePath);
 
-      this.logger.log(`Downloading file: ${filePath} from bucket: ${bucketName} for document: ${documentId}`);
+      this.logger.log(`Downloading file: ${key} from bucket: ${driver.bucket} for document: ${documentId}`);
 
       // Check if file exists first
-      const file = storage.bucket(bucketName).file(filePath);
-      const [exists] = await file.exists();
-
-      if (!exists) {
-        throw new Error(`File ${filePath} does not exist in bucket ${bucketName}`);
+      if (!(await driver.exists(key))) {
+        throw new Error(`File ${key} does not exist in bucket ${driver.bucket}`);
       }
 
       // Download the ZIP file
-      const [fileContents] = await file.download();
+      const fileContents = await this.storage.download('backups', key);
 
       this.logger.log(`ZIP file for document ${documentId} downloaded successfully. Size: ${fileContents.length} bytes`);
       return fileContents;
@@ -446,62 +387,82 @@ export class GoogleCloudService {
     }
 
     try {
-      const bucketName = "creditoya-backup";
-
-      // Mapeo de tipos MIME a extensiones de archivo
-      const mimeToExt: Record<string, string> = {
-        'application/pdf': '.pdf',
-        'application/zip': '.zip',
-        'application/gzip': '.gz',
-        'application/x-gzip': '.gz',
-        'image/jpeg': '.jpg',
-        'image/png': '.png',
-        'application/msword': '.doc',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx'
-      };
+      const driver = this.storage.driver('extracts');
 
       // Obtener la extensión basada en el contentType
-      const extension = contentType ? (mimeToExt[contentType] || '.pdf') : '.pdf';
+      const extension = contentType ? this.getFileExtensionFromContentType(contentType) : '.pdf';
       const fileName = `${name}-${upId}${extension}`;
 
-      this.logger.log(`Intentando subir archivo ${fileName} al bucket ${bucketName}`);
-
-      // Obtener instancia de Storage
-      const storage = this.getStorageInstance();
-      if (!storage) {
-        throw new Error('No se pudo inicializar la instancia de Storage');
-      }
+      this.logger.log(`Intentando subir archivo ${fileName} al bucket ${driver.bucket} (${driver.name})`);
 
       // Convertir a buffer de forma segura (evitando doble conversión)
       const buffer = file.buffer instanceof Buffer ? file.buffer : Buffer.from(file.buffer);
 
       // Subir el archivo con acceso público
-      await storage
-        .bucket(bucketName)
-        .file(fileName)
-        .save(buffer, {
-          metadata: {
-            contentType: contentType || 'application/octet-stream'
-          },
-          public: true, // Hacer el archivo accesible públicamente
-          resumable: file.size > 5 * 1024 * 1024 // Usar resumable para archivos >5MB
-        });
+      const { url } = await driver.upload(fileName, buffer, {
+        contentType: contentType || 'application/octet-stream',
+        public: true,
+      });
 
       this.logger.log(`Archivo subido exitosamente: ${fileName}`);
 
-      const public_name = `https://storage.googleapis.com/${bucketName}/${fileName}`;
-
       return {
         success: true,
-        public_name,
+        public_name: url,
       };
     } catch (error) {
       // Logging detallado del error
       const errorMessage = error instanceof Error ? error.message : 'Error desconocido';
-      this.logger.error(`Error al subir archivo a GCS (${name}-${upId}): ${errorMessage}`, error);
+      this.logger.error(`Error al subir archivo (${name}-${upId}): ${errorMessage}`, error);
 
       // Re-lanzar el error con información específica
-      throw new Error(`Error al subir el archivo a Google Cloud Storage: ${errorMessage}`);
+      throw new Error(`Error al subir el archivo al almacenamiento: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Guarda un buffer como objeto privado en el bucket principal.
+   * @param objectPath Ruta del objeto dentro del bucket.
+   * @param buffer Contenido del archivo.
+   * @param contentType Tipo MIME del contenido.
+   * @returns La ruta del objeto guardado.
+   */
+  async uploadBuffer(objectPath: string, buffer: Buffer, contentType?: string): Promise<string> {
+    try {
+      const { key } = await this.storage.driver('backups').upload(objectPath, buffer, {
+        contentType: contentType || 'application/octet-stream',
+      });
+
+      return key;
+    } catch (error) {
+      this.logger.error(`Error al guardar el objeto ${objectPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Descarga un objeto del bucket principal.
+   * @param objectPath Ruta del objeto dentro del bucket.
+   * @returns Buffer con el contenido del objeto.
+   */
+  async downloadFile(objectPath: string): Promise<Buffer> {
+    try {
+      return await this.storage.download('backups', objectPath);
+    } catch (error) {
+      this.logger.error(`Error al descargar el objeto ${objectPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Elimina un objeto del bucket principal. No falla si el objeto ya no existe.
+   * @param objectPath Ruta del objeto dentro del bucket.
+   */
+  async deleteFile(objectPath: string): Promise<void> {
+    try {
+      await this.storage.driver('backups').delete(objectPath);
+    } catch (error) {
+      this.logger.error(`Error al eliminar el objeto ${objectPath}:`, error);
     }
   }
 }
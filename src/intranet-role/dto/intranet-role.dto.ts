@@ -0,0 +1,26 @@
+import { companiesUser } from '@prisma/client';
+import { Permission } from '../permissions';
+
+export interface IntranetRoleInput {
+  name?: string;
+  description?: string | null;
+  permissions?: string[];
+  companies?: string[];
+}
+
+/**
+ * Lo que puede hacer un usuario de intranet según su rol. `companies` es null cuando
+ * el rol atiende a todas las empresas.
+ */
+export interface IntranetAccess {
+  role: string;
+  permissions: Set<Permission>;
+  companies: companiesUser[] | null;
+}
+
+// Recibe el acceso anterior y el nuevo de un usuario de intranet cuyo rol cambió
+export type AccessChangeListener = (
+  userId: string,
+  previous: IntranetAccess | null,
+  next: IntranetAccess | null,
+) => Promise<void>;
@@ -0,0 +1,135 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { $Enums } from '@prisma/client';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { AuditEntity } from 'src/audit/decorators/audit-entity.decorator';
+import { IntranetRoleService } from './intranet-role.service';
+import { ALL_PERMISSIONS } from './permissions';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+
+const roleSchema = (required: string[] = []) => ({
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Nombre del rol, el que queda en UsersIntranet.rol' },
+    description: { type: 'string', description: 'Descripción (opcional)' },
+    permissions: { type: 'array', items: { type: 'string', enum: ALL_PERMISSIONS }, description: 'Permisos del rol' },
+    companies: {
+      type: 'array',
+      items: { type: 'string', enum: Object.values($Enums.companiesUser) },
+      description: 'Empresas de los clientes que atiende; vacío = todas',
+    },
+  },
+  required,
+});
+
+@ApiTags('roles')
+@Controller('admin/roles')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@RequirePermission('role.manage')
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({ description: 'No autenticado' })
+@ApiForbiddenResponse({ description: 'Requiere el permiso role.manage' })
+export class IntranetRoleController {
+  constructor(private readonly roles: IntranetRoleService) { }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'Catálogo de permisos que se pueden asignar a un rol' })
+  @ApiResponse({ status: 200, description: 'Permisos con su descripción' })
+  listPermissions() {
+    return this.roles.listPermissions();
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar los roles de intranet con la cantidad de usuarios de cada uno' })
+  @ApiResponse({ status: 200, description: 'Roles de intranet' })
+  async list() {
+    return this.roles.list();
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Crear un rol de intranet' })
+  @ApiBody({ schema: roleSchema(['name', 'permissions']) })
+  @ApiResponse({ status: 201, description: 'Rol creado' })
+  @ApiBadRequestResponse({ description: 'Nombre repetido, permisos o empresas no válidos' })
+  async create(
+    @Body('name') name: string,
+    @Body('permissions') permissions: string[],
+    @Body('description') description?: string,
+    @Body('companies') companies?: string[],
+  ) {
+    return this.roles.create({ name, description, permissions, companies });
+  }
+
+  @Patch(':id')
+  @AuditEntity('intranetRole')
+  @ApiOperation({ summary: 'Editar nombre, permisos o empresas de un rol' })
+  @ApiParam({ name: 'id', description: 'ID del rol' })
+  @ApiBody({ schema: roleSchema() })
+  @ApiResponse({ status: 200, description: 'Rol actualizado' })
+  @ApiNotFoundResponse({ description: 'Rol no encontrado' })
+  @ApiBadRequestResponse({ description: 'Datos no válidos o rol del sistema' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('name') name?: string,
+    @Body('description') description?: string,
+    @Body('permissions') permissions?: string[],
+    @Body('companies') companies?: string[],
+  ) {
+    return this.roles.update(id, { name, description, permissions, companies });
+  }
+
+  @Delete(':id')
+  @AuditEntity('intranetRole')
+  @ApiOperation({ summary: 'Eliminar un rol sin usuarios asignados' })
+  @ApiParam({ name: 'id', description: 'ID del rol' })
+  @ApiResponse({ status: 200, description: 'Rol eliminado' })
+  @ApiNotFoundResponse({ description: 'Rol no encontrado' })
+  @ApiBadRequestResponse({ description: 'Rol del sistema o con usuarios asignados' })
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.roles.remove(id);
+  }
+
+  @Put('users/:userId')
+  @AuditEntity('usersIntranet', 'userId')
+  @ApiOperation({ summary: 'Asignar un rol a un usuario de intranet; si deja de poder aprobar alguna empresa sus solicitudes pendientes se reasignan' })
+  @ApiParam({ name: 'userId', description: 'ID del usuario de intranet' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { role: { type: 'string', description: 'Nombre del rol' } },
+      required: ['role'],
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Usuario con su nuevo rol' })
+  @ApiNotFoundResponse({ description: 'Usuario no encontrado' })
+  @ApiBadRequestResponse({ description: 'El rol no existe' })
+  async assign(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body('role') role: string,
+  ) {
+    return this.roles.assign(userId, role);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { IntranetRoleService } from './intranet-role.service';
+import { IntranetRoleController } from './intranet-role.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [IntranetRoleController],
+  providers: [IntranetRoleService, IntranetAuthGuard, PermissionsGuard],
+  exports: [IntranetRoleService, PermissionsGuard],
+})
+export class IntranetRoleModule { }
@@ -0,0 +1,83 @@
+import { ForbiddenException } from '@nestjs/common';
+import { IntranetRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { IntranetRoleService } from './intranet-role.service';
+
+const role = (overrides: Partial<IntranetRole>): IntranetRole => ({
+  id: 'role-1',
+  name: 'analista',
+  description: null,
+  permissions: ['loan.view', 'loan.approve'],
+  companies: [],
+  isSystem: false,
+  created_at: new Date(2026, 0, 1),
+  updated_at: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+describe('IntranetRoleService access', () => {
+  const roles: IntranetRole[] = [
+    role({ name: 'admin', permissions: [], companies: ['incauca_sas'] }),
+    role({ name: 'analista_conalta', companies: ['conalta'] }),
+    role({ name: 'analista' }),
+  ];
+  const prisma = {
+    intranetRole: {
+      findUnique: jest.fn(({ where }: { where: { name: string } }) =>
+        Promise.resolve(roles.find((r) => r.name === where.name) ?? null),
+      ),
+    },
+  } as unknown as PrismaService;
+  const service = new IntranetRoleService(prisma);
+
+  const intranet = (rol: string) => ({ type: 'intranet', rol });
+
+  it('gives admin every permission for every company', async () => {
+    const access = await service.accessFor(intranet('admin'));
+
+    expect(access?.companies).toBeNull();
+    expect(access?.permissions.has('loan.disburse')).toBe(true);
+    expect(service.inScope(access!, null)).toBe(true);
+  });
+
+  it('scopes a role to its companies and their aliases', async () => {
+    const access = await service.accessFor(intranet('analista_conalta'));
+
+    expect(access?.companies).toEqual(['conalta', 'con_alta']);
+    expect(service.inScope(access!, 'con_alta')).toBe(true);
+    expect(service.inScope(access!, 'incauca_sas')).toBe(false);
+    expect(service.inScope(access!, null)).toBe(false);
+  });
+
+  it('treats a role without companies as serving all of them', async () => {
+    const access = await service.accessFor(intranet('analista'));
+
+    expect(access?.companies).toBeNull();
+    expect(service.inScope(access!, 'pichichi_sas')).toBe(true);
+  });
+
+  it('requires the permission and a company within scope', async () => {
+    const user = intranet('analista_conalta');
+
+    await expect(
+      service.assertPermission(user, 'loan.approve', 'conalta'),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.assertPermission(user, 'loan.disburse', 'conalta'),
+    ).rejects.toThrow('Requiere el permiso loan.disburse');
+    await expect(
+      service.assertPermission(user, 'loan.approve', 'incauca_sas'),
+    ).rejects.toThrow(
+      'El cliente pertenece a una empresa que su rol no atiende',
+    );
+  });
+
+  it('denies clients and unknown roles', async () => {
+    await expect(
+      service.assertPermission({ type: 'client' }, 'loan.view'),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.assertPermission(intranet('inexistente'), 'loan.view'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,311 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { $Enums, companiesUser, IntranetRole } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { AccessChangeListener, IntranetAccess, IntranetRoleInput } from './dto/intranet-role.dto';
+import {
+  ADMIN_ROLE,
+  ALL_PERMISSIONS,
+  expandCompanies,
+  Permission,
+  PERMISSIONS,
+  ScopedModel,
+  SYSTEM_ROLES,
+} from './permissions';
+
+// Los permisos se consultan en cada petición protegida; un cambio de rol tarda a lo sumo esto en otras instancias
+const ACCESS_CACHE_MS = 30 * 1000;
+
+const COMPANIES = Object.values($Enums.companiesUser) as companiesUser[];
+
+@Injectable()
+export class IntranetRoleService implements OnModuleInit {
+  private logger = new Logger(IntranetRoleService.name);
+  private cache = new Map<string, { access: IntranetAccess | null; expiresAt: number }>();
+  private accessListeners: AccessChangeListener[] = [];
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  async onModuleInit() {
+    try {
+      for (const [name, role] of Object.entries(SYSTEM_ROLES)) {
+        await this.prisma.intranetRole.upsert({
+          where: { name },
+          create: { name, description: role.description, permissions: role.permissions, isSystem: true },
+          update: {},
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error al crear los roles de intranet del sistema', error);
+    }
+  }
+
+  /**
+   * Registra a quien deba reaccionar cuando cambia el acceso de un usuario, p. ej. la
+   * asignación de solicitudes, que depende de este módulo y no al revés.
+   */
+  onAccessChange(listener: AccessChangeListener) {
+    this.accessListeners.push(listener);
+  }
+
+  listPermissions() {
+    return ALL_PERMISSIONS.map(key => ({ key, description: PERMISSIONS[key] }));
+  }
+
+  async list() {
+    const [roles, users] = await Promise.all([
+      this.prisma.intranetRole.findMany({ orderBy: { name: 'asc' } }),
+      this.prisma.usersIntranet.groupBy({ by: ['rol'], _count: { _all: true } }),
+    ]);
+    const usersByRole = new Map(users.map(group => [group.rol, group._count._all]));
+
+    return roles.map(role => ({
+      ...this.present(role),
+      users: usersByRole.get(role.name) ?? 0,
+    }));
+  }
+
+  async create(input: IntranetRoleInput): Promise<IntranetRole> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BadRequestException('El nombre del rol es requerido');
+    }
+
+    const existing = await this.prisma.intranetRole.findUnique({ where: { name } });
+    if (existing) {
+      throw new BadRequestException(`Ya existe un rol llamado ${name}`);
+    }
+
+    const role = await this.prisma.intranetRole.create({
+      data: {
+        name,
+        description: input.description?.trim() || null,
+        permissions: this.validatePermissions(input.permissions ?? []),
+        companies: this.validateCompanies(input.companies ?? []),
+      },
+    });
+
+    this.logger.log(`Rol ${name} creado con permisos ${role.permissions.join(', ') || '(ninguno)'}`);
+    return role;
+  }
+
+  async update(id: string, input: IntranetRoleInput): Promise<IntranetRole> {
+    const current = await this.findOne(id);
+    const name = input.name?.trim();
+
+    if (current.isSystem && name !== undefined && name !== current.name) {
+      throw new BadRequestException(`El rol ${current.name} es del sistema y no se puede renombrar`);
+    }
+    if (current.name === ADMIN_ROLE && (input.permissions !== undefined || input.companies !== undefined)) {
+      throw new BadRequestException('El rol admin siempre tiene todos los permisos sobre todas las empresas');
+    }
+    if (name !== undefined && !name) {
+      throw new BadRequestException('El nombre del rol no puede estar vacío');
+    }
+    if (name && name !== current.name && await this.prisma.intranetRole.findUnique({ where: { name } })) {
+      throw new BadRequestException(`Ya existe un rol llamado ${name}`);
+    }
+
+    const role = await this.prisma.$transaction(async tx => {
+      const updated = await tx.intranetRole.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(input.description !== undefined && { description: input.description?.trim() || null }),
+          ...(input.permissions !== undefined && { permissions: this.validatePermissions(input.permissions) }),
+          ...(input.companies !== undefined && { companies: this.validateCompanies(input.companies) }),
+        },
+      });
+
+      // Los usuarios guardan el nombre del rol, así que se renombra también en ellos
+      if (name && name !== current.name) {
+        await tx.usersIntranet.updateMany({ where: { rol: current.name }, data: { rol: name } });
+      }
+
+      return updated;
+    });
+
+    this.cache.clear();
+    this.logger.log(`Rol ${role.name} actualizado`);
+
+    if (input.permissions !== undefined || input.companies !== undefined) {
+      const users = await this.prisma.usersIntranet.findMany({ where: { rol: role.name }, select: { id: true } });
+      for (const user of users) {
+        await this.notifyAccessChange(user.id, this.accessOf(current), this.accessOf(role));
+      }
+    }
+
+    return role;
+  }
+
+  async remove(id: string): Promise<IntranetRole> {
+    const role = await this.findOne(id);
+
+    if (role.isSystem) {
+      throw new BadRequestException(`El rol ${role.name} es del sistema y no se puede eliminar`);
+    }
+
+    const assigned = await this.prisma.usersIntranet.count({ where: { rol: role.name } });
+    if (assigned > 0) {
+      throw new BadRequestException(`El rol ${role.name} está asignado a ${assigned} usuario(s); reasígnelos primero`);
+    }
+
+    await this.prisma.intranetRole.delete({ where: { id } });
+    this.cache.clear();
+    this.logger.log(`Rol ${role.name} eliminado`);
+
+    return role;
+  }
+
+  async assign(userId: string, roleName: string) {
+    const role = await this.prisma.intranetRole.findUnique({ where: { name: roleName?.trim() ?? '' } });
+    if (!role) {
+      throw new BadRequestException(`El rol ${roleName} no existe`);
+    }
+
+    const user = await this.prisma.usersIntranet.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`Usuario de intranet con ID ${userId} no encontrado`);
+    }
+
+    const previous = await this.prisma.intranetRole.findUnique({ where: { name: user.rol } });
+
+    const updated = await this.prisma.usersIntranet.update({
+      where: { id: userId },
+      data: { rol: role.name },
+      omit: { password: true },
+    });
+
+    this.logger.log(`Rol de ${user.email} cambiado de ${user.rol} a ${role.name}`);
+
+    if (user.rol !== role.name) {
+      await this.notifyAccessChange(userId, previous ? this.accessOf(previous) : null, this.accessOf(role));
+    }
+
+    return updated;
+  }
+
+  /**
+   * Permisos y empresas del rol del usuario. Null si el rol no existe, p. ej. usuarios
+   * antiguos con "No definido".
+   */
+  async accessFor(user: { type?: string; rol?: string }): Promise<IntranetAccess | null> {
+    if (user?.type !== 'intranet' || !user.rol) {
+      return null;
+    }
+
+    const cached = this.cache.get(user.rol);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.access;
+    }
+
+    const role = await this.prisma.intranetRole.findUnique({ where: { name: user.rol } });
+    const access = role ? this.accessOf(role) : null;
+
+    this.cache.set(user.rol, { access, expiresAt: Date.now() + ACCESS_CACHE_MS });
+    return access;
+  }
+
+  // Para chequeos dentro del handler, cuando el permiso depende del contenido del body
+  async assertPermission(user: { type?: string; rol?: string }, permission: Permission, company?: companiesUser | null) {
+    const access = await this.accessFor(user);
+
+    if (!access || !access.permissions.has(permission)) {
+      throw new ForbiddenException(`Requiere el permiso ${permission}`);
+    }
+
+    if (company !== undefined && !this.inScope(access, company)) {
+      throw new ForbiddenException('El cliente pertenece a una empresa que su rol no atiende');
+    }
+  }
+
+  inScope(access: IntranetAccess, company: companiesUser | null): boolean {
+    return access.companies === null || (company !== null && access.companies.includes(company));
+  }
+
+  // Empresa del cliente dueño del préstamo, del cliente o del lote de nómina; undefined si la entidad no existe
+  async companyOf(model: ScopedModel, id: string): Promise<companiesUser | null | undefined> {
+    if (model === 'payrollDeductionBatch') {
+      const batch = await this.prisma.payrollDeductionBatch.findUnique({ where: { id }, select: { company: true } });
+      return batch ? batch.company : undefined;
+    }
+
+    if (model === 'user') {
+      const user = await this.prisma.user.findUnique({ where: { id }, select: { currentCompanie: true } });
+      return user ? user.currentCompanie : undefined;
+    }
+
+    const loan = await this.prisma.loanApplication.findUnique({
+      where: { id },
+      select: { user: { select: { currentCompanie: true } } },
+    });
+    return loan ? loan.user?.currentCompanie ?? null : undefined;
+  }
+
+  // El cambio de rol ya quedó guardado, así que un error de quien escucha solo se registra
+  private async notifyAccessChange(userId: string, previous: IntranetAccess | null, next: IntranetAccess | null) {
+    for (const listener of this.accessListeners) {
+      try {
+        await listener(userId, previous, next);
+      } catch (error) {
+        this.logger.error(`Error al aplicar el cambio de acceso del usuario ${userId}`, error);
+      }
+    }
+  }
+
+  private accessOf(role: IntranetRole): IntranetAccess {
+    if (role.name === ADMIN_ROLE) {
+      return { role: role.name, permissions: new Set(ALL_PERMISSIONS), companies: null };
+    }
+
+    return {
+      role: role.name,
+      permissions: new Set(role.permissions.filter((permission): permission is Permission => (ALL_PERMISSIONS as string[]).includes(permission))),
+      companies: role.companies.length > 0 ? expandCompanies(role.companies) : null,
+    };
+  }
+
+  private present(role: IntranetRole) {
+    return role.name === ADMIN_ROLE ? { ...role, permissions: ALL_PERMISSIONS, companies: [] } : role;
+  }
+
+  private async findOne(id: string): Promise<IntranetRole> {
+    const role = await this.prisma.intranetRole.findUnique({ where: { id } });
+    if (!role) {
+      throw new NotFoundException(`Rol con ID ${id} no encontrado`);
+    }
+    return role;
+  }
+
+  private validatePermissions(permissions: unknown): Permission[] {
+    if (!Array.isArray(permissions)) {
+      throw new BadRequestException('Los permisos deben ser una lista');
+    }
+
+    const invalid = permissions.filter(permission => !(ALL_PERMISSIONS as unknown[]).includes(permission));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Permisos no válidos: ${invalid.join(', ')}`);
+    }
+
+    return [...new Set(permissions as Permission[])];
+  }
+
+  private validateCompanies(companies: unknown): companiesUser[] {
+    if (!Array.isArray(companies)) {
+      throw new BadRequestException('Las empresas deben ser una lista');
+    }
+
+    const invalid = companies.filter(company => !COMPANIES.includes(company));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Empresas no válidas: ${invalid.join(', ')}`);
+    }
+
+    return [...new Set(companies as companiesUser[])];
+  }
+}
@@ -0,0 +1,78 @@
+import { companiesUser } from '@prisma/client';
+
+// Permisos que se pueden asignar a un rol; el texto es el que ve el administrador
+export const PERMISSIONS = {
+  'loan.view': 'Ver las solicitudes de préstamo y sus listados',
+  'loan.update': 'Editar solicitudes, revisar documentos y registrar cycode y extractos',
+  'loan.approve': 'Aprobar, aplazar o rechazar solicitudes',
+  'loan.assign': 'Asignar solicitudes a empleados',
+  'loan.disburse': 'Desembolsar préstamos',
+  'loan.delete': 'Eliminar solicitudes',
+  'loan.reschedule': 'Regenerar el plan de pagos de préstamos desembolsados',
+  'payment.record': 'Registrar e importar pagos de préstamos',
+  'payroll.manage': 'Generar, consultar y conciliar los lotes de descuento de nómina',
+  'product.manage': 'Crear y editar productos de préstamo',
+  'client.view': 'Ver y buscar clientes',
+  'client.ban': 'Suspender o reactivar clientes',
+  'client.delete': 'Eliminar clientes',
+  'document.generate': 'Generar los documentos legales en PDF',
+  'mail.send': 'Enviar correos y anuncios, consultar el outbox y reenviar correos fallidos',
+  'support.manage': 'Gestionar los reportes de soporte',
+  'whatsapp.manage': 'Revocar sesiones de WhatsApp del bot',
+  'bot.test': 'Probar las herramientas del bot (MCP) desde intranet',
+  'analytics.view': 'Ver y exportar las métricas de operación',
+  'audit.view': 'Consultar y exportar el registro de auditoría',
+  'session.manage': 'Ver y cerrar las sesiones de otros usuarios',
+  'api-client.manage': 'Emitir, rotar y revocar llaves de API',
+  'rate-limit.manage': 'Consultar y quitar bloqueos por intentos fallidos',
+  'backup.manage': 'Crear, listar y verificar backups',
+  'backup.restore': 'Restaurar la base de datos desde un backup',
+  'role.manage': 'Administrar roles y asignarlos a usuarios de intranet',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Entidades cuya empresa se puede verificar contra las empresas del rol
+export type ScopedModel = 'loanApplication' | 'user' | 'payrollDeductionBatch';
+
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Roles que ya existían como texto en UsersIntranet.rol. Se crean al arrancar si faltan;
+ * admin siempre resuelve a todos los permisos, así que los permisos nuevos no requieren migración.
+ */
+export const SYSTEM_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  [ADMIN_ROLE]: {
+    description: 'Acceso total',
+    permissions: ALL_PERMISSIONS,
+  },
+  employee: {
+    description: 'Analista de crédito',
+    permissions: [
+      'loan.view',
+      'loan.update',
+      'loan.approve',
+      'loan.assign',
+      'loan.disburse',
+      'payment.record',
+      'payroll.manage',
+      'client.view',
+      'client.ban',
+      'document.generate',
+      'mail.send',
+      'support.manage',
+      'bot.test',
+    ],
+  },
+};
+
+// conalta y con_alta son la misma empresa (con_alta quedó de un esquema anterior)
+const COMPANY_ALIASES: Partial<Record<companiesUser, companiesUser>> = {
+  conalta: 'con_alta',
+  con_alta: 'conalta',
+};
+
+export const expandCompanies = (companies: companiesUser[]): companiesUser[] =>
+  [...new Set(companies.flatMap(company => [company, COMPANY_ALIASES[company]].filter(Boolean) as companiesUser[]))];
@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Query,
+  DefaultValuePipe,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { LoanAssignmentStrategy, StatusLoan } from '@prisma/client';
+import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
+import { LoanAssignmentService } from './services/assignment.service';
+import { QueryService } from './services/query.service';
+import { ParseCopPipe } from './pipes/parse-cop.pipe';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+
+@ApiTags('loan-assignment')
+@Controller('loan-assignment')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+@ApiUnauthorizedResponse({ description: 'No autenticado' })
+export class LoanAssignmentController {
+  constructor(
+    private readonly assignment: LoanAssignmentService,
+    private readonly loanQuery: QueryService,
+  ) { }
+
+  @RequirePermission('loan.view')
+  @Get('queue')
+  @ApiOperation({ summary: 'Cola del usuario autenticado: solicitudes asignadas a él, de la más antigua a la más reciente' })
+  @ApiQuery({ name: 'status', required: false, enum: StatusLoan, description: 'Estado de las solicitudes', example: 'Pendiente' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '10' })
+  @ApiQuery({ name: 'search', required: false, description: 'Nombre, documento o ID del préstamo' })
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
+  @ApiResponse({ status: 200, description: 'Solicitudes asignadas al usuario' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.view' })
+  @ApiBadRequestResponse({ description: 'Estado o rango de montos inválido' })
+  async myQueue(
+    @CurrentUser() user: any,
+    @Query('status', new DefaultValuePipe(StatusLoan.Pendiente), new ParseEnumPipe(StatusLoan)) status: StatusLoan,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(10), ParseIntPipe) pageSize: number,
+    @Query('search') search?: string,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.loanQuery.getAssignedLoans(user.id, status, page, pageSize, search, { minAmount, maxAmount, cursor });
+  }
+
+  @RequirePermission('loan.assign')
+  @Get('stats')
+  @ApiOperation({ summary: 'Carga de trabajo por analista: solicitudes abiertas, la más antigua y decisiones de los últimos 30 días' })
+  @ApiResponse({ status: 200, description: 'Estadísticas por analista y total de solicitudes sin asignar' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.assign' })
+  async stats() {
+    return this.assignment.workloadStats();
+  }
+
+  @RequirePermission('loan.assign')
+  @Get('settings')
+  @ApiOperation({ summary: 'Configuración de la asignación automática' })
+  @ApiResponse({ status: 200, description: 'Estrategia y estado de la asignación automática' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.assign' })
+  async getSettings() {
+    return this.assignment.getSettings();
+  }
+
+  @RequirePermission('loan.assign')
+  @Put('settings')
+  @ApiOperation({
+    summary: 'Cambiar la estrategia de asignación automática',
+    description: 'round_robin reparte por turnos, least_loaded elige al analista con menos solicitudes pendientes y per_company da prioridad a los analistas dedicados a la empresa del cliente. En todas solo participan analistas cuyo rol atiende esa empresa.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean', description: 'Asignar automáticamente las solicitudes nuevas' },
+        strategy: { type: 'string', enum: Object.values(LoanAssignmentStrategy), description: 'Estrategia de reparto' },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Configuración actualizada' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.assign' })
+  @ApiBadRequestResponse({ description: 'Estrategia no válida' })
+  async updateSettings(
+    @CurrentUser() user: any,
+    @Body('enabled') enabled?: boolean,
+    @Body('strategy') strategy?: string,
+  ) {
+    return this.assignment.updateSettings({ enabled, strategy }, user.id);
+  }
+
+  @RequirePermission('loan.assign')
+  @Post('unassigned')
+  @ApiOperation({ summary: 'Asignar las solicitudes pendientes que aún no tienen analista' })
+  @ApiResponse({ status: 201, description: 'Cantidad de solicitudes asignadas y de las que siguen sin analista' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.assign' })
+  async assignUnassigned() {
+    return this.assignment.assignUnassigned();
+  }
+
+  @RequirePermission('role.manage')
+  @AuditEntity('usersIntranet')
+  @Patch('analysts/:id/active')
+  @ApiOperation({ summary: 'Activar o desactivar un usuario de intranet; al desactivarlo sus solicitudes pendientes se reasignan' })
+  @ApiParam({ name: 'id', description: 'ID del usuario de intranet' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { isActive: { type: 'boolean', description: 'Nuevo estado del usuario' } },
+      required: ['isActive'],
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Usuario actualizado y resultado de la reasignación' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso role.manage' })
+  @ApiNotFoundResponse({ description: 'Usuario no encontrado' })
+  @ApiBadRequestResponse({ description: 'isActive inválido' })
+  async setActive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body('isActive') isActive: boolean,
+  ) {
+    return this.assignment.setActive(id, isActive);
+  }
+}
@@ -14,9 +14,9 @@ export class ChangeLoanStatusDto {
   @IsString()
   reasonChangeCantity?: string;
 
+  // Monto en pesos colombianos, sin decimales; lo valida ParseCopPipe en el controlador
   @IsOptional()
-  @IsString()
-  newCantity?: string;
+  newCantity?: number;
 
   @IsOptional()
   @IsString()
@@ -3,7 +3,7 @@ export class CreateLoanApplicationDto {
   phone: string
   entity: string;
   bankNumberAccount: string;
-  cantity: string;
+  cantity: number; // Pesos colombianos, sin decimales
   signature: string;
   upSignatureId: string;
   city?: string;
@@ -28,7 +28,7 @@ export class PreCreateLoanApplicationDto {
   phone: string;
   entity: string;
   bankNumberAccount: string;
-  cantity: string;
+  cantity: number; // Pesos colombianos, sin decimales
   signature: string;
   city?: string;
   residence_address?: string;
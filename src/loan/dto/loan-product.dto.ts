@@ -0,0 +1,68 @@
+import { IsBoolean, IsEnum, IsInt, IsNotEmpty, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { PayFrequency } from '@prisma/client';
+
+export class CreateLoanProductDto {
+  @IsNotEmpty()
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  // Tasa por periodo de pago, expresada como fracción (0.02 = 2%)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  interestRate: number;
+
+  @IsInt()
+  @Min(1)
+  termPeriods: number;
+
+  @IsOptional()
+  @IsEnum(PayFrequency)
+  payFrequency?: PayFrequency;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  originationFeeRate?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  periodicFee?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateLoanProductDto extends PartialType(CreateLoanProductDto) {}
+
+export interface ScheduleInstallment {
+  number: number;
+  dueDate: Date;
+  principal: number;
+  interest: number;
+  fees: number;
+  total: number;
+  balance: number;
+}
+
+export interface ScheduleSummary {
+  principal: number;
+  totalInterest: number;
+  totalFees: number;
+  totalPayable: number;
+  installments: number;
+  firstDueDate: Date | null;
+  lastDueDate: Date | null;
+}
@@ -0,0 +1,50 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { PaymentMethod } from '@prisma/client';
+
+export class CreatePaymentDto {
+  // Monto en pesos colombianos, sin decimales
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
+
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export type LoanStanding = 'al_dia' | 'en_mora' | 'pagado' | 'sin_plan';
+
+export interface LoanBalance {
+  outstandingPrincipal: number;
+  outstandingInterest: number;
+  outstandingFees: number;
+  outstandingTotal: number;
+  overdueAmount: number;
+  overdueInstallments: number;
+  arrearsDays: number;
+  nextDueDate: Date | null;
+  nextDueAmount: number;
+  standing: LoanStanding;
+}
+
+export interface PaymentImportRow {
+  row: number;
+  loanId?: string;
+  reference?: string;
+  amount?: number;
+  status: 'registrado' | 'duplicado' | 'error';
+  paymentId?: string;
+  error?: string;
+}
@@ -0,0 +1,24 @@
+import { IsDateString, IsEnum } from 'class-validator';
+import { companiesUser } from '@prisma/client';
+
+export class CreatePayrollBatchDto {
+  @IsEnum(companiesUser)
+  company: companiesUser;
+
+  @IsDateString()
+  periodStart: string;
+
+  @IsDateString()
+  periodEnd: string;
+}
+
+export type PayrollFileFormat = 'xlsx' | 'csv';
+
+export interface PayrollReconcileRow {
+  row: number;
+  loanId?: string;
+  deducted?: number;
+  status: 'conciliado' | 'sin_descuento' | 'omitido' | 'error';
+  paymentId?: string;
+  error?: string;
+}
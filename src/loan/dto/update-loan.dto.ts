@@ -1,4 +1,73 @@
-import { PartialType } from '@nestjs/mapped-types';
-import { CreateLoanApplicationDto } from './create-loan.dto';
+import { IsOptional, IsString } from 'class-validator';
 
-export class UpdateLoanApplicationDto extends PartialType(CreateLoanApplicationDto) {}
\ No newline at end of file
+// Campos que se pueden editar directamente: monto, documentos y datos bancarios.
+// El estado, el desembolso y los saldos solo cambian por sus propios flujos.
+export class UpdateLoanApplicationDto {
+  // Pesos colombianos, sin decimales; lo valida ParseCopPipe en el controlador, que acepta "1.500.000"
+  @IsOptional()
+  cantity?: number;
+
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @IsOptional()
+  @IsString()
+  bankNumberAccount?: string;
+
+  @IsOptional()
+  @IsString()
+  signature?: string;
+
+  @IsOptional()
+  @IsString()
+  upSignatureId?: string;
+
+  @IsOptional()
+  @IsString()
+  labor_card?: string | null;
+
+  @IsOptional()
+  @IsString()
+  upid_labor_card?: string | null;
+
+  @IsOptional()
+  @IsString()
+  fisrt_flyer?: string | null;
+
+  @IsOptional()
+  @IsString()
+  upid_first_flyer?: string | null;
+
+  @IsOptional()
+  @IsString()
+  second_flyer?: string | null;
+
+  @IsOptional()
+  @IsString()
+  upid_second_flyer?: string | null;
+
+  @IsOptional()
+  @IsString()
+  third_flyer?: string | null;
+
+  @IsOptional()
+  @IsString()
+  upid_third_flyer?: string | null;
+}
+
+export const EDITABLE_LOAN_FIELDS: (keyof UpdateLoanApplicationDto)[] = [
+  'cantity',
+  'entity',
+  'bankNumberAccount',
+  'signature',
+  'upSignatureId',
+  'labor_card',
+  'upid_labor_card',
+  'fisrt_flyer',
+  'upid_first_flyer',
+  'second_flyer',
+  'upid_second_flyer',
+  'third_flyer',
+  'upid_third_flyer',
+];
@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  BadRequestException,
+  ForbiddenException,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CompanyScope } from '../auth/decorators/company-scope.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IntranetRoleService } from 'src/intranet-role/intranet-role.service';
+import { LoanPaymentService } from './services/payment.service';
+import { CreatePaymentDto, LoanStanding } from './dto/payment.dto';
+import { companiesUser } from '@prisma/client';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
+
+const PORTFOLIO_STANDINGS = ['al_dia', 'en_mora', 'pagado'];
+
+// Comparte el prefijo 'loans' con LoanController y se registra antes que él en LoanModule,
+// para que rutas como POST loans/payments/import no las capture POST loans/:userId/:pre_id
+@ApiTags('loans')
+@Controller('loans')
+export class LoanPaymentController {
+  constructor(
+    private readonly payments: LoanPaymentService,
+    private readonly roles: IntranetRoleService,
+  ) { }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payment.record')
+  @Post('payments/import')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Importar pagos desde un archivo XLSX o CSV (permiso payment.record)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    description: 'Archivo con encabezados loanId (o cycode), monto, fecha, referencia y metodo',
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Archivo XLSX o CSV'
+        }
+      }
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Resultado de la importación por fila' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiBadRequestResponse({ description: 'Archivo inválido' })
+  async importPayments(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: any,
+    @CompanyScope() companies: companiesUser[] | null,
+  ) {
+    return this.payments.importPayments(file, user.id, companies);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
+  @Get('portfolio/standing')
+  @ApiOperation({ summary: 'Cartera desembolsada con saldo y días de mora, de las empresas que atiende el rol (permiso loan.view)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 10 })
+  @ApiQuery({ name: 'standing', required: false, enum: PORTFOLIO_STANDINGS, description: 'Filtrar por estado de la cartera' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Préstamos con su saldo, mora y estado' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  async getPortfolio(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(10), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('standing') standing?: Exclude<LoanStanding, 'sin_plan'>,
+  ) {
+    if (standing && !PORTFOLIO_STANDINGS.includes(standing)) {
+      throw new BadRequestException(`Estado inválido. Valores permitidos: ${PORTFOLIO_STANDINGS.join(', ')}`);
+    }
+    return this.payments.getPortfolio(page, pageSize, standing, companies);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payment.record', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
+  @Post(':id/payments')
+  @ApiOperation({ summary: 'Registrar un pago a un préstamo (permiso payment.record)' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        amount: { type: 'integer', description: 'Monto pagado en COP' },
+        paidAt: { type: 'string', format: 'date-time', description: 'Fecha del pago (opcional, por defecto ahora)' },
+        method: { type: 'string', enum: ['transferencia', 'efectivo', 'consignacion', 'descuento_nomina'], description: 'Medio de pago' },
+        reference: { type: 'string', description: 'Referencia o número de comprobante' },
+        notes: { type: 'string', description: 'Observaciones' },
+      },
+      required: ['amount']
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Pago registrado e imputado a las cuotas' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
+  @ApiBadRequestResponse({ description: 'Pago inválido o préstamo sin plan de pagos' })
+  async registerPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: CreatePaymentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.payments.registerPayment(id, data, user.id);
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get(':id/payments')
+  @ApiOperation({ summary: 'Estado de cuenta del préstamo: saldo, mora, cuotas y pagos' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Estado de cuenta del préstamo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No autorizado para ver este préstamo' })
+  @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
+  async getLedger(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    const ledger = await this.payments.getLedger(id);
+
+    // Los clientes solo pueden ver el estado de cuenta de sus propios préstamos
+    if (user.type === 'client' && ledger.userId !== user.id) {
+      throw new ForbiddenException('No autorizado para ver este estado de cuenta');
+    }
+
+    // Intranet, solo si su rol atiende la empresa del cliente
+    if (user.type === 'intranet') {
+      await this.roles.assertPermission(user, 'loan.view', await this.roles.companyOf('loanApplication', id));
+    }
+
+    return ledger;
+  }
+}
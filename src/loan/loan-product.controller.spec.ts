@@ -0,0 +1,74 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { createValidationPipe } from 'handlers/main/ValidationPipe';
+import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { LoanProductController } from './loan-product.controller';
+import { LoanProductService } from './services/product.service';
+
+describe('LoanProductController validation', () => {
+  let app: INestApplication;
+  const products = {
+    create: jest.fn((data: object) =>
+      Promise.resolve({ id: 'product-1', ...data }),
+    ),
+  };
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [LoanProductController],
+      providers: [{ provide: LoanProductService, useValue: products }],
+    })
+      .overrideGuard(IntranetAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionsGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    app.useGlobalPipes(createValidationPipe());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => products.create.mockClear());
+
+  it('rejects an invalid body with 400 before reaching the service', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/loan-products')
+      .send({ name: '', interestRate: 2, termPeriods: 0 })
+      .expect(400);
+
+    const { message } = response.body as { message: string[] };
+    expect(message).toEqual(
+      expect.arrayContaining([
+        'name should not be empty',
+        'interestRate must not be greater than 1',
+        'termPeriods must not be less than 1',
+      ]),
+    );
+    expect(products.create).not.toHaveBeenCalled();
+  });
+
+  it('strips properties the DTO does not declare', async () => {
+    await request(app.getHttpServer())
+      .post('/loan-products')
+      .send({
+        name: 'Libranza',
+        interestRate: 0.02,
+        termPeriods: 12,
+        isSystem: true,
+      })
+      .expect(201);
+
+    expect(products.create).toHaveBeenCalledWith({
+      name: 'Libranza',
+      interestRate: 0.02,
+      termPeriods: 12,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  DefaultValuePipe,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { LoanProductService } from './services/product.service';
+import { CreateLoanProductDto, UpdateLoanProductDto } from './dto/loan-product.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse,
+  ApiConflictResponse
+} from '@nestjs/swagger';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
+
+@ApiTags('loan-products')
+@Controller('loan-products')
+export class LoanProductController {
+  constructor(private readonly products: LoanProductService) { }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
+  @Get()
+  @ApiOperation({ summary: 'Listar productos de préstamo (permiso loan.view)' })
+  @ApiQuery({ name: 'active', required: false, description: 'Solo productos activos', example: 'false' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista de productos de préstamo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  async findAll(
+    @Query('active', new DefaultValuePipe(false), ParseBoolPipe) active: boolean,
+  ) {
+    return this.products.findAll(active);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
+  @Get(':id')
+  @ApiOperation({ summary: 'Obtener producto de préstamo (permiso loan.view)' })
+  @ApiParam({ name: 'id', description: 'ID del producto' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Producto de préstamo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Producto no encontrado' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.products.findOne(id);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('product.manage')
+  @Post()
+  @ApiOperation({ summary: 'Crear producto de préstamo (permiso product.manage)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Nombre del producto' },
+        description: { type: 'string', description: 'Descripción (opcional)' },
+        interestRate: { type: 'number', description: 'Tasa por periodo de pago (0.02 = 2%)' },
+        termPeriods: { type: 'integer', description: 'Número de cuotas' },
+        payFrequency: { type: 'string', enum: ['semanal', 'quincenal', 'mensual'], description: 'Periodicidad de pago' },
+        originationFeeRate: { type: 'number', description: 'Comisión de estudio sobre el capital (opcional)' },
+        periodicFee: { type: 'integer', description: 'Cargo fijo por cuota en COP (opcional)' },
+        isDefault: { type: 'boolean', description: 'Producto por defecto' },
+      },
+      required: ['name', 'interestRate', 'termPeriods']
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Producto creado exitosamente' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso product.manage' })
+  @ApiBadRequestResponse({ description: 'Datos inválidos' })
+  async create(@Body() data: CreateLoanProductDto) {
+    return this.products.create(data);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('product.manage')
+  @AuditEntity('loanProduct')
+  @Patch(':id')
+  @ApiOperation({ summary: 'Actualizar producto de préstamo (permiso product.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del producto' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Producto actualizado exitosamente' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso product.manage' })
+  @ApiNotFoundResponse({ description: 'Producto no encontrado' })
+  @ApiConflictResponse({ description: 'Ya existe un producto con ese nombre' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: UpdateLoanProductDto,
+  ) {
+    return this.products.update(id, data);
+  }
+}
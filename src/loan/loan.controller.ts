@@ -28,9 +28,11 @@ import { UpdateLoanApplicationDto } from './dto/update-loan.dto';
 import { ChangeLoanStatusDto } from './dto/change-loan-status.dto';
 import { ClientAuthGuard } from '../auth/guards/client-auth.guard';
 import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CompanyScope } from '../auth/decorators/company-scope.decorator';
+import { IntranetRoleService } from 'src/intranet-role/intranet-role.service';
 import { FileFieldsInterceptor, FileInterceptor } from '@nestjs/platform-express';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
 import { LoanDisbursementService } from './services/disbursed.service';
@@ -39,6 +41,9 @@ import { LoanManagementService } from './services/loan-managment.service';
 import { StatusService } from './services/status.service';
 import { LoanDocumentService } from './services/document.service';
 import { ExtractsService } from './services/extracts.service';
+import { LoanScheduleService } from './services/schedule.service';
+import { ParseCopPipe } from './pipes/parse-cop.pipe';
+import { companiesUser } from '@prisma/client';
 import {
   ApiTags,
   ApiOperation,
@@ -53,6 +58,7 @@ import {
   ApiNotFoundResponse,
   ApiBadRequestResponse
 } from '@nestjs/swagger';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
 
 @ApiTags('loans')
 @Controller('loans')
@@ -66,7 +72,9 @@ export class LoanController {
     private readonly loanManagment: LoanManagementService,
     private readonly loanStatus: StatusService,
     private readonly loanDocument: LoanDocumentService,
-    private readonly extractsService: ExtractsService
+    private readonly extractsService: ExtractsService,
+    private readonly loanSchedule: LoanScheduleService,
+    private readonly roles: IntranetRoleService,
   ) { }
 
   @UseGuards(ClientAuthGuard)
@@ -92,7 +100,7 @@ export class LoanController {
         city: { type: 'string', description: 'Ciudad (opcional)' },
         residence_address: { type: 'string', description: 'Dirección de residencia (opcional)' },
         bankNumberAccount: { type: 'string', description: 'Número de cuenta bancaria' },
-        cantity: { type: 'string', description: 'Cantidad solicitada' },
+        cantity: { type: 'integer', description: 'Cantidad solicitada en pesos, sin decimales' },
         terms_and_conditions: { type: 'boolean', description: 'Aceptación de términos y condiciones' },
         isValorAgregado: { type: 'boolean', description: 'Valor agregado (opcional)' },
         labor_card: { type: 'string', format: 'binary', description: 'Carta laboral' },
@@ -120,6 +128,7 @@ export class LoanController {
       terms_and_conditions: boolean | string,
       isValorAgregado?: boolean
     },
+    @Body('cantity', new ParseCopPipe({ min: 1 })) cantity: number,
     @UploadedFiles() files: {
       labor_card?: Express.Multer.File[],
       fisrt_flyer?: Express.Multer.File[],
@@ -165,7 +174,7 @@ export class LoanController {
       city: body.city || undefined,
       residence_address: body.residence_address || undefined,
       bankNumberAccount: body.bankNumberAccount, // This should come from request body
-      cantity: body.cantity, // This should come from request body
+      cantity,
       terms_and_conditions: body.terms_and_conditions === 'true' || body.terms_and_conditions === true, // Ensure boolean type
       isValorAgregado: body.isValorAgregado || undefined, // Optional field
     };
@@ -203,28 +212,69 @@ export class LoanController {
     return this.loan.verifyPreLoan(token, preId);
   }
 
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(ClientAuthGuard)
+  @Post(":userId/:pre_id/resend-token")
+  @ApiOperation({ summary: 'Reenviar el código de verificación de una pre-solicitud' })
+  @ApiParam({ name: 'userId', description: 'ID del usuario cliente' })
+  @ApiParam({ name: 'pre_id', description: 'ID de pre-creación' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Código reenviado al correo del cliente' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No autorizado' })
+  @ApiNotFoundResponse({ description: 'Pre-solicitud no encontrada' })
+  @ApiBadRequestResponse({ description: 'Ya procesada o debe esperar antes de pedir otro código' })
+  async ResendPreLoanToken(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('pre_id', ParseUUIDPipe) preId: string,
+    @CurrentUser() user: any
+  ) {
+    if (user.type === 'client' && user.id !== userId) {
+      throw new HttpException('No autorizado', HttpStatus.FORBIDDEN);
+    }
+
+    return this.loan.resendPreLoanToken(preId, userId);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.disburse', { model: 'loanApplication', param: 'loanId' })
+  @AuditEntity('loanApplication', 'loanId')
   @Put(":loanId/disburse")
   @ApiOperation({ summary: 'Desembolsar préstamo (solo intranet)' })
   @ApiParam({ name: 'loanId', description: 'ID del préstamo a desembolsar' })
+  @ApiBody({
+    required: false,
+    schema: {
+      type: 'object',
+      properties: {
+        productId: { type: 'string', description: 'Producto de préstamo a aplicar (opcional, por defecto el producto predeterminado)' }
+      }
+    }
+  })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Préstamo desembolsado exitosamente' })
+  @ApiResponse({ status: 200, description: 'Préstamo desembolsado y plan de pagos generado' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiBadRequestResponse({ description: 'Error en el desembolso' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.disburse sobre la empresa del cliente' })
+  @ApiBadRequestResponse({ description: 'Error en el desembolso o el préstamo no está aprobado' })
   async DisburseLoan(
     @Param('loanId', ParseUUIDPipe) loanId: string,
+    @CurrentUser() user: any,
+    @Body() body?: { productId?: string },
   ) {
-    return this.loanDisburse.disburseLoan(loanId);
+    return this.loanDisburse.disburseLoan(loanId, body?.productId, { type: 'intranet', id: user.id });
   }
 
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get()
   @ApiOperation({ summary: 'Obtener lista paginada de todos los préstamos (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '5' })
   @ApiQuery({ name: 'searchTerm', required: false, description: 'Término de búsqueda' })
   @ApiQuery({ name: 'orderBy', required: false, description: 'Orden ascendente o descendente', example: 'asc' })
-  @ApiQuery({ name: 'filterByAmount', required: false, description: 'Filtrar por cantidad', example: 'false' })
+  @ApiQuery({ name: 'filterByAmount', required: false, description: 'Ordenar por cantidad', example: 'false' })
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de préstamos con paginación' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
@@ -232,76 +282,107 @@ export class LoanController {
   async findAll(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('pageSize', new DefaultValuePipe(5), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
     @Query('searchTerm') searchTerm?: string,
     @Query('orderBy', new DefaultValuePipe('asc')) orderBy?: 'asc' | 'desc',
     @Query('filterByAmount', new DefaultValuePipe(false), ParseBoolPipe) filterByAmount?: boolean,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
   ) {
     if (orderBy !== 'asc' && orderBy !== 'desc') {
       throw new BadRequestException('orderBy debe ser "asc" o "desc"');
     }
 
-    return this.loanQuery.getAll(page, pageSize, searchTerm, orderBy, filterByAmount);
+    return this.loanQuery.getAll(page, pageSize, searchTerm, orderBy, filterByAmount, { minAmount, maxAmount, cursor, companies });
   }
 
   // Solo personal de intranet puede ver préstamos pendientes
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('pending')
   @ApiOperation({ summary: 'Obtener préstamos pendientes (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '5' })
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de préstamos pendientes' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiBadRequestResponse({ description: 'Rango de montos inválido' })
   async getPendingLoans(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('pageSize', new DefaultValuePipe(5), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
   ) {
-    return this.loanQuery.getPendingLoans(page, pageSize);
+    return this.loanQuery.getPendingLoans(page, pageSize, undefined, { minAmount, maxAmount, cursor, companies });
   }
 
   // Solo personal de intranet puede ver préstamos aprobados
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('approved')
   @ApiOperation({ summary: 'Obtener préstamos aprobados (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '5' })
   @ApiQuery({ name: 'search', required: false, description: 'Término de búsqueda' })
   @ApiBearerAuth()
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiResponse({ status: 200, description: 'Lista de préstamos aprobados' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiBadRequestResponse({ description: 'Rango de montos inválido' })
   async getApprovedLoans(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('pageSize', new DefaultValuePipe(5), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
     @CurrentUser() user: any,
     @Query('search') searchQuery?: string,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
   ) {
     console.log(user)
-    return this.loanQuery.getApprovedLoans(page, pageSize, searchQuery);
+    return this.loanQuery.getApprovedLoans(page, pageSize, searchQuery, { minAmount, maxAmount, cursor, companies });
   }
 
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('disbursed')
   @ApiOperation({ summary: 'Obtener préstamos desembolsados (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '10' })
   @ApiQuery({ name: 'search', required: false, description: 'Término de búsqueda' })
   @ApiBearerAuth()
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiResponse({ status: 200, description: 'Lista de préstamos desembolsados' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
   async getDisbursedLoans(
     @Query('page') page: string = '1',
     @Query('pageSize') pageSize: string = '10',
+    @CompanyScope() companies: companiesUser[] | null,
     @Query('search') search?: string,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
   ) {
     const pageNumber = parseInt(page, 10);
     const pageSizeNumber = parseInt(pageSize, 10);
     const searchQuery = search?.trim() || undefined;
 
     try {
-      const { data, total } = await this.loanQuery.pendingLoanDisbursement(
+      const { data, total, nextCursor } = await this.loanQuery.pendingLoanDisbursement(
         pageNumber,
         pageSizeNumber,
-        searchQuery
+        searchQuery,
+        { minAmount, maxAmount, cursor, companies }
       );
 
       return {
@@ -311,6 +392,7 @@ export class LoanController {
         page: pageNumber,
         pageSize: pageSizeNumber,
         totalPages: Math.ceil(total / pageSizeNumber),
+        nextCursor,
         status: 'success'
       };
     } catch (error) {
@@ -323,6 +405,7 @@ export class LoanController {
         page: pageNumber,
         pageSize: pageSizeNumber,
         totalPages: 0,
+        nextCursor: null,
         status: 'error',
         error: error instanceof Error ? error.message : 'Error desconocido'
       };
@@ -331,39 +414,140 @@ export class LoanController {
 
 
   // Solo personal de intranet puede ver préstamos diferidos
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('deferred')
   @ApiOperation({ summary: 'Obtener préstamos diferidos (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '5' })
   @ApiQuery({ name: 'search', required: false, description: 'Término de búsqueda' })
   @ApiBearerAuth()
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiResponse({ status: 200, description: 'Lista de préstamos diferidos' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiBadRequestResponse({ description: 'Rango de montos inválido' })
   async getDeferredLoans(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('pageSize', new DefaultValuePipe(5), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
     @Query('search') searchQuery?: string,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
   ) {
-    return this.loanQuery.getDeferredLoans(page, pageSize, searchQuery);
+    return this.loanQuery.getDeferredLoans(page, pageSize, searchQuery, { minAmount, maxAmount, cursor, companies });
   }
 
   // Solo personal de intranet puede ver préstamos con nueva cantidad definida
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('new-cantity')
   @ApiOperation({ summary: 'Obtener préstamos con nueva cantidad definida (solo intranet)' })
   @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: '1' })
   @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: '5' })
   @ApiQuery({ name: 'search', required: false, description: 'Término de búsqueda' })
   @ApiBearerAuth()
+  @ApiQuery({ name: 'minAmount', required: false, description: 'Monto mínimo de la nueva cantidad en pesos', example: '500000' })
+  @ApiQuery({ name: 'maxAmount', required: false, description: 'Monto máximo de la nueva cantidad en pesos', example: '2000000' })
+  @ApiQuery({ name: 'cursor', required: false, description: 'Cursor de la página siguiente (nextCursor de la respuesta anterior); reemplaza a page' })
   @ApiResponse({ status: 200, description: 'Lista de préstamos con nueva cantidad' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiBadRequestResponse({ description: 'Rango de montos inválido' })
   async getLoansWithDefinedNewCantity(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('pageSize', new DefaultValuePipe(5), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
     @Query('search') searchQuery?: string,
+    @Query('minAmount', new ParseCopPipe({ optional: true })) minAmount?: number,
+    @Query('maxAmount', new ParseCopPipe({ optional: true })) maxAmount?: number,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.loanQuery.getLoansWithDefinedNewCantity(page, pageSize, searchQuery, { minAmount, maxAmount, cursor, companies });
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get(':id/schedule')
+  @ApiOperation({ summary: 'Obtener el plan de pagos de un préstamo' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Plan de pagos (proyectado si el préstamo no ha sido desembolsado)' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No autorizado para ver este préstamo' })
+  @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
+  async getSchedule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any
   ) {
-    return this.loanQuery.getLoansWithDefinedNewCantity(page, pageSize, searchQuery);
+    const schedule = await this.loanSchedule.getSchedule(id);
+
+    // Los clientes solo pueden ver el plan de sus propios préstamos
+    if (user.type === 'client' && schedule.userId !== user.id) {
+      throw new ForbiddenException('No autorizado para ver este plan de pagos');
+    }
+
+    // Intranet, solo si su rol atiende la empresa del cliente
+    if (user.type === 'intranet') {
+      await this.roles.assertPermission(user, 'loan.view', await this.roles.companyOf('loanApplication', id));
+    }
+
+    return schedule;
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Obtener el historial de estados de un préstamo' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Línea de tiempo de cambios de estado' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No autorizado para ver este préstamo' })
+  @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
+  async getHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any
+  ) {
+    const history = await this.loanStatus.getHistory(id);
+
+    // Los clientes solo pueden ver el historial de sus propios préstamos
+    if (user.type === 'client' && history.userId !== user.id) {
+      throw new ForbiddenException('No autorizado para ver este historial');
+    }
+
+    // Intranet, solo si su rol atiende la empresa del cliente
+    if (user.type === 'intranet') {
+      await this.roles.assertPermission(user, 'loan.view', await this.roles.companyOf('loanApplication', id));
+    }
+
+    return history;
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.reschedule', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
+  @Post(':id/schedule/regenerate')
+  @ApiOperation({ summary: 'Regenerar el plan de pagos de un préstamo desembolsado (permiso loan.reschedule)' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBody({
+    required: false,
+    schema: {
+      type: 'object',
+      properties: {
+        productId: { type: 'string', description: 'Nuevo producto de préstamo (opcional)' }
+      }
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Plan de pagos regenerado' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.reschedule' })
+  @ApiBadRequestResponse({ description: 'El préstamo no ha sido desembolsado' })
+  async regenerateSchedule(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body?: { productId?: string },
+  ) {
+    return this.loanSchedule.regenerate(id, body?.productId);
   }
 
   @UseGuards(CombinedAuthGuard)
@@ -372,7 +556,7 @@ export class LoanController {
   @ApiParam({ name: 'user_id', description: 'ID del usuario' })
   @ApiParam({ name: 'loan_id', description: 'ID del préstamo' })
   @ApiBearerAuth()
-  @ApiResponse({ status: 200, description: 'Información del préstamo' })
+  @ApiResponse({ status: 200, description: 'Información del préstamo; para intranet incluye paystubAnalysis con los datos leídos de los volantes y sus inconsistencias' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
   @ApiForbiddenResponse({ description: 'No autorizado para ver este préstamo' })
   @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
@@ -388,8 +572,8 @@ export class LoanController {
         throw new ForbiddenException('No tiene autorización para ver préstamos de otros usuarios');
       }
     } else if (user.type === 'intranet') {
-      // Los usuarios de intranet pueden ver cualquier préstamo
-      // No se necesita validación adicional
+      // Intranet, solo si su rol atiende la empresa del cliente
+      await this.roles.assertPermission(user, 'loan.view', await this.roles.companyOf('loanApplication', loanId));
     } else {
       // Si no es cliente ni intranet, no debería tener acceso
       throw new ForbiddenException('Tipo de usuario no autorizado');
@@ -399,6 +583,11 @@ export class LoanController {
       console.log(loanId, userId);
       const loan = await this.loanManagment.get(loanId, userId);
       this.logger.log(`Préstamo consultado: ${loanId} para usuario: ${userId} por ${user.type}`);
+
+      // La lectura de los volantes y sus alertas son para el analista
+      if (user.type === 'client') {
+        return { ...loan, paystubAnalysis: undefined };
+      }
       return loan;
     } catch (error) {
       this.logger.error(`Error al obtener préstamo: ${error.message}`, error.stack);
@@ -471,27 +660,33 @@ export class LoanController {
   }
 
   // Solo personal de intranet puede actualizar préstamos
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.update', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Patch(':id')
-  @ApiOperation({ summary: 'Actualizar préstamo (solo admin/employee)' })
+  @ApiOperation({
+    summary: 'Actualizar préstamo (solo admin/employee)',
+    description: 'Solo edita monto, documentos y datos bancarios; el estado se cambia con PATCH /loans/:id/status'
+  })
   @ApiParam({ name: 'id', description: 'ID del préstamo' })
   @ApiBody({ type: UpdateLoanApplicationDto, description: 'Datos a actualizar' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Préstamo actualizado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
   @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
-  @ApiBadRequestResponse({ description: 'Datos inválidos' })
+  @ApiBadRequestResponse({ description: 'Datos inválidos o campos no editables' })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateLoanDto: UpdateLoanApplicationDto,
+    @Body('cantity', new ParseCopPipe({ optional: true, min: 1 })) cantity: number | undefined,
   ) {
-    return this.loanManagment.update(id, updateLoanDto);
+    return this.loanManagment.update(id, { ...updateLoanDto, cantity });
   }
 
   // Solo personal de intranet puede cambiar el estado de préstamos
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.approve', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Patch(':id/status')
   @ApiOperation({ summary: 'Cambiar estado del préstamo (solo admin/employee)' })
   @ApiParam({ name: 'id', description: 'ID del préstamo' })
@@ -500,17 +695,20 @@ export class LoanController {
   @ApiResponse({ status: 200, description: 'Estado del préstamo cambiado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
   @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
-  @ApiBadRequestResponse({ description: 'Datos inválidos' })
+  @ApiBadRequestResponse({ description: 'Datos inválidos o transición de estado no permitida' })
   async changeStatus(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() changeStatusDto: ChangeLoanStatusDto,
+    @Body('newCantity', new ParseCopPipe({ optional: true, min: 1 })) newCantity: number | undefined,
+    @CurrentUser() user: any,
   ) {
-    return this.loanStatus.changeStatus(id, changeStatusDto);
+    return this.loanStatus.changeStatus(id, { ...changeStatusDto, newCantity }, { type: 'intranet', id: user.id });
   }
 
   // Solo personal de intranet puede rechazar préstamos
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.approve', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Patch(':id/reject')
   @ApiOperation({ summary: 'Rechazar préstamo (solo admin/employee)' })
   @ApiParam({ name: 'id', description: 'ID del préstamo' })
@@ -528,8 +726,9 @@ export class LoanController {
   }
 
   // Solo personal de intranet puede asignar empleados a préstamos
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.assign', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Patch(':id/employee/:employeeId')
   @ApiOperation({ summary: 'Asignar empleado a préstamo (solo admin/employee)' })
   @ApiParam({ name: 'id', description: 'ID del préstamo' })
@@ -579,8 +778,9 @@ export class LoanController {
   }
 
   // Solo administradores pueden eliminar préstamos
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.delete', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
   @Delete(':id')
   @ApiOperation({ summary: 'Eliminar préstamo (solo admin)' })
   @ApiParam({ name: 'id', description: 'ID del préstamo a eliminar' })
@@ -593,6 +793,71 @@ export class LoanController {
     return this.loanManagment.delete(id);
   }
 
+  // Historial de versiones de los documentos del préstamo y de la cédula del cliente
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view', { model: 'loanApplication', param: 'id' })
+  @Get(':id/documents/history')
+  @ApiOperation({ summary: 'Historial de versiones de los documentos (solo admin/employee)' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Versiones por tipo de documento, de la más reciente a la más antigua, con los metadatos que cambiaron frente a la versión anterior' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
+  async documentHistory(@Param('id', ParseUUIDPipe) id: string) {
+    return this.loanDocument.documentHistoryOf(id);
+  }
+
+  // Solo personal de intranet puede aprobar documentos
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.update', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
+  @Patch(':id/documents/:document_type/accept')
+  @ApiOperation({ summary: 'Aprobar la versión vigente de un documento (solo admin/employee)' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiParam({ name: 'document_type', description: 'Tipo de documento', enum: ['fisrt_flyer', 'second_flyer', 'third_flyer', 'labor_card'] })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Versión aprobada' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Préstamo o documento no encontrado' })
+  @ApiBadRequestResponse({ description: 'Tipo de documento no válido' })
+  async acceptDocument(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('document_type') documentType: 'fisrt_flyer' | 'second_flyer' | 'third_flyer' | 'labor_card',
+    @CurrentUser() user: any,
+  ) {
+    return this.loanDocument.acceptDocumentInLoan(id, documentType, { id: user.id, type: 'intranet' });
+  }
+
+  // Solo personal de intranet puede rechazar documentos
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.update', { model: 'loanApplication', param: 'id' })
+  @AuditEntity('loanApplication')
+  @Patch(':id/documents/:document_type/reject')
+  @ApiOperation({ summary: 'Rechazar la versión vigente de un documento (solo admin/employee)' })
+  @ApiParam({ name: 'id', description: 'ID del préstamo' })
+  @ApiParam({ name: 'document_type', description: 'Tipo de documento', enum: ['fisrt_flyer', 'second_flyer', 'third_flyer', 'labor_card'] })
+  @ApiBody({ schema: { type: 'object', properties: { reason: { type: 'string', description: 'Razón del rechazo' } } } })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Documento rechazado; el cliente es notificado para subir el reemplazo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Préstamo o documento no encontrado' })
+  @ApiBadRequestResponse({ description: 'Tipo de documento no válido o razón faltante' })
+  async rejectDocument(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('document_type') documentType: 'fisrt_flyer' | 'second_flyer' | 'third_flyer' | 'labor_card',
+    @Body('reason') reason: string,
+    @CurrentUser() user: any,
+  ) {
+    if (!reason?.trim()) {
+      throw new BadRequestException('La razón del rechazo es obligatoria');
+    }
+
+    return this.loanDocument.rejectDocumentInLoan(id, documentType, reason.trim(), { id: user.id, type: 'intranet' });
+  }
+
   @UseGuards(ClientAuthGuard)
   @Post(':loan_id/upload-rejected-document/:document_type')
   @UseInterceptors(FileInterceptor('file'))
@@ -643,7 +908,7 @@ export class LoanController {
       }
 
       // Llamar al servicio para subir el documento rechazado
-      return this.loanDocument.uploadRejectedDocument(loanId, documentType, file);
+      return this.loanDocument.uploadRejectedDocument(loanId, documentType, file, { id: user.id, type: user.type });
     } catch (error) {
       this.logger.error(`Error al subir documento rechazado: ${error.message}`, error.stack);
       if (error instanceof NotFoundException || error instanceof BadRequestException || error instanceof ForbiddenException) {
@@ -653,8 +918,9 @@ export class LoanController {
     }
   }
 
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.update', { model: 'loanApplication', param: 'loanId' })
+  @AuditEntity('loanApplication', 'loanId')
   @Patch(':loanId/cycode')
   @ApiOperation({ summary: 'Actualizar cycode del préstamo (solo admin/employee)' })
   @ApiParam({ name: 'loanId', description: 'ID del préstamo' })
@@ -675,8 +941,9 @@ export class LoanController {
     return this.extractsService.updateCycode(loanId, cycode.trim());
   }
 
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.update')
+  @AuditEntity('loanApplication', 'cycode', 'cycode')
   @Patch(':cycode/extract')
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ summary: 'Actualizar extracto del préstamo (solo admin/employee)' })
@@ -744,6 +1011,12 @@ export class LoanController {
       }
     }
 
+    // Intranet, solo si su rol atiende la empresa del cliente
+    if (user.type === 'intranet') {
+      const loan = await this.loanManagment.getByCycode(cycode);
+      await this.roles.assertPermission(user, 'loan.view', await this.roles.companyOf('loanApplication', loan.id));
+    }
+
     const extractInfo = await this.extractsService.getExtract(cycode);
     if (!extractInfo) {
       throw new NotFoundException('Extracto no encontrado');
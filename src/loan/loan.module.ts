@@ -6,6 +6,11 @@ import { MailModule } from 'src/mail/mail.module';
 import { PdfsModule } from 'src/pdfs/pdfs.module';
 import { GoogleCloudModule } from 'src/gcp/gcp.module';
 import { CloudinaryModule } from 'src/cloudinary/cloudinary.module'; // Import CombinedAuthGuard
+import { SearchModule } from 'src/search/search.module';
+import { PaystubModule } from 'src/paystub/paystub.module';
+import { DocumentHistoryModule } from 'src/document-history/document-history.module';
+import { OtpModule } from 'src/otp/otp.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
 import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
@@ -16,6 +21,16 @@ import { QueryService } from './services/query.service';
 import { StatusService } from './services/status.service';
 import { UtilityService } from './services/utility.service';
 import { ExtractsService } from './services/extracts.service';
+import { LoanScheduleService } from './services/schedule.service';
+import { LoanProductService } from './services/product.service';
+import { LoanProductController } from './loan-product.controller';
+import { LoanPaymentService } from './services/payment.service';
+import { LoanPaymentController } from './loan-payment.controller';
+import { PayrollDeductionService } from './services/payroll.service';
+import { PayrollDeductionController } from './payroll.controller';
+import { AmountMigrationService } from './services/amount-migration.service';
+import { LoanAssignmentController } from './assignment.controller';
+import { LoanAssignmentService } from './services/assignment.service';
 import { ApiTags } from '@nestjs/swagger';
 
 @Module({
@@ -25,8 +40,14 @@ import { ApiTags } from '@nestjs/swagger';
     PdfsModule,
     GoogleCloudModule,
     CloudinaryModule,
+    SearchModule,
+    PaystubModule,
+    DocumentHistoryModule,
+    OtpModule,
+    IntranetRoleModule,
   ],
-  controllers: [LoanController],
+  // LoanPaymentController va primero: sus rutas literales deben registrarse antes que los parámetros de LoanController
+  controllers: [LoanPaymentController, LoanController, LoanProductController, PayrollDeductionController, LoanAssignmentController],
   providers: [
     LoanService,
     ClientAuthGuard, // Add ClientAuthGuard as a provider
@@ -40,7 +61,12 @@ import { ApiTags } from '@nestjs/swagger';
     StatusService,
     UtilityService,
     ExtractsService,
-    
+    LoanScheduleService,
+    LoanProductService,
+    LoanPaymentService,
+    PayrollDeductionService,
+    AmountMigrationService,
+    LoanAssignmentService,
   ],
 })
 export class LoanModule {}
\ No newline at end of file
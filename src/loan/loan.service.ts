@@ -7,6 +7,13 @@ import { GoogleCloudService } from 'src/gcp/gcp.service';
 import { RandomUpIdsGenerator } from 'handlers/GenerateUpIds';
 import { CloudinaryService } from 'src/cloudinary/cloudinary.service';
 import { ILoanApplication, LoanStatus } from 'types/full';
+import { LoanScheduleService } from './services/schedule.service';
+import { PaystubAnalysis, PaystubService } from 'src/paystub/paystub.service';
+import { DocumentHistoryService, LOAN_DOCUMENT_FIELDS } from 'src/document-history/document-history.service';
+import { Prisma } from '@prisma/client';
+import { promissoryNumberOf } from 'templates/LegalTemplates';
+import { OtpService } from 'src/otp/otp.service';
+import { LoanAssignmentService } from './services/assignment.service';
 
 @Injectable()
 export class LoanService {
@@ -18,6 +25,11 @@ export class LoanService {
     private readonly pdfService: PdfsService,
     private readonly gcpService: GoogleCloudService,
     private readonly cloudinary: CloudinaryService,
+    private readonly schedule: LoanScheduleService,
+    private readonly paystub: PaystubService,
+    private readonly documentHistory: DocumentHistoryService,
+    private readonly otp: OtpService,
+    private readonly assignment: LoanAssignmentService,
   ) { }
 
   // Método para crear una solicitud de préstamo
@@ -166,6 +178,16 @@ export class LoanService {
         include: { user: true },
       });
 
+      // Primer registro del historial de estados
+      await this.prisma.loanStatusHistory.create({
+        data: {
+          loanId: newLoan.id,
+          toState: newLoan.status,
+          actorType: 'client',
+          actorId: data.userId,
+        },
+      });
+
       // Log específico después de guardar en LoanApplication
       this.logger.debug('🏠 [LOAN_SERVICE] Datos guardados en LoanApplication:', {
         event: 'saved_to_loan_database',
@@ -197,6 +219,16 @@ export class LoanService {
           userId: data.userId
         });
 
+        // Plan de pagos proyectado con el producto por defecto (el definitivo se genera al desembolsar)
+        const projectedSchedule = await this.schedule.previewForAmount(newLoan.cantity);
+
+        // Datos que llenan el pagaré y los demás documentos legales
+        const legalData = {
+          amount: newLoan.cantity,
+          dueDate: projectedSchedule?.[projectedSchedule.length - 1]?.dueDate,
+          promissoryNumber: promissoryNumberOf(newLoan.id),
+        };
+
         // Preparar parámetros de los documentos usando los datos del usuario ya obtenidos
         const documentsParams = [
           // Documento sobre el préstamo
@@ -207,6 +239,7 @@ export class LoanService {
             entity: newLoan.entity,
             accountNumber: newLoan.bankNumberAccount,
             userId: data.userId,
+            schedule: projectedSchedule ?? undefined,
           } as any,
           // Carta de instrucciones
           {
@@ -215,6 +248,7 @@ export class LoanService {
             numberDocument: user.Document[0]?.number ?? '',
             name: `${user.names} ${user.firstLastName} ${user.secondLastName}`,
             userId: data.userId,
+            ...legalData,
           } as any,
           // Autorización de pago de salario
           {
@@ -223,6 +257,7 @@ export class LoanService {
             numberDocument: user.Document[0]?.number ?? '',
             name: `${user.names} ${user.firstLastName} ${user.secondLastName}`,
             userId: data.userId,
+            ...legalData,
           } as any,
           // Pagaré
           {
@@ -230,7 +265,8 @@ export class LoanService {
             signature: newLoan.signature,
             numberDocument: user.Document[0]?.number ?? '',
             name: `${user.names} ${user.firstLastName} ${user.secondLastName}`,
-            userId: data.userId
+            userId: data.userId,
+            ...legalData,
           } as any,
         ];
 
@@ -288,16 +324,20 @@ export class LoanService {
         });
       }
 
+      // Asignar la solicitud a un analista; si no hay quien la atienda queda sin asignar
+      const analyst = await this.assignment.assignNew(newLoan.id);
+
       const duration = Date.now() - startTime;
       this.logger.debug('Proceso de creación de préstamo completado', {
         event: 'loan_creation_completed',
         loanId: newLoan.id,
         userId: data.userId,
+        employeeId: analyst?.id ?? null,
         duration: `${duration}ms`,
         success: true
       });
 
-      return newLoan as unknown as ILoanApplication;
+      return { ...newLoan, employeeId: analyst?.id ?? newLoan.employeeId } as unknown as ILoanApplication;
 
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -391,6 +431,7 @@ export class LoanService {
         second_flyer,
         third_flyer,
         labor_card,
+        paystubs,
       } = await this.gcpService.uploadDocsToLoan({
         userId: data.userId as string,
         fisrt_flyer: data.fisrt_flyer ?? null,
@@ -408,6 +449,16 @@ export class LoanService {
         userId: data.userId
       });
 
+      // Lectura de los volantes para el analista; se guarda en la pre-solicitud y pasa al préstamo
+      let paystubAnalysis: PaystubAnalysis | undefined;
+      if (Object.keys(paystubs).length > 0) {
+        const owner = await this.prisma.user.findUnique({
+          where: { id: data.userId as string },
+          select: { currentCompanie: true },
+        });
+        paystubAnalysis = this.paystub.analyze(paystubs, owner?.currentCompanie ?? null);
+      }
+
       // Upload signature to Cloudinary
       this.logger.debug('Subiendo firma a Cloudinary', {
         event: 'uploading_signature_cloudinary',
@@ -421,15 +472,6 @@ export class LoanService {
         `signature-${data.userId}-${upSignatureId}`
       );
 
-      // Generate a 6-digit numeric token
-      const token = Math.floor(100000 + Math.random() * 900000).toString();
-
-      this.logger.debug('Token de verificación generado', {
-        event: 'verification_token_generated',
-        userId: data.userId,
-        tokenLength: token.length
-      });
-
       // Log específico antes de guardar en base de datos
       this.logger.debug('🏠 [LOAN_SERVICE] Datos a guardar en PreLoanApplication:', {
         event: 'saving_to_database',
@@ -452,7 +494,7 @@ export class LoanService {
           phone: data.phone as string,
           entity: data.entity as string,
           bankNumberAccount: data.bankNumberAccount as string,
-          cantity: data.cantity as string,
+          cantity: data.cantity as number,
           city: data.city,
           residence_address: data.residence_address,
           terms_and_conditions: data.terms_and_conditions as boolean,
@@ -464,9 +506,9 @@ export class LoanService {
           upid_third_flayer: upid_third_flyer ?? null,
           labor_card: labor_card ?? null,
           upid_labor_card: upid_labor_card ?? null,
+          paystubAnalysis: paystubAnalysis as unknown as Prisma.InputJsonObject | undefined,
           signature: resImage,
           upSignatureId: upSignatureId as string,
-          token,
         },
         include: { user: true },
       });
@@ -486,6 +528,30 @@ export class LoanService {
         }
       });
 
+      // Primera versión de cada documento; pasa al préstamo cuando se verifique la pre-solicitud
+      const uploaded = { fisrt_flyer, second_flyer, third_flyer, labor_card };
+      const uploadIds = {
+        fisrt_flyer: upid_first_flyer,
+        second_flyer: upid_second_flyer,
+        third_flyer: upid_third_flyer,
+        labor_card: upid_labor_card,
+      };
+
+      for (const kind of LOAN_DOCUMENT_FIELDS) {
+        const url = uploaded[kind];
+        if (!url) continue;
+
+        await this.documentHistory.record({
+          userId: data.userId as string,
+          preLoanId: preCreatedLoan.id,
+          kind,
+          url,
+          upId: uploadIds[kind] ?? null,
+          file: data[kind],
+          uploadedBy: { id: data.userId as string, type: 'client' },
+        });
+      }
+
       this.logger.warn('Pre-solicitud creada exitosamente', {
         event: 'pre_loan_created_success',
         preId: preCreatedLoan.id,
@@ -493,11 +559,10 @@ export class LoanService {
         email: preCreatedLoan.user.email
       });
 
-      // send email to user with the token
+      // El código de confirmación se envía al correo del cliente; si falla puede pedir otro
       try {
-        await this.mailService.sendLoanTokenVerification({
-          token,
-          mail: preCreatedLoan.user.email
+        await this.otp.issue('loan-confirmation', preCreatedLoan.id, {
+          destination: preCreatedLoan.user.email,
         });
 
         this.logger.warn('Token de verificación enviado por correo', {
@@ -545,6 +610,45 @@ export class LoanService {
     }
   }
 
+  // Reenvía el código de confirmación, p. ej. si venció o se agotaron los intentos
+  async resendPreLoanToken(preId: string, userId: string): Promise<{ success: boolean; expiresAt: Date }> {
+    try {
+      const preLoan = await this.prisma.preLoanApplication.findUnique({
+        where: { id: preId },
+        include: { user: true },
+      });
+
+      if (!preLoan || preLoan.userId !== userId) {
+        throw new NotFoundException('Solicitud de préstamo no encontrada');
+      }
+
+      if (preLoan.processed) {
+        throw new BadRequestException('Esta solicitud de préstamo ya ha sido procesada anteriormente');
+      }
+
+      const { expiresAt } = await this.otp.issue('loan-confirmation', preLoan.id, {
+        destination: preLoan.user.email,
+      });
+
+      this.logger.debug('Token de verificación reenviado', {
+        event: 'verification_token_resent',
+        preId,
+        userId
+      });
+
+      return { success: true, expiresAt };
+    } catch (error) {
+      if (error instanceof NotFoundException || error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error('Error reenviando token de verificación', error, {
+        event: 'verification_token_resend_error',
+        preId
+      });
+      throw new BadRequestException('Error al reenviar el código de verificación');
+    }
+  }
+
   async verifyPreLoan(token: string, preId: string): Promise<CreateLoanApplicationDto> {
     const startTime = Date.now();
 
@@ -564,8 +668,7 @@ export class LoanService {
       if (!preLoan) {
         this.logger.warn('Pre-solicitud no encontrada', {
           event: 'pre_loan_not_found',
-          preId,
-          token
+          preId
         });
         throw new NotFoundException('Solicitud de préstamo no encontrada');
       }
@@ -578,17 +681,13 @@ export class LoanService {
         processed: preLoan.processed || false
       });
 
-      // Verificar si el token es válido
-      if (preLoan.token !== token) {
-        this.logger.warn('Token inválido proporcionado', {
-          event: 'invalid_token',
-          preId,
-          userId: preLoan.userId,
-          tokenMatch: false
-        });
-        throw new BadRequestException('Token inválido o ha expirado');
+      if (preLoan.processed) {
+        throw new BadRequestException('Esta solicitud de préstamo ya ha sido procesada anteriormente');
       }
 
+      // Verificar el código; cada intento fallido cuenta contra el máximo del código
+      await this.otp.verify('loan-confirmation', preId, token);
+
       this.logger.debug('Token válido confirmado', {
         event: 'token_valid',
         preId,
@@ -659,6 +758,15 @@ export class LoanService {
         throw new BadRequestException('Error al crear la solicitud de préstamo');
       }
 
+      if (preLoan.paystubAnalysis) {
+        await this.prisma.loanApplication.update({
+          where: { id: newLoan.id },
+          data: { paystubAnalysis: preLoan.paystubAnalysis as Prisma.InputJsonObject },
+        });
+      }
+
+      await this.documentHistory.attachToLoan(preId, newLoan.id);
+
       // Marcar el pre-préstamo como utilizado
       await this.prisma.preLoanApplication.update({
         where: { id: preId },
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  BadRequestException,
+  ForbiddenException,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Res,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { companiesUser } from '@prisma/client';
+import { IntranetAuthGuard } from '../auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CompanyScope } from '../auth/decorators/company-scope.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IntranetRoleService } from 'src/intranet-role/intranet-role.service';
+import { PayrollDeductionService } from './services/payroll.service';
+import { CreatePayrollBatchDto, PayrollFileFormat } from './dto/payroll.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse,
+  ApiConflictResponse
+} from '@nestjs/swagger';
+import { AuditEntity } from '../audit/decorators/audit-entity.decorator';
+
+@ApiTags('payroll-deductions')
+@Controller('payroll-deductions')
+export class PayrollDeductionController {
+  constructor(
+    private readonly payroll: PayrollDeductionService,
+    private readonly roles: IntranetRoleService,
+  ) { }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payroll.manage')
+  @Post('batches')
+  @ApiOperation({ summary: 'Generar el lote de descuentos de nómina de una empresa (permiso payroll.manage)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        company: { type: 'string', enum: Object.values(companiesUser), description: 'Empresa empleadora' },
+        periodStart: { type: 'string', format: 'date', description: 'Inicio del periodo de nómina' },
+        periodEnd: { type: 'string', format: 'date', description: 'Fin del periodo de nómina' },
+      },
+      required: ['company', 'periodStart', 'periodEnd']
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Lote generado con el valor a descontar por préstamo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiBadRequestResponse({ description: 'Empresa o periodo inválido' })
+  @ApiConflictResponse({ description: 'El lote del periodo ya fue conciliado' })
+  async generate(
+    @Body() data: CreatePayrollBatchDto,
+    @CurrentUser() user: any,
+  ) {
+    // La empresa llega en el body, así que el alcance del rol se valida aquí
+    await this.roles.assertPermission(user, 'payroll.manage', data.company ?? null);
+    return this.payroll.generateBatch(data, user.id);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payroll.manage')
+  @Get('batches')
+  @ApiOperation({ summary: 'Listar lotes de descuentos de nómina de las empresas que atiende el rol (permiso payroll.manage)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 10 })
+  @ApiQuery({ name: 'company', required: false, enum: Object.values(companiesUser), description: 'Filtrar por empresa' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de lotes' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes o la empresa no la atiende su rol' })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(10), ParseIntPipe) pageSize: number,
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('company') company?: companiesUser,
+  ) {
+    if (company && !Object.values(companiesUser).includes(company)) {
+      throw new BadRequestException('Empresa inválida');
+    }
+    if (company && companies && !companies.includes(company)) {
+      throw new ForbiddenException('Su rol no atiende esta empresa');
+    }
+    return this.payroll.findAll(page, pageSize, company, companies);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payroll.manage', { model: 'payrollDeductionBatch', param: 'id' })
+  @Get('batches/:id')
+  @ApiOperation({ summary: 'Obtener un lote de descuentos de nómina (permiso payroll.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del lote' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lote con el detalle por préstamo' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Lote no encontrado' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.payroll.findOne(id);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payroll.manage', { model: 'payrollDeductionBatch', param: 'id' })
+  @Get('batches/:id/export')
+  @ApiOperation({ summary: 'Descargar el archivo del lote para la empresa (permiso payroll.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del lote' })
+  @ApiQuery({ name: 'format', required: false, enum: ['xlsx', 'csv'], description: 'Formato del archivo' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Archivo del lote' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Lote no encontrado' })
+  async export(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+    @Query('format', new DefaultValuePipe('xlsx')) format: PayrollFileFormat,
+  ) {
+    if (!['xlsx', 'csv'].includes(format)) {
+      throw new BadRequestException('Formato inválido. Valores permitidos: xlsx, csv');
+    }
+
+    const { buffer, fileName, contentType } = await this.payroll.exportBatch(id, format);
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': buffer.length,
+    });
+
+    return res.send(buffer);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('payroll.manage', { model: 'payrollDeductionBatch', param: 'id' })
+  @AuditEntity('payrollDeductionBatch')
+  @Post('batches/:id/reconcile')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Conciliar el archivo devuelto por la empresa y registrar los descuentos como pagos (permiso payroll.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del lote' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    description: 'Archivo del lote con la columna "Valor descontado" diligenciada',
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Archivo XLSX o CSV'
+        }
+      }
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Resultado de la conciliación por fila' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Lote no encontrado' })
+  @ApiBadRequestResponse({ description: 'Archivo inválido' })
+  async reconcile(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: any,
+  ) {
+    return this.payroll.reconcileBatch(id, file, user.id);
+  }
+}
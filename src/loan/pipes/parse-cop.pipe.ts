@@ -0,0 +1,29 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { parseCop } from 'handlers/money';
+
+/**
+ * Convierte un monto en pesos (número o texto con separadores) a entero.
+ * Con `optional`, un valor vacío pasa como undefined en lugar de fallar.
+ */
+@Injectable()
+export class ParseCopPipe implements PipeTransform<unknown, number | undefined> {
+  constructor(private readonly options: { optional?: boolean; min?: number } = {}) { }
+
+  transform(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      if (this.options.optional) {
+        return undefined;
+      }
+      throw new BadRequestException('El monto es requerido');
+    }
+
+    const amount = parseCop(value);
+    const min = this.options.min ?? 0;
+
+    if (amount === null || amount < min) {
+      throw new BadRequestException(`Monto inválido, debe ser un valor en pesos mayor o igual a ${min}`);
+    }
+
+    return amount;
+  }
+}
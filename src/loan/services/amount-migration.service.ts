@@ -0,0 +1,92 @@
+import { Injectable, Logger, OnApplicationBootstrap } from "@nestjs/common";
+import { PrismaService } from "src/prisma/prisma.service";
+import { parseCop } from "handlers/money";
+
+const BATCH_SIZE = 500;
+
+// Campos de monto que antes se guardaban como texto
+const AMOUNT_FIELDS: { collection: string; field: string; required: boolean }[] = [
+    { collection: "LoanApplication", field: "cantity", required: true },
+    { collection: "LoanApplication", field: "newCantity", required: false },
+    { collection: "PreLoanApplication", field: "cantity", required: true },
+    { collection: "LoanStatusHistory", field: "previous.newCantity", required: false },
+];
+
+/**
+ * Migra los montos guardados como texto ("1500000", "1.500.000") a pesos enteros.
+ * Corre al iniciar la aplicación y no hace nada cuando ya no quedan documentos
+ * por convertir. Prisma no puede leer un texto en un campo Int, así que los
+ * valores ilegibles quedan en 0 (o null si el campo es opcional) y el texto
+ * original se conserva en `<campo>Original` para revisarlo a mano.
+ */
+@Injectable()
+export class AmountMigrationService implements OnApplicationBootstrap {
+    private logger = new Logger(AmountMigrationService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+    ) { }
+
+    async onApplicationBootstrap() {
+        try {
+            for (const { collection, field, required } of AMOUNT_FIELDS) {
+                const { converted, invalid } = await this.migrateField(collection, field, required);
+
+                if (converted > 0 || invalid > 0) {
+                    this.logger.log(`${collection}.${field}: ${converted} montos convertidos, ${invalid} ilegibles`);
+                }
+            }
+        } catch (error) {
+            this.logger.error("Error al migrar los montos de préstamos a pesos enteros", error);
+        }
+    }
+
+    private async migrateField(
+        collection: string,
+        field: string,
+        required: boolean,
+    ): Promise<{ converted: number; invalid: number }> {
+        let converted = 0;
+        let invalid = 0;
+
+        // Cada lote actualiza todos los documentos que lee, así que la misma consulta avanza sola
+        for (; ;) {
+            const result = await this.prisma.$runCommandRaw({
+                find: collection,
+                filter: { [field]: { $type: "string" } },
+                projection: { [field]: 1 },
+                limit: BATCH_SIZE,
+            }) as { cursor: { firstBatch: Record<string, any>[] } };
+
+            const docs = result.cursor.firstBatch;
+            if (docs.length === 0) break;
+
+            const updates = docs.map(doc => {
+                const raw: string = field.split(".").reduce((value, key) => value?.[key], doc);
+                const amount = parseCop(raw);
+
+                if (amount !== null) {
+                    converted++;
+                    return { q: { _id: doc._id }, u: { $set: { [field]: amount } } };
+                }
+
+                // Un texto vacío en un campo opcional simplemente no tiene monto
+                if (!required && raw.trim() === "") {
+                    converted++;
+                    return { q: { _id: doc._id }, u: { $set: { [field]: null } } };
+                }
+
+                invalid++;
+                this.logger.warn(`Monto ilegible en ${collection} ${doc._id}: "${raw}"`);
+                return {
+                    q: { _id: doc._id },
+                    u: { $set: { [field]: required ? 0 : null, [`${field}Original`]: raw } },
+                };
+            });
+
+            await this.prisma.$runCommandRaw({ update: collection, updates });
+        }
+
+        return { converted, invalid };
+    }
+}
@@ -0,0 +1,391 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from "@nestjs/common";
+import { companiesUser, LoanAssignmentSettings, LoanAssignmentStrategy, StatusLoan } from "@prisma/client";
+import { PrismaService } from "src/prisma/prisma.service";
+import { IntranetRoleService } from "src/intranet-role/intranet-role.service";
+import { IntranetAccess } from "src/intranet-role/dto/intranet-role.dto";
+import { ADMIN_ROLE } from "src/intranet-role/permissions";
+
+const SETTINGS_KEY = "default";
+// Periodo de las decisiones que se muestran en las estadísticas de carga
+const STATS_WINDOW_DAYS = 30;
+
+export interface LoanAssignmentSettingsInput {
+    enabled?: boolean;
+    strategy?: string;
+}
+
+export interface AssignedAnalyst {
+    id: string;
+    name: string;
+    email: string;
+}
+
+export interface ReassignmentResult {
+    reassigned: number;
+    unassigned: number; // Quedaron sin analista porque nadie más atiende la empresa del cliente
+}
+
+interface Analyst extends AssignedAnalyst {
+    role: string;
+    companies: companiesUser[] | null; // null = todas
+}
+
+/**
+ * Reparte las solicitudes nuevas entre los analistas: usuarios de intranet activos cuyo rol
+ * puede aprobar préstamos de la empresa del cliente. La carga de un analista son sus
+ * solicitudes en estado Pendiente.
+ */
+@Injectable()
+export class LoanAssignmentService implements OnModuleInit {
+    private logger = new Logger(LoanAssignmentService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly roles: IntranetRoleService,
+    ) { }
+
+    // Los cambios de rol ocurren en IntranetRoleService, que no puede depender de este módulo
+    onModuleInit() {
+        this.roles.onAccessChange(async (userId, previous, next) => {
+            if (this.losesLoans(previous, next)) {
+                await this.reassignFrom(userId, next);
+            }
+        });
+    }
+
+    async getSettings(): Promise<LoanAssignmentSettings> {
+        return this.prisma.loanAssignmentSettings.upsert({
+            where: { key: SETTINGS_KEY },
+            create: { key: SETTINGS_KEY },
+            update: {},
+        });
+    }
+
+    async updateSettings(input: LoanAssignmentSettingsInput, userId: string): Promise<LoanAssignmentSettings> {
+        if (input.strategy !== undefined && !Object.values(LoanAssignmentStrategy).includes(input.strategy as LoanAssignmentStrategy)) {
+            throw new BadRequestException(`Estrategia no válida: ${input.strategy}`);
+        }
+        if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+            throw new BadRequestException("enabled debe ser true o false");
+        }
+
+        await this.getSettings();
+        const settings = await this.prisma.loanAssignmentSettings.update({
+            where: { key: SETTINGS_KEY },
+            data: {
+                ...(input.enabled !== undefined && { enabled: input.enabled }),
+                ...(input.strategy !== undefined && { strategy: input.strategy as LoanAssignmentStrategy }),
+                updatedBy: userId,
+            },
+        });
+
+        this.logger.log(`Asignación automática ${settings.enabled ? "activa" : "inactiva"} con estrategia ${settings.strategy}`);
+        return settings;
+    }
+
+    /**
+     * Asigna una solicitud recién creada. No lanza errores: una solicitud sin analista
+     * sigue siendo válida y se puede asignar a mano o con assignUnassigned.
+     */
+    async assignNew(loanId: string): Promise<AssignedAnalyst | null> {
+        try {
+            const settings = await this.getSettings();
+            if (!settings.enabled) {
+                return null;
+            }
+
+            const loan = await this.prisma.loanApplication.findUnique({
+                where: { id: loanId },
+                select: { id: true, employeeId: true, user: { select: { currentCompanie: true } } },
+            });
+            if (!loan || loan.employeeId) {
+                return null;
+            }
+
+            const analysts = await this.activeAnalysts();
+            const analyst = await this.pick(settings.strategy, analysts, await this.openLoads(analysts), loan.user?.currentCompanie ?? null);
+
+            if (!analyst) {
+                this.logger.warn(`Solicitud ${loanId} sin asignar: ningún analista activo atiende la empresa ${loan.user?.currentCompanie ?? "(sin empresa)"}`);
+                return null;
+            }
+
+            // Solo si sigue sin analista: alguien pudo asignarla a mano mientras tanto
+            const { count } = await this.prisma.loanApplication.updateMany({
+                where: { id: loanId, employeeId: null },
+                data: { employeeId: analyst.id, assignedAt: new Date() },
+            });
+            if (count === 0) {
+                return null;
+            }
+
+            this.logger.log(`Solicitud ${loanId} asignada a ${analyst.email} (${settings.strategy})`);
+            return { id: analyst.id, name: analyst.name, email: analyst.email };
+        } catch (error) {
+            this.logger.error(`Error al asignar automáticamente la solicitud ${loanId}`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Reparte las solicitudes pendientes que aún no tienen analista, de la más antigua a la más
+     * reciente. Como en reassignFrom, la carga se calcula una vez y se actualiza en cada asignación.
+     */
+    async assignUnassigned(): Promise<{ assigned: number; pending: number }> {
+        const loans = await this.prisma.loanApplication.findMany({
+            where: { status: StatusLoan.Pendiente, employeeId: null },
+            select: { id: true, user: { select: { currentCompanie: true } } },
+            orderBy: { created_at: "asc" },
+        });
+
+        const settings = await this.getSettings();
+        if (loans.length === 0 || !settings.enabled) {
+            return { assigned: 0, pending: loans.length };
+        }
+
+        const analysts = await this.activeAnalysts();
+        const loads = await this.openLoads(analysts);
+        let assigned = 0;
+
+        for (const loan of loans) {
+            const analyst = await this.pick(settings.strategy, analysts, loads, loan.user?.currentCompanie ?? null);
+            if (!analyst) {
+                continue;
+            }
+
+            // Solo si sigue sin analista: alguien pudo asignarla a mano mientras tanto
+            const { count } = await this.prisma.loanApplication.updateMany({
+                where: { id: loan.id, employeeId: null },
+                data: { employeeId: analyst.id, assignedAt: new Date() },
+            });
+
+            if (count === 1) {
+                loads.set(analyst.id, (loads.get(analyst.id) ?? 0) + 1);
+                assigned++;
+            }
+        }
+
+        this.logger.log(`Solicitudes sin analista: ${assigned} asignadas, ${loans.length - assigned} pendientes (${settings.strategy})`);
+        return { assigned, pending: loans.length - assigned };
+    }
+
+    /**
+     * Activa o desactiva un usuario de intranet. Al desactivarlo sus solicitudes pendientes
+     * pasan a otros analistas con la estrategia configurada; las ya decididas conservan su analista.
+     */
+    async setActive(userId: string, isActive: boolean) {
+        if (typeof isActive !== "boolean") {
+            throw new BadRequestException("isActive debe ser true o false");
+        }
+
+        const user = await this.prisma.usersIntranet.findUnique({ where: { id: userId } });
+        if (!user) {
+            throw new NotFoundException(`Usuario de intranet con ID ${userId} no encontrado`);
+        }
+
+        const updated = await this.prisma.usersIntranet.update({
+            where: { id: userId },
+            data: { isActive },
+            omit: { password: true },
+        });
+
+        const reassignment = !isActive && user.isActive ? await this.reassignFrom(userId) : null;
+        this.logger.log(`Usuario ${user.email} ${isActive ? "activado" : "desactivado"}`);
+
+        return { user: updated, reassignment };
+    }
+
+    /**
+     * Pasa las solicitudes pendientes de un analista a los demás. Con `access`, el acceso que le
+     * queda al analista, solo se mueven las de empresas que ya no puede aprobar.
+     */
+    async reassignFrom(analystId: string, access?: IntranetAccess | null): Promise<ReassignmentResult> {
+        const pending = await this.prisma.loanApplication.findMany({
+            where: { employeeId: analystId, status: StatusLoan.Pendiente },
+            select: { id: true, user: { select: { currentCompanie: true } } },
+            orderBy: { created_at: "asc" },
+        });
+        const loans = access?.permissions.has("loan.approve")
+            ? pending.filter(loan => !this.roles.inScope(access, loan.user?.currentCompanie ?? null))
+            : pending;
+        if (loans.length === 0) {
+            return { reassigned: 0, unassigned: 0 };
+        }
+
+        const settings = await this.getSettings();
+        const analysts = (await this.activeAnalysts()).filter(analyst => analyst.id !== analystId);
+        const loads = await this.openLoads(analysts);
+        const result: ReassignmentResult = { reassigned: 0, unassigned: 0 };
+
+        for (const loan of loans) {
+            const analyst = await this.pick(settings.strategy, analysts, loads, loan.user?.currentCompanie ?? null);
+
+            // Solo si sigue pendiente y en manos del mismo analista: pudo decidirse o reasignarse mientras tanto
+            const { count } = await this.prisma.loanApplication.updateMany({
+                where: { id: loan.id, employeeId: analystId, status: StatusLoan.Pendiente },
+                data: { employeeId: analyst?.id ?? null, assignedAt: analyst ? new Date() : null },
+            });
+            if (count === 0) {
+                continue;
+            }
+
+            if (analyst) {
+                loads.set(analyst.id, (loads.get(analyst.id) ?? 0) + 1);
+                result.reassigned++;
+            } else {
+                result.unassigned++;
+            }
+        }
+
+        this.logger.log(`Solicitudes de ${analystId}: ${result.reassigned} reasignadas, ${result.unassigned} sin analista`);
+        return result;
+    }
+
+    /**
+     * Carga por analista: solicitudes abiertas, la más antigua sin resolver y las decisiones
+     * (aprobaciones y aplazamientos) de los últimos días.
+     */
+    async workloadStats() {
+        const since = new Date(Date.now() - STATS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+        const [analysts, users, open, oldest, decisions, unassigned] = await Promise.all([
+            this.activeAnalysts(),
+            this.prisma.usersIntranet.findMany({
+                select: { id: true, name: true, lastNames: true, email: true, rol: true, isActive: true },
+            }),
+            this.prisma.loanApplication.groupBy({
+                by: ["employeeId"],
+                where: { status: StatusLoan.Pendiente, employeeId: { not: null } },
+                _count: { _all: true },
+            }),
+            this.prisma.loanApplication.groupBy({
+                by: ["employeeId"],
+                where: { status: StatusLoan.Pendiente, employeeId: { not: null } },
+                _min: { assignedAt: true, created_at: true },
+            }),
+            this.prisma.loanStatusHistory.groupBy({
+                by: ["actorId", "toState"],
+                where: {
+                    actorType: "intranet",
+                    toState: { in: ["Aprobado", "Aplazado"] },
+                    created_at: { gte: since },
+                },
+                _count: { _all: true },
+            }),
+            this.prisma.loanApplication.count({ where: { status: StatusLoan.Pendiente, employeeId: null } }),
+        ]);
+
+        const inQueue = new Set(analysts.map(analyst => analyst.id));
+        const openBy = new Map(open.map(group => [group.employeeId, group._count._all]));
+        const oldestBy = new Map(oldest.map(group => [group.employeeId, group._min.assignedAt ?? group._min.created_at]));
+        const decided = (id: string, state: string) =>
+            decisions.find(group => group.actorId === id && group.toState === state)?._count._all ?? 0;
+
+        // Analistas en la cola y cualquier otro usuario que todavía tenga solicitudes abiertas
+        const rows = users
+            .filter(user => inQueue.has(user.id) || openBy.has(user.id))
+            .map(user => ({
+                id: user.id,
+                name: `${user.name} ${user.lastNames}`,
+                email: user.email,
+                role: user.rol,
+                isActive: user.isActive,
+                inQueue: inQueue.has(user.id),
+                open: openBy.get(user.id) ?? 0,
+                oldestOpenSince: oldestBy.get(user.id) ?? null,
+                approved: decided(user.id, "Aprobado"),
+                deferred: decided(user.id, "Aplazado"),
+            }))
+            .sort((a, b) => b.open - a.open || a.name.localeCompare(b.name));
+
+        return { since, unassigned, analysts: rows };
+    }
+
+    /**
+     * Analistas que pueden recibir solicitudes. El rol admin tiene todos los permisos por
+     * definición, así que no entra en la cola aunque pueda aprobar.
+     */
+    private async activeAnalysts(): Promise<Analyst[]> {
+        const users = await this.prisma.usersIntranet.findMany({
+            where: { isActive: true, rol: { not: ADMIN_ROLE } },
+            select: { id: true, name: true, lastNames: true, email: true, rol: true },
+            orderBy: [{ created_at: "asc" }, { id: "asc" }],
+        });
+
+        const analysts: Analyst[] = [];
+        for (const user of users) {
+            const access = await this.roles.accessFor({ type: "intranet", rol: user.rol });
+            if (access?.permissions.has("loan.approve")) {
+                analysts.push({
+                    id: user.id,
+                    name: `${user.name} ${user.lastNames}`,
+                    email: user.email,
+                    role: user.rol,
+                    companies: access.companies,
+                });
+            }
+        }
+
+        return analysts;
+    }
+
+    // El usuario podía aprobar y con su nuevo acceso deja de poder hacerlo en alguna empresa
+    private losesLoans(previous: IntranetAccess | null, next: IntranetAccess | null): boolean {
+        if (!previous?.permissions.has("loan.approve")) {
+            return false;
+        }
+        if (!next?.permissions.has("loan.approve")) {
+            return true;
+        }
+        if (next.companies === null) {
+            return false;
+        }
+
+        const covered = next.companies;
+        return previous.companies === null || previous.companies.some(company => !covered.includes(company));
+    }
+
+    private async openLoads(analysts: Analyst[]): Promise<Map<string, number>> {
+        const groups = await this.prisma.loanApplication.groupBy({
+            by: ["employeeId"],
+            where: { status: StatusLoan.Pendiente, employeeId: { in: analysts.map(analyst => analyst.id) } },
+            _count: { _all: true },
+        });
+
+        return new Map(groups.map(group => [group.employeeId as string, group._count._all]));
+    }
+
+    /**
+     * Elige el analista para un cliente de la empresa dada. En todas las estrategias solo
+     * cuentan los analistas cuyo rol atiende esa empresa: sin eso no podrían ver la solicitud.
+     */
+    private async pick(
+        strategy: LoanAssignmentStrategy,
+        analysts: Analyst[],
+        loads: Map<string, number>,
+        company: companiesUser | null,
+    ): Promise<Analyst | null> {
+        const eligible = analysts.filter(analyst =>
+            analyst.companies === null || (company !== null && analyst.companies.includes(company)));
+
+        if (eligible.length === 0) {
+            return null;
+        }
+
+        if (strategy === LoanAssignmentStrategy.round_robin) {
+            // El contador se incrementa en la base para que dos creaciones simultáneas no tomen el mismo turno
+            const { rotation } = await this.prisma.loanAssignmentSettings.update({
+                where: { key: SETTINGS_KEY },
+                data: { rotation: { increment: 1 } },
+            });
+            return eligible[(rotation - 1) % eligible.length];
+        }
+
+        // per_company: los analistas dedicados a la empresa van antes que los que atienden todas
+        const dedicated = eligible.filter(analyst => analyst.companies !== null);
+        const pool = strategy === LoanAssignmentStrategy.per_company && dedicated.length > 0 ? dedicated : eligible;
+
+        return pool.reduce((best, analyst) =>
+            (loads.get(analyst.id) ?? 0) < (loads.get(best.id) ?? 0) ? analyst : best);
+    }
+}
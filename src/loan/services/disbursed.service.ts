@@ -1,6 +1,9 @@
 import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { MailService } from "src/mail/mail.service";
 import { PrismaService } from "src/prisma/prisma.service";
+import { formatCop } from "handlers/money";
+import { LoanScheduleService } from "./schedule.service";
+import { applyLoanTransition, assertLoanTransition, loanHistoryEntry, LoanStatusActor } from "./status-transitions";
 
 @Injectable()
 export class LoanDisbursementService {
@@ -8,9 +11,10 @@ export class LoanDisbursementService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly mail: MailService,
+        private readonly schedule: LoanScheduleService,
     ) { }
 
-    async disburseLoan(id: string) {
+    async disburseLoan(id: string, productId?: string, actor: LoanStatusActor = { type: 'system' }) {
         try {
             // Verificar que la solicitud existe
             const existingLoan = await this.prisma.loanApplication.findUnique({
@@ -29,23 +33,33 @@ export class LoanDisbursementService {
                 throw new BadRequestException('Este préstamo ya ha sido desembolsado');
             }
 
-            // Actualizar el préstamo
-            const updatedLoan = await this.prisma.loanApplication.update({
-                where: { id },
-                data: {
-                    isDisbursed: true,
-                    dateDisbursed: new Date(),
-                },
-                include: {
-                    user: true,
-                },
+            // Solo las solicitudes aprobadas se pueden desembolsar
+            assertLoanTransition(existingLoan, 'Desembolsado');
+
+            // Actualizar el préstamo y generar el plan de pagos en la misma transacción
+            const dateDisbursed = new Date();
+            const updatedLoan = await this.prisma.$transaction(async (tx) => {
+                // Primero se marca como desembolsado: un segundo desembolso simultáneo falla aquí
+                // en lugar de generar otro plan de pagos
+                await applyLoanTransition(tx, existingLoan, { isDisbursed: true, dateDisbursed });
+                await this.schedule.generateForLoan(id, dateDisbursed, productId, tx);
+                await tx.loanStatusHistory.create({
+                    data: loanHistoryEntry(existingLoan, 'Desembolsado', actor),
+                });
+
+                return tx.loanApplication.findUniqueOrThrow({
+                    where: { id },
+                    include: {
+                        user: true,
+                    },
+                });
             });
 
             // Enviar email de notificación de desembolso
             try {
                 await this.mail.sendDisbursementEmail({
                     mail: updatedLoan.user.email,
-                    amount: `$${updatedLoan.cantity.toLocaleString()}`,
+                    amount: formatCop(this.schedule.principalOf(updatedLoan)),
                     bankAccount: `****${updatedLoan.bankNumberAccount?.slice(-4) || '****'}`, // Mostrar solo los últimos 4 dígitos
                     loanId: updatedLoan.id,
                     disbursementDate: updatedLoan.dateDisbursed
@@ -1,10 +1,20 @@
 import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { UploadId } from "../dto/change-loan-status.dto";
 import { RandomUpIdsGenerator } from "handlers/GenerateUpIds";
-import { LoanApplication } from "@prisma/client";
+import { LoanApplication, LoanDocument, Prisma } from "@prisma/client";
 import { PrismaService } from "src/prisma/prisma.service";
 import { MailService } from "src/mail/mail.service";
 import { GoogleCloudService } from "src/gcp/gcp.service";
+import { PaystubAnalysis, PaystubService } from "src/paystub/paystub.service";
+import { DocumentActor, DocumentHistory, DocumentHistoryService, LoanDocumentField } from "src/document-history/document-history.service";
+
+// Campo con el upId de cada documento en LoanApplication
+const UPLOAD_ID_FIELDS = {
+    fisrt_flyer: "upid_first_flyer",
+    second_flyer: "upid_second_flyer",
+    third_flyer: "upid_third_flyer",
+    labor_card: "upid_labor_card",
+} as const;
 
 @Injectable()
 export class LoanDocumentService {
@@ -14,32 +24,55 @@ export class LoanDocumentService {
         private readonly prisma: PrismaService,
         private readonly mail: MailService,
         private readonly gcp: GoogleCloudService,
+        private readonly paystub: PaystubService,
+        private readonly documentHistory: DocumentHistoryService,
     ) { }
 
+    /**
+     * Rechaza el documento vigente: la versión queda en el historial como rechazada con
+     * su razón y el campo del préstamo se limpia para que el cliente suba el reemplazo.
+     */
     async rejectDocumentInLoan(
         loanId: string,
-        documentType: 'fisrt_flyer' | 'second_flyer' | 'third_flyer' | 'labor_card',
+        documentType: LoanDocumentField,
         reasonReject: string,
+        reviewer: DocumentActor,
     ): Promise<LoanApplication> {
         try {
+            if (!UPLOAD_ID_FIELDS[documentType]) {
+                throw new BadRequestException('Tipo de documento no válido');
+            }
+
+            const loan = await this.prisma.loanApplication.findUnique({
+                where: { id: loanId },
+                include: { user: { select: { currentCompanie: true } } },
+            });
+
+            if (!loan) {
+                throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+            }
+
+            await this.documentHistory.review(
+                loan,
+                documentType,
+                { url: loan[documentType], upId: loan[UPLOAD_ID_FIELDS[documentType]] },
+                reviewer,
+                { status: "rejected", reason: reasonReject },
+            );
 
             // Determinar qué campos actualizar basado en el tipo de documento
-            const updateData: any = {};
+            const updateData: any = {
+                [documentType]: null,
+                [UPLOAD_ID_FIELDS[documentType]]: null,
+            };
 
-            if (documentType === 'fisrt_flyer') {
-                updateData.fisrt_flyer = null;
-                updateData.upid_first_flayer = null;
-            } else if (documentType === 'second_flyer') {
-                updateData.second_flyer = null;
-                updateData.upid_second_flyer = null;
-            } else if (documentType === 'third_flyer') {
-                updateData.third_flyer = null;
-                updateData.upid_third_flyer = null;
-            } else if (documentType === 'labor_card') {
-                updateData.labor_card = null;
-                updateData.upid_labor_card = null;
-            } else {
-                throw new BadRequestException('Tipo de documento no válido');
+            // Un volante rechazado deja de contar en la lectura de salarios
+            if (documentType !== 'labor_card') {
+                const flyers = this.storedPaystubs(loan.paystubAnalysis);
+                if (flyers[documentType]) {
+                    delete flyers[documentType];
+                    updateData.paystubAnalysis = this.paystub.analyze(flyers, loan.user.currentCompanie);
+                }
             }
 
             // Actualizar la solicitud de préstamo
@@ -77,10 +110,58 @@ export class LoanDocumentService {
         }
     }
 
+    // Aprueba la versión vigente del documento sin modificar la solicitud
+    async acceptDocumentInLoan(
+        loanId: string,
+        documentType: LoanDocumentField,
+        reviewer: DocumentActor,
+    ): Promise<LoanDocument> {
+        try {
+            if (!UPLOAD_ID_FIELDS[documentType]) {
+                throw new BadRequestException('Tipo de documento no válido');
+            }
+
+            const loan = await this.prisma.loanApplication.findUnique({
+                where: { id: loanId },
+            });
+
+            if (!loan) {
+                throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+            }
+
+            return await this.documentHistory.review(
+                loan,
+                documentType,
+                { url: loan[documentType], upId: loan[UPLOAD_ID_FIELDS[documentType]] },
+                reviewer,
+                { status: "accepted" },
+            );
+        } catch (error) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+            this.logger.error(`Error al aprobar documento en préstamo ${loanId}:`, error);
+            throw new BadRequestException('Error al aprobar el documento');
+        }
+    }
+
+    async documentHistoryOf(loanId: string): Promise<DocumentHistory[]> {
+        try {
+            return await this.documentHistory.loanHistory(loanId);
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+            this.logger.error(`Error al obtener el historial de documentos del préstamo ${loanId}:`, error);
+            throw new BadRequestException('Error al obtener el historial de documentos');
+        }
+    }
+
     async uploadRejectedDocument(
         loanId: string,
-        documentType: 'fisrt_flyer' | 'second_flyer' | 'third_flyer' | 'labor_card',
-        file: Express.Multer.File
+        documentType: LoanDocumentField,
+        file: Express.Multer.File,
+        uploadedBy: DocumentActor,
     ): Promise<LoanApplication> {
         try {
             // Verificar que la solicitud existe
@@ -143,6 +224,14 @@ export class LoanDocumentService {
                 updateData.upid_labor_card = uploadIdField;
             }
 
+            // El volante nuevo reemplaza al anterior en la lectura de salarios
+            if (documentType !== 'labor_card') {
+                updateData.paystubAnalysis = this.paystub.analyze(
+                    { ...this.storedPaystubs(existingLoan.paystubAnalysis), ...uploadedDocs.paystubs },
+                    existingLoan.user.currentCompanie,
+                );
+            }
+
             // Actualizar la solicitud de préstamo
             const updatedLoan = await this.prisma.loanApplication.update({
                 where: { id: loanId },
@@ -152,6 +241,21 @@ export class LoanDocumentService {
                 },
             });
 
+            // El reemplazo queda como versión nueva pendiente de revisión
+            const uploadedUrl = uploadedDocs[documentType];
+            if (uploadedUrl) {
+                await this.documentHistory.record({
+                    userId: existingLoan.userId,
+                    loanId,
+                    kind: documentType,
+                    url: uploadedUrl,
+                    upId: uploadIdField,
+                    file,
+                    uploadedBy,
+                    legacy: { url: existingLoan[documentType], upId: existingLoan[UPLOAD_ID_FIELDS[documentType]] },
+                });
+            }
+
             // Marcar los eventos relacionados como respondidos
             await this.prisma.eventLoanApplication.updateMany({
                 where: {
@@ -176,4 +280,8 @@ export class LoanDocumentService {
             throw new BadRequestException(`Error al actualizar el documento: ${error.message}`);
         }
     }
-}
\ No newline at end of file
+
+    private storedPaystubs(analysis: Prisma.JsonValue | undefined): PaystubAnalysis["flyers"] {
+        return { ...((analysis as unknown as PaystubAnalysis | null)?.flyers ?? {}) };
+    }
+}
@@ -0,0 +1,179 @@
+import { BadRequestException } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { escapeRegex } from "handlers/search-text";
+
+// Campos por los que se pueden ordenar los listados; el _id desempata para que el orden sea estable
+export type LoanListingSortField = "created_at" | "cantity";
+
+export interface LoanListingSearch {
+    userIds?: string[]; // Usuarios que coinciden por nombre
+    documentNumber?: string;
+    loanId?: string;
+    phone?: string;
+}
+
+export interface LoanListingQuery {
+    match: Record<string, unknown>; // Filtro base en sintaxis de MongoDB
+    sortField: LoanListingSortField;
+    direction: "asc" | "desc";
+    page: number;
+    pageSize: number;
+    cursor?: string;
+    search?: LoanListingSearch;
+    includeDocuments?: boolean; // Adjuntar los documentos de identidad en user.Document
+    companies?: string[]; // Solo préstamos de clientes de estas empresas (alcance del rol)
+}
+
+export interface LoanListingPipelines {
+    data: Prisma.InputJsonObject[];
+    count: Prisma.InputJsonObject[];
+}
+
+interface CursorPayload {
+    f: LoanListingSortField;
+    v: string | number;
+    id: string;
+}
+
+/**
+ * Arma las dos agregaciones de un listado de préstamos: la página y el total.
+ * El usuario y sus documentos se consultan solo para la página, salvo cuando
+ * se busca por número de documento o se filtra por empresa: ahí el $lookup va antes del $match.
+ * Se pide un registro más que el tamaño de página para saber si hay siguiente.
+ */
+export function buildLoanListingPipelines(query: LoanListingQuery): LoanListingPipelines {
+    const order = query.direction === "asc" ? 1 : -1;
+    const searchByDocument = !!query.search?.documentNumber;
+    const lookupFirst = searchByDocument || !!query.companies;
+    const lookups = userLookupStages(query.includeDocuments || searchByDocument);
+
+    const filtered: Prisma.InputJsonObject[] = [
+        { $match: query.match as Prisma.InputJsonObject },
+        ...(lookupFirst ? lookups : []),
+    ];
+    if (query.companies) {
+        filtered.push({ $match: { "user.currentCompanie": { $in: query.companies } } });
+    }
+    if (query.search) {
+        filtered.push({ $match: searchCondition(query.search) });
+    }
+
+    const cursor = query.cursor ? decodeLoanCursor(query.cursor, query.sortField) : null;
+
+    const data: Prisma.InputJsonObject[] = [
+        ...filtered,
+        ...(cursor ? [{ $match: keysetCondition(cursor, order) }] : []),
+        { $sort: { [query.sortField]: order, _id: order } },
+        ...(cursor ? [] : [{ $skip: (query.page - 1) * query.pageSize }]),
+        { $limit: query.pageSize + 1 },
+        ...(lookupFirst ? [] : lookups),
+    ];
+
+    return {
+        data,
+        count: [...filtered, { $count: "total" }],
+    };
+}
+
+export function encodeLoanCursor(loan: Record<string, any>, field: LoanListingSortField): string {
+    const value = loan[field] instanceof Date ? loan[field].toISOString() : loan[field];
+    const payload: CursorPayload = { f: field, v: value, id: loan.id };
+    return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeLoanCursor(cursor: string, field: LoanListingSortField): CursorPayload {
+    try {
+        const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as CursorPayload;
+
+        if (payload.f !== field || typeof payload.id !== "string" || payload.v === undefined) {
+            throw new Error("cursor de otro listado");
+        }
+
+        return payload;
+    } catch {
+        throw new BadRequestException("Cursor de paginación inválido");
+    }
+}
+
+/**
+ * Convierte un documento de aggregateRaw (JSON extendido de MongoDB) al formato de Prisma:
+ * fechas como Date, números como number y `_id` renombrado a `id`.
+ */
+export function fromRawLoanDocument(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(fromRawLoanDocument);
+    }
+
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    if ("$date" in value) {
+        const date = value.$date;
+        return new Date(typeof date === "object" ? Number(date.$numberLong) : date);
+    }
+    if ("$numberLong" in value) return Number(value.$numberLong);
+    if ("$numberInt" in value) return Number(value.$numberInt);
+    if ("$numberDouble" in value) return Number(value.$numberDouble);
+    if ("$oid" in value) return value.$oid;
+
+    const result: Record<string, any> = {};
+    for (const [key, field] of Object.entries(value)) {
+        result[key === "_id" ? "id" : key] = fromRawLoanDocument(field);
+    }
+
+    return result;
+}
+
+// El $lookup con localField y pipeline a la vez requiere MongoDB 5.0 o superior
+function userLookupStages(includeDocuments: boolean): Prisma.InputJsonObject[] {
+    return [
+        {
+            $lookup: {
+                from: "User",
+                localField: "userId",
+                foreignField: "_id",
+                as: "user",
+                pipeline: [
+                    { $project: { password: 0 } },
+                    ...(includeDocuments
+                        ? [{ $lookup: { from: "Document", localField: "_id", foreignField: "userId", as: "Document" } }]
+                        : []),
+                ],
+            },
+        },
+        { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+    ];
+}
+
+function searchCondition(search: LoanListingSearch): Prisma.InputJsonObject {
+    const conditions: Prisma.InputJsonObject[] = [];
+
+    if (search.userIds && search.userIds.length > 0) {
+        conditions.push({ userId: { $in: search.userIds } });
+    }
+    if (search.documentNumber) {
+        conditions.push({ "user.Document.number": { $regex: escapeRegex(search.documentNumber) } });
+    }
+    if (search.loanId) {
+        conditions.push({ _id: { $regex: escapeRegex(search.loanId), $options: "i" } });
+    }
+    if (search.phone) {
+        conditions.push({ phone: { $regex: escapeRegex(search.phone), $options: "i" } });
+    }
+
+    // Sin condiciones la búsqueda no puede coincidir con nada
+    return conditions.length > 0 ? { $or: conditions } : { _id: { $exists: false } };
+}
+
+function keysetCondition(cursor: CursorPayload, order: 1 | -1): Prisma.InputJsonObject {
+    const operator = order === 1 ? "$gt" : "$lt";
+    const value = cursor.f === "created_at" ? { $date: String(cursor.v) } : cursor.v;
+
+    return {
+        $or: [
+            { [cursor.f]: { [operator]: value } },
+            { [cursor.f]: value, _id: { [operator]: cursor.id } },
+        ],
+    };
+}
@@ -1,6 +1,6 @@
 import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
-import { UpdateLoanApplicationDto } from "../dto/update-loan.dto";
-import { LoanApplication } from "@prisma/client";
+import { EDITABLE_LOAN_FIELDS, UpdateLoanApplicationDto } from "../dto/update-loan.dto";
+import { LoanApplication, Prisma } from "@prisma/client";
 import { PrismaService } from "src/prisma/prisma.service";
 
 @Injectable()
@@ -26,17 +26,41 @@ export class LoanManagementService {
                 throw new NotFoundException(`Solicitud de préstamo con ID ${id} no encontrada`);
             }
 
-            // Extraer userId para posible uso en conexiones de relación
-            const { userId, ...updateData } = data;
+            // Solo se aceptan los campos editables; el estado, el desembolso y los saldos
+            // tienen sus propios flujos (StatusService, desembolso y pagos)
+            const rejected = Object.keys(data).filter(
+                (key) => data[key] !== undefined && !EDITABLE_LOAN_FIELDS.includes(key as keyof UpdateLoanApplicationDto),
+            );
 
-            // Preparar el objeto de actualización
-            const updateObject: any = { ...updateData };
+            if (rejected.length > 0) {
+                const hint = rejected.includes("status") ? ". El estado se cambia con PATCH /loans/:id/status" : "";
+                throw new BadRequestException(`No se pueden editar los campos: ${rejected.join(", ")}${hint}`);
+            }
+
+            // Prisma ignora los campos undefined, así que solo cambian los que se enviaron
+            const updateObject: Prisma.LoanApplicationUpdateInput = {
+                cantity: data.cantity,
+                entity: data.entity,
+                bankNumberAccount: data.bankNumberAccount,
+                signature: data.signature,
+                upSignatureId: data.upSignatureId,
+                labor_card: data.labor_card,
+                upid_labor_card: data.upid_labor_card,
+                fisrt_flyer: data.fisrt_flyer,
+                upid_first_flyer: data.upid_first_flyer,
+                second_flyer: data.second_flyer,
+                upid_second_flyer: data.upid_second_flyer,
+                third_flyer: data.third_flyer,
+                upid_third_flyer: data.upid_third_flyer,
+            };
+
+            if (Object.values(updateObject).every((value) => value === undefined)) {
+                throw new BadRequestException("No hay campos para actualizar");
+            }
 
-            // Si hay un userId, actualizar la relación con el usuario
-            if (userId) {
-                updateObject.user = {
-                    connect: { id: userId }
-                };
+            // Un préstamo desembolsado ya tiene plan de pagos y saldo calculados sobre su monto
+            if (updateObject.cantity !== undefined && existingLoan.isDisbursed) {
+                throw new BadRequestException("No se puede cambiar el monto de un préstamo desembolsado");
             }
 
             // Actualizar el préstamo
@@ -50,7 +74,7 @@ export class LoanManagementService {
 
             return updatedLoan;
         } catch (error) {
-            if (error instanceof NotFoundException) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
                 throw error;
             }
             throw new BadRequestException('Error al actualizar la solicitud de préstamo');
@@ -69,6 +93,10 @@ export class LoanManagementService {
                 throw new NotFoundException(`Solicitud de préstamo con ID ${id} no encontrada`);
             }
 
+            await this.prisma.loanDocument.deleteMany({
+                where: { loanId: id }
+            });
+
             const deletedLoan = await this.prisma.loanApplication.delete({
                 where: { id }
             });
@@ -0,0 +1,172 @@
+import { LoanInstallment } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LoanPaymentService } from './payment.service';
+
+const installment = (
+  number: number,
+  dueDate: Date,
+  overrides: Partial<LoanInstallment> = {},
+): LoanInstallment => ({
+  id: `installment-${number}`,
+  loanId: 'loan-1',
+  number,
+  dueDate,
+  principal: 10_000,
+  interest: 2_000,
+  fees: 1_000,
+  total: 13_000,
+  balance: 0,
+  paidFees: 0,
+  paidInterest: 0,
+  paidPrincipal: 0,
+  paidAt: null,
+  status: 'pendiente',
+  created_at: new Date(2026, 0, 1),
+  updated_at: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+describe('LoanPaymentService', () => {
+  const service = new LoanPaymentService({} as PrismaService);
+  const plan = [
+    installment(1, new Date(2026, 0, 15)),
+    installment(2, new Date(2026, 0, 31)),
+    installment(3, new Date(2026, 1, 15)),
+  ];
+
+  describe('allocate', () => {
+    it('pays fees, then interest, then principal within an installment', () => {
+      const { allocations, unapplied } = service.allocate(5_000, plan);
+
+      expect(allocations).toEqual([
+        {
+          installmentId: 'installment-1',
+          installmentNumber: 1,
+          fees: 1_000,
+          interest: 2_000,
+          principal: 2_000,
+        },
+      ]);
+      expect(unapplied).toBe(0);
+    });
+
+    it('settles the oldest installment before moving to the next', () => {
+      const { allocations } = service.allocate(14_500, plan);
+
+      expect(allocations).toEqual([
+        {
+          installmentId: 'installment-1',
+          installmentNumber: 1,
+          fees: 1_000,
+          interest: 2_000,
+          principal: 10_000,
+        },
+        {
+          installmentId: 'installment-2',
+          installmentNumber: 2,
+          fees: 1_000,
+          interest: 500,
+          principal: 0,
+        },
+      ]);
+    });
+
+    it('continues from what was already paid and skips settled installments', () => {
+      const { allocations } = service.allocate(2_000, [
+        installment(1, new Date(2026, 0, 15), {
+          paidFees: 1_000,
+          paidInterest: 2_000,
+          paidPrincipal: 10_000,
+        }),
+        installment(2, new Date(2026, 0, 31), {
+          paidFees: 1_000,
+          paidInterest: 500,
+        }),
+      ]);
+
+      expect(allocations).toEqual([
+        {
+          installmentId: 'installment-2',
+          installmentNumber: 2,
+          fees: 0,
+          interest: 1_500,
+          principal: 500,
+        },
+      ]);
+    });
+
+    it('leaves the excess over the outstanding total unapplied', () => {
+      const { allocations, unapplied } = service.allocate(40_000, plan);
+
+      expect(allocations).toHaveLength(3);
+      expect(unapplied).toBe(1_000);
+    });
+  });
+
+  describe('computeBalance', () => {
+    it('counts arrears from the oldest overdue installment', () => {
+      const balance = service.computeBalance(plan, new Date(2026, 1, 10, 9));
+
+      expect(balance).toMatchObject({
+        outstandingPrincipal: 30_000,
+        outstandingInterest: 6_000,
+        outstandingFees: 3_000,
+        outstandingTotal: 39_000,
+        overdueAmount: 26_000,
+        overdueInstallments: 2,
+        arrearsDays: 26,
+        nextDueDate: new Date(2026, 1, 15),
+        nextDueAmount: 13_000,
+        standing: 'en_mora',
+      });
+    });
+
+    it('does not treat an installment as overdue on its due date', () => {
+      const balance = service.computeBalance(plan, new Date(2026, 0, 15, 18));
+
+      expect(balance).toMatchObject({
+        overdueInstallments: 0,
+        arrearsDays: 0,
+        nextDueDate: new Date(2026, 0, 15),
+        standing: 'al_dia',
+      });
+    });
+
+    it('subtracts partial payments from the overdue amount', () => {
+      const balance = service.computeBalance(
+        [
+          installment(1, new Date(2026, 0, 15), {
+            paidFees: 1_000,
+            paidInterest: 2_000,
+          }),
+        ],
+        new Date(2026, 0, 20),
+      );
+
+      expect(balance).toMatchObject({
+        overdueAmount: 10_000,
+        outstandingPrincipal: 10_000,
+        arrearsDays: 5,
+        nextDueDate: null,
+        standing: 'en_mora',
+      });
+    });
+
+    it('reports a paid loan and a loan without a plan', () => {
+      const paid = plan.map((i) =>
+        installment(i.number, i.dueDate, {
+          paidFees: i.fees,
+          paidInterest: i.interest,
+          paidPrincipal: i.principal,
+        }),
+      );
+
+      expect(service.computeBalance(paid, new Date(2026, 2, 1)).standing).toBe(
+        'pagado',
+      );
+      expect(service.computeBalance([], new Date(2026, 2, 1)).standing).toBe(
+        'sin_plan',
+      );
+    });
+  });
+});
@@ -0,0 +1,553 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { companiesUser, InstallmentStatus, LoanInstallment, PaymentMethod, PaymentSource, Prisma } from "@prisma/client";
+import { read } from "xlsx";
+import { cellToAmount, normalizeHeaders, xlsxTojson } from "handlers/ExcelToJson";
+import { PrismaService } from "src/prisma/prisma.service";
+import { CreatePaymentDto, LoanBalance, LoanStanding, PaymentImportRow } from "../dto/payment.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_IMPORT_ROWS = 2000;
+
+interface InstallmentAllocation {
+    installmentId: string;
+    installmentNumber: number;
+    fees: number;
+    interest: number;
+    principal: number;
+}
+
+@Injectable()
+export class LoanPaymentService {
+    private logger = new Logger(LoanPaymentService.name);
+    constructor(
+        private readonly prisma: PrismaService,
+    ) { }
+
+    /**
+     * Registra un abono y lo imputa a las cuotas pendientes, de la más antigua a la más reciente.
+     * Dentro de cada cuota se aplica primero a cargos, luego a intereses y por último a capital,
+     * según lo pactado en el pagaré.
+     */
+    async registerPayment(
+        loanId: string,
+        data: CreatePaymentDto,
+        recordedBy?: string,
+        source: PaymentSource = 'manual',
+    ) {
+        const amount = Number(data.amount);
+        if (!Number.isInteger(amount) || amount <= 0) {
+            throw new BadRequestException('El monto del pago debe ser un entero mayor a cero');
+        }
+
+        const paidAt = data.paidAt ? new Date(data.paidAt) : new Date();
+        if (Number.isNaN(paidAt.getTime())) {
+            throw new BadRequestException('La fecha del pago no es válida');
+        }
+        if (paidAt.getTime() > Date.now()) {
+            throw new BadRequestException('La fecha del pago no puede ser futura');
+        }
+
+        try {
+            const payment = await this.prisma.$transaction(async (tx) => {
+                const loan = await tx.loanApplication.findUnique({
+                    where: { id: loanId },
+                    include: { LoanInstallment: { orderBy: { number: 'asc' } } },
+                });
+
+                if (!loan) {
+                    throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+                }
+
+                if (!loan.isDisbursed || loan.LoanInstallment.length === 0) {
+                    throw new BadRequestException('Solo se pueden registrar pagos a préstamos desembolsados con plan de pagos');
+                }
+
+                const reference = data.reference?.trim() || null;
+                if (reference) {
+                    const duplicated = await tx.payment.findFirst({ where: { loanId, reference } });
+                    if (duplicated) {
+                        throw new BadRequestException(`Ya existe un pago con la referencia ${reference} para este préstamo`);
+                    }
+                }
+
+                const { allocations, unapplied } = this.allocate(amount, loan.LoanInstallment);
+
+                for (const allocation of allocations) {
+                    const installment = loan.LoanInstallment.find(i => i.id === allocation.installmentId)!;
+                    const paidFees = installment.paidFees + allocation.fees;
+                    const paidInterest = installment.paidInterest + allocation.interest;
+                    const paidPrincipal = installment.paidPrincipal + allocation.principal;
+                    const settled = paidFees + paidInterest + paidPrincipal >= installment.total;
+
+                    await tx.loanInstallment.update({
+                        where: { id: installment.id },
+                        data: {
+                            paidFees,
+                            paidInterest,
+                            paidPrincipal,
+                            paidAt: settled ? paidAt : installment.paidAt,
+                        },
+                    });
+                }
+
+                const created = await tx.payment.create({
+                    data: {
+                        loanId,
+                        amount,
+                        paidAt,
+                        method: data.method ?? 'transferencia',
+                        source,
+                        reference,
+                        notes: data.notes?.trim() || null,
+                        recordedBy: recordedBy ?? null,
+                        allocatedFees: allocations.reduce((acc, a) => acc + a.fees, 0),
+                        allocatedInterest: allocations.reduce((acc, a) => acc + a.interest, 0),
+                        allocatedPrincipal: allocations.reduce((acc, a) => acc + a.principal, 0),
+                        unapplied,
+                        allocations,
+                    },
+                });
+
+                await this.refreshLoanStanding(loanId, tx, paidAt);
+
+                return created;
+            });
+
+            this.logger.debug('Pago registrado', {
+                event: 'loan_payment_registered',
+                loanId,
+                paymentId: payment.id,
+                amount,
+                unapplied: payment.unapplied,
+                source,
+            });
+
+            return payment;
+        } catch (error) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+            this.logger.error(`Error al registrar el pago del préstamo ${loanId}`, error);
+            throw new BadRequestException('Error al registrar el pago');
+        }
+    }
+
+    /**
+     * Importa pagos desde un archivo XLSX o CSV. La primera fila debe contener los encabezados:
+     * loanId (o cycode), monto, fecha, referencia y opcionalmente metodo.
+     * Cada fila se registra por separado para que un error no bloquee el resto del archivo.
+     */
+    async importPayments(file: Express.Multer.File, recordedBy?: string, companies?: companiesUser[] | null) {
+        if (!file?.buffer) {
+            throw new BadRequestException('No se proporcionó ningún archivo');
+        }
+
+        let rows: Record<string, any>[];
+        try {
+            // raw: en CSV los montos con separador de miles ("$ 20.000") no deben leerse como decimales
+            const workbook = read(file.buffer, { type: 'buffer', cellDates: true, raw: true });
+            rows = xlsxTojson(workbook)
+                .map(row => normalizeHeaders(row))
+                .filter(row => Object.keys(row).length > 0);
+        } catch (error) {
+            this.logger.error('Error al leer el archivo de pagos', error);
+            throw new BadRequestException('El archivo no es un XLSX o CSV válido');
+        }
+
+        if (rows.length === 0) {
+            throw new BadRequestException('El archivo no contiene pagos');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`El archivo supera el máximo de ${MAX_IMPORT_ROWS} pagos`);
+        }
+
+        const results: PaymentImportRow[] = [];
+
+        for (const [index, row] of rows.entries()) {
+            // +2: la fila 1 es el encabezado y las filas de la hoja empiezan en 1
+            const result: PaymentImportRow = { row: index + 2, status: 'error' };
+            results.push(result);
+
+            try {
+                const loanId = await this.resolveLoanId(row.loanid, row.cycode);
+                await this.assertInScope(loanId, companies);
+                const amount = this.parseAmount(row.monto ?? row.amount);
+                const reference = row.referencia ?? row.reference;
+
+                result.loanId = loanId;
+                result.amount = amount;
+                result.reference = reference ? String(reference).trim() : undefined;
+
+                if (result.reference) {
+                    const duplicated = await this.prisma.payment.findFirst({
+                        where: { loanId, reference: result.reference },
+                        select: { id: true },
+                    });
+                    if (duplicated) {
+                        result.status = 'duplicado';
+                        result.paymentId = duplicated.id;
+                        continue;
+                    }
+                }
+
+                const payment = await this.registerPayment(loanId, {
+                    amount,
+                    paidAt: this.parseDate(row.fecha ?? row.paidat),
+                    method: this.parseMethod(row.metodo ?? row.method),
+                    reference: result.reference,
+                }, recordedBy, 'importacion');
+
+                result.status = 'registrado';
+                result.paymentId = payment.id;
+            } catch (error) {
+                result.error = error.message;
+            }
+        }
+
+        const summary = {
+            total: results.length,
+            registered: results.filter(r => r.status === 'registrado').length,
+            duplicated: results.filter(r => r.status === 'duplicado').length,
+            failed: results.filter(r => r.status === 'error').length,
+        };
+
+        this.logger.log(`Importación de pagos finalizada`, { event: 'loan_payments_imported', ...summary });
+
+        return { summary, results };
+    }
+
+    /**
+     * Estado de cuenta del préstamo: saldo, mora, cuotas con lo abonado y pagos registrados
+     */
+    async getLedger(loanId: string) {
+        const loan = await this.prisma.loanApplication.findUnique({
+            where: { id: loanId },
+            include: {
+                LoanInstallment: { orderBy: { number: 'asc' } },
+                Payment: { orderBy: { paidAt: 'desc' } },
+            },
+        });
+
+        if (!loan) {
+            throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+        }
+
+        const asOf = new Date();
+
+        return {
+            loanId: loan.id,
+            userId: loan.userId,
+            dateDisbursed: loan.dateDisbursed,
+            lastPaymentAt: loan.lastPaymentAt,
+            balance: this.computeBalance(loan.LoanInstallment, asOf),
+            installments: loan.LoanInstallment.map(installment => ({
+                ...installment,
+                status: this.statusOf(installment, asOf),
+                paid: this.paidOf(installment),
+                remaining: installment.total - this.paidOf(installment),
+            })),
+            payments: loan.Payment,
+        };
+    }
+
+    /**
+     * Cartera desembolsada con su saldo y días de mora, para identificar quién está al día
+     */
+    async getPortfolio(
+        page: number = 1,
+        pageSize: number = 10,
+        standing?: Exclude<LoanStanding, 'sin_plan'>,
+        companies?: companiesUser[] | null,
+    ) {
+        // Sin alcance (null) el rol atiende a todas las empresas
+        const where: Prisma.LoanApplicationWhereInput = {
+            isDisbursed: true,
+            ...(companies && { user: { currentCompanie: { in: companies } } }),
+        };
+
+        if (standing === 'en_mora') {
+            where.arrearsDays = { gt: 0 };
+        } else if (standing === 'al_dia') {
+            where.arrearsDays = 0;
+            where.outstandingBalance = { gt: 0 };
+        } else if (standing === 'pagado') {
+            where.outstandingBalance = 0;
+        }
+
+        try {
+            const [total, loans] = await Promise.all([
+                this.prisma.loanApplication.count({ where }),
+                this.prisma.loanApplication.findMany({
+                    where,
+                    skip: (page - 1) * pageSize,
+                    take: pageSize,
+                    orderBy: [{ arrearsDays: 'desc' }, { dateDisbursed: 'asc' }],
+                    select: {
+                        id: true,
+                        userId: true,
+                        cantity: true,
+                        newCantity: true,
+                        newCantityOpt: true,
+                        dateDisbursed: true,
+                        outstandingBalance: true,
+                        arrearsDays: true,
+                        lastPaymentAt: true,
+                        user: {
+                            select: {
+                                names: true,
+                                firstLastName: true,
+                                secondLastName: true,
+                                email: true,
+                                phone: true,
+                                currentCompanie: true,
+                            },
+                        },
+                    },
+                }),
+            ]);
+
+            return {
+                data: loans.map(loan => ({
+                    ...loan,
+                    standing: this.standingOf(loan.outstandingBalance, loan.arrearsDays),
+                })),
+                total,
+                page,
+                pageSize,
+            };
+        } catch (error) {
+            this.logger.error('Error al obtener la cartera', error);
+            throw new BadRequestException('Error al obtener la cartera');
+        }
+    }
+
+    /**
+     * Recalcula el estado de las cuotas y el saldo y la mora guardados en el préstamo
+     */
+    async refreshLoanStanding(
+        loanId: string,
+        tx?: Prisma.TransactionClient,
+        lastPaymentAt?: Date,
+    ): Promise<LoanBalance> {
+        const client = tx ?? this.prisma;
+        const asOf = new Date();
+
+        const installments = await client.loanInstallment.findMany({
+            where: { loanId },
+            orderBy: { number: 'asc' },
+        });
+
+        for (const installment of installments) {
+            const status = this.statusOf(installment, asOf);
+            if (status !== installment.status) {
+                await client.loanInstallment.update({
+                    where: { id: installment.id },
+                    data: { status },
+                });
+            }
+        }
+
+        const balance = this.computeBalance(installments, asOf);
+
+        await client.loanApplication.update({
+            where: { id: loanId },
+            data: {
+                outstandingBalance: balance.outstandingTotal,
+                arrearsDays: balance.arrearsDays,
+                ...(lastPaymentAt && { lastPaymentAt }),
+            },
+        });
+
+        return balance;
+    }
+
+    /**
+     * Actualiza a diario la mora de los préstamos con cuotas vencidas sin pagar
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_1AM)
+    async refreshOverdueLoans() {
+        try {
+            const overdue = await this.prisma.loanInstallment.findMany({
+                where: {
+                    status: { in: ['pendiente', 'parcial', 'vencida'] },
+                    dueDate: { lt: new Date() },
+                },
+                select: { loanId: true },
+            });
+
+            const loanIds = [...new Set(overdue.map(i => i.loanId))];
+
+            for (const loanId of loanIds) {
+                await this.refreshLoanStanding(loanId);
+            }
+
+            this.logger.log(`Mora actualizada para ${loanIds.length} préstamos`, {
+                event: 'loan_arrears_refreshed',
+                loans: loanIds.length,
+            });
+        } catch (error) {
+            this.logger.error('Error al actualizar la mora de los préstamos', error);
+        }
+    }
+
+    /**
+     * Distribuye un monto entre las cuotas con saldo pendiente.
+     * Lo que exceda el total adeudado queda como saldo sin imputar en el pago.
+     */
+    allocate(amount: number, installments: LoanInstallment[]) {
+        const allocations: InstallmentAllocation[] = [];
+        let remaining = amount;
+
+        for (const installment of installments) {
+            if (remaining <= 0) break;
+
+            const fees = Math.min(remaining, installment.fees - installment.paidFees);
+            remaining -= fees;
+            const interest = Math.min(remaining, installment.interest - installment.paidInterest);
+            remaining -= interest;
+            const principal = Math.min(remaining, installment.principal - installment.paidPrincipal);
+            remaining -= principal;
+
+            if (fees + interest + principal > 0) {
+                allocations.push({
+                    installmentId: installment.id,
+                    installmentNumber: installment.number,
+                    fees,
+                    interest,
+                    principal,
+                });
+            }
+        }
+
+        return { allocations, unapplied: remaining };
+    }
+
+    computeBalance(installments: LoanInstallment[], asOf: Date): LoanBalance {
+        let outstandingPrincipal = 0;
+        let outstandingInterest = 0;
+        let outstandingFees = 0;
+        let overdueAmount = 0;
+        let overdueInstallments = 0;
+        let oldestOverdue: Date | null = null;
+        let next: LoanInstallment | null = null;
+
+        for (const installment of installments) {
+            const remaining = installment.total - this.paidOf(installment);
+            if (remaining <= 0) continue;
+
+            outstandingPrincipal += installment.principal - installment.paidPrincipal;
+            outstandingInterest += installment.interest - installment.paidInterest;
+            outstandingFees += installment.fees - installment.paidFees;
+
+            if (this.statusOf(installment, asOf) === 'vencida') {
+                overdueAmount += remaining;
+                overdueInstallments++;
+                if (!oldestOverdue || installment.dueDate < oldestOverdue) {
+                    oldestOverdue = installment.dueDate;
+                }
+            } else if (!next) {
+                next = installment;
+            }
+        }
+
+        const outstandingTotal = outstandingPrincipal + outstandingInterest + outstandingFees;
+        const arrearsDays = oldestOverdue
+            ? Math.floor((this.startOfDay(asOf).getTime() - this.startOfDay(oldestOverdue).getTime()) / DAY_MS)
+            : 0;
+
+        return {
+            outstandingPrincipal,
+            outstandingInterest,
+            outstandingFees,
+            outstandingTotal,
+            overdueAmount,
+            overdueInstallments,
+            arrearsDays,
+            nextDueDate: next?.dueDate ?? null,
+            nextDueAmount: next ? next.total - this.paidOf(next) : 0,
+            standing: installments.length === 0 ? 'sin_plan' : this.standingOf(outstandingTotal, arrearsDays),
+        };
+    }
+
+    // Una cuota vence al terminar el día de su fecha de vencimiento
+    private statusOf(installment: LoanInstallment, asOf: Date): InstallmentStatus {
+        const paid = this.paidOf(installment);
+        if (paid >= installment.total) return 'pagada';
+        if (this.startOfDay(installment.dueDate) < this.startOfDay(asOf)) return 'vencida';
+        return paid > 0 ? 'parcial' : 'pendiente';
+    }
+
+    private paidOf(installment: LoanInstallment): number {
+        return installment.paidFees + installment.paidInterest + installment.paidPrincipal;
+    }
+
+    private standingOf(outstandingBalance: number | null, arrearsDays: number | null): LoanStanding {
+        if (outstandingBalance === null) return 'sin_plan';
+        if (outstandingBalance <= 0) return 'pagado';
+        return arrearsDays && arrearsDays > 0 ? 'en_mora' : 'al_dia';
+    }
+
+    private startOfDay(date: Date): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    // En la importación cada fila se valida contra las empresas del rol de quien importa
+    private async assertInScope(loanId: string, companies?: companiesUser[] | null): Promise<void> {
+        if (!companies) return;
+
+        const inScope = await this.prisma.loanApplication.count({
+            where: { id: loanId, user: { currentCompanie: { in: companies } } },
+        });
+
+        if (inScope === 0) {
+            throw new ForbiddenException("El préstamo pertenece a una empresa que su rol no atiende");
+        }
+    }
+
+    private async resolveLoanId(loanId?: string, cycode?: string): Promise<string> {
+        if (loanId) return String(loanId).trim();
+
+        if (cycode) {
+            const loan = await this.prisma.loanApplication.findFirst({
+                where: { cycode: String(cycode).trim() },
+                select: { id: true },
+            });
+            if (!loan) {
+                throw new NotFoundException(`No existe un préstamo con cycode ${cycode}`);
+            }
+            return loan.id;
+        }
+
+        throw new BadRequestException('La fila no tiene loanId ni cycode');
+    }
+
+    private parseAmount(value: unknown): number {
+        const amount = cellToAmount(value);
+
+        if (amount === null || amount <= 0) {
+            throw new BadRequestException('Monto inválido');
+        }
+        return amount;
+    }
+
+    private parseDate(value: unknown): string | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+
+        const date = value instanceof Date ? value : new Date(String(value));
+        if (Number.isNaN(date.getTime())) {
+            throw new BadRequestException(`Fecha inválida: ${value}`);
+        }
+        return date.toISOString();
+    }
+
+    private parseMethod(value: unknown): PaymentMethod | undefined {
+        if (!value) return undefined;
+
+        const method = String(value).trim().toLowerCase().replace(/\s+/g, '_');
+        if (!Object.values(PaymentMethod).includes(method as PaymentMethod)) {
+            throw new BadRequestException(`Método de pago inválido: ${value}`);
+        }
+        return method as PaymentMethod;
+    }
+}
@@ -0,0 +1,306 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { companiesUser, PayrollBatchStatus, PayrollDeductionItem, Prisma } from "@prisma/client";
+import { read, utils, write } from "xlsx";
+import { cellToAmount, normalizeHeaders, xlsxTojson } from "handlers/ExcelToJson";
+import { PrismaService } from "src/prisma/prisma.service";
+import { LoanPaymentService } from "./payment.service";
+import { CreatePayrollBatchDto, PayrollFileFormat, PayrollReconcileRow } from "../dto/payroll.dto";
+
+// Encabezados del archivo enviado a la empresa; la empresa devuelve el mismo archivo con "Valor descontado"
+const EXPORT_HEADERS = ['Lote', 'Préstamo', 'Documento', 'Nombre', 'Cuotas', 'Valor a descontar', 'Valor descontado', 'Observación'];
+
+@Injectable()
+export class PayrollDeductionService {
+    private logger = new Logger(PayrollDeductionService.name);
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly payments: LoanPaymentService,
+    ) { }
+
+    /**
+     * Genera el lote de descuentos de una empresa para un periodo. Incluye cada préstamo activo
+     * con lo pendiente de las cuotas que vencen hasta el fin del periodo, incluidas las atrasadas.
+     * Un lote sin conciliar se puede regenerar; uno con descuentos aplicados no.
+     */
+    async generateBatch(data: CreatePayrollBatchDto, generatedBy?: string) {
+        if (!Object.values(companiesUser).includes(data.company) || data.company === 'no') {
+            throw new BadRequestException('Empresa inválida');
+        }
+
+        const periodStart = new Date(data.periodStart);
+        const periodEnd = new Date(data.periodEnd);
+        if (Number.isNaN(periodStart.getTime()) || Number.isNaN(periodEnd.getTime()) || periodStart > periodEnd) {
+            throw new BadRequestException('El periodo de nómina no es válido');
+        }
+
+        try {
+            const existing = await this.prisma.payrollDeductionBatch.findUnique({
+                where: { company_periodStart_periodEnd: { company: data.company, periodStart, periodEnd } },
+            });
+
+            if (existing && (existing.status !== 'generado' || existing.items.some(i => i.paymentId))) {
+                throw new ConflictException('El lote de este periodo ya fue conciliado y no se puede regenerar');
+            }
+
+            const items = await this.buildItems(data.company, periodEnd);
+            const totalExpected = items.reduce((acc, i) => acc + i.expected, 0);
+
+            const batch = existing
+                ? await this.prisma.payrollDeductionBatch.update({
+                    where: { id: existing.id },
+                    data: { items, totalExpected, generatedBy: generatedBy ?? null },
+                })
+                : await this.prisma.payrollDeductionBatch.create({
+                    data: {
+                        company: data.company,
+                        periodStart,
+                        periodEnd,
+                        items,
+                        totalExpected,
+                        generatedBy: generatedBy ?? null,
+                    },
+                });
+
+            this.logger.debug('Lote de nómina generado', {
+                event: 'payroll_batch_generated',
+                batchId: batch.id,
+                company: batch.company,
+                loans: items.length,
+                totalExpected,
+                regenerated: Boolean(existing),
+            });
+
+            return batch;
+        } catch (error) {
+            if (error instanceof ConflictException || error instanceof BadRequestException) {
+                throw error;
+            }
+            this.logger.error(`Error al generar el lote de nómina de ${data.company}`, error);
+            throw new BadRequestException('Error al generar el lote de nómina');
+        }
+    }
+
+    async findAll(page: number = 1, pageSize: number = 10, company?: companiesUser, companies?: companiesUser[] | null) {
+        // Sin empresa se listan las que atiende el rol (null = todas)
+        const where: Prisma.PayrollDeductionBatchWhereInput = company
+            ? { company }
+            : { ...(companies && { company: { in: companies } }) };
+
+        const [total, data] = await Promise.all([
+            this.prisma.payrollDeductionBatch.count({ where }),
+            this.prisma.payrollDeductionBatch.findMany({
+                where,
+                skip: (page - 1) * pageSize,
+                take: pageSize,
+                orderBy: { periodEnd: 'desc' },
+            }),
+        ]);
+
+        return { data, total, page, pageSize };
+    }
+
+    async findOne(id: string) {
+        const batch = await this.prisma.payrollDeductionBatch.findUnique({ where: { id } });
+        if (!batch) {
+            throw new NotFoundException(`Lote de nómina con ID ${id} no encontrado`);
+        }
+        return batch;
+    }
+
+    /**
+     * Genera el archivo del lote para enviar a la empresa
+     */
+    async exportBatch(id: string, format: PayrollFileFormat = 'xlsx') {
+        const batch = await this.findOne(id);
+
+        const rows = batch.items.map(item => [
+            batch.id,
+            item.loanId,
+            item.documentNumber,
+            item.fullName,
+            item.installments.join(', '),
+            item.expected,
+            item.deducted ?? '',
+            item.note ?? '',
+        ]);
+
+        const workbook = utils.book_new();
+        utils.book_append_sheet(workbook, utils.aoa_to_sheet([EXPORT_HEADERS, ...rows]), 'Descuentos');
+
+        const buffer: Buffer = write(workbook, { type: 'buffer', bookType: format });
+        const period = `${this.formatDate(batch.periodStart)}_${this.formatDate(batch.periodEnd)}`;
+
+        return {
+            buffer,
+            fileName: `descuentos_${batch.company}_${period}.${format}`,
+            contentType: format === 'csv'
+                ? 'text/csv'
+                : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        };
+    }
+
+    /**
+     * Concilia el archivo devuelto por la empresa. Cada descuento reportado se registra como un
+     * pago por nómina con referencia al lote, de modo que reprocesar el archivo no duplica pagos.
+     */
+    async reconcileBatch(id: string, file: Express.Multer.File, reconciledBy?: string) {
+        if (!file?.buffer) {
+            throw new BadRequestException('No se proporcionó ningún archivo');
+        }
+
+        const batch = await this.findOne(id);
+
+        let rows: Record<string, any>[];
+        try {
+            // raw: en CSV los montos con separador de miles ("$ 20.000") no deben leerse como decimales
+            const workbook = read(file.buffer, { type: 'buffer', raw: true });
+            rows = xlsxTojson(workbook)
+                .map(row => normalizeHeaders(row))
+                .filter(row => Object.keys(row).length > 0);
+        } catch (error) {
+            this.logger.error('Error al leer el archivo de la empresa', error);
+            throw new BadRequestException('El archivo no es un XLSX o CSV válido');
+        }
+
+        const items: PayrollDeductionItem[] = batch.items.map(item => ({ ...item }));
+        const reference = `NOMINA-${batch.id}`;
+        // Los descuentos se fechan al cierre del periodo, salvo que aún no haya terminado
+        const paidAt = new Date(Math.min(batch.periodEnd.getTime(), Date.now())).toISOString();
+        const results: PayrollReconcileRow[] = [];
+
+        for (const [index, row] of rows.entries()) {
+            const result: PayrollReconcileRow = { row: index + 2, status: 'error' };
+            results.push(result);
+
+            const loanId = row.prestamo ?? row.loanid;
+            const document = row.documento;
+            const item = items.find(i =>
+                (loanId && i.loanId === String(loanId).trim()) ||
+                (!loanId && document && i.documentNumber === String(document).trim())
+            );
+
+            if (!item) {
+                result.error = 'El préstamo no pertenece a este lote';
+                continue;
+            }
+
+            result.loanId = item.loanId;
+            // Una celda vacía es un préstamo que la empresa no reportó; un valor ilegible o negativo es un error
+            if (row.valordescontado === undefined || row.valordescontado === null || String(row.valordescontado).trim() === '') {
+                result.status = 'omitido';
+                continue;
+            }
+
+            const deducted = cellToAmount(row.valordescontado);
+            if (deducted === null) {
+                result.error = `Valor descontado inválido: ${row.valordescontado}`;
+                continue;
+            }
+
+            result.deducted = deducted;
+
+            if (item.paymentId) {
+                result.status = 'omitido';
+                result.paymentId = item.paymentId;
+                result.error = 'El descuento ya fue conciliado';
+                continue;
+            }
+
+            item.deducted = deducted;
+            item.note = row.observacion ? String(row.observacion).trim() : item.note;
+
+            if (deducted === 0) {
+                result.status = 'sin_descuento';
+                continue;
+            }
+
+            try {
+                const payment = await this.payments.registerPayment(item.loanId, {
+                    amount: deducted,
+                    paidAt,
+                    method: 'descuento_nomina',
+                    reference,
+                    notes: `Descuento de nómina ${batch.company} ${this.formatDate(batch.periodStart)} a ${this.formatDate(batch.periodEnd)}`,
+                }, reconciledBy, 'nomina');
+
+                item.paymentId = payment.id;
+                result.status = 'conciliado';
+                result.paymentId = payment.id;
+            } catch (error) {
+                item.deducted = null;
+                result.error = error.message;
+            }
+        }
+
+        const status: PayrollBatchStatus = items.every(i => i.deducted !== null && i.deducted !== undefined)
+            ? 'conciliado'
+            : 'conciliado_parcial';
+
+        const updated = await this.prisma.payrollDeductionBatch.update({
+            where: { id },
+            data: {
+                items,
+                status,
+                totalDeducted: items.reduce((acc, i) => acc + (i.paymentId ? i.deducted ?? 0 : 0), 0),
+                reconciledBy: reconciledBy ?? null,
+                reconciledAt: new Date(),
+            },
+        });
+
+        this.logger.log(`Lote de nómina ${id} conciliado`, {
+            event: 'payroll_batch_reconciled',
+            batchId: id,
+            status,
+            totalDeducted: updated.totalDeducted,
+        });
+
+        return {
+            batch: updated,
+            results,
+            pending: items.filter(i => i.deducted === null || i.deducted === undefined).map(i => i.loanId),
+        };
+    }
+
+    private async buildItems(company: companiesUser, periodEnd: Date): Promise<PayrollDeductionItem[]> {
+        // "con_alta" es el valor anterior de "conalta" y ambos se tratan como la misma empresa
+        const companies: companiesUser[] = company === 'conalta' || company === 'con_alta'
+            ? ['conalta', 'con_alta']
+            : [company];
+
+        const loans = await this.prisma.loanApplication.findMany({
+            where: {
+                isDisbursed: true,
+                outstandingBalance: { gt: 0 },
+                user: { currentCompanie: { in: companies } },
+            },
+            include: {
+                user: { include: { Document: true } },
+                LoanInstallment: {
+                    where: { dueDate: { lte: periodEnd }, status: { not: 'pagada' } },
+                    orderBy: { number: 'asc' },
+                },
+            },
+        });
+
+        return loans
+            .map(loan => ({
+                loanId: loan.id,
+                userId: loan.userId,
+                documentNumber: loan.user.Document[0]?.number ?? 'No definido',
+                fullName: `${loan.user.names} ${loan.user.firstLastName} ${loan.user.secondLastName}`.trim(),
+                installments: loan.LoanInstallment.map(i => i.number),
+                expected: loan.LoanInstallment.reduce(
+                    (acc, i) => acc + i.total - i.paidFees - i.paidInterest - i.paidPrincipal,
+                    0,
+                ),
+                deducted: null,
+                paymentId: null,
+                note: null,
+            }))
+            .filter(item => item.expected > 0);
+    }
+
+    private formatDate(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+}
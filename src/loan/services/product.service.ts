@@ -0,0 +1,100 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { LoanProduct } from "@prisma/client";
+import { PrismaService } from "src/prisma/prisma.service";
+import { CreateLoanProductDto, UpdateLoanProductDto } from "../dto/loan-product.dto";
+
+@Injectable()
+export class LoanProductService {
+    private logger = new Logger(LoanProductService.name);
+    constructor(
+        private readonly prisma: PrismaService,
+    ) { }
+
+    async create(data: CreateLoanProductDto): Promise<LoanProduct> {
+        this.validateTerms(data);
+
+        const exists = await this.prisma.loanProduct.findUnique({ where: { name: data.name.trim() } });
+        if (exists) {
+            throw new ConflictException('Ya existe un producto con ese nombre');
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            // Solo puede existir un producto por defecto
+            if (data.isDefault) {
+                await tx.loanProduct.updateMany({
+                    where: { isDefault: true },
+                    data: { isDefault: false },
+                });
+            }
+
+            const product = await tx.loanProduct.create({
+                data: { ...data, name: data.name.trim() },
+            });
+
+            this.logger.debug('Producto de préstamo creado', {
+                event: 'loan_product_created',
+                productId: product.id,
+                name: product.name,
+            });
+
+            return product;
+        });
+    }
+
+    async findAll(onlyActive = false): Promise<LoanProduct[]> {
+        return this.prisma.loanProduct.findMany({
+            where: onlyActive ? { isActive: true } : {},
+            orderBy: { created_at: 'desc' },
+        });
+    }
+
+    async findOne(id: string): Promise<LoanProduct> {
+        const product = await this.prisma.loanProduct.findUnique({ where: { id } });
+        if (!product) {
+            throw new NotFoundException(`Producto de préstamo con ID ${id} no encontrado`);
+        }
+        return product;
+    }
+
+    async update(id: string, data: UpdateLoanProductDto): Promise<LoanProduct> {
+        await this.findOne(id);
+        this.validateTerms(data);
+
+        const name = data.name?.trim();
+        if (name !== undefined) {
+            const exists = await this.prisma.loanProduct.findFirst({ where: { name, id: { not: id } } });
+            if (exists) {
+                throw new ConflictException('Ya existe un producto con ese nombre');
+            }
+        }
+
+        return this.prisma.$transaction(async (tx) => {
+            if (data.isDefault) {
+                await tx.loanProduct.updateMany({
+                    where: { isDefault: true, id: { not: id } },
+                    data: { isDefault: false },
+                });
+            }
+
+            return tx.loanProduct.update({
+                where: { id },
+                data: { ...data, ...(name !== undefined && { name }) },
+            });
+        });
+    }
+
+    private validateTerms(data: UpdateLoanProductDto) {
+        if (data.interestRate !== undefined && (data.interestRate < 0 || data.interestRate > 1)) {
+            throw new BadRequestException('La tasa de interés debe estar entre 0 y 1');
+        }
+        if (data.termPeriods !== undefined && (!Number.isInteger(data.termPeriods) || data.termPeriods < 1)) {
+            throw new BadRequestException('El plazo debe ser un número entero de periodos mayor a cero');
+        }
+        if (data.originationFeeRate !== undefined && (data.originationFeeRate < 0 || data.originationFeeRate > 1)) {
+            throw new BadRequestException('La comisión de estudio debe estar entre 0 y 1');
+        }
+        if (data.periodicFee !== undefined && (!Number.isInteger(data.periodicFee) || data.periodicFee < 0)) {
+            throw new BadRequestException('El cargo por cuota debe ser un entero positivo');
+        }
+    }
+}
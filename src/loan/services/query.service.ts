@@ -1,7 +1,29 @@
 import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
-import { LoanApplication, Prisma, StatusLoan } from "@prisma/client";
+import { companiesUser, LoanApplication, Prisma, StatusLoan } from "@prisma/client";
 import { PrismaService } from "src/prisma/prisma.service";
 import { UtilityService } from "./utility.service";
+import {
+    buildLoanListingPipelines,
+    encodeLoanCursor,
+    fromRawLoanDocument,
+    LoanListingQuery,
+    LoanListingSearch,
+} from "./loan-listing";
+
+// Opciones comunes de los listados: rango de montos en pesos, cursor de la página siguiente
+// y empresas que atiende el rol del usuario (null o ausente = todas)
+export interface LoanListingOptions {
+    minAmount?: number;
+    maxAmount?: number;
+    cursor?: string;
+    companies?: companiesUser[] | null;
+}
+
+export interface LoanListingResult<T = LoanApplication> {
+    data: T[];
+    total: number;
+    nextCursor: string | null; // null cuando no hay más resultados
+}
 
 @Injectable()
 export class QueryService {
@@ -18,99 +40,30 @@ export class QueryService {
         pageSize: number = 5,
         searchTerm: string = '',
         orderBy: 'asc' | 'desc' = 'asc',
-        filterByAmount: boolean = false
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        const skip = (page - 1) * pageSize;
-
-        // Build the where clause
-        const where: any = {};
-
-        // Apply search term if provided
-        if (searchTerm && searchTerm.trim() !== '') {
-            // For MongoDB, we need to handle relations differently
-            // We'll query loan applications whose users match the search term
-            const usersMatchingSearch = await this.prisma.user.findMany({
-                where: {
-                    OR: [
-                        { names: { contains: searchTerm, mode: 'insensitive' } },
-                        { firstLastName: { contains: searchTerm, mode: 'insensitive' } },
-                        { secondLastName: { contains: searchTerm, mode: 'insensitive' } },
-                    ],
-                },
-                select: { id: true },
-            });
-
-            // Find documents matching the search term
-            const documentsMatchingSearch = await this.prisma.document.findMany({
-                where: {
-                    number: { contains: searchTerm }
-                },
-                select: { userId: true }
-            });
-
-            // Combine all matching user IDs
-            const matchingUserIds = [
-                ...usersMatchingSearch.map(u => u.id),
-                ...documentsMatchingSearch.map(d => d.userId)
-            ];
-
-            // If we found any matches, add them to the where clause
-            if (matchingUserIds.length > 0) {
-                where.userId = { in: matchingUserIds };
-            } else if (searchTerm.trim() !== '') {
-                // If search term provided but no matches found, return empty result
-                // to avoid fetching all records when no match exists
-                return { data: [], total: 0 };
-            }
-        }
-
-        // Build the orderBy clause
-        const orderByClause = filterByAmount
-            ? { cantity: orderBy }
-            : { created_at: orderBy };
-
+        filterByAmount: boolean = false,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
         try {
-            // First get the count without including relations to avoid errors
-            const total = await this.prisma.loanApplication.count({ where });
-
-            // Get all existing user IDs to ensure we only include valid relations
-            const existingUserIds = await this.prisma.user.findMany({
-                select: { id: true }
-            });
-            const validUserIds = existingUserIds.map(u => u.id);
-
-            // Get loan applications without including user relation first
-            const loansData = await this.prisma.loanApplication.findMany({
-                where,
-                orderBy: orderByClause,
-                skip,
-                take: pageSize,
+            const amount = this.amountRange(options);
+
+            const result = await this.runListing({
+                match: amount ? { cantity: amount } : {},
+                sortField: filterByAmount ? 'cantity' : 'created_at',
+                direction: orderBy,
+                page,
+                pageSize,
+                cursor: options.cursor,
+                companies: options.companies ?? undefined,
+                search: await this.listingSearch(searchTerm, { names: true, document: true }),
             });
 
-            // Manually fetch user data for loans with valid user IDs
-            const loansWithUserData = await Promise.all(
-                loansData.map(async (loan) => {
-                    if (validUserIds.includes(loan.userId)) {
-                        // User exists, fetch user data
-                        const userData = await this.prisma.user.findUnique({
-                            where: { id: loan.userId }
-                        });
-                        return { ...loan, user: userData };
-                    } else {
-                        // User doesn't exist, return loan without user data
-                        return { ...loan, user: null };
-                    }
-                })
-            );
-
-            console.log(`Found ${total} loan applications matching criteria`);
-
-            return {
-                data: loansWithUserData,
-                total
-            };
+            this.logger.log(`Found ${result.total} loan applications matching criteria`);
+            return result;
         } catch (error) {
-            console.error('Error fetching loan applications:', error);
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
+            this.logger.error('Error fetching loan applications:', error);
             throw new BadRequestException('Error al obtener las solicitudes de préstamo');
         }
     }
@@ -118,133 +71,35 @@ export class QueryService {
     async getLoansWithDefinedNewCantity(
         page: number = 1,
         pageSize: number = 10,
-        searchQuery?: string
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        const skip = (page - 1) * pageSize;
-
+        searchQuery?: string,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
         try {
-            // Base where filter para préstamos con newCantity no nulo y reasonChangeCantity definido
-            const where: Prisma.LoanApplicationWhereInput = {
-                newCantity: {
-                    not: null,
+            // Préstamos con newCantity y reasonChangeCantity definidos; el rango de montos aplica sobre la nueva cantidad
+            const result = await this.runListing({
+                match: {
+                    newCantity: { $ne: null, ...this.amountRange(options) },
+                    reasonChangeCantity: { $ne: null },
                 },
-                reasonChangeCantity: {
-                    not: null,
-                }
-            };
-
-            // ---- BÚSQUEDA MEJORADA ----
-            if (searchQuery && searchQuery.trim() !== '') {
-                const cleanSearchQuery = searchQuery.trim();
-
-                // Evaluar si la búsqueda es un número de documento
-                const isDocNumberSearch = /^\d+$/.test(cleanSearchQuery);
-
-                let userIdsToInclude: string[] = [];
-
-                // Si parece un número de documento, buscar primero por documento
-                if (isDocNumberSearch) {
-                    const usersWithMatchingDocument = await this.prisma.user.findMany({
-                        where: {
-                            Document: {
-                                some: {
-                                    number: { contains: cleanSearchQuery }
-                                }
-                            }
-                        },
-                        select: { id: true }
-                    });
-
-                    userIdsToInclude = usersWithMatchingDocument.map(u => u.id);
-                }
-
-                // Si no encontramos usuarios por número de documento o no es un número,
-                // realizamos búsqueda por nombre
-                if (userIdsToInclude.length === 0 && cleanSearchQuery.length >= 2) {
-                    // Usar nuestra nueva función especializada de búsqueda por nombre
-                    userIdsToInclude = await this.utility.searchLoansByUserName(cleanSearchQuery, null);
-                }
-
-                // Preparar las condiciones de búsqueda
-                const searchConditions: Prisma.LoanApplicationWhereInput[] = [];
-
-                // Incluir búsqueda por ID de préstamo
-                const isPossibleId = cleanSearchQuery.includes('-') || /^[a-f0-9-]+$/i.test(cleanSearchQuery);
-
-                if (isPossibleId) {
-                    searchConditions.push({
-                        id: { contains: cleanSearchQuery, mode: 'insensitive' as Prisma.QueryMode }
-                    });
-                }
-
-                // Incluir búsqueda por IDs de usuario si encontramos alguna coincidencia
-                if (userIdsToInclude.length > 0) {
-                    searchConditions.push({
-                        userId: { in: userIdsToInclude }
-                    });
-                }
-
-                // Si no tenemos condiciones de búsqueda, devolver un resultado vacío
-                if (searchConditions.length === 0) {
-                    this.logger.log(`No se encontraron coincidencias para la búsqueda: ${cleanSearchQuery}`);
-                    return { data: [], total: 0 };
-                }
-
-                // Combinar todas las condiciones de búsqueda con OR, manteniendo el filtro principal de newCantity
-                where.AND = [
-                    { newCantity: { not: null } },
-                    { reasonChangeCantity: { not: null } },
-                    { OR: searchConditions }
-                ];
-            }
-            // ---- FIN DE BÚSQUEDA MEJORADA ----
-
-            // Count total loans matching criteria for pagination
-            const totalLoans = await this.prisma.loanApplication.count({
-                where
-            });
-
-            // Get loan applications with pagination applied
-            const loans = await this.prisma.loanApplication.findMany({
-                where,
-                include: {
-                    user: true
-                },
-                orderBy: {
-                    created_at: 'desc',
-                },
-                skip,
-                take: pageSize
+                sortField: 'created_at',
+                direction: 'desc',
+                page,
+                pageSize,
+                cursor: options.cursor,
+                companies: options.companies ?? undefined,
+                search: await this.listingSearch(searchQuery, { names: true, document: true, loanId: true }),
+                includeDocuments: true,
             });
 
             // Filter out loans with null users
-            const loansWithValidUsers = loans.filter(loan => loan.user !== null);
-
-            // Get document information for each user
-            if (loansWithValidUsers.length > 0) {
-                const userIds = loansWithValidUsers.map(loan => loan.userId);
-
-                const usersWithDocuments = await this.prisma.user.findMany({
-                    where: {
-                        id: { in: userIds }
-                    },
-                    include: {
-                        Document: true
-                    }
-                });
-
-                // Map users with their documents back to the loan data
-                for (const loan of loansWithValidUsers) {
-                    const userWithDocs = usersWithDocuments.find(u => u.id === loan.userId);
-                    if (userWithDocs && userWithDocs.Document) {
-                        (loan.user as any).Document = userWithDocs.Document;
-                    }
-                }
-            }
+            result.data = result.data.filter(loan => loan.user !== null);
 
-            this.logger.log(`Se encontraron ${totalLoans} préstamos con nueva cantidad definida`);
-            return { data: loansWithValidUsers, total: totalLoans };
+            this.logger.log(`Se encontraron ${result.total} préstamos con nueva cantidad definida`);
+            return result;
         } catch (error) {
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
             this.logger.error('Error al obtener préstamos con nueva cantidad:', error);
             throw new BadRequestException(`Error al obtener las solicitudes de préstamo con nueva cantidad: ${error.message}`);
         }
@@ -362,261 +217,155 @@ export class QueryService {
     async getPendingLoans(
         page: number = 1,
         pageSize: number = 5,
-        documentNumber?: string
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        const skip = (page - 1) * pageSize;
-
+        documentNumber?: string,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
         try {
-            // Construir un filtro where exacto para status=Pendiente
-            const where: Prisma.LoanApplicationWhereInput = {
-                status: StatusLoan.Pendiente // Esto fuerza una coincidencia exacta
-            };
+            const amount = this.amountRange(options);
 
-            // Aplicar búsqueda por número de documento si se proporciona
-            if (documentNumber && documentNumber.trim() !== '') {
-                const cleanDocNumber = documentNumber.trim();
-
-                // Buscar usuarios con ese número de documento
-                const usersWithDocument = await this.prisma.user.findMany({
-                    where: {
-                        Document: {
-                            some: {
-                                number: { contains: cleanDocNumber }
-                            }
-                        }
-                    },
-                    select: { id: true }
-                });
-
-                const userIds = usersWithDocument.map(u => u.id);
-
-                // Si encontramos coincidencias, filtrar por esos usuarios
-                if (userIds.length > 0) {
-                    where.userId = { in: userIds };
-                } else {
-                    // Si no hay coincidencias con el número de documento, devolver resultado vacío
-                    return { data: [], total: 0 };
-                }
-            }
-
-            // Contar el total de préstamos pendientes que coinciden con los criterios
-            const totalLoans = await this.prisma.loanApplication.count({
-                where
-            });
-
-            // Obtener los préstamos pendientes con paginación
-            const loans = await this.prisma.loanApplication.findMany({
-                where,
-                include: {
-                    user: true
-                },
-                orderBy: {
-                    created_at: 'asc', // Del más viejo al más reciente
+            const result = await this.runListing({
+                match: {
+                    status: StatusLoan.Pendiente,
+                    ...(amount && { cantity: amount }),
                 },
-                skip,
-                take: pageSize
+                sortField: 'created_at',
+                direction: 'asc', // Del más viejo al más reciente
+                page,
+                pageSize,
+                cursor: options.cursor,
+                companies: options.companies ?? undefined,
+                search: await this.listingSearch(documentNumber, { document: true }),
+                includeDocuments: true,
             });
 
             // Filtrar préstamos con usuarios nulos
-            const loansWithValidUsers = loans.filter(loan => loan.user !== null);
-
-            // Obtener información de documentos para cada usuario eficientemente
-            if (loansWithValidUsers.length > 0) {
-                const userIds = loansWithValidUsers.map(loan => loan.userId);
-
-                // Consulta para obtener todos los usuarios con sus documentos
-                const usersWithDocuments = await this.prisma.user.findMany({
-                    where: {
-                        id: { in: userIds }
-                    },
-                    include: {
-                        Document: true
-                    }
-                });
-
-                // Crear un mapa para búsqueda rápida
-                const userDocMap = new Map(
-                    usersWithDocuments.map(user => [user.id, user])
-                );
-
-                // Adjuntar datos de documentos a cada préstamo
-                for (const loan of loansWithValidUsers) {
-                    const userWithDocs = userDocMap.get(loan.userId);
-                    if (userWithDocs) {
-                        (loan.user as any).Document = userWithDocs?.Document || [];
-                    }
-                }
-            }
+            result.data = result.data.filter(loan => loan.user !== null);
 
-            this.logger.log(`Se encontraron ${totalLoans} préstamos pendientes`);
-            return { data: loansWithValidUsers, total: totalLoans };
+            this.logger.log(`Se encontraron ${result.total} préstamos pendientes`);
+            return result;
         } catch (error) {
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
             this.logger.error('Error al obtener préstamos pendientes:', error);
             throw new BadRequestException(`Error al obtener las solicitudes de préstamo pendientes: ${error.message}`);
         }
     }
 
-    async pendingLoanDisbursement(page: number, pageSize: number, search?: string) {
-        const skip = (page - 1) * pageSize;
-
-        const whereClause: any = {
-            status: 'Aprobado',
-            isDisbursed: false,
-        };
-
-        if (search) {
-            whereClause.OR = [
-                { user: { names: { contains: search, mode: 'insensitive' } } },
-                { user: { firstLastName: { contains: search, mode: 'insensitive' } } },
-                { user: { secondLastName: { contains: search, mode: 'insensitive' } } },
-                { phone: { contains: search, mode: 'insensitive' } },
-            ];
-        }
-
-        const [data, total] = await this.prisma.$transaction([
-            this.prisma.loanApplication.findMany({
-                skip,
-                take: pageSize,
-                where: whereClause,
-                include: {
-                    user: true,
-                },
-                orderBy: { created_at: 'desc' },
-            }),
-            this.prisma.loanApplication.count({ where: whereClause }),
-        ]);
+    async pendingLoanDisbursement(
+        page: number,
+        pageSize: number,
+        search?: string,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
+        const amount = this.amountRange(options);
+
+        return this.runListing({
+            match: {
+                status: StatusLoan.Aprobado,
+                isDisbursed: false,
+                ...(amount && { cantity: amount }),
+            },
+            sortField: 'created_at',
+            direction: 'desc',
+            page,
+            pageSize,
+            cursor: options.cursor,
+            companies: options.companies ?? undefined,
+            search: await this.listingSearch(search, { names: true, phone: true }),
+        });
+    }
 
-        return { data, total };
+    // Cola de un analista: sus solicitudes en el estado pedido, de la más antigua a la más reciente
+    async getAssignedLoans(
+        employeeId: string,
+        status: StatusLoan = StatusLoan.Pendiente,
+        page: number = 1,
+        pageSize: number = 10,
+        search?: string,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
+        const amount = this.amountRange(options);
+
+        return this.runListing({
+            match: {
+                employeeId,
+                status,
+                ...(amount && { cantity: amount }),
+            },
+            sortField: 'created_at',
+            direction: 'asc',
+            page,
+            pageSize,
+            cursor: options.cursor,
+            search: await this.listingSearch(search, { names: true, document: true, loanId: true }),
+            includeDocuments: true,
+        });
     }
 
     // Maintain backward compatibility with wrapper methods
     async getDeferredLoans(
         page: number = 1,
         pageSize: number = 10,
-        searchQuery?: string
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        return this.getLoans(StatusLoan.Aplazado, page, pageSize, searchQuery);
+        searchQuery?: string,
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
+        return this.getLoans(StatusLoan.Aplazado, page, pageSize, searchQuery, options);
     }
 
-    // Modified getApprovedLoans method that starts the fix process
     async getApprovedLoans(
         page: number = 1,
         pageSize: number = 10,
         searchQuery?: string,
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        return this.getLoans(StatusLoan.Aprobado, page, pageSize, searchQuery);
+        options: LoanListingOptions = {}
+    ): Promise<LoanListingResult> {
+        return this.getLoans(StatusLoan.Aprobado, page, pageSize, searchQuery, options);
     }
 
-    // Enhanced version with fixed queryRaw implementation and dynamic company handling
+    // Listado por estado con búsqueda por documento, nombre o ID de préstamo
     private async getLoans(
         status: StatusLoan | null = null,
         page: number = 1,
         pageSize: number = 10,
         searchQuery?: string,
-        options: {
+        options: LoanListingOptions & {
             withNewCantity?: boolean,
             withNewCantityOpt?: boolean | null
         } = {}
-    ): Promise<{ data: LoanApplication[]; total: number }> {
-        const skip = (page - 1) * pageSize;
-
+    ): Promise<LoanListingResult> {
         try {
-            // Build the base where filter
-            const where: any = {};
+            const match: Record<string, unknown> = {};
 
             // Add status filter if provided
             if (status) {
-                where.status = status;
+                match.status = status;
             }
 
             // Add newCantity filters if requested
             if (options.withNewCantity !== undefined) {
-                where.newCantity = options.withNewCantity ? { not: null } : null;
+                match.newCantity = options.withNewCantity ? { $ne: null } : null;
             }
 
             // Add newCantityOpt filters if requested
             if (options.withNewCantityOpt !== undefined) {
-                where.newCantityOpt = options.withNewCantityOpt;
+                match.newCantityOpt = options.withNewCantityOpt;
             }
 
-            // ---- BÚSQUEDA MEJORADA ----
-            if (searchQuery && searchQuery.trim() !== '') {
-                const cleanSearchQuery = searchQuery.trim();
-
-                // Evaluar si la búsqueda es un número de documento
-                const isDocNumberSearch = /^\d+$/.test(cleanSearchQuery);
-
-                let userIdsToInclude: string[] = [];
-
-                // Si parece un número de documento, buscar primero por documento
-                if (isDocNumberSearch) {
-                    const usersWithMatchingDocument = await this.prisma.user.findMany({
-                        where: {
-                            Document: {
-                                some: {
-                                    number: { contains: cleanSearchQuery }
-                                }
-                            }
-                        },
-                        select: { id: true }
-                    });
-
-                    userIdsToInclude = usersWithMatchingDocument.map(u => u.id);
-                }
-
-                // Si no encontramos usuarios por número de documento o no es un número,
-                // realizamos búsqueda por nombre
-                if (userIdsToInclude.length === 0 && cleanSearchQuery.length >= 2) {
-                    // Usar nuestra función especializada de búsqueda por nombre
-                    userIdsToInclude = await this.utility.searchLoansByUserName(cleanSearchQuery, status);
-                }
-
-                // Preparar las condiciones de búsqueda
-                const searchConditions: Prisma.LoanApplicationWhereInput[] = [];
-
-                // Incluir búsqueda por ID de préstamo solo si parece un ID
-                const isPossibleId = cleanSearchQuery.includes('-') || /^[a-f0-9-]+$/i.test(cleanSearchQuery);
-
-                if (isPossibleId) {
-                    searchConditions.push({
-                        id: { contains: cleanSearchQuery, mode: 'insensitive' as Prisma.QueryMode }
-                    });
-                }
-
-                // Incluir búsqueda por IDs de usuario si encontramos alguna coincidencia
-                if (userIdsToInclude.length > 0) {
-                    searchConditions.push({
-                        userId: { in: userIdsToInclude }
-                    });
-                }
-
-                // Si no tenemos condiciones de búsqueda, devolver un resultado vacío
-                if (searchConditions.length === 0) {
-                    this.logger.log(`No se encontraron coincidencias para la búsqueda: ${cleanSearchQuery}`);
-                    return { data: [], total: 0 };
-                }
-
-                // Combinar todas las condiciones de búsqueda con OR
-                where.OR = searchConditions;
+            // Add amount range filter if requested
+            const amount = this.amountRange(options);
+            if (amount) {
+                match.cantity = amount;
             }
-            // ---- FIN DE BÚSQUEDA MEJORADA ----
 
-            // Count total loans matching criteria for pagination
-            const totalLoans = await this.prisma.loanApplication.count({
-                where
-            });
-
-            // Use findMany instead of $queryRaw for type safety
-            const loans = await this.prisma.loanApplication.findMany({
-                where,
-                include: {
-                    user: true
-                },
-                orderBy: {
-                    created_at: 'desc'
-                },
-                skip,
-                take: pageSize
+            const { data: loans, total, nextCursor } = await this.runListing({
+                match,
+                sortField: 'created_at',
+                direction: 'desc',
+                page,
+                pageSize,
+                cursor: options.cursor,
+                companies: options.companies ?? undefined,
+                search: await this.listingSearch(searchQuery, { names: true, document: true, loanId: true }),
             });
 
             // Procesar los resultados y manejar el mapeo de con_alta a conalta
@@ -631,6 +380,7 @@ export class QueryService {
                     id: loan.id,
                     userId: loan.userId,
                     employeeId: loan.employeeId,
+                    assignedAt: loan.assignedAt ?? null,
                     fisrt_flyer: loan.fisrt_flyer,
                     upid_first_flyer: loan.upid_first_flyer,
                     second_flyer: loan.second_flyer,
@@ -650,6 +400,7 @@ export class QueryService {
                     entity: loan.entity,
                     labor_card: loan.labor_card,
                     upid_labor_card: loan.upid_labor_card,
+                    paystubAnalysis: loan.paystubAnalysis ?? null,
                     terms_and_conditions: loan.terms_and_conditions,
                     signature: loan.signature,
                     isDisbursed: loan.isDisbursed,
@@ -658,6 +409,10 @@ export class QueryService {
                     status: loan.status,
                     cycode: loan.cycode,
                     extract: loan.extract,
+                    productId: loan.productId,
+                    outstandingBalance: loan.outstandingBalance,
+                    arrearsDays: loan.arrearsDays,
+                    lastPaymentAt: loan.lastPaymentAt,
                     created_at: loan.created_at,
                     updated_at: loan.updated_at,
                     user: loan.user ? {
@@ -683,12 +438,86 @@ export class QueryService {
 
             return {
                 data: formattedLoans,
-                total: totalLoans
+                total,
+                nextCursor
             };
         } catch (error) {
+            if (error instanceof BadRequestException) {
+                throw error;
+            }
             this.logger.error('Error al obtener préstamos:', error);
             throw new BadRequestException(`Error al obtener las solicitudes de préstamo: ${error.message}`);
         }
     }
 
-}
\ No newline at end of file
+    /**
+     * Ejecuta las agregaciones de un listado (página y total en paralelo) y
+     * devuelve los préstamos con la forma de Prisma y el cursor de la siguiente página.
+     */
+    private async runListing(query: LoanListingQuery): Promise<LoanListingResult<any>> {
+        const pipelines = buildLoanListingPipelines(query);
+
+        const [rows, counts] = await Promise.all([
+            this.prisma.loanApplication.aggregateRaw({ pipeline: pipelines.data }),
+            this.prisma.loanApplication.aggregateRaw({ pipeline: pipelines.count }),
+        ]);
+
+        const loans = fromRawLoanDocument(rows) as any[];
+        const hasMore = loans.length > query.pageSize;
+        const data = hasMore ? loans.slice(0, query.pageSize) : loans;
+
+        for (const loan of data) {
+            loan.user = loan.user ?? null;
+        }
+
+        const [count] = fromRawLoanDocument(counts) as { total: number }[];
+
+        return {
+            data,
+            total: count?.total ?? 0,
+            nextCursor: hasMore ? encodeLoanCursor(data[data.length - 1], query.sortField) : null,
+        };
+    }
+
+    /**
+     * Traduce el texto de búsqueda a las condiciones del listado. Los números se buscan
+     * como documento, los textos como nombre del cliente y los fragmentos de UUID como ID.
+     */
+    private async listingSearch(
+        text: string | undefined,
+        fields: { names?: boolean; document?: boolean; loanId?: boolean; phone?: boolean },
+    ): Promise<LoanListingSearch | undefined> {
+        const cleanSearchQuery = text?.trim();
+        if (!cleanSearchQuery) {
+            return undefined;
+        }
+
+        const isDocNumberSearch = /^\d+$/.test(cleanSearchQuery);
+        const isPossibleId = cleanSearchQuery.includes('-') || /^[a-f0-9-]+$/i.test(cleanSearchQuery);
+
+        return {
+            documentNumber: fields.document && isDocNumberSearch ? cleanSearchQuery : undefined,
+            loanId: fields.loanId && isPossibleId ? cleanSearchQuery : undefined,
+            phone: fields.phone ? cleanSearchQuery : undefined,
+            userIds: fields.names && !isDocNumberSearch && cleanSearchQuery.length >= 2
+                ? await this.utility.searchLoansByUserName(cleanSearchQuery, null)
+                : undefined,
+        };
+    }
+
+    // Rango de montos en sintaxis de MongoDB; undefined si no se pidió ningún límite
+    private amountRange({ minAmount, maxAmount }: LoanListingOptions): Record<string, number> | undefined {
+        if (minAmount === undefined && maxAmount === undefined) {
+            return undefined;
+        }
+
+        if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+            throw new BadRequestException('El monto mínimo no puede ser mayor al monto máximo');
+        }
+
+        return {
+            ...(minAmount !== undefined && { $gte: minAmount }),
+            ...(maxAmount !== undefined && { $lte: maxAmount }),
+        };
+    }
+}
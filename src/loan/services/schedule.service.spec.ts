@@ -0,0 +1,146 @@
+import { BadRequestException } from '@nestjs/common';
+import { LoanProduct } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { LoanScheduleService } from './schedule.service';
+
+const product = (overrides: Partial<LoanProduct> = {}): LoanProduct => ({
+  id: 'product-1',
+  name: 'Nómina quincenal',
+  description: null,
+  interestRate: 0.02,
+  termPeriods: 4,
+  payFrequency: 'quincenal',
+  originationFeeRate: 0,
+  periodicFee: 0,
+  isDefault: true,
+  isActive: true,
+  created_at: new Date(2026, 0, 1),
+  updated_at: new Date(2026, 0, 1),
+  ...overrides,
+});
+
+describe('LoanScheduleService', () => {
+  const service = new LoanScheduleService({} as PrismaService);
+  const start = new Date(2026, 0, 3);
+
+  describe('buildSchedule', () => {
+    it('amortizes with a fixed French payment rounded to pesos', () => {
+      const schedule = service.buildSchedule(1_000_000, product(), start);
+
+      expect(schedule.map((i) => [i.principal, i.interest, i.balance])).toEqual(
+        [
+          [242_624, 20_000, 757_376],
+          [247_476, 15_148, 509_900],
+          [252_426, 10_198, 257_474],
+          [257_474, 5_149, 0],
+        ],
+      );
+      expect(schedule.slice(0, 3).map((i) => i.total)).toEqual([
+        262_624, 262_624, 262_624,
+      ]);
+    });
+
+    it('lets the last installment absorb the rounding of principal and fees', () => {
+      const schedule = service.buildSchedule(
+        100_000,
+        product({ interestRate: 0, termPeriods: 3, originationFeeRate: 0.1 }),
+        start,
+      );
+
+      expect(schedule.map((i) => i.principal)).toEqual([
+        33_333, 33_333, 33_334,
+      ]);
+      expect(schedule.map((i) => i.fees)).toEqual([3_333, 3_333, 3_334]);
+      expect(schedule.reduce((acc, i) => acc + i.principal, 0)).toBe(100_000);
+      expect(schedule.reduce((acc, i) => acc + i.fees, 0)).toBe(10_000);
+    });
+
+    it('adds the periodic fee to every installment', () => {
+      const schedule = service.buildSchedule(
+        1_000_000,
+        product({ periodicFee: 2_000, originationFeeRate: 0.05 }),
+        start,
+      );
+
+      expect(schedule.map((i) => i.fees)).toEqual([
+        14_500, 14_500, 14_500, 14_500,
+      ]);
+      expect(
+        schedule.every((i) => i.total === i.principal + i.interest + i.fees),
+      ).toBe(true);
+    });
+
+    it('places biweekly installments on the 15th and the last day of the month', () => {
+      const schedule = service.buildSchedule(1_000_000, product(), start);
+
+      expect(schedule.map((i) => i.dueDate)).toEqual([
+        new Date(2026, 0, 15),
+        new Date(2026, 0, 31),
+        new Date(2026, 1, 15),
+        new Date(2026, 1, 28),
+      ]);
+    });
+
+    it('leaves at least five days before the first installment', () => {
+      const schedule = service.buildSchedule(
+        1_000_000,
+        product({ termPeriods: 1 }),
+        new Date(2026, 0, 12),
+      );
+
+      expect(schedule[0].dueDate).toEqual(new Date(2026, 0, 31));
+    });
+
+    it('places monthly installments at the end of each month', () => {
+      const schedule = service.buildSchedule(
+        1_000_000,
+        product({ payFrequency: 'mensual', termPeriods: 3 }),
+        new Date(2026, 0, 28),
+      );
+
+      expect(schedule.map((i) => i.dueDate)).toEqual([
+        new Date(2026, 1, 28),
+        new Date(2026, 2, 31),
+        new Date(2026, 3, 30),
+      ]);
+    });
+
+    it('places weekly installments every seven days', () => {
+      const schedule = service.buildSchedule(
+        1_000_000,
+        product({ payFrequency: 'semanal', termPeriods: 2 }),
+        start,
+      );
+
+      expect(schedule.map((i) => i.dueDate)).toEqual([
+        new Date(2026, 0, 10),
+        new Date(2026, 0, 17),
+      ]);
+    });
+
+    it('rejects a principal that is not positive', () => {
+      expect(() => service.buildSchedule(0, product(), start)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('principalOf', () => {
+    it('uses the new amount only when the client accepted it', () => {
+      expect(
+        service.principalOf({
+          cantity: 1_000_000,
+          newCantity: 800_000,
+          newCantityOpt: true,
+        }),
+      ).toBe(800_000);
+      expect(
+        service.principalOf({
+          cantity: 1_000_000,
+          newCantity: 800_000,
+          newCantityOpt: null,
+        }),
+      ).toBe(1_000_000);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { LoanApplication, LoanProduct, PayFrequency, Prisma } from "@prisma/client";
+import { PrismaService } from "src/prisma/prisma.service";
+import { ScheduleInstallment, ScheduleSummary } from "../dto/loan-product.dto";
+
+// Días mínimos entre el desembolso y la primera cuota
+const MIN_DAYS_TO_FIRST_DUE = 5;
+
+@Injectable()
+export class LoanScheduleService {
+    private logger = new Logger(LoanScheduleService.name);
+    constructor(
+        private readonly prisma: PrismaService,
+    ) { }
+
+    /**
+     * Obtiene el monto efectivo del préstamo: la nueva cantidad si el cliente la aceptó,
+     * de lo contrario la cantidad solicitada.
+     */
+    principalOf(loan: Pick<LoanApplication, 'cantity' | 'newCantity' | 'newCantityOpt'>): number {
+        return loan.newCantity && loan.newCantityOpt ? loan.newCantity : loan.cantity;
+    }
+
+    /**
+     * Calcula el plan de pagos con cuota fija (sistema francés) por periodo de pago.
+     * Los montos se redondean a pesos y la última cuota absorbe las diferencias.
+     */
+    buildSchedule(principal: number, product: LoanProduct, startDate: Date): ScheduleInstallment[] {
+        if (principal <= 0) {
+            throw new BadRequestException('El monto del préstamo debe ser mayor a cero');
+        }
+
+        const n = product.termPeriods;
+        const rate = product.interestRate;
+
+        const payment = rate === 0
+            ? principal / n
+            : (principal * rate) / (1 - Math.pow(1 + rate, -n));
+
+        const originationFee = Math.round(principal * product.originationFeeRate);
+        const originationPerPeriod = Math.floor(originationFee / n);
+
+        const dueDates = this.buildDueDates(startDate, product.payFrequency, n);
+        const installments: ScheduleInstallment[] = [];
+        let balance = principal;
+
+        for (let i = 1; i <= n; i++) {
+            const isLast = i === n;
+            const interest = Math.round(balance * rate);
+            const principalPart = isLast
+                ? balance
+                : Math.min(balance, Math.round(payment) - interest);
+            const fees = product.periodicFee + (isLast
+                ? originationFee - originationPerPeriod * (n - 1)
+                : originationPerPeriod);
+
+            balance -= principalPart;
+
+            installments.push({
+                number: i,
+                dueDate: dueDates[i - 1],
+                principal: principalPart,
+                interest,
+                fees,
+                total: principalPart + interest + fees,
+                balance,
+            });
+        }
+
+        return installments;
+    }
+
+    summarize(principal: number, installments: ScheduleInstallment[]): ScheduleSummary {
+        const totalInterest = installments.reduce((acc, i) => acc + i.interest, 0);
+        const totalFees = installments.reduce((acc, i) => acc + i.fees, 0);
+
+        return {
+            principal,
+            totalInterest,
+            totalFees,
+            totalPayable: principal + totalInterest + totalFees,
+            installments: installments.length,
+            firstDueDate: installments[0]?.dueDate ?? null,
+            lastDueDate: installments[installments.length - 1]?.dueDate ?? null,
+        };
+    }
+
+    /**
+     * Devuelve el producto indicado o, si no se indica, el producto activo marcado por defecto
+     */
+    async resolveProduct(productId?: string | null): Promise<LoanProduct | null> {
+        if (productId) {
+            const product = await this.prisma.loanProduct.findUnique({ where: { id: productId } });
+            if (!product || !product.isActive) {
+                throw new BadRequestException('El producto de préstamo no existe o está inactivo');
+            }
+            return product;
+        }
+
+        return this.prisma.loanProduct.findFirst({
+            where: { isDefault: true, isActive: true },
+            orderBy: { updated_at: 'desc' },
+        });
+    }
+
+    /**
+     * Genera y persiste el plan de pagos de un préstamo. Reemplaza cualquier plan previo.
+     * Puede ejecutarse dentro de una transacción existente. Devuelve null, sin tocar el
+     * préstamo, si no hay producto configurado: el desembolso no debe fallar por eso.
+     */
+    async generateForLoan(
+        loanId: string,
+        startDate: Date,
+        productId?: string | null,
+        tx?: Prisma.TransactionClient,
+    ) {
+        const client = tx ?? this.prisma;
+
+        const loan = await client.loanApplication.findUnique({ where: { id: loanId } });
+        if (!loan) {
+            throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+        }
+
+        const product = await this.resolveProduct(productId ?? loan.productId);
+        if (!product) {
+            this.logger.warn('Préstamo sin plan de pagos: no hay un producto de préstamo por defecto', {
+                event: 'loan_schedule_skipped',
+                loanId,
+            });
+            return null;
+        }
+
+        const principal = this.principalOf(loan);
+        const installments = this.buildSchedule(principal, product, startDate);
+
+        await client.loanInstallment.deleteMany({ where: { loanId } });
+        await client.loanInstallment.createMany({
+            data: installments.map(installment => ({ loanId, ...installment })),
+        });
+
+        // El saldo inicial es el total del plan; la mora se recalcula con cada pago
+        await client.loanApplication.update({
+            where: { id: loanId },
+            data: {
+                productId: product.id,
+                outstandingBalance: installments.reduce((acc, i) => acc + i.total, 0),
+                arrearsDays: 0,
+            },
+        });
+
+        this.logger.debug('Plan de pagos generado', {
+            event: 'loan_schedule_generated',
+            loanId,
+            productId: product.id,
+            principal,
+            installments: installments.length,
+        });
+
+        return { product, installments };
+    }
+
+    /**
+     * Regenera el plan de un préstamo ya desembolsado, por ejemplo tras corregir su producto
+     */
+    async regenerate(loanId: string, productId?: string) {
+        const loan = await this.prisma.loanApplication.findUnique({ where: { id: loanId } });
+
+        if (!loan) {
+            throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+        }
+
+        if (!loan.isDisbursed || !loan.dateDisbursed) {
+            throw new BadRequestException('Solo se puede regenerar el plan de pagos de préstamos desembolsados');
+        }
+
+        // Regenerar el plan descartaría lo ya imputado a las cuotas
+        const payments = await this.prisma.payment.count({ where: { loanId } });
+        if (payments > 0) {
+            throw new BadRequestException('No se puede regenerar el plan de pagos de un préstamo con pagos registrados');
+        }
+
+        const dateDisbursed = loan.dateDisbursed;
+        const generated = await this.prisma.$transaction(async (tx) => {
+            return this.generateForLoan(loanId, dateDisbursed, productId, tx);
+        });
+
+        if (!generated) {
+            throw new BadRequestException('No hay un producto de préstamo configurado para generar el plan de pagos');
+        }
+
+        return this.getSchedule(loanId);
+    }
+
+    /**
+     * Obtiene el plan de pagos de un préstamo. Si aún no ha sido desembolsado se
+     * devuelve una proyección con el producto asignado o el producto por defecto.
+     */
+    async getSchedule(loanId: string) {
+        try {
+            const loan = await this.prisma.loanApplication.findUnique({
+                where: { id: loanId },
+                include: {
+                    product: true,
+                    LoanInstallment: { orderBy: { number: 'asc' } },
+                },
+            });
+
+            if (!loan) {
+                throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+            }
+
+            const principal = this.principalOf(loan);
+
+            if (loan.LoanInstallment.length > 0) {
+                return {
+                    loanId: loan.id,
+                    userId: loan.userId,
+                    projected: false,
+                    dateDisbursed: loan.dateDisbursed,
+                    product: loan.product,
+                    summary: this.summarize(principal, loan.LoanInstallment),
+                    installments: loan.LoanInstallment,
+                };
+            }
+
+            const product = loan.product ?? await this.resolveProduct();
+            if (!product) {
+                throw new NotFoundException('El préstamo no tiene plan de pagos y no hay un producto por defecto configurado');
+            }
+
+            const installments = this.buildSchedule(principal, product, loan.dateDisbursed ?? new Date());
+
+            return {
+                loanId: loan.id,
+                userId: loan.userId,
+                projected: true,
+                dateDisbursed: loan.dateDisbursed,
+                product,
+                summary: this.summarize(principal, installments),
+                installments,
+            };
+        } catch (error) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
+                throw error;
+            }
+            this.logger.error(`Error al obtener el plan de pagos del préstamo ${loanId}`, error);
+            throw new BadRequestException('Error al obtener el plan de pagos');
+        }
+    }
+
+    /**
+     * Proyección del plan de pagos para un monto, usada en los documentos de la solicitud.
+     * Devuelve null si no hay producto disponible para no bloquear la creación del préstamo.
+     */
+    async previewForAmount(amount: number, productId?: string | null): Promise<ScheduleInstallment[] | null> {
+        try {
+            const product = await this.resolveProduct(productId);
+            if (!product) return null;
+
+            return this.buildSchedule(amount, product, new Date());
+        } catch (error) {
+            this.logger.warn(`No fue posible proyectar el plan de pagos: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Calcula las fechas de vencimiento según la periodicidad del producto.
+     * La quincena sigue el calendario de nómina: día 15 y último día del mes.
+     */
+    private buildDueDates(startDate: Date, frequency: PayFrequency, periods: number): Date[] {
+        const dates: Date[] = [];
+        const earliest = new Date(startDate);
+        earliest.setDate(earliest.getDate() + MIN_DAYS_TO_FIRST_DUE);
+
+        if (frequency === 'semanal') {
+            for (let i = 1; i <= periods; i++) {
+                const date = new Date(startDate);
+                date.setDate(date.getDate() + 7 * i);
+                dates.push(date);
+            }
+            return dates;
+        }
+
+        let current = frequency === 'mensual'
+            ? this.endOfMonth(earliest.getFullYear(), earliest.getMonth())
+            : this.nextPayday(earliest);
+
+        while (dates.length < periods) {
+            dates.push(current);
+            current = frequency === 'mensual'
+                ? this.endOfMonth(current.getFullYear(), current.getMonth() + 1)
+                : this.nextPayday(new Date(current.getFullYear(), current.getMonth(), current.getDate() + 1));
+        }
+
+        return dates;
+    }
+
+    private nextPayday(from: Date): Date {
+        const year = from.getFullYear();
+        const month = from.getMonth();
+
+        if (from.getDate() <= 15) {
+            return new Date(year, month, 15);
+        }
+        return this.endOfMonth(year, month);
+    }
+
+    private endOfMonth(year: number, month: number): Date {
+        return new Date(year, month + 1, 0);
+    }
+}
@@ -0,0 +1,104 @@
+import { BadRequestException } from '@nestjs/common';
+import { LoanState, Prisma, StatusLoan } from '@prisma/client';
+import {
+  applyLoanTransition,
+  assertLoanTransition,
+  LOAN_TRANSITIONS,
+  loanStateOf,
+} from './status-transitions';
+
+const STATES = Object.keys(LOAN_TRANSITIONS) as LoanState[];
+
+describe('loan status transitions', () => {
+  describe('assertLoanTransition', () => {
+    it.each([
+      ['Borrador', 'Pendiente'],
+      ['Pendiente', 'Aprobado'],
+      ['Pendiente', 'Aplazado'],
+      ['Aplazado', 'Pendiente'],
+      ['Aplazado', 'Aprobado'],
+      ['Aprobado', 'Aprobado'],
+      ['Aprobado', 'Desembolsado'],
+      ['Aprobado', 'Archivado'],
+    ] as [StatusLoan, LoanState][])('allows %s -> %s', (from, to) => {
+      expect(() =>
+        assertLoanTransition({ status: from, isDisbursed: false }, to),
+      ).not.toThrow();
+    });
+
+    it.each([
+      ['Borrador', 'Aprobado'],
+      ['Pendiente', 'Desembolsado'],
+      ['Pendiente', 'Pendiente'],
+      ['Aplazado', 'Desembolsado'],
+    ] as [StatusLoan, LoanState][])('rejects %s -> %s', (from, to) => {
+      expect(() =>
+        assertLoanTransition({ status: from, isDisbursed: false }, to),
+      ).toThrow(BadRequestException);
+    });
+
+    it.each(STATES)('keeps Archivado terminal (-> %s)', (to) => {
+      expect(() =>
+        assertLoanTransition({ status: 'Archivado', isDisbursed: false }, to),
+      ).toThrow('ya no admite cambios de estado');
+    });
+
+    it.each(STATES)('keeps a disbursed loan terminal (-> %s)', (to) => {
+      expect(() =>
+        assertLoanTransition({ status: 'Aprobado', isDisbursed: true }, to),
+      ).toThrow('La solicitud está en estado Desembolsado');
+    });
+  });
+
+  describe('loanStateOf', () => {
+    it('reads the disbursed flag before the stored status', () => {
+      expect(loanStateOf({ status: 'Aprobado', isDisbursed: true })).toBe(
+        'Desembolsado',
+      );
+      expect(loanStateOf({ status: 'Aprobado', isDisbursed: null })).toBe(
+        'Aprobado',
+      );
+    });
+  });
+
+  describe('applyLoanTransition', () => {
+    const txWith = (count: number) => {
+      const updateMany = jest.fn(() => Promise.resolve({ count }));
+      const tx = {
+        loanApplication: { updateMany },
+      } as unknown as Prisma.TransactionClient;
+      return { tx, updateMany };
+    };
+
+    it('updates only while the loan is still in the validated state', async () => {
+      const { tx, updateMany } = txWith(1);
+
+      await applyLoanTransition(
+        tx,
+        { id: 'loan-1', status: 'Pendiente', isDisbursed: false },
+        { status: 'Aprobado' },
+      );
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'loan-1',
+          status: 'Pendiente',
+          isDisbursed: { not: true },
+        },
+        data: { status: 'Aprobado' },
+      });
+    });
+
+    it('fails when a concurrent change moved the loan first', async () => {
+      const { tx } = txWith(0);
+
+      await expect(
+        applyLoanTransition(
+          tx,
+          { id: 'loan-1', status: 'Aprobado', isDisbursed: false },
+          { isDisbursed: true },
+        ),
+      ).rejects.toThrow('cambió de estado mientras se procesaba');
+    });
+  });
+});
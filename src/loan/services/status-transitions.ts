@@ -0,0 +1,91 @@
+import { BadRequestException } from "@nestjs/common";
+import { LoanApplication, LoanHistoryActor, LoanState, Prisma } from "@prisma/client";
+
+export interface LoanStatusActor {
+    type: LoanHistoryActor;
+    id?: string;
+}
+
+// Transiciones permitidas por estado. Archivado y Desembolsado son terminales;
+// Aprobado -> Aprobado cubre el cambio de monto y la aceptación de la nueva cantidad.
+export const LOAN_TRANSITIONS: Record<LoanState, LoanState[]> = {
+    Borrador: ['Pendiente', 'Archivado'],
+    Pendiente: ['Aprobado', 'Aplazado', 'Archivado'],
+    Aprobado: ['Aprobado', 'Aplazado', 'Archivado', 'Desembolsado'],
+    Aplazado: ['Pendiente', 'Aprobado', 'Archivado'],
+    Archivado: [],
+    Desembolsado: [],
+};
+
+type LoanStateFields = Pick<LoanApplication, 'status' | 'isDisbursed'>;
+
+export function loanStateOf(loan: LoanStateFields): LoanState {
+    return loan.isDisbursed ? 'Desembolsado' : loan.status;
+}
+
+/**
+ * Lanza un error si la solicitud no puede pasar de su estado actual al indicado
+ */
+export function assertLoanTransition(loan: LoanStateFields, to: LoanState): void {
+    const from = loanStateOf(loan);
+    const allowed = LOAN_TRANSITIONS[from];
+
+    if (!allowed.includes(to)) {
+        throw new BadRequestException(
+            allowed.length === 0
+                ? `La solicitud está en estado ${from} y ya no admite cambios de estado`
+                : `No se puede pasar una solicitud de ${from} a ${to}. Estados permitidos: ${allowed.join(', ')}`
+        );
+    }
+}
+
+/**
+ * Aplica el cambio solo si la solicitud sigue en el estado que se validó con assertLoanTransition.
+ * Dos cambios simultáneos pueden pasar ambos la validación; con la condición solo uno actualiza.
+ */
+export async function applyLoanTransition(
+    tx: Prisma.TransactionClient,
+    loan: LoanStateFields & { id: string },
+    data: Prisma.LoanApplicationUpdateManyMutationInput,
+): Promise<void> {
+    const { count } = await tx.loanApplication.updateMany({
+        where: {
+            id: loan.id,
+            status: loan.status,
+            isDisbursed: loan.isDisbursed ? true : { not: true },
+        },
+        data,
+    });
+
+    if (count !== 1) {
+        throw new BadRequestException('La solicitud cambió de estado mientras se procesaba; consulte su estado actual');
+    }
+}
+
+/**
+ * Datos del registro de historial para una transición, con los valores previos de la solicitud
+ */
+export function loanHistoryEntry(
+    loan: LoanApplication,
+    to: LoanState,
+    actor: LoanStatusActor,
+    reason?: string | null,
+): Prisma.LoanStatusHistoryUncheckedCreateInput {
+    return {
+        loanId: loan.id,
+        fromState: loanStateOf(loan),
+        toState: to,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        reason: reason ?? null,
+        previous: {
+            status: loan.status,
+            isDisbursed: loan.isDisbursed ?? false,
+            employeeId: loan.employeeId,
+            reasonReject: loan.reasonReject,
+            reasonChangeCantity: loan.reasonChangeCantity,
+            newCantity: loan.newCantity,
+            newCantityOpt: loan.newCantityOpt,
+        },
+    };
+}
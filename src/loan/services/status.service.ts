@@ -4,6 +4,7 @@ import { ChangeLoanStatusDto } from "../dto/change-loan-status.dto";
 import { PrismaService } from "src/prisma/prisma.service";
 import { MailService } from "src/mail/mail.service";
 import { GoogleCloudService } from "src/gcp/gcp.service";
+import { applyLoanTransition, assertLoanTransition, loanHistoryEntry, loanStateOf, LoanStatusActor } from "./status-transitions";
 
 @Injectable()
 export class StatusService {
@@ -16,7 +17,11 @@ export class StatusService {
     ) { }
 
     // Método para cambiar el Status de una solicitud
-    async changeStatus(loanApplicationId: string, statusDto: ChangeLoanStatusDto): Promise<LoanApplication> {
+    async changeStatus(
+        loanApplicationId: string,
+        statusDto: ChangeLoanStatusDto,
+        actor: LoanStatusActor = { type: 'system' },
+    ): Promise<LoanApplication> {
         try {
             // Verificar que la solicitud existe
             const existingLoan = await this.prisma.loanApplication.findUnique({
@@ -33,8 +38,10 @@ export class StatusService {
 
             const { status, reasonReject, employeeId, reasonChangeCantity, newCantity } = statusDto;
 
+            assertLoanTransition(existingLoan, status);
+
             // Preparar el objeto para actualizar la solicitud
-            const updateData: Prisma.LoanApplicationUpdateInput = {
+            const updateData: Prisma.LoanApplicationUpdateManyMutationInput = {
                 status,
                 employeeId
             };
@@ -46,16 +53,20 @@ export class StatusService {
 
             // Usar una transacción para operaciones relacionadas
             return await this.prisma.$transaction(async (tx) => {
-                // Actualizar la solicitud de préstamo
-                const updatedLoan = await tx.loanApplication.update({
+                // Actualizar la solicitud de préstamo si nadie cambió su estado desde la validación
+                await applyLoanTransition(tx, existingLoan, updateData);
+                const updatedLoan = await tx.loanApplication.findUniqueOrThrow({
                     where: { id: loanApplicationId },
-                    data: updateData,
                     include: {
                         user: true,
                         GeneratedDocuments: true
                     },
                 });
 
+                await tx.loanStatusHistory.create({
+                    data: loanHistoryEntry(existingLoan, status, actor, reasonReject ?? reasonChangeCantity),
+                });
+
                 // Crear evento si hay cambio de cantidad
                 if (newCantity && reasonChangeCantity) {
                     await tx.eventLoanApplication.create({
@@ -135,7 +146,7 @@ export class StatusService {
                 error
             );
 
-            if (error instanceof NotFoundException) {
+            if (error instanceof NotFoundException || error instanceof BadRequestException) {
                 throw error;
             }
 
@@ -197,7 +208,7 @@ export class StatusService {
 
             const updatedLoan = await this.prisma.loanApplication.update({
                 where: { id: loanId },
-                data: { employeeId },
+                data: { employeeId, assignedAt: new Date() },
                 include: {
                     user: true,
                 },
@@ -233,16 +244,27 @@ export class StatusService {
             }
 
             const finalStatus: StatusLoan = accept ? "Aprobado" : "Aplazado"
+            assertLoanTransition(loan, finalStatus);
 
-            const updatedLoan = await this.prisma.loanApplication.update({
-                where: { id: loanId },
-                data: {
-                    newCantityOpt: accept,
-                    status: finalStatus,
-                },
-                include: {
-                    user: true,
-                },
+            const updatedLoan = await this.prisma.$transaction(async (tx) => {
+                await applyLoanTransition(tx, loan, { newCantityOpt: accept, status: finalStatus });
+                const updated = await tx.loanApplication.findUniqueOrThrow({
+                    where: { id: loanId },
+                    include: {
+                        user: true,
+                    },
+                });
+
+                await tx.loanStatusHistory.create({
+                    data: loanHistoryEntry(
+                        loan,
+                        finalStatus,
+                        { type: 'client', id: loan.userId },
+                        accept ? 'Nueva cantidad aceptada' : 'Nueva cantidad rechazada',
+                    ),
+                });
+
+                return updated;
             });
 
             const newEventInLoan = await this.prisma.eventLoanApplication.updateMany({
@@ -260,4 +282,47 @@ export class StatusService {
             throw new BadRequestException('Error al responder a la nueva cantidad propuesta');
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Línea de tiempo de estados de una solicitud, del más antiguo al más reciente
+     */
+    async getHistory(loanId: string) {
+        const loan = await this.prisma.loanApplication.findUnique({
+            where: { id: loanId },
+            select: { id: true, userId: true, status: true, isDisbursed: true },
+        });
+
+        if (!loan) {
+            throw new NotFoundException(`Solicitud de préstamo con ID ${loanId} no encontrada`);
+        }
+
+        const history = await this.prisma.loanStatusHistory.findMany({
+            where: { loanId },
+            orderBy: { created_at: 'asc' },
+        });
+
+        // Nombres de los usuarios de intranet que hicieron cambios
+        const employeeIds = [...new Set(
+            history.filter(h => h.actorType === 'intranet' && h.actorId).map(h => h.actorId as string)
+        )];
+        const employees = employeeIds.length > 0
+            ? await this.prisma.usersIntranet.findMany({
+                where: { id: { in: employeeIds } },
+                select: { id: true, name: true, lastNames: true },
+            })
+            : [];
+        const names = new Map(employees.map(e => [e.id, `${e.name} ${e.lastNames}`]));
+
+        return {
+            loanId: loan.id,
+            userId: loan.userId,
+            currentState: loanStateOf(loan),
+            history: history.map(entry => ({
+                ...entry,
+                actorName: entry.actorType === 'intranet' && entry.actorId
+                    ? names.get(entry.actorId) ?? null
+                    : null,
+            })),
+        };
+    }
+}
@@ -2,6 +2,7 @@ import { BadRequestException, Injectable, Logger, NotFoundException } from "@nes
 import { StatusLoan } from "@prisma/client";
 import { GoogleCloudService } from "src/gcp/gcp.service";
 import { PrismaService } from "src/prisma/prisma.service";
+import { ClientSearchService } from "src/search/client-search.service";
 
 @Injectable()
 export class UtilityService {
@@ -10,123 +11,36 @@ export class UtilityService {
     constructor(
         private readonly prisma: PrismaService,
         private readonly gcp: GoogleCloudService,
+        private readonly clientSearch: ClientSearchService,
     ) { }
 
     /**
-     * Función auxiliar para búsqueda avanzada de préstamos por nombre del usuario
-     * Esta función procesa el texto de búsqueda y encuentra usuarios que coincidan
-     * con los términos de búsqueda en sus campos de nombre
+     * Función auxiliar para búsqueda de préstamos por nombre del usuario.
+     * Los usuarios salen del índice de búsqueda de clientes (sin tildes, con
+     * tolerancia a errores de tipeo) en orden de relevancia.
      */
     async searchLoansByUserName(
         searchText: string,
         status?: StatusLoan | null
     ): Promise<string[]> {
-        // Normalizar el texto de búsqueda: convertir a minúsculas y eliminar acentos
-        const normalizeText = (text: string): string => {
-            return text
-                .toLowerCase()
-                .normalize("NFD")
-                .replace(/[\u0300-\u036f]/g, "");
-        };
-
-        const normalizedSearchText = normalizeText(searchText);
-
-        // Dividir el texto de búsqueda en términos individuales para buscar coincidencias parciales
-        const searchTerms = normalizedSearchText
-            .split(/\s+/)
-            .filter(term => term.length >= 2); // Ignorar términos muy cortos
-
-        if (searchTerms.length === 0) {
-            return [];
-        }
-
         try {
-            // Buscar usuarios que coincidan con alguno de los términos de búsqueda
-            const matchingUsers = await this.prisma.user.findMany({
-                where: {
-                    OR: [
-                        // Buscar coincidencias en el campo names
-                        {
-                            names: {
-                                contains: searchText,
-                                mode: 'insensitive'
-                            }
-                        },
-                        // Buscar coincidencias en el campo firstLastName
-                        {
-                            firstLastName: {
-                                contains: searchText,
-                                mode: 'insensitive'
-                            }
-                        },
-                        // Buscar coincidencias en el campo secondLastName
-                        {
-                            secondLastName: {
-                                contains: searchText,
-                                mode: 'insensitive'
-                            }
-                        },
-                        // Buscar coincidencias combinando los campos
-                        {
-                            OR: searchTerms.map(term => ({
-                                OR: [
-                                    { names: { contains: term, mode: 'insensitive' } },
-                                    { firstLastName: { contains: term, mode: 'insensitive' } },
-                                    { secondLastName: { contains: term, mode: 'insensitive' } }
-                                ]
-                            }))
-                        }
-                    ]
-                },
-                select: { id: true }
-            });
-
-            // También buscar por combinación de nombres y apellidos
-            const fullNameSearch = await this.prisma.user.findMany({
-                where: {
-                    OR: [
-                        // Buscar por combinación de nombres y primer apellido
-                        {
-                            AND: [
-                                { names: { contains: searchTerms[0], mode: 'insensitive' } },
-                                { firstLastName: { contains: searchTerms[1] || '', mode: 'insensitive' } }
-                            ]
-                        },
-                        // Buscar por combinación de primer apellido y segundo apellido
-                        {
-                            AND: [
-                                { firstLastName: { contains: searchTerms[0], mode: 'insensitive' } },
-                                { secondLastName: { contains: searchTerms[1] || '', mode: 'insensitive' } }
-                            ]
-                        }
-                    ]
-                },
-                select: { id: true }
-            });
-
-            // Combinar resultados y eliminar duplicados
-            const combinedUserIds = [
-                ...matchingUsers.map(u => u.id),
-                ...fullNameSearch.map(u => u.id)
-            ];
-
-            // Eliminar duplicados usando Set
-            const uniqueUserIds = [...new Set(combinedUserIds)];
+            const userIds = await this.clientSearch.matchingUserIds(searchText);
 
             // Si hay un status definido, filtrar préstamos por status y user IDs
-            if (status) {
+            if (status && userIds.length > 0) {
                 const loansWithStatus = await this.prisma.loanApplication.findMany({
                     where: {
-                        userId: { in: uniqueUserIds },
+                        userId: { in: userIds },
                         status: status
                     },
                     select: { userId: true }
                 });
 
-                return [...new Set(loansWithStatus.map(loan => loan.userId))];
+                const withStatus = new Set(loansWithStatus.map(loan => loan.userId));
+                return userIds.filter(id => withStatus.has(id));
             }
 
-            return uniqueUserIds;
+            return userIds;
         } catch (error) {
             this.logger.error('Error en la búsqueda por nombre:', error);
             return [];
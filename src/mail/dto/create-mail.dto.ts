@@ -1,6 +1,6 @@
 // mail.dto.ts
 import { Transform } from 'class-transformer';
-import { IsString, IsEmail, IsOptional, IsArray, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { IsString, IsEmail, IsOptional, IsArray, IsNotEmpty, MinLength, MaxLength, IsInt, Min } from 'class-validator';
 
 export class ActiveAccountDto {
   @IsString()
@@ -45,8 +45,9 @@ export class ChangeCantityMailDto {
   @IsString()
   reason_aproved: string;
 
-  @IsString()
-  cantity_aproved: string;
+  @IsInt()
+  @Min(1)
+  cantity_aproved: number;
 
   @IsEmail()
   mail: string;
@@ -9,27 +9,53 @@ import {
   UseInterceptors,
   UploadedFiles,
   BadRequestException,
-  Logger
+  Logger,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  ParseUUIDPipe,
+  UseGuards
 } from '@nestjs/common';
 import { FilesInterceptor } from '@nestjs/platform-express';
 import { MailService } from './mail.service';
 import { SendCustomEmailDto } from './dto/create-mail.dto';
+import { EmailOutboxService } from './outbox.service';
+import { EmailStatus } from '@prisma/client';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { ApiKeyGuard } from 'src/auth/guards/api-key.guard';
+import { ApiScopes } from 'src/auth/decorators/api-scopes.decorator';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiConsumes,
   ApiBody,
-  ApiBadRequestResponse
+  ApiBadRequestResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiSecurity
 } from '@nestjs/swagger';
+import { AuditEntity } from 'src/audit/decorators/audit-entity.decorator';
 
 @ApiTags('mail')
 @Controller('mail')
 export class MailController {
   private readonly logger = new Logger(MailController.name);
 
-  constructor(private readonly mailService: MailService) { }
+  constructor(
+    private readonly mailService: MailService,
+    private readonly outbox: EmailOutboxService,
+  ) { }
 
+  @UseGuards(ApiKeyGuard)
+  @ApiScopes('mail:send')
+  @RequirePermission('mail.send')
   @Post('send-custom')
   @UseInterceptors(FilesInterceptor('files', 10))
   @ApiOperation({ summary: 'Enviar correo electrónico personalizado' })
@@ -51,6 +77,10 @@ export class MailController {
     }
   })
   @ApiResponse({ status: 200, description: 'Correo enviado exitosamente' })
+  @ApiSecurity('api-key')
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Sin sesión o llave de API inválida' })
+  @ApiForbiddenResponse({ description: 'La llave no tiene el permiso mail:send o el usuario no tiene el permiso mail.send' })
   @ApiBadRequestResponse({ description: 'Error al enviar el correo' })
   async sendCustomEmail(
     @Body() sendCustomEmailDto: SendCustomEmailDto,
@@ -83,6 +113,9 @@ export class MailController {
     }
   }
 
+  @UseGuards(ApiKeyGuard)
+  @ApiScopes('mail:send')
+  @RequirePermission('mail.send')
   @Post('send-announcement')
   @UseInterceptors(FilesInterceptor('bannerImage', 1))
   @ApiOperation({ summary: 'Enviar correo electrónico de anuncio' })
@@ -109,6 +142,10 @@ export class MailController {
     }
   })
   @ApiResponse({ status: 200, description: 'Correo de anuncio enviado exitosamente' })
+  @ApiSecurity('api-key')
+  @ApiBearerAuth()
+  @ApiUnauthorizedResponse({ description: 'Sin sesión o llave de API inválida' })
+  @ApiForbiddenResponse({ description: 'La llave no tiene el permiso mail:send o el usuario no tiene el permiso mail.send' })
   @ApiBadRequestResponse({ description: 'Error al enviar el correo de anuncio' })
   async sendAnnouncementEmail(
     @Body() announcementData: {
@@ -170,7 +207,7 @@ export class MailController {
 
   @Get('queue-status')
   @ApiOperation({ summary: 'Obtener estado de la cola de correos' })
-  @ApiResponse({ status: 200, description: 'Estado de la cola obtenido exitosamente' })
+  @ApiResponse({ status: 200, description: 'Cantidad de correos por estado en el outbox' })
   @ApiBadRequestResponse({ description: 'Error al obtener el estado de la cola' })
   async getQueueStatus() {
     try {
@@ -188,4 +225,55 @@ export class MailController {
       });
     }
   }
-}
\ No newline at end of file
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('mail.send')
+  @Get('outbox')
+  @ApiOperation({ summary: 'Listar correos del outbox por estado (permiso mail.send)' })
+  @ApiQuery({ name: 'status', required: false, enum: Object.values(EmailStatus), description: 'Estado de los correos (por defecto dead)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 20 })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de correos' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiBadRequestResponse({ description: 'Estado inválido' })
+  async listOutbox(
+    @Query('status', new DefaultValuePipe('dead')) status: EmailStatus,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(20), ParseIntPipe) pageSize: number,
+  ) {
+    if (!Object.values(EmailStatus).includes(status)) {
+      throw new BadRequestException(`Estado inválido. Valores permitidos: ${Object.values(EmailStatus).join(', ')}`);
+    }
+    return this.outbox.findAll(status, page, pageSize);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('mail.send')
+  @Post('outbox/dead/resend')
+  @ApiOperation({ summary: 'Reenviar todos los correos muertos (permiso mail.send)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Cantidad de correos encolados nuevamente' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  async resendAllDead() {
+    return this.outbox.requeueAllDead();
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('mail.send')
+  @AuditEntity('emailOutbox')
+  @Post('outbox/:id/resend')
+  @ApiOperation({ summary: 'Reenviar un correo muerto o fallido (permiso mail.send)' })
+  @ApiParam({ name: 'id', description: 'ID del correo en el outbox' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Correo encolado nuevamente' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Correo no encontrado' })
+  @ApiBadRequestResponse({ description: 'El correo no está muerto ni fallido' })
+  async resend(@Param('id', ParseUUIDPipe) id: string) {
+    return this.outbox.requeue(id);
+  }
+}
@@ -3,15 +3,24 @@ import { MailService } from './mail.service';
 import { MailController } from './mail.controller';
 import { JwtModule } from '@nestjs/jwt';
 import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { GoogleCloudModule } from 'src/gcp/gcp.module';
+import { EmailOutboxService } from './outbox.service';
 import { ApiTags } from '@nestjs/swagger';
+import { ApiClientModule } from 'src/api-client/api-client.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
 
 @Module({
   imports: [
     JwtModule,
     CloudinaryModule,
+    PrismaModule,
+    GoogleCloudModule,
+    ApiClientModule,
+    IntranetRoleModule,
   ],
   controllers: [MailController],
-  providers: [MailService],
+  providers: [MailService, EmailOutboxService],
   exports: [MailService],
 })
 export class MailModule {}
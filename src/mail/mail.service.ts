@@ -1,7 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
-import { Resend } from 'resend';
 import { MJMLtoHTML } from '../../handlers/mjmlToHtml';
 import { ActiveAccountMail } from '../../templatesEmails/generates/GenerateActiveAccountMail';
 import { ChangeCantityMail } from '../../templatesEmails/generates/GenerateChangeCantityMail';
@@ -14,41 +13,23 @@ import { generateMailPasswordReset } from 'templatesEmails/generates/GenerateRec
 import { generateMailPasswordResetSuccess } from 'templatesEmails/generates/GenerateSuccesChangePass';
 import { generateMailDisbursement } from "templatesEmails/generates/GenerateDisbursed";
 import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as util from 'util';
-import * as stream from 'stream';
 import { generateCustomEmail } from 'templatesEmails/generates/GenerateCusmosEmail';
 import { generateSecurityNoticeEmail } from 'templatesEmails/generates/GenerateCommunicate';
+import { generateMailIssueStatus } from 'templatesEmails/generates/GenerateIssueStatus';
 import { CloudinaryService } from 'src/cloudinary/cloudinary.service';
-
-// Tipo para la cola de correos con Resend
-interface EmailQueueItem {
-  options: {
-    from: string;
-    to: string;
-    subject: string;
-    html: string;
-    attachments?: Array<{
-      filename: string;
-      content: Buffer;
-      contentType?: string;
-    }>;
-    priority?: 'high' | 'normal' | 'low';
-  };
-  attachmentFiles?: { filename: string; path: string }[];
-  retryCount: number;
+import { EmailOutboxService, OutboxAttachment } from './outbox.service';
+
+// Opciones de un correo antes de pasar al outbox
+interface EmailOptions {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  priority?: 'high' | 'normal' | 'low';
 }
 
 @Injectable()
 export class MailService {
-  private resend: Resend;
-  private pipeline = util.promisify(stream.pipeline);
-  private emailQueue: EmailQueueItem[] = [];
-  private isProcessingQueue = false;
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY = 5000; // 5 segundos
-  private readonly QUEUE_PROCESSING_INTERVAL = 1000; // 1 segundo
   private readonly logger = new Logger(MailService.name);
 
   /**
@@ -58,100 +39,18 @@ export class MailService {
 
   constructor(
     private readonly configService: ConfigService,
-    private readonly cloudinary: CloudinaryService
-  ) {
-    // Inicializar Resend con la API key
-    const resendApiKey = this.configService.get<string>('RESEND_API_KEY');
-
-    if (!resendApiKey) {
-      throw new Error('Resend API key not properly configured');
-    }
-
-    this.resend = new Resend(resendApiKey);
-
-    this.logger.log('Resend service initialized successfully');
-
-    // Iniciar el procesamiento de la cola
-    this.startQueueProcessing();
-  }
-
-  /**
-   * Inicia el procesamiento periódico de la cola de correos
-   */
-  private startQueueProcessing(): void {
-    setInterval(() => this.processQueue(), this.QUEUE_PROCESSING_INTERVAL);
-  }
-
-  /**
-   * Procesa la cola de correos pendientes
-   */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessingQueue || this.emailQueue.length === 0) {
-      return;
-    }
-
-    this.isProcessingQueue = true;
-
-    try {
-      const item = this.emailQueue.shift();
-      if (!item) {
-        this.isProcessingQueue = false;
-        return;
-      }
-
-      try {
-        // Enviar email usando Resend
-        const result = await this.resend.emails.send(item.options);
-
-        if (result.error) {
-          throw new Error(result.error.message);
-        }
-
-        // Limpiar archivos temporales si existen
-        if (item.attachmentFiles && item.attachmentFiles.length > 0) {
-          const filePaths = item.attachmentFiles.map(attachment => attachment.path);
-          await this.cleanupTempFiles(filePaths);
-        }
-
-        this.logger.log(`Email sent successfully to: ${item.options.to} (ID: ${result.data?.id})`);
-      } catch (error) {
-        this.logger.warn(`Failed to send email to ${item.options.to}: ${error.message}`);
-
-        // Reintentar si no se ha alcanzado el límite de reintentos
-        if (item.retryCount < this.MAX_RETRIES) {
-          item.retryCount++;
-          // Retraso exponencial entre reintentos
-          setTimeout(() => {
-            this.emailQueue.push(item);
-            this.logger.log(`Queued email for retry (${item.retryCount}/${this.MAX_RETRIES})`);
-          }, this.RETRY_DELAY * item.retryCount);
-        } else {
-          this.logger.error(`Maximum retries reached for email to ${item.options.to}`);
-          // Limpiar archivos si hay un fallo definitivo
-          if (item.attachmentFiles && item.attachmentFiles.length > 0) {
-            await this.cleanupTempFiles(item.attachmentFiles.map(att => att.path));
-          }
-        }
-      }
-    } finally {
-      this.isProcessingQueue = false;
-    }
-  }
+    private readonly cloudinary: CloudinaryService,
+    private readonly outbox: EmailOutboxService,
+  ) { }
 
   /**
-   * Añade un correo a la cola para su envío
+   * Añade un correo al outbox persistente para su envío
    */
-  private queueEmail(
-    options: EmailQueueItem['options'],
-    attachmentFiles?: { filename: string; path: string }[]
-  ): void {
-    this.emailQueue.push({
-      options,
-      attachmentFiles,
-      retryCount: 0,
-    });
-
-    this.logger.log(`Email to ${options.to} added to queue. Queue size: ${this.emailQueue.length}`);
+  private async queueEmail(
+    options: EmailOptions,
+    attachments?: OutboxAttachment[]
+  ): Promise<void> {
+    await this.outbox.enqueue(options, attachments);
   }
 
   private async getEmailSender(type: 'default' | 'security' | 'notifications' = 'default'): Promise<string> {
@@ -196,33 +95,24 @@ export class MailService {
   /**
    * Descarga documentos PDF desde URLs proporcionadas de forma paralela
    */
-  async downloadPdfDocuments(urls: string[]): Promise<{ filename: string, path: string }[]> {
+  async downloadPdfDocuments(urls: string[]): Promise<OutboxAttachment[]> {
     if (!urls || urls.length === 0) {
       return [];
     }
 
-    const tempDir = path.join(process.cwd(), 'temp');
-    // Asegurarse de que exista el directorio temporal
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
     // Descargar todos los documentos en paralelo
-    const downloadPromises = urls.map(async (url, index) => {
+    const downloadPromises = urls.map(async (url, index): Promise<OutboxAttachment | null> => {
       try {
-        const response = await axios.get(url, {
-          responseType: 'stream',
+        const response = await axios.get<ArrayBuffer>(url, {
+          responseType: 'arraybuffer',
           timeout: 10000, // Timeout de 10 segundos para la descarga
         });
 
-        // Generar un nombre único para el archivo
-        const filename = `documento_${index + 1}_${Date.now()}.pdf`;
-        const filePath = path.join(tempDir, filename);
-
-        // Guardar el stream a un archivo
-        await this.pipeline(response.data, fs.createWriteStream(filePath));
-
-        return { filename, path: filePath };
+        return {
+          filename: `documento_${index + 1}_${Date.now()}.pdf`,
+          content: Buffer.from(response.data),
+          contentType: 'application/pdf',
+        };
       } catch (error) {
         this.logger.error(`Error al descargar el documento PDF desde ${url}: ${error.message}`);
         return null;
@@ -230,63 +120,18 @@ export class MailService {
     });
 
     const results = await Promise.all(downloadPromises);
-    return results.filter(
-      (result): result is { filename: string; path: string } => result !== null
-    );
+    return results.filter((result): result is OutboxAttachment => result !== null);
   }
 
   /**
-   * Convierte archivos locales a attachments para Resend
+   * Convierte archivos subidos a adjuntos del outbox
    */
-  private async prepareAttachments(files: { filename: string; path: string }[]): Promise<Array<{
-    filename: string;
-    content: Buffer;
-    contentType?: string;
-  }>> {
-    const attachments: Array<{
-      filename: string;
-      content: Buffer;
-      contentType?: string;
-    }> = [];
-
-    for (const file of files) {
-      try {
-        if (fs.existsSync(file.path)) {
-          const content = fs.readFileSync(file.path);
-          attachments.push({
-            filename: file.filename,
-            content,
-            contentType: 'application/pdf'
-          });
-        }
-      } catch (error) {
-        this.logger.error(`Error preparing attachment ${file.filename}: ${error.message}`);
-      }
-    }
-
-    return attachments;
-  }
-
-  /**
-   * Limpia los archivos temporales después de enviar el correo
-   */
-  async cleanupTempFiles(filePaths: string[]): Promise<void> {
-    const deletePromises = filePaths.map(filePath => {
-      return new Promise<void>((resolve) => {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            this.logger.debug(`Temporary file deleted: ${filePath}`);
-          }
-          resolve();
-        } catch (error) {
-          this.logger.error(`Error deleting temporary file ${filePath}: ${error.message}`);
-          resolve(); // Resolvemos la promesa aunque haya error para no bloquear
-        }
-      });
-    });
-
-    await Promise.all(deletePromises);
+  private toAttachments(files: Express.Multer.File[]): OutboxAttachment[] {
+    return files.map(file => ({
+      filename: file.originalname,
+      content: file.buffer,
+      contentType: file.mimetype,
+    }));
   }
 
   private async prepareHtmlTemplate(mjmlContent: string): Promise<string> {
@@ -337,7 +182,7 @@ export class MailService {
         html,
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare activation email: ${error.message}`);
       throw new Error(`Failed to send activation email: ${error.message}`);
@@ -363,7 +208,7 @@ export class MailService {
         html,
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare welcome email: ${error.message}`);
       throw new Error(`Failed to send welcome email: ${error.message}`);
@@ -373,7 +218,7 @@ export class MailService {
   async sendCreateNewLoan(data: {
     mail: string,
     loanId: string,
-    reqCantity: string,
+    reqCantity: number,
     documentUrls?: string[]
   }): Promise<void> {
     try {
@@ -386,27 +231,18 @@ export class MailService {
       const html = await this.prepareHtmlTemplate(content);
 
       // Preparar las opciones básicas del correo
-      const mailOptions: EmailQueueItem['options'] = {
+      const mailOptions: EmailOptions = {
         from: await this.getEmailSender(),
         to: data.mail,
         subject: 'Nueva solicitud de préstamo creada',
         html,
       };
 
-      let downloadedFiles: { filename: string, path: string }[] = [];
-
       // Si hay URLs de documentos, descargarlos y añadirlos como adjuntos
-      if (data.documentUrls && data.documentUrls.length > 0) {
-        downloadedFiles = await this.downloadPdfDocuments(data.documentUrls);
-
-        // Preparar attachments para Resend
-        if (downloadedFiles.length > 0) {
-          mailOptions.attachments = await this.prepareAttachments(downloadedFiles);
-        }
-      }
+      const attachments = await this.downloadPdfDocuments(data.documentUrls ?? []);
 
       // Enviar el correo con los adjuntos
-      this.queueEmail(mailOptions, downloadedFiles);
+      await this.queueEmail(mailOptions, attachments);
     } catch (error) {
       this.logger.error(`Failed to prepare new loan email: ${error.message}`);
       throw new Error(`Failed to send new loan email: ${error.message}`);
@@ -433,7 +269,8 @@ export class MailService {
         priority: 'high' as 'high',
       };
 
-      this.queueEmail(mailOptions);
+      // Lleva el código en claro: se envía sin guardarlo en el outbox
+      await this.outbox.sendNow(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare token verification email: ${error.message}`);
       throw new Error(`Failed to send token verification email: ${error.message}`);
@@ -444,7 +281,7 @@ export class MailService {
     employeeName: string;
     loanId: string;
     reason_aproved: string;
-    cantity_aproved: string;
+    cantity_aproved: number;
     mail: string;
   }): Promise<void> {
     try {
@@ -468,7 +305,7 @@ export class MailService {
         html,
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare change quantity email: ${error.message}`);
       throw new Error(`Failed to send change quantity email: ${error.message}`);
@@ -501,13 +338,46 @@ export class MailService {
         html,
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare status change email: ${error.message}`);
       throw new Error(`Failed to send status change email: ${error.message}`);
     }
   }
 
+  async sendIssueStatusMail(data: {
+    issueId: string;
+    status: string;
+    resSupport?: string | null;
+    mail: string;
+  }): Promise<void> {
+    try {
+      if (!data.mail || !data.issueId || !data.status) {
+        throw new Error('Missing required fields for issue status email');
+      }
+
+      const content = generateMailIssueStatus({
+        issueId: data.issueId,
+        status: data.status,
+        resSupport: data.resSupport,
+      });
+
+      const html = await this.prepareHtmlTemplate(content);
+
+      const mailOptions = {
+        from: await this.getEmailSender('notifications'),
+        to: data.mail,
+        subject: 'Actualización de tu reporte',
+        html,
+      };
+
+      await this.queueEmail(mailOptions);
+    } catch (error) {
+      this.logger.error(`Failed to prepare issue status email: ${error.message}`);
+      throw new Error(`Failed to send issue status email: ${error.message}`);
+    }
+  }
+
   async sendDeleteDocMail(data: {
     loanId: string;
     mail: string
@@ -527,7 +397,7 @@ export class MailService {
         html,
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare document rejection email: ${error.message}`);
       throw new Error(`Failed to send document rejection email: ${error.message}`);
@@ -555,7 +425,8 @@ export class MailService {
         priority: 'high' as 'high',
       };
 
-      this.queueEmail(mailOptions);
+      // El enlace da acceso a la cuenta: se envía sin guardarlo en el outbox
+      await this.outbox.sendNow(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare password reset email: ${error.message}`);
       throw new Error(`Failed to send password reset email: ${error.message}`);
@@ -579,7 +450,7 @@ export class MailService {
         priority: 'high' as 'high', // Alta prioridad para correos de seguridad
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
     } catch (error) {
       this.logger.error(`Failed to prepare password change confirmation email: ${error.message}`);
       throw new Error(`Failed to send password change confirmation email: ${error.message}`);
@@ -630,7 +501,7 @@ export class MailService {
         priority: 'high' as 'high',
       };
 
-      this.queueEmail(mailOptions);
+      await this.queueEmail(mailOptions);
 
     } catch (error) {
       this.logger.error(`Failed to prepare disbursement email: ${error.message}`);
@@ -673,7 +544,7 @@ export class MailService {
       const html = await this.prepareHtmlTemplate(content);
 
       // Preparar las opciones básicas del correo
-      const mailOptions: EmailQueueItem['options'] = {
+      const mailOptions: EmailOptions = {
         from: await this.getEmailSender('default'),
         to: email,
         subject,
@@ -681,19 +552,8 @@ export class MailService {
         priority: priority || 'normal',
       };
 
-      let tempFiles: { filename: string; path: string }[] = [];
-
-      // Si hay archivos adjuntos, procesarlos
-      if (files && files.length > 0) {
-        tempFiles = await this.saveUploadedFiles(files);
-
-        if (tempFiles.length > 0) {
-          mailOptions.attachments = await this.prepareAttachments(tempFiles);
-        }
-      }
-
-      // Enviar el correo
-      this.queueEmail(mailOptions, tempFiles);
+      // Enviar el correo con los archivos adjuntos, si los hay
+      await this.queueEmail(mailOptions, this.toAttachments(files ?? []));
 
       this.logger.log(`Custom email queued successfully for: ${data.email}`);
     } catch (error) {
@@ -702,6 +562,37 @@ export class MailService {
     }
   }
 
+  /**
+   * Correo de texto libre con un código de acceso. Como los de verificación, se envía
+   * directamente para que el código no quede guardado en el outbox.
+   */
+  async sendCodeEmail(data: {
+    email: string;
+    subject: string;
+    message: string;
+    recipientName?: string;
+  }): Promise<void> {
+    try {
+      const content = generateCustomEmail({
+        subject: data.subject,
+        message: data.message,
+        recipientName: data.recipientName,
+        senderName: 'CreditoYa'
+      });
+
+      await this.outbox.sendNow({
+        from: await this.getEmailSender('security'),
+        to: data.email,
+        subject: data.subject,
+        html: await this.prepareHtmlTemplate(content),
+        priority: 'high',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send code email: ${error.message}`);
+      throw new Error(`Failed to send code email: ${error.message}`);
+    }
+  }
+
   async sendAnnouncementEmail(data: {
     subject: string;
     email: string;
@@ -765,7 +656,7 @@ export class MailService {
       const html = await this.prepareHtmlTemplate(content);
 
       // Preparar las opciones básicas del correo
-      const mailOptions: EmailQueueItem['options'] = {
+      const mailOptions: EmailOptions = {
         from: await this.getEmailSender('notifications'),
         to: email,
         subject: subject,
@@ -773,19 +664,8 @@ export class MailService {
         priority: priority || 'normal',
       };
 
-      let tempFiles: { filename: string; path: string }[] = [];
-
-      // Si hay archivos adjuntos, procesarlos
-      if (bannerImage && bannerImage.length > 0) {
-        tempFiles = await this.saveUploadedFiles(bannerImage);
-
-        if (tempFiles.length > 0) {
-          mailOptions.attachments = await this.prepareAttachments(tempFiles);
-        }
-      }
-
-      // Enviar el correo
-      this.queueEmail(mailOptions, tempFiles);
+      // Enviar el correo con el banner como adjunto, si existe
+      await this.queueEmail(mailOptions, this.toAttachments(bannerImage ?? []));
 
       this.logger.log(`Announcement email queued successfully for: ${email}`);
     } catch (error) {
@@ -794,50 +674,8 @@ export class MailService {
     }
   }
 
-  /**
-   * Guarda los archivos subidos en el directorio temporal
-   */
-  private async saveUploadedFiles(files: Express.Multer.File[]): Promise<{ filename: string; path: string }[]> {
-    const tempDir = path.join(process.cwd(), 'temp');
-
-    // Asegurarse de que exista el directorio temporal
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
-    const savedFiles: { filename: string; path: string }[] = [];
-
-    for (const file of files) {
-      try {
-        // Generar un nombre único para el archivo
-        const fileExtension = path.extname(file.originalname);
-        const baseName = path.basename(file.originalname, fileExtension);
-        const uniqueName = `${baseName}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}${fileExtension}`;
-        const filePath = path.join(tempDir, uniqueName);
-
-        // Guardar el buffer del archivo
-        fs.writeFileSync(filePath, file.buffer);
-
-        savedFiles.push({
-          filename: file.originalname, // Mantener el nombre original para el email
-          path: filePath
-        });
-
-        this.logger.debug(`File saved: ${file.originalname} -> ${filePath}`);
-      } catch (error) {
-        this.logger.error(`Error saving file ${file.originalname}: ${error.message}`);
-      }
-    }
-
-    return savedFiles;
-  }
-
-
   // Método para uso en pruebas y depuración
-  async getQueueStatus(): Promise<{ queueSize: number, isProcessing: boolean }> {
-    return {
-      queueSize: this.emailQueue.length,
-      isProcessing: this.isProcessingQueue
-    };
+  async getQueueStatus() {
+    return this.outbox.getStatusCounts();
   }
-}
\ No newline at end of file
+}
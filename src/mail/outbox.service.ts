@@ -0,0 +1,350 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { EmailOutbox, EmailPriority, EmailStatus, Prisma } from '@prisma/client';
+import { Resend } from 'resend';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GoogleCloudService } from 'src/gcp/gcp.service';
+
+export interface OutboxMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  priority?: EmailPriority;
+}
+
+export interface OutboxAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+const PRIORITY_RANK: Record<EmailPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Los correos enviados pierden su HTML al enviarse y el registro se elimina pasado este plazo
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class EmailOutboxService implements OnModuleInit, OnModuleDestroy {
+  private resend: Resend;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly MAX_ATTEMPTS = 4;
+  private readonly RETRY_DELAY = 5000; // 5 segundos, se duplica en cada intento
+  private readonly MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hora
+  private readonly LEASE_DURATION = 60 * 1000; // 1 minuto
+  private readonly BATCH_SIZE = 5;
+  private readonly QUEUE_PROCESSING_INTERVAL = 1000; // 1 segundo
+  private readonly logger = new Logger(EmailOutboxService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly gcp: GoogleCloudService,
+  ) {
+    const resendApiKey = this.configService.get<string>('RESEND_API_KEY');
+
+    if (!resendApiKey) {
+      throw new Error('Resend API key not properly configured');
+    }
+
+    this.resend = new Resend(resendApiKey);
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => this.processQueue(), this.QUEUE_PROCESSING_INTERVAL);
+    this.logger.log(`Email outbox worker started (${this.workerId})`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Guarda el correo en el outbox. Los adjuntos se suben a GCS para que
+   * el envío no dependa de archivos locales de la instancia que lo encoló.
+   */
+  async enqueue(message: OutboxMessage, files: OutboxAttachment[] = []): Promise<EmailOutbox> {
+    const id = randomUUID();
+
+    const attachments = await Promise.all(files.map(async (file, index) => ({
+      filename: file.filename,
+      contentType: file.contentType ?? null,
+      path: await this.gcp.uploadBuffer(
+        `mail_attachments/${id}/${index + 1}_${file.filename.replace(/[^\w.-]/g, '_')}`,
+        file.content,
+        file.contentType,
+      ),
+    })));
+
+    const email = await this.prisma.emailOutbox.create({
+      data: {
+        id,
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        priority: message.priority ?? 'normal',
+        attachments,
+        maxAttempts: this.MAX_ATTEMPTS,
+      },
+    });
+
+    this.logger.log(`Email to ${message.to} added to outbox (${email.id})`);
+    return email;
+  }
+
+  /**
+   * Envía un correo sin pasar por el outbox. Es para los que llevan códigos o enlaces de
+   * acceso: guardarlos en texto plano anularía el hash con que se almacenan los códigos.
+   * No hay reintentos; si falla, quien lo llama responde el error y el usuario pide otro.
+   */
+  async sendNow(message: OutboxMessage): Promise<void> {
+    const providerId = await this.send(message);
+    this.logger.log(`Email sent directly to: ${message.to} (ID: ${providerId})`);
+  }
+
+  /**
+   * Toma correos pendientes con un lease y los envía. Un lease vencido indica que la
+   * instancia que lo tomó se detuvo a mitad del envío, así que el correo vuelve a estar disponible.
+   */
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+      const candidates = await this.prisma.emailOutbox.findMany({
+        where: this.availableWhere(now),
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.BATCH_SIZE * 4,
+        select: { id: true, priority: true },
+      });
+
+      candidates.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+
+      let processed = 0;
+      for (const candidate of candidates) {
+        if (processed >= this.BATCH_SIZE) break;
+
+        const email = await this.claim(candidate.id);
+        if (!email) continue;
+
+        processed++;
+        await this.deliver(email);
+      }
+    } catch (error) {
+      this.logger.error(`Error processing email outbox: ${error.message}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async getStatusCounts() {
+    const statuses = Object.values(EmailStatus);
+    const counts = await Promise.all(
+      statuses.map(status => this.prisma.emailOutbox.count({ where: { status } })),
+    );
+
+    const byStatus = Object.fromEntries(statuses.map((status, i) => [status, counts[i]])) as Record<EmailStatus, number>;
+
+    return {
+      counts: byStatus,
+      queueSize: byStatus.queued + byStatus.failed + byStatus.sending,
+      isProcessing: this.isProcessing,
+      workerId: this.workerId,
+    };
+  }
+
+  async findAll(status: EmailStatus = 'dead', page: number = 1, pageSize: number = 20) {
+    const where: Prisma.EmailOutboxWhereInput = { status };
+
+    const [total, data] = await Promise.all([
+      this.prisma.emailOutbox.count({ where }),
+      this.prisma.emailOutbox.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { updated_at: 'desc' },
+        // El HTML puede ser muy grande y no es necesario para listar
+        omit: { html: true },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  /**
+   * Vuelve a encolar un correo muerto o fallido reiniciando sus intentos
+   */
+  async requeue(id: string): Promise<EmailOutbox> {
+    const email = await this.prisma.emailOutbox.findUnique({ where: { id } });
+
+    if (!email) {
+      throw new NotFoundException(`Correo con ID ${id} no encontrado`);
+    }
+
+    if (email.status !== 'dead' && email.status !== 'failed') {
+      throw new BadRequestException('Solo se pueden reenviar correos muertos o fallidos');
+    }
+
+    const requeued = await this.prisma.emailOutbox.update({
+      where: { id },
+      data: {
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    this.logger.log(`Email ${id} to ${email.to} requeued`);
+    return requeued;
+  }
+
+  async requeueAllDead(): Promise<{ requeued: number }> {
+    const { count } = await this.prisma.emailOutbox.updateMany({
+      where: { status: 'dead' },
+      data: {
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    this.logger.log(`${count} dead emails requeued`);
+    return { requeued: count };
+  }
+
+  /**
+   * Elimina los correos enviados hace más de 30 días. Los muertos se conservan para poder reenviarlos.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_5AM)
+  async purgeSent(): Promise<void> {
+    const { count } = await this.prisma.emailOutbox.deleteMany({
+      where: { status: 'sent', sentAt: { lt: new Date(Date.now() - SENT_RETENTION_MS) } },
+    });
+
+    this.logger.log(`${count} sent emails purged from outbox`);
+  }
+
+  private availableWhere(now: Date): Prisma.EmailOutboxWhereInput {
+    return {
+      OR: [
+        { status: { in: ['queued', 'failed'] }, nextAttemptAt: { lte: now } },
+        { status: 'sending', leaseExpiresAt: { lt: now } },
+      ],
+    };
+  }
+
+  // updateMany con la misma condición de disponibilidad funciona como compare-and-set:
+  // si otra instancia tomó el correo primero, no se actualiza ningún documento
+  private async claim(id: string): Promise<EmailOutbox | null> {
+    const now = new Date();
+    const { count } = await this.prisma.emailOutbox.updateMany({
+      where: { id, ...this.availableWhere(now) },
+      data: {
+        status: 'sending',
+        leaseOwner: this.workerId,
+        leaseExpiresAt: new Date(now.getTime() + this.LEASE_DURATION),
+      },
+    });
+
+    if (count !== 1) {
+      return null;
+    }
+
+    return this.prisma.emailOutbox.findUnique({ where: { id } });
+  }
+
+  private async deliver(email: EmailOutbox): Promise<void> {
+    const attempts = email.attempts + 1;
+
+    try {
+      // Solo los enviados pierden el HTML y esos ya no se pueden tomar
+      if (email.html === null) {
+        throw new Error('Email content was already cleared');
+      }
+
+      const attachments = await Promise.all(email.attachments.map(async attachment => ({
+        filename: attachment.filename,
+        content: await this.gcp.downloadFile(attachment.path),
+        contentType: attachment.contentType ?? undefined,
+      })));
+
+      const providerId = await this.send({ ...email, html: email.html }, attachments);
+
+      await this.prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: {
+          status: 'sent',
+          html: null,
+          attempts,
+          sentAt: new Date(),
+          providerId,
+          lastError: null,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      // Los adjuntos solo se conservan mientras el correo pueda reenviarse
+      await Promise.all(email.attachments.map(attachment => this.gcp.deleteFile(attachment.path)));
+
+      this.logger.log(`Email sent successfully to: ${email.to} (ID: ${providerId})`);
+    } catch (error) {
+      const dead = attempts >= email.maxAttempts;
+      const delay = Math.min(this.RETRY_DELAY * Math.pow(2, attempts - 1), this.MAX_RETRY_DELAY);
+
+      await this.prisma.emailOutbox.update({
+        where: { id: email.id },
+        data: {
+          status: dead ? 'dead' : 'failed',
+          attempts,
+          lastError: error.message,
+          nextAttemptAt: new Date(Date.now() + delay),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      if (dead) {
+        this.logger.error(`Maximum retries reached for email to ${email.to} (${email.id})`);
+      } else {
+        this.logger.warn(`Failed to send email to ${email.to}: ${error.message}. Retry ${attempts}/${email.maxAttempts - 1} in ${delay / 1000}s`);
+      }
+    }
+  }
+
+  private async send(
+    message: Pick<OutboxMessage, 'from' | 'to' | 'subject' | 'html'>,
+    attachments: { filename: string; content: Buffer; contentType?: string }[] = [],
+  ): Promise<string | null> {
+    const result = await this.resend.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    return result.data?.id ?? null;
+  }
+}
@@ -1,7 +1,13 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
-import { MailService } from '../mail/mail.service';
+import { OtpService } from '../otp/otp.service';
+import { SessionService } from '../session/session.service';
+import { applyLoanTransition, assertLoanTransition, loanHistoryEntry } from '../loan/services/status-transitions';
+import { formatCop } from 'handlers/money';
+
+// Igual a la duración del token del bot
+const BOT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class BotAuthService {
@@ -10,12 +16,55 @@ export class BotAuthService {
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
-    private mailService: MailService,
+    private otpService: OtpService,
+    private sessions: SessionService,
   ) {}
 
-  // Generar PIN de 6 dígitos
-  private generatePin(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  // Verificar el token del bot y que su sesión siga activa
+  private async verifyClientToken(token: string) {
+    const decoded = this.jwtService.verify(token);
+
+    if (decoded.type !== 'client') {
+      throw new BadRequestException('El token no corresponde a un cliente');
+    }
+
+    if (!(await this.sessions.isActive(decoded.jti, decoded.sub, 'client'))) {
+      throw new BadRequestException('La sesión ha sido cerrada, solicite un nuevo código');
+    }
+
+    return decoded;
+  }
+
+  // Los montos se guardan en pesos enteros; el bot recibe también el texto listo para mostrar
+  private withFormattedAmounts<T extends { cantity: number; newCantity: number | null }>(loan: T) {
+    return {
+      ...loan,
+      cantityFormatted: formatCop(loan.cantity),
+      newCantityFormatted: loan.newCantity !== null ? formatCop(loan.newCantity) : null,
+    };
+  }
+
+  /**
+   * Firma un token corto para una sesión del bot existente. Lo usan los canales que
+   * no conservan el token entre mensajes, como WhatsApp. Retorna null si la sesión ya no es válida.
+   */
+  async tokenForSession(sessionId: string): Promise<string | null> {
+    const session = await this.prisma.authSession.findUnique({ where: { id: sessionId } });
+
+    if (!session || !(await this.sessions.isActive(sessionId, session.userId, 'client'))) {
+      return null;
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: session.userId } });
+
+    if (!user || user.isBan) {
+      return null;
+    }
+
+    return this.jwtService.sign(
+      { sub: user.id, email: user.email, type: 'client', source: 'bot' },
+      { expiresIn: '5m', jwtid: sessionId },
+    );
   }
 
   /**
@@ -55,41 +104,30 @@ export class BotAuthService {
         throw new BadRequestException('Su cuenta ha sido suspendida');
       }
 
-      // Generar PIN
-      const pin = this.generatePin();
-      const pinExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutos
+      const { expiresAt } = await this.otpService.issue('bot-login', user.email, {
+        destination: user.email,
+        name: user.names,
+      });
 
-      // Crear o actualizar registro en BotUser
+      // BotUser queda como registro de quién usa el bot
       await this.prisma.botUser.upsert({
         where: { email },
         update: {
-          pin,
-          pinExpiry,
           lastPinSentAt: new Date(),
           userId: user.id,
         },
         create: {
           email,
-          pin,
-          pinExpiry,
           lastPinSentAt: new Date(),
           userId: user.id,
           isActive: true,
         },
       });
 
-      // Enviar email con el PIN
-      await this.mailService.sendCustomEmail({
-        email: user.email,
-        subject: 'Código de autenticación - Bot CreditoYa',
-        message: `Hola ${user.names},\n\nSu código de autenticación para el bot de CreditoYa es: ${pin}\n\nEste código expira en 10 minutos.\n\nSi no solicitó este código, ignore este mensaje.`,
-        files: [],
-      });
-
       this.logger.debug('PIN de autenticación enviado exitosamente para bot', {
         userId: user.id,
         email: user.email,
-        pinExpiry: pinExpiry.toISOString(),
+        pinExpiry: expiresAt.toISOString(),
       });
 
       return {
@@ -115,10 +153,11 @@ export class BotAuthService {
    * Tool MCP 2: Verificar PIN y generar token de 1 día
    * Verifica el PIN y genera un JWT con duración de 1 día
    */
-  async verifyAuthPin(email: string, pin: string): Promise<{
+  async verifyAuthPin(email: string, pin: string, channel: string = 'bot'): Promise<{
     success: boolean;
     message: string;
     accessToken?: string;
+    sessionId?: string;
     user?: {
       id: string;
       email: string;
@@ -130,40 +169,8 @@ export class BotAuthService {
     this.logger.debug('Verificando PIN de autenticación para bot', { email });
 
     try {
-      // Buscar BotUser con el email
-      const botUser = await this.prisma.botUser.findUnique({
-        where: { email },
-      });
-
-      if (!botUser) {
-        this.logger.warn('BotUser no encontrado', { email });
-        throw new BadRequestException(
-          'No se encontró solicitud de autenticación. Debe solicitar un código primero.',
-        );
-      }
-
-      // Verificar si el PIN existe
-      if (!botUser.pin) {
-        this.logger.warn('No hay PIN almacenado para este BotUser', { email });
-        throw new BadRequestException('Debe solicitar un código de autenticación primero');
-      }
-
-      // Verificar PIN
-      if (botUser.pin !== pin) {
-        this.logger.warn('PIN incorrecto para bot', { email });
-        throw new BadRequestException('Código de autenticación incorrecto');
-      }
-
-      // Verificar expiración
-      if (botUser.pinExpiry && botUser.pinExpiry < new Date()) {
-        this.logger.warn('PIN expirado para bot', { email });
-        // Limpiar PIN expirado
-        await this.prisma.botUser.update({
-          where: { email },
-          data: { pin: null, pinExpiry: null },
-        });
-        throw new BadRequestException('Código de autenticación expirado');
-      }
+      // Separado del PIN de la web: pedir uno en el bot no invalida el otro
+      await this.otpService.verify('bot-login', email, pin);
 
       // Buscar usuario en tabla User
       const user = await this.prisma.user.findUnique({
@@ -184,12 +191,6 @@ export class BotAuthService {
         throw new BadRequestException('Su cuenta ha sido suspendida');
       }
 
-      // Limpiar PIN usado
-      await this.prisma.botUser.update({
-        where: { email },
-        data: { pin: null, pinExpiry: null },
-      });
-
       // Generar token JWT con duración de 1 día
       const payload = {
         sub: user.id,
@@ -198,8 +199,12 @@ export class BotAuthService {
         source: 'bot', // Identificar que viene del bot
       };
 
+      // La sesión del bot se registra como sesión del cliente para que logout, ban o
+      // cambio de contraseña también la revoquen
+      const session = await this.sessions.create(user.id, 'client', { userAgent: channel }, BOT_SESSION_TTL_MS);
       const token = this.jwtService.sign(payload, {
         expiresIn: '1d', // 1 día de duración
+        jwtid: session.id,
       });
 
       this.logger.debug('PIN verificado y token generado para bot', {
@@ -212,6 +217,7 @@ export class BotAuthService {
         success: true,
         message: 'Autenticación exitosa',
         accessToken: token,
+        sessionId: session.id,
         user: {
           id: user.id,
           email: user.email,
@@ -246,11 +252,7 @@ export class BotAuthService {
 
     try {
       // Verificar y decodificar el token
-      const decoded = this.jwtService.verify(token);
-
-      if (decoded.type !== 'client') {
-        throw new BadRequestException('El token no corresponde a un cliente');
-      }
+      const decoded = await this.verifyClientToken(token);
 
       // Obtener perfil del cliente
       const user = await this.prisma.user.findUnique({
@@ -303,11 +305,7 @@ export class BotAuthService {
     this.logger.debug('Obteniendo último préstamo del cliente');
 
     try {
-      const decoded = this.jwtService.verify(token);
-
-      if (decoded.type !== 'client') {
-        throw new BadRequestException('El token no corresponde a un cliente');
-      }
+      const decoded = await this.verifyClientToken(token);
 
       const loan = await this.prisma.loanApplication.findFirst({
         where: { userId: decoded.sub },
@@ -340,7 +338,7 @@ export class BotAuthService {
 
       return {
         success: true,
-        loan,
+        loan: this.withFormattedAmounts(loan),
       };
     } catch (error) {
       if (error instanceof BadRequestException) {
@@ -364,11 +362,7 @@ export class BotAuthService {
     this.logger.debug('Obteniendo todos los préstamos del cliente');
 
     try {
-      const decoded = this.jwtService.verify(token);
-
-      if (decoded.type !== 'client') {
-        throw new BadRequestException('El token no corresponde a un cliente');
-      }
+      const decoded = await this.verifyClientToken(token);
 
       const loans = await this.prisma.loanApplication.findMany({
         where: { userId: decoded.sub },
@@ -393,7 +387,7 @@ export class BotAuthService {
 
       return {
         success: true,
-        loans,
+        loans: loans.map(loan => this.withFormattedAmounts(loan)),
         total: loans.length,
       };
     } catch (error) {
@@ -420,11 +414,7 @@ export class BotAuthService {
     this.logger.debug('Obteniendo detalles de préstamo', { loanId });
 
     try {
-      const decoded = this.jwtService.verify(token);
-
-      if (decoded.type !== 'client') {
-        throw new BadRequestException('El token no corresponde a un cliente');
-      }
+      const decoded = await this.verifyClientToken(token);
 
       const loan = await this.prisma.loanApplication.findFirst({
         where: {
@@ -459,7 +449,7 @@ export class BotAuthService {
 
       return {
         success: true,
-        loan,
+        loan: this.withFormattedAmounts(loan),
       };
     } catch (error) {
       if (
@@ -494,11 +484,7 @@ export class BotAuthService {
     });
 
     try {
-      const decoded = this.jwtService.verify(token);
-
-      if (decoded.type !== 'client') {
-        throw new BadRequestException('El token no corresponde a un cliente');
-      }
+      const decoded = await this.verifyClientToken(token);
 
       // Verificar que el préstamo pertenece al cliente
       const loan = await this.prisma.loanApplication.findFirst({
@@ -519,13 +505,24 @@ export class BotAuthService {
         );
       }
 
-      // Actualizar el préstamo
-      const updatedLoan = await this.prisma.loanApplication.update({
-        where: { id: loanId },
-        data: {
-          newCantityOpt: accept,
-          status: accept ? 'Aprobado' : 'Archivado',
-        },
+      const status = accept ? 'Aprobado' : 'Archivado';
+      assertLoanTransition(loan, status);
+
+      // Actualizar el préstamo y registrar la transición
+      const updatedLoan = await this.prisma.$transaction(async (tx) => {
+        await applyLoanTransition(tx, loan, { newCantityOpt: accept, status });
+        const updated = await tx.loanApplication.findUniqueOrThrow({ where: { id: loanId } });
+
+        await tx.loanStatusHistory.create({
+          data: loanHistoryEntry(
+            loan,
+            status,
+            { type: 'client', id: decoded.sub },
+            accept ? 'Nueva cantidad aceptada desde el bot' : 'Nueva cantidad rechazada desde el bot',
+          ),
+        });
+
+        return updated;
       });
 
       // Marcar evento como respondido si existe
@@ -551,7 +548,7 @@ export class BotAuthService {
         message: accept
           ? 'Oferta aceptada exitosamente'
           : 'Oferta rechazada exitosamente',
-        loan: updatedLoan,
+        loan: this.withFormattedAmounts(updatedLoan),
       };
     } catch (error) {
       if (
@@ -1,20 +1,38 @@
-import { Controller, Post, Body, Get } from '@nestjs/common';
+import { Controller, Post, Body, Get, UseGuards } from '@nestjs/common';
 import { McpService } from './mcp.service';
 import { BotAuthService } from './bot-auth.service';
+import { ApiKeyGuard } from 'src/auth/guards/api-key.guard';
+import { ApiScopes } from 'src/auth/decorators/api-scopes.decorator';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { RateLimit } from 'src/rate-limit/decorators/rate-limit.decorator';
+import { RateLimitService } from 'src/rate-limit/rate-limit.service';
+import { RateLimitPolicyName } from 'src/rate-limit/rate-limit.policies';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBody,
   ApiBadRequestResponse,
+  ApiSecurity,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiTooManyRequestsResponse,
 } from '@nestjs/swagger';
 
 @ApiTags('mcp')
 @Controller('mcp')
+// El bot entra con su llave de API; desde intranet solo para pruebas, con el permiso bot.test
+@UseGuards(ApiKeyGuard)
+@ApiScopes('bot:tools')
+@RequirePermission('bot.test')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Sin sesión o llave de API inválida' })
+@ApiForbiddenResponse({ description: 'La llave no tiene el permiso bot:tools' })
 export class McpController {
   constructor(
     private readonly mcpService: McpService,
     private readonly botAuthService: BotAuthService,
+    private readonly rateLimit: RateLimitService,
   ) {}
 
   @Get('tools')
@@ -198,8 +216,9 @@ export class McpController {
               },
             };
           }
-          const result = await this.botAuthService.sendAuthPin(args.email);
-          return { result };
+          return await this.withRateLimit('bot-pin-send', args.email, () =>
+            this.botAuthService.sendAuthPin(args.email),
+          );
         }
 
         case 'verify_auth_pin': {
@@ -211,11 +230,9 @@ export class McpController {
               },
             };
           }
-          const result = await this.botAuthService.verifyAuthPin(
-            args.email,
-            args.pin,
+          return await this.withRateLimit('bot-pin-verify', args.email, () =>
+            this.botAuthService.verifyAuthPin(args.email, args.pin),
           );
-          return { result };
         }
 
         case 'get_client_profile': {
@@ -311,6 +328,7 @@ export class McpController {
 
   // Endpoints directos para las herramientas (más fácil de probar)
   @Post('bot/send-pin')
+  @RateLimit('bot-pin-send')
   @ApiOperation({
     summary: 'Enviar PIN de verificación para autenticación del bot',
   })
@@ -341,11 +359,13 @@ export class McpController {
     },
   })
   @ApiBadRequestResponse({ description: 'Usuario no encontrado o cuenta suspendida' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados códigos solicitados; ver el encabezado Retry-After' })
   async sendBotPin(@Body() body: { email: string }) {
     return await this.botAuthService.sendAuthPin(body.email);
   }
 
   @Post('bot/verify-pin')
+  @RateLimit('bot-pin-verify')
   @ApiOperation({
     summary: 'Verificar PIN y obtener token de autenticación para el bot',
   })
@@ -392,6 +412,7 @@ export class McpController {
   @ApiBadRequestResponse({
     description: 'PIN incorrecto, expirado o usuario no encontrado',
   })
+  @ApiTooManyRequestsResponse({ description: 'Demasiados intentos; ver el encabezado Retry-After' })
   async verifyBotPin(@Body() body: { email: string; pin: string }) {
     return await this.botAuthService.verifyAuthPin(body.email, body.pin);
   }
@@ -502,4 +523,33 @@ export class McpController {
       body.accept,
     );
   }
+
+  /**
+   * /mcp/call no lleva @RateLimit porque la política depende de la herramienta; se aplica
+   * aquí con el correo como sujeto, que es lo único que distingue a cada usuario del bot.
+   * Los errores salen como JSON-RPC igual que el resto de la ruta.
+   */
+  private async withRateLimit(
+    policy: RateLimitPolicyName,
+    email: string,
+    action: () => Promise<any>,
+  ) {
+    const subject = { email, route: '/mcp/call' };
+    const decision = await this.rateLimit.consume(policy, subject).catch(() => null);
+
+    if (decision && !decision.allowed) {
+      return {
+        error: {
+          code: -32000,
+          message: `Demasiados intentos. Intente de nuevo en ${decision.retryAfter} segundos`,
+          data: { retryAfter: decision.retryAfter, locked: decision.locked },
+        },
+      };
+    }
+
+    const result = await action();
+    await this.rateLimit.recordSuccess(policy, subject).catch(() => undefined);
+
+    return { result };
+  }
 }
@@ -5,11 +5,19 @@ import { BotAuthService } from './bot-auth.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { JwtModule } from '@nestjs/jwt';
 import { MailModule } from '../mail/mail.module';
+import { SessionModule } from '../session/session.module';
+import { ApiClientModule } from '../api-client/api-client.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { OtpModule } from '../otp/otp.module';
 
 @Module({
   imports: [
     PrismaModule,
     MailModule,
+    SessionModule,
+    ApiClientModule,
+    RateLimitModule,
+    OtpModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'default-secret-key',
       signOptions: { expiresIn: '24h' },
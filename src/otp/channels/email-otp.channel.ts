@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { MailService } from 'src/mail/mail.service';
+import { OtpChannel, OtpDelivery } from './otp-channel';
+
+@Injectable()
+export class EmailOtpChannel implements OtpChannel {
+  readonly name = 'email' as const;
+
+  constructor(private readonly mailService: MailService) { }
+
+  async send(delivery: OtpDelivery): Promise<void> {
+    const minutes = Math.max(1, Math.round((delivery.expiresAt.getTime() - Date.now()) / 60000));
+
+    switch (delivery.purpose) {
+      case 'loan-confirmation':
+        return this.mailService.sendLoanTokenVerification({
+          token: delivery.code,
+          mail: delivery.destination,
+        });
+
+      case 'bot-login':
+        return this.mailService.sendCodeEmail({
+          email: delivery.destination,
+          subject: 'Código de autenticación - Bot CreditoYa',
+          message: `Hola${delivery.recipientName ? ` ${delivery.recipientName}` : ''},\n\nSu código de autenticación para el bot de CreditoYa es: ${delivery.code}\n\nEste código expira en ${minutes} minutos.\n\nSi no solicitó este código, ignore este mensaje.`,
+        });
+
+      case 'client-login':
+        return this.mailService.sendCodeEmail({
+          email: delivery.destination,
+          subject: 'Código de autenticación - CreditoYa',
+          message: `Su código de autenticación es: ${delivery.code}\n\nEste código expira en ${minutes} minutos.\n\nSi no solicitó este código, ignore este mensaje.`,
+        });
+    }
+  }
+}
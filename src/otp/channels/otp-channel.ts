@@ -0,0 +1,22 @@
+import type { OtpPurpose } from '../otp.purposes';
+
+export const OTP_CHANNELS = 'OTP_CHANNELS';
+
+export type OtpChannelName = 'email' | 'sms' | 'whatsapp';
+
+export interface OtpDelivery {
+  purpose: OtpPurpose;
+  code: string;
+  destination: string; // Correo o teléfono, según el canal
+  expiresAt: Date;
+  recipientName?: string;
+}
+
+/**
+ * Medio de entrega de los códigos. Para agregar SMS o WhatsApp basta con implementar
+ * esta interfaz y sumarla a OTP_CHANNELS en OtpModule.
+ */
+export interface OtpChannel {
+  readonly name: OtpChannelName;
+  send(delivery: OtpDelivery): Promise<void>;
+}
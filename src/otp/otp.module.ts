@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailModule } from 'src/mail/mail.module';
+import { OtpService } from './otp.service';
+import { EmailOtpChannel } from './channels/email-otp.channel';
+import { OTP_CHANNELS, OtpChannel } from './channels/otp-channel';
+
+@Module({
+  imports: [PrismaModule, MailModule, ScheduleModule.forRoot()],
+  providers: [
+    OtpService,
+    EmailOtpChannel,
+    {
+      provide: OTP_CHANNELS,
+      useFactory: (email: EmailOtpChannel): OtpChannel[] => [email],
+      inject: [EmailOtpChannel],
+    },
+  ],
+  exports: [OtpService],
+})
+export class OtpModule { }
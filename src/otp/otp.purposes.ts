@@ -0,0 +1,39 @@
+import { OtpChannelName } from './channels/otp-channel';
+
+export type OtpPurpose = 'client-login' | 'bot-login' | 'loan-confirmation';
+
+export interface OtpPurposeConfig {
+  length: number;
+  ttlSeconds: number;
+  maxAttempts: number; // Intentos de verificación por código; al agotarlos hay que pedir otro
+  resendCooldownSeconds: number;
+  channel: OtpChannelName; // Canal por defecto cuando el flujo no indica otro
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+export const OTP_PURPOSES: Record<OtpPurpose, OtpPurposeConfig> = {
+  'client-login': {
+    length: 6,
+    ttlSeconds: 10 * MINUTE,
+    maxAttempts: 5,
+    resendCooldownSeconds: MINUTE,
+    channel: 'email',
+  },
+  'bot-login': {
+    length: 6,
+    ttlSeconds: 10 * MINUTE,
+    maxAttempts: 5,
+    resendCooldownSeconds: MINUTE,
+    channel: 'email',
+  },
+  // El cliente confirma la solicitud cuando revisa su correo, que puede ser horas después
+  'loan-confirmation': {
+    length: 6,
+    ttlSeconds: 24 * HOUR,
+    maxAttempts: 5,
+    resendCooldownSeconds: MINUTE,
+    channel: 'email',
+  },
+};
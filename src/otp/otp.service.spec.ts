@@ -0,0 +1,134 @@
+import { OneTimeCode } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { OtpChannel, OtpDelivery } from './channels/otp-channel';
+import { OtpService } from './otp.service';
+
+interface CodeFilter {
+  id: string;
+  codeHash: string;
+  consumedAt: null;
+  attempts?: { lt: number };
+}
+
+interface CodeUpdate {
+  attempts?: { increment: number };
+  consumedAt?: Date;
+}
+
+// Guarda un único código en memoria y aplica las condiciones de updateMany como lo haría Mongo
+const fakePrisma = () => {
+  let stored: OneTimeCode | null = null;
+
+  const oneTimeCode = {
+    findUnique: jest.fn(() => Promise.resolve(stored && { ...stored })),
+    upsert: jest.fn(
+      ({ create }: { create: Omit<OneTimeCode, 'id' | 'created_at'> }) => {
+        stored = { id: 'code-1', created_at: new Date(), ...create };
+        return Promise.resolve({ ...stored });
+      },
+    ),
+    updateMany: jest.fn(
+      ({ where, data }: { where: CodeFilter; data: CodeUpdate }) => {
+        const matches =
+          stored !== null &&
+          stored.id === where.id &&
+          stored.codeHash === where.codeHash &&
+          stored.consumedAt === null &&
+          (!where.attempts || stored.attempts < where.attempts.lt);
+
+        if (!matches || !stored) return Promise.resolve({ count: 0 });
+
+        if (data.attempts) stored.attempts += data.attempts.increment;
+        if (data.consumedAt) stored.consumedAt = data.consumedAt;
+        return Promise.resolve({ count: 1 });
+      },
+    ),
+  };
+
+  return {
+    prisma: { oneTimeCode } as unknown as PrismaService,
+    expire: () => {
+      if (stored) stored.expiresAt = new Date(Date.now() - 1000);
+    },
+  };
+};
+
+describe('OtpService', () => {
+  let service: OtpService;
+  let expire: () => void;
+  let delivered: OtpDelivery[];
+
+  const issue = async () => {
+    await service.issue('client-login', 'ana@example.com', {
+      destination: 'ana@example.com',
+    });
+    return delivered[delivered.length - 1].code;
+  };
+
+  const wrongCode = (code: string) => (code === '000000' ? '111111' : '000000');
+
+  beforeEach(() => {
+    delivered = [];
+    const channel: OtpChannel = {
+      name: 'email',
+      send: (delivery) => {
+        delivered.push(delivery);
+        return Promise.resolve();
+      },
+    };
+    const fake = fakePrisma();
+    expire = fake.expire;
+    service = new OtpService(fake.prisma, [channel]);
+  });
+
+  it('accepts the delivered code once', async () => {
+    const code = await issue();
+
+    await expect(
+      service.verify('client-login', 'ana@example.com', code),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.verify('client-login', 'ana@example.com', code),
+    ).rejects.toThrow('Debe solicitar un código de verificación primero');
+  });
+
+  it('counts down the remaining attempts on a wrong code', async () => {
+    const code = await issue();
+
+    await expect(
+      service.verify('client-login', 'ana@example.com', wrongCode(code)),
+    ).rejects.toThrow('Le quedan 4 intentos');
+  });
+
+  it('rejects even the right code once the attempts run out', async () => {
+    const code = await issue();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(
+        service.verify('client-login', 'ana@example.com', wrongCode(code)),
+      ).rejects.toThrow('Código de verificación incorrecto');
+    }
+    await expect(
+      service.verify('client-login', 'ana@example.com', wrongCode(code)),
+    ).rejects.toThrow('Solicite un nuevo código');
+
+    await expect(
+      service.verify('client-login', 'ana@example.com', code),
+    ).rejects.toThrow('Superó el número de intentos');
+  });
+
+  it('rejects an expired code', async () => {
+    const code = await issue();
+    expire();
+
+    await expect(
+      service.verify('client-login', 'ana@example.com', code),
+    ).rejects.toThrow('El código de verificación expiró');
+  });
+
+  it('enforces the cooldown before sending another code', async () => {
+    await issue();
+
+    await expect(issue()).rejects.toThrow('antes de solicitar un nuevo código');
+  });
+});
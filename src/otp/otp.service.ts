@@ -0,0 +1,175 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { OneTimeCode } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { OTP_CHANNELS, OtpChannel, OtpChannelName } from './channels/otp-channel';
+import { OTP_PURPOSES, OtpPurpose } from './otp.purposes';
+
+export interface OtpRecipient {
+  destination: string;
+  channel?: OtpChannelName;
+  name?: string;
+}
+
+export interface IssuedOtp {
+  channel: OtpChannelName;
+  expiresAt: Date;
+}
+
+// Los códigos vencidos se conservan un día para poder revisar intentos recientes
+const PURGE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class OtpService {
+  private logger = new Logger(OtpService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(OTP_CHANNELS) private readonly channels: OtpChannel[],
+  ) {
+    if (!process.env.OTP_SECRET && !process.env.JWT_SECRET) {
+      this.logger.warn('OTP_SECRET y JWT_SECRET no están definidos; los códigos se firman sin secreto');
+    }
+  }
+
+  /**
+   * Genera un código para el propósito y sujeto, reemplaza el anterior y lo entrega por el canal.
+   * El sujeto es lo que identifica el flujo: el correo en los PIN, el id de la pre-solicitud en préstamos.
+   */
+  async issue(purpose: OtpPurpose, subject: string, recipient: OtpRecipient): Promise<IssuedOtp> {
+    const config = OTP_PURPOSES[purpose];
+    const channelName = recipient.channel ?? config.channel;
+    const channel = this.channels.find(candidate => candidate.name === channelName);
+
+    if (!channel) {
+      throw new BadRequestException(`El canal ${channelName} no está disponible para enviar códigos`);
+    }
+
+    const now = new Date();
+    const existing = await this.prisma.oneTimeCode.findUnique({
+      where: { purpose_subject: { purpose, subject } },
+    });
+
+    if (existing && !existing.consumedAt) {
+      const wait = Math.ceil((existing.sentAt.getTime() + config.resendCooldownSeconds * 1000 - now.getTime()) / 1000);
+      if (wait > 0) {
+        throw new BadRequestException(`Espere ${wait} segundos antes de solicitar un nuevo código`);
+      }
+    }
+
+    const code = randomInt(0, 10 ** config.length).toString().padStart(config.length, '0');
+    const salt = randomBytes(16).toString('hex');
+    const data = {
+      codeHash: this.hash(code, salt),
+      salt,
+      channel: channel.name,
+      attempts: 0,
+      maxAttempts: config.maxAttempts,
+      expiresAt: new Date(now.getTime() + config.ttlSeconds * 1000),
+      sentAt: now,
+      consumedAt: null,
+    };
+
+    const record = await this.prisma.oneTimeCode.upsert({
+      where: { purpose_subject: { purpose, subject } },
+      create: { purpose, subject, ...data },
+      update: data,
+    });
+
+    try {
+      await channel.send({
+        purpose,
+        code,
+        destination: recipient.destination,
+        expiresAt: record.expiresAt,
+        recipientName: recipient.name,
+      });
+    } catch (error) {
+      // Un código que nunca llegó no debe bloquear el reenvío por el tiempo de espera
+      await this.prisma.oneTimeCode.deleteMany({ where: { id: record.id, codeHash: record.codeHash } });
+      this.logger.error(`Error entregando el código ${purpose} por ${channel.name}`, error);
+      throw new BadRequestException('Error enviando el código de verificación');
+    }
+
+    this.logger.debug(`Código ${purpose} enviado por ${channel.name}`, { subject, expiresAt: record.expiresAt });
+
+    return { channel: channel.name, expiresAt: record.expiresAt };
+  }
+
+  /**
+   * Valida y consume el código. Cada llamada gasta un intento aunque el código sea correcto,
+   * así dos peticiones simultáneas no pueden pasar del máximo.
+   */
+  async verify(purpose: OtpPurpose, subject: string, code: string): Promise<void> {
+    const record = await this.prisma.oneTimeCode.findUnique({
+      where: { purpose_subject: { purpose, subject } },
+    });
+
+    if (!record || record.consumedAt) {
+      throw new BadRequestException('Debe solicitar un código de verificación primero');
+    }
+
+    if (record.expiresAt <= new Date()) {
+      throw new BadRequestException('El código de verificación expiró, solicite uno nuevo');
+    }
+
+    const reserved = await this.prisma.oneTimeCode.updateMany({
+      where: { id: record.id, codeHash: record.codeHash, consumedAt: null, attempts: { lt: record.maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (reserved.count === 0) {
+      this.logger.warn(`Intentos agotados para el código ${purpose}`, { subject });
+      throw new BadRequestException('Superó el número de intentos, solicite un nuevo código');
+    }
+
+    if (!this.matches(record, code)) {
+      const remaining = record.maxAttempts - record.attempts - 1;
+      this.logger.warn(`Código ${purpose} incorrecto`, { subject, remaining });
+      throw new BadRequestException(remaining > 0
+        ? `Código de verificación incorrecto. Le quedan ${remaining} intento${remaining === 1 ? '' : 's'}`
+        : 'Código de verificación incorrecto. Solicite un nuevo código');
+    }
+
+    const consumed = await this.prisma.oneTimeCode.updateMany({
+      where: { id: record.id, codeHash: record.codeHash, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new BadRequestException('El código de verificación ya fue usado');
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async purgeExpired(): Promise<void> {
+    try {
+      const { count } = await this.prisma.oneTimeCode.deleteMany({
+        where: { expiresAt: { lt: new Date(Date.now() - PURGE_AFTER_MS) } },
+      });
+
+      if (count > 0) {
+        this.logger.log(`${count} códigos de verificación vencidos eliminados`);
+      }
+    } catch (error) {
+      this.logger.error('Error al limpiar los códigos de verificación vencidos', error);
+    }
+  }
+
+  private matches(record: OneTimeCode, code: string): boolean {
+    if (typeof code !== 'string') return false;
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const received = Buffer.from(this.hash(code.trim(), record.salt), 'hex');
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  // Los códigos tienen pocas combinaciones: el secreto evita probarlas todas contra un respaldo filtrado
+  private hash(code: string, salt: string): string {
+    return createHmac('sha256', process.env.OTP_SECRET || process.env.JWT_SECRET || '')
+      .update(`${salt}:${code}`)
+      .digest('hex');
+  }
+}
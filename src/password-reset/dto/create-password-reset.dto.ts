@@ -1,13 +1,25 @@
+import { IsEmail, IsIn, IsNotEmpty, IsString } from 'class-validator';
+
 export class GenerateMagicLinkDto {
+  @IsEmail()
   email: string;
+
+  @IsIn(['client', 'intranet'])
   userType: 'client' | 'intranet';
 }
 
 export class ResetPasswordDto {
+  @IsNotEmpty()
+  @IsString()
   token: string;
+
+  @IsNotEmpty()
+  @IsString()
   newPassword: string;
 }
 
 export class ValidateTokenDto {
+  @IsNotEmpty()
+  @IsString()
   token: string;
 }
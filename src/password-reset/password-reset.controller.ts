@@ -1,13 +1,15 @@
 import { Controller, Get, Post, Body, Patch, Param, Delete, BadRequestException, Query } from '@nestjs/common';
 import { PasswordResetService } from './password-reset.service';
 import { GenerateMagicLinkDto, ResetPasswordDto, ValidateTokenDto } from './dto/create-password-reset.dto';
+import { RateLimit } from 'src/rate-limit/decorators/rate-limit.decorator';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiQuery,
   ApiBody,
-  ApiBadRequestResponse
+  ApiBadRequestResponse,
+  ApiTooManyRequestsResponse
 } from '@nestjs/swagger';
 
 @ApiTags('password-reset')
@@ -16,10 +18,12 @@ export class PasswordResetController {
   constructor(private readonly passwordResetService: PasswordResetService) { }
 
   @Post('generate-link')
+  @RateLimit('password-reset')
   @ApiOperation({ summary: 'Generar enlace mágico para restablecer contraseña' })
   @ApiBody({ type: GenerateMagicLinkDto, description: 'Datos para generar el enlace de recuperación' })
   @ApiResponse({ status: 201, description: 'Enlace mágico generado exitosamente' })
   @ApiBadRequestResponse({ description: 'Datos inválidos o usuario no encontrado' })
+  @ApiTooManyRequestsResponse({ description: 'Demasiadas solicitudes; ver el encabezado Retry-After' })
   async generateMagicLink(@Body() generateMagicLinkDto: GenerateMagicLinkDto) {
     const { email, userType } = generateMagicLinkDto;
 
@@ -6,6 +6,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { MailModule } from 'src/mail/mail.module';
+import { SessionModule } from 'src/session/session.module';
 import { ApiTags } from '@nestjs/swagger';
 
 @Module({
@@ -22,7 +23,8 @@ import { ApiTags } from '@nestjs/swagger';
     }),
     ScheduleModule.forRoot(),
     PrismaModule,
-    MailModule
+    MailModule,
+    SessionModule
   ],
   controllers: [PasswordResetController],
   providers: [PasswordResetService],
@@ -6,6 +6,7 @@ import { MailService } from 'src/mail/mail.service';
 import * as bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { SessionService } from 'src/session/session.service';
 
 @Injectable()
 export class PasswordResetService {
@@ -14,6 +15,7 @@ export class PasswordResetService {
   constructor(
     private prisma: PrismaService,
     private emailService: MailService,
+    private sessions: SessionService,
   ) { }
 
   /**
@@ -123,15 +125,17 @@ export class PasswordResetService {
 
     // Actualizar la contraseña en la base de datos según el tipo de usuario
     if (userType === 'client') {
-      await this.prisma.user.update({
+      const user = await this.prisma.user.update({
         where: { email },
         data: { password: hashedPassword },
       });
+      await this.sessions.revokeAllForUser(user.id, 'client', 'password_change');
     } else if (userType === 'intranet') {
-      await this.prisma.usersIntranet.update({
+      const user = await this.prisma.usersIntranet.update({
         where: { email },
         data: { password: hashedPassword },
       });
+      await this.sessions.revokeAllForUser(user.id, 'intranet', 'password_change');
     } else {
       throw new BadRequestException('Tipo de usuario no válido');
     }
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { PaystubService } from './paystub.service';
+
+@Module({
+  providers: [PaystubService],
+  exports: [PaystubService],
+})
+export class PaystubModule { }
@@ -0,0 +1,201 @@
+import { parseCop } from 'handlers/money';
+import { foldText } from 'handlers/search-text';
+import { DEDUCTION_CONCEPTS, GENERIC_PROFILE, PAYSTUB_PROFILES, PaystubProfile } from './paystub.profiles';
+
+export interface PaystubDeduction {
+  concept: string;
+  amount: number;
+}
+
+export interface PaystubExtraction {
+  // parsed: se leyó el neto y el periodo; partial: faltó alguno; unreadable: el PDF no tiene texto (p. ej. escaneado)
+  status: 'parsed' | 'partial' | 'unreadable';
+  employer: { profile: string | null; name: string | null };
+  period: { start: string | null; end: string | null; paidAt: string | null }; // Fechas YYYY-MM-DD
+  grossPay: number | null;
+  netPay: number | null;
+  deductions: PaystubDeduction[];
+  totalDeductions: number | null;
+  error?: string;
+}
+
+const MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+const MONTH = `(${MONTHS.join('|')}|setiembre)`;
+
+const DATE_PATTERNS: { regex: RegExp; toDate: (m: RegExpMatchArray) => string | null }[] = [
+  { regex: /(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/g, toDate: m => isoDate(+m[3], +m[2], +m[1]) },
+  { regex: /(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/g, toDate: m => isoDate(+m[1], +m[2], +m[3]) },
+  { regex: new RegExp(`(\\d{1,2})\\s+(?:de\\s+)?${MONTH}\\s+(?:de\\s+|del\\s+)?(\\d{4})`, 'g'), toDate: m => isoDate(+m[3], monthNumber(m[2]), +m[1]) },
+];
+// "del 1 al 15 de marzo de 2025"
+const DAY_RANGE = new RegExp(`del?\\s+(\\d{1,2})\\s+al\\s+(\\d{1,2})\\s+de\\s+${MONTH}\\s+(?:de\\s+|del\\s+)?(\\d{4})`);
+// "marzo de 2025": el periodo es el mes completo
+const MONTH_ONLY = new RegExp(`${MONTH}\\s+(?:de\\s+|del\\s+)?(\\d{4})`);
+// Montos con separadores de miles o de cuatro o más dígitos
+const AMOUNT = /\$?\s?\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|\d{4,}(?:[.,]\d{1,2})?/g;
+// Un texto con menos caracteres que esto es un PDF escaneado sin capa de texto
+const MIN_TEXT_LENGTH = 40;
+
+/**
+ * Extrae empleador, periodo, devengado, neto y deducciones del texto de un volante.
+ * Primero identifica el empleador y luego lee las etiquetas de su perfil junto con
+ * las genéricas; los montos se toman al final de la línea de la etiqueta o en la siguiente.
+ */
+export function parsePaystubText(text: string): PaystubExtraction {
+  const originalLines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const lines = originalLines.map(foldText);
+  const folded = lines.join('\n');
+
+  const result: PaystubExtraction = {
+    status: 'unreadable',
+    employer: { profile: null, name: null },
+    period: { start: null, end: null, paidAt: null },
+    grossPay: null,
+    netPay: null,
+    deductions: [],
+    totalDeductions: null,
+  };
+
+  if (folded.replace(/\s/g, '').length < MIN_TEXT_LENGTH) {
+    return result;
+  }
+
+  const profile = PAYSTUB_PROFILES.find(candidate => candidate.employer.some(regex => regex.test(folded)));
+  const labels = mergeLabels(profile);
+
+  if (profile) {
+    const index = lines.findIndex(line => profile.employer.some(regex => regex.test(line)));
+    result.employer = { profile: profile.key, name: index === -1 ? profile.name : originalLines[index].slice(0, 120) };
+  }
+
+  result.grossPay = amountAfter(lines, labels.gross);
+  result.netPay = amountAfter(lines, labels.net);
+  result.totalDeductions = amountAfter(lines, labels.totalDeductions);
+  result.period = readPeriod(lines, labels.period);
+
+  const totals = [...labels.gross, ...labels.net, ...labels.totalDeductions];
+  lines.forEach((line, index) => {
+    if (!DEDUCTION_CONCEPTS.some(regex => regex.test(line)) || totals.some(regex => regex.test(line))) return;
+
+    const amount = lastAmount(line);
+    if (amount === null || amount === 0) return;
+
+    const concept = originalLines[index].split(/[\d$]/)[0].replace(/[:\-\s]+$/, '').trim();
+    result.deductions.push({ concept: concept.slice(0, 80) || originalLines[index].slice(0, 80), amount });
+  });
+
+  if (result.totalDeductions === null && result.deductions.length > 0) {
+    result.totalDeductions = result.deductions.reduce((total, deduction) => total + deduction.amount, 0);
+  }
+
+  const hasPeriod = !!(result.period.end || result.period.paidAt);
+  result.status = result.netPay !== null && hasPeriod ? 'parsed' : 'partial';
+
+  return result;
+}
+
+function mergeLabels(profile: PaystubProfile | undefined) {
+  return {
+    gross: [...(profile?.gross ?? []), ...GENERIC_PROFILE.gross],
+    net: [...(profile?.net ?? []), ...GENERIC_PROFILE.net],
+    totalDeductions: [...(profile?.totalDeductions ?? []), ...GENERIC_PROFILE.totalDeductions],
+    period: [...(profile?.period ?? []), ...GENERIC_PROFILE.period],
+  };
+}
+
+// Monto de la primera línea que coincide con alguna etiqueta (las del perfil tienen prioridad)
+function amountAfter(lines: string[], labels: RegExp[]): number | null {
+  for (const label of labels) {
+    const index = lines.findIndex(line => label.test(line));
+    if (index === -1) continue;
+
+    const amount = lastAmount(lines[index]) ?? (lines[index + 1] ? lastAmount(lines[index + 1]) : null);
+    if (amount !== null) return amount;
+  }
+
+  return null;
+}
+
+function lastAmount(line: string): number | null {
+  const withoutDates = DATE_PATTERNS.reduce((value, { regex }) => value.replace(regex, ' '), line);
+  const matches = withoutDates.match(AMOUNT);
+  return matches ? parseCop(matches[matches.length - 1]) : null;
+}
+
+function readPeriod(lines: string[], labels: RegExp[]): PaystubExtraction['period'] {
+  const period: PaystubExtraction['period'] = { start: null, end: null, paidAt: null };
+
+  lines.forEach((line, index) => {
+    if (!labels.some(regex => regex.test(line))) return;
+
+    const isPayDate = /fecha\s+de\s+pago/.test(line);
+    const context = `${line} ${isPayDate ? '' : lines[index + 1] ?? ''}`;
+    const range = dayRange(context) ?? monthRange(context);
+    const dates = datesIn(isPayDate ? line : context);
+
+    if (isPayDate) {
+      period.paidAt ??= dates[0] ?? null;
+    } else if (!period.start) {
+      if (dates.length >= 2) {
+        [period.start, period.end] = [dates[0], dates[1]].sort();
+      } else if (range) {
+        [period.start, period.end] = range;
+      }
+    }
+  });
+
+  // Sin etiqueta reconocible, cualquier rango "del 1 al 15 de ..." del volante sirve
+  if (!period.start) {
+    const range = dayRange(lines.join(' '));
+    if (range) [period.start, period.end] = range;
+  }
+
+  return period;
+}
+
+function datesIn(text: string): string[] {
+  const found: { index: number; date: string }[] = [];
+
+  for (const { regex, toDate } of DATE_PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const date = toDate(match);
+      if (date) found.push({ index: match.index, date });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(({ date }) => date);
+}
+
+function dayRange(text: string): [string, string] | null {
+  const match = text.match(DAY_RANGE);
+  if (!match) return null;
+
+  const month = monthNumber(match[3]);
+  const start = isoDate(+match[4], month, +match[1]);
+  const end = isoDate(+match[4], month, +match[2]);
+  return start && end ? [start, end] : null;
+}
+
+function monthRange(text: string): [string, string] | null {
+  const match = text.match(MONTH_ONLY);
+  if (!match) return null;
+
+  const month = monthNumber(match[1]);
+  const start = isoDate(+match[2], month, 1);
+  const end = isoDate(+match[2], month, 31);
+  return start && end ? [start, end] : null;
+}
+
+function monthNumber(name: string): number {
+  return name === 'setiembre' ? 9 : MONTHS.indexOf(name) + 1;
+}
+
+// Fecha YYYY-MM-DD; los días fuera de rango se ajustan al último día del mes (nóminas con "30 de febrero")
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 2000 || year > 2100 || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
@@ -0,0 +1,114 @@
+import { companiesUser } from '@prisma/client';
+
+/**
+ * Formato de los volantes de pago de un empleador. Las etiquetas se comparan contra
+ * cada línea del PDF en minúsculas y sin tildes, y se suman a las etiquetas genéricas.
+ */
+export interface PaystubProfile {
+  key: string;
+  name: string;
+  companies: companiesUser[]; // Valores de currentCompanie que corresponden a este empleador
+  employer: RegExp[]; // Cómo aparece el empleador en el encabezado del volante
+  gross: RegExp[];
+  net: RegExp[];
+  totalDeductions: RegExp[];
+  period: RegExp[];
+  frequencyDays: number; // Días entre pagos cuando el volante solo trae la fecha de pago
+}
+
+export const GENERIC_PROFILE: PaystubProfile = {
+  key: 'generic',
+  name: 'Genérico',
+  companies: [],
+  employer: [],
+  gross: [/total\s+devengad[oa]s?/, /total\s+devengos/, /salario\s+bruto/, /total\s+ingresos/, /total\s+pagos/],
+  net: [/neto\s+a\s+pagar/, /total\s+a\s+pagar/, /neto\s+pagado/, /neto\s+a\s+recibir/, /valor\s+neto/, /pago\s+neto/],
+  totalDeductions: [/total\s+deducid[oa]s?/, /total\s+deducciones/, /total\s+descuentos/],
+  period: [/periodo/, /quincena/, /fecha\s+de\s+pago/, /liquidacion\s+del?/, /nomina\s+del?/],
+  frequencyDays: 15,
+};
+
+// Conceptos que se descuentan en los volantes colombianos
+export const DEDUCTION_CONCEPTS: RegExp[] = [
+  /salud/,
+  /pension/,
+  /fondo\s+de\s+solidaridad/,
+  /retencion/,
+  /libranza/,
+  /prestamo/,
+  /embargo/,
+  /cooperativa/,
+  /sindicato/,
+  /fondo\s+de\s+empleados/,
+  /funeraria/,
+  /seguro/,
+  /anticipo/,
+  /descuento/,
+];
+
+export const PAYSTUB_PROFILES: PaystubProfile[] = [
+  {
+    key: 'incauca',
+    name: 'Incauca',
+    companies: ['incauca_sas', 'incauca_cosecha'],
+    employer: [/incauca/, /ingenio\s+del\s+cauca/],
+    gross: [/total\s+devengado\s+quincena/],
+    net: [/neto\s+quincena/],
+    totalDeductions: [],
+    period: [/quincena\s+del?/],
+    frequencyDays: 15,
+  },
+  {
+    key: 'providencia',
+    name: 'Ingenio Providencia',
+    companies: ['providencia_sas', 'providencia_cosecha'],
+    employer: [/ingenio\s+providencia/, /providencia\s+s\.?\s?a/],
+    gross: [],
+    net: [/neto\s+recibido/],
+    totalDeductions: [],
+    period: [/periodo\s+de\s+liquidacion/],
+    frequencyDays: 15,
+  },
+  {
+    key: 'pichichi',
+    name: 'Ingenio Pichichí',
+    companies: ['pichichi_sas', 'pichichi_corte'],
+    employer: [/pichichi/],
+    gross: [],
+    net: [],
+    totalDeductions: [],
+    period: [/periodo\s+pagado/],
+    frequencyDays: 15,
+  },
+  {
+    key: 'conalta',
+    name: 'Conalta',
+    // "con_alta" es el valor anterior de "conalta"
+    companies: ['conalta', 'con_alta'],
+    employer: [/con\s?alta/],
+    gross: [],
+    net: [],
+    totalDeductions: [],
+    period: [],
+    frequencyDays: 15,
+  },
+  {
+    key: 'valor_agregado',
+    name: 'Valor Agregado',
+    companies: ['valor_agregado'],
+    employer: [/valor\s+agregado/],
+    gross: [],
+    net: [],
+    totalDeductions: [],
+    period: [],
+    frequencyDays: 30,
+  },
+];
+
+export function profileForCompany(company: companiesUser | null | undefined): PaystubProfile | null {
+  return PAYSTUB_PROFILES.find(profile => company && profile.companies.includes(company)) ?? null;
+}
+
+export function profileByKey(key: string | null | undefined): PaystubProfile | null {
+  return PAYSTUB_PROFILES.find(profile => profile.key === key) ?? null;
+}
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { companiesUser } from '@prisma/client';
+import { PDFParse } from 'pdf-parse';
+import { formatCop } from 'handlers/money';
+import { PaystubExtraction, parsePaystubText } from './paystub.parser';
+import { profileByKey, profileForCompany } from './paystub.profiles';
+
+export type PaystubFlyer = 'fisrt_flyer' | 'second_flyer' | 'third_flyer';
+
+export const PAYSTUB_FLYERS: PaystubFlyer[] = ['fisrt_flyer', 'second_flyer', 'third_flyer'];
+
+export type PaystubIssueCode =
+  | 'unreadable'
+  | 'employer_unknown'
+  | 'employer_mismatch'
+  | 'net_exceeds_gross'
+  | 'totals_mismatch'
+  | 'duplicate_period'
+  | 'periods_not_consecutive'
+  | 'net_pay_variation';
+
+export interface PaystubIssue {
+  code: PaystubIssueCode;
+  message: string;
+  flyers: PaystubFlyer[];
+}
+
+// Resultado que se guarda en LoanApplication.paystubAnalysis
+export interface PaystubAnalysis {
+  flyers: Partial<Record<PaystubFlyer, PaystubExtraction>>;
+  issues: PaystubIssue[];
+  averageNetPay: number | null;
+  analyzedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Diferencia aceptada entre devengado - deducciones y el neto (redondeos, auxilios no listados)
+const TOTALS_TOLERANCE = 0.01;
+const MIN_TOTALS_TOLERANCE = 1000;
+// Variación del neto entre volantes que merece revisión
+const NET_PAY_VARIATION = 0.3;
+
+@Injectable()
+export class PaystubService {
+  private logger = new Logger(PaystubService.name);
+
+  /**
+   * Lee el texto del PDF de un volante y extrae sus datos. Nunca lanza error:
+   * un PDF dañado o sin texto vuelve como `unreadable` para que la subida continúe.
+   */
+  async extract(pdf: Buffer): Promise<PaystubExtraction> {
+    const parser = new PDFParse({ data: pdf });
+
+    try {
+      const { text } = await parser.getText();
+      return parsePaystubText(text);
+    } catch (error) {
+      this.logger.warn(`No se pudo leer el texto del volante: ${error instanceof Error ? error.message : error}`);
+      return { ...parsePaystubText(''), error: 'No se pudo leer el PDF' };
+    } finally {
+      await parser.destroy().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Cruza los volantes entre sí y con la empresa registrada del cliente.
+   * Las inconsistencias se reportan para el analista; no bloquean la solicitud.
+   */
+  analyze(
+    flyers: Partial<Record<PaystubFlyer, PaystubExtraction | null>>,
+    currentCompanie: companiesUser | null,
+  ): PaystubAnalysis {
+    const present = PAYSTUB_FLYERS
+      .filter(flyer => flyers[flyer])
+      .map(flyer => ({ flyer, data: flyers[flyer]! }));
+
+    const issues: PaystubIssue[] = [];
+    const expected = profileForCompany(currentCompanie);
+
+    for (const { flyer, data } of present) {
+      if (data.status === 'unreadable' || data.netPay === null) {
+        issues.push({ code: 'unreadable', message: 'No se pudo leer el salario neto del volante', flyers: [flyer] });
+      }
+
+      if (data.status !== 'unreadable' && !data.employer.profile) {
+        issues.push({ code: 'employer_unknown', message: 'No se identificó el empleador en el volante', flyers: [flyer] });
+      } else if (data.employer.profile && expected && data.employer.profile !== expected.key) {
+        const found = profileByKey(data.employer.profile)?.name ?? data.employer.profile;
+        issues.push({
+          code: 'employer_mismatch',
+          message: `El volante es de ${found} pero el cliente está registrado en ${expected.name}`,
+          flyers: [flyer],
+        });
+      }
+
+      if (data.grossPay !== null && data.netPay !== null) {
+        if (data.netPay > data.grossPay) {
+          issues.push({ code: 'net_exceeds_gross', message: 'El neto a pagar es mayor que el total devengado', flyers: [flyer] });
+        } else if (data.totalDeductions !== null) {
+          const difference = Math.abs(data.grossPay - data.totalDeductions - data.netPay);
+          if (difference > Math.max(MIN_TOTALS_TOLERANCE, data.grossPay * TOTALS_TOLERANCE)) {
+            issues.push({
+              code: 'totals_mismatch',
+              message: `Devengado menos deducciones difiere del neto en ${formatCop(difference)}`,
+              flyers: [flyer],
+            });
+          }
+        }
+      }
+    }
+
+    issues.push(...this.periodIssues(present, expected?.frequencyDays ?? 15));
+
+    const netPays = present.map(({ data }) => data.netPay).filter((value): value is number => value !== null);
+    if (netPays.length >= 2 && Math.min(...netPays) > 0 && Math.max(...netPays) / Math.min(...netPays) > 1 + NET_PAY_VARIATION) {
+      issues.push({
+        code: 'net_pay_variation',
+        message: `El neto varía entre ${formatCop(Math.min(...netPays))} y ${formatCop(Math.max(...netPays))}`,
+        flyers: present.filter(({ data }) => data.netPay !== null).map(({ flyer }) => flyer),
+      });
+    }
+
+    return {
+      flyers: Object.fromEntries(present.map(({ flyer, data }) => [flyer, data])),
+      issues,
+      averageNetPay: netPays.length > 0 ? Math.round(netPays.reduce((a, b) => a + b, 0) / netPays.length) : null,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Los volantes deben ser de periodos seguidos: cada periodo empieza el día siguiente
+   * al fin del anterior. Si el volante solo trae fecha de pago, se compara la distancia
+   * entre pagos con la frecuencia de nómina del empleador.
+   */
+  private periodIssues(
+    present: { flyer: PaystubFlyer; data: PaystubExtraction }[],
+    frequencyDays: number,
+  ): PaystubIssue[] {
+    const dated = present
+      .map(({ flyer, data }) => ({
+        flyer,
+        start: data.period.start,
+        end: data.period.end ?? data.period.paidAt,
+      }))
+      .filter((item): item is { flyer: PaystubFlyer; start: string | null; end: string } => item.end !== null)
+      .sort((a, b) => (a.start ?? a.end).localeCompare(b.start ?? b.end));
+
+    const issues: PaystubIssue[] = [];
+
+    for (let i = 1; i < dated.length; i++) {
+      const previous = dated[i - 1];
+      const current = dated[i];
+
+      if (previous.start === current.start && previous.end === current.end) {
+        issues.push({ code: 'duplicate_period', message: `Dos volantes son del mismo periodo (${current.end})`, flyers: [previous.flyer, current.flyer] });
+        continue;
+      }
+
+      const consecutive = previous.start && current.start
+        ? this.isNextPeriod(previous.end, current.start)
+        : Math.abs(this.days(previous.end, current.end) - frequencyDays) <= 5;
+
+      if (!consecutive) {
+        issues.push({
+          code: 'periods_not_consecutive',
+          message: `Los periodos no son consecutivos: ${previous.start ?? ''}${previous.start ? ' a ' : ''}${previous.end} y ${current.start ?? ''}${current.start ? ' a ' : ''}${current.end}`,
+          flyers: [previous.flyer, current.flyer],
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  // El 31 se liquida como el 30 en muchas nóminas, así que un salto de dos días también es consecutivo
+  private isNextPeriod(previousEnd: string, nextStart: string): boolean {
+    const gap = this.days(previousEnd, nextStart);
+    return gap === 1 || (gap === 2 && previousEnd.endsWith('-30'));
+  }
+
+  private days(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  }
+}
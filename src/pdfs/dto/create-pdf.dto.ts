@@ -105,6 +105,7 @@ export interface SkeletonJson03Type {
 
 export interface TextOptions {
   maxWidth?: number;
+  baseline?: 'alphabetic' | 'top' | 'middle' | 'bottom';
 }
 
 export interface DocumentData {
@@ -157,6 +158,17 @@ export interface PromissoryNoteData {
   numberDocument: string;
 }
 
+// Fila del plan de pagos impresa en el documento "about-loan"
+export interface PaymentPlanRow {
+  number: number;
+  dueDate: Date | string;
+  principal: number;
+  interest: number;
+  fees: number;
+  total: number;
+  balance: number;
+}
+
 export interface DocumentGenerationParams {
   documentType: string;
   numberDocument: string;
@@ -165,6 +177,7 @@ export interface DocumentGenerationParams {
   signature?: string;
   userId: string;
   documentData: DocumentData;
+  schedule?: PaymentPlanRow[];
 }
 
 export interface PromissoryNoteGenerationParams {
@@ -177,6 +190,9 @@ export interface PromissoryNoteGenerationParams {
   payQuantity?: string;
   dayPay?: string;
   logoUrl?: string;
+  amount?: number;
+  dueDate?: Date | string;
+  promissoryNumber?: string;
 }
 
 export interface BaseDocumentParams {
@@ -189,9 +205,17 @@ export interface BaseDocumentParams {
 
 export interface AboutLoanParams extends BaseDocumentParams {
   documentType: 'about-loan';
+  schedule?: PaymentPlanRow[];
+}
+
+// Datos del préstamo que llenan los marcadores de las plantillas legales
+export interface LegalDocumentData {
+  amount?: number;
+  dueDate?: Date | string;
+  promissoryNumber?: string;
 }
 
-export interface NamedDocumentParams extends BaseDocumentParams {
+export interface NamedDocumentParams extends BaseDocumentParams, LegalDocumentData {
   name: string;
 }
 
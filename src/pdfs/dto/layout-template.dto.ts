@@ -0,0 +1,21 @@
+export type LegalDocumentType = 'instruction-letter' | 'salary-payment-authorization' | 'promissory-note';
+
+// Bloques que el motor de diagramación acomoda uno tras otro, paginando cuando no caben
+export type LayoutBlock =
+  | { type: 'title'; text: string }
+  | { type: 'paragraph'; text: string; indent?: number }
+  | { type: 'image'; src: string; width: number; height: number }
+  | { type: 'signature'; label: string; lines?: string[]; documentBeside?: boolean }
+  | { type: 'spacer'; height: number }
+  | { type: 'pageBreak' };
+
+export interface LayoutTemplate {
+  type: LegalDocumentType;
+  // Se incrementa con cada cambio del texto legal; queda registrada en los documentos generados
+  version: number;
+  fontSize: number;
+  blocks: LayoutBlock[];
+}
+
+// Valores de los marcadores {{name}}, {{amount}}, etc. Los que falten se imprimen como espacio en blanco
+export type TemplateValues = Record<string, string | null | undefined>;
@@ -12,12 +12,13 @@ import {
 } from '@nestjs/common';
 import { PdfsService } from './pdfs.service';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { StatusLoan } from '@prisma/client';
-import { DocumentParams } from './dto/create-pdf.dto';
+import { companiesUser, StatusLoan } from '@prisma/client';
+import { DocumentParams, LegalDocumentData } from './dto/create-pdf.dto';
 import { Response } from 'express';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
-import { RolesGuard } from 'src/auth/guards/roles.guard';
-import { Roles } from 'src/auth/decorators/roles.decorator';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { CompanyScope } from 'src/auth/decorators/company-scope.decorator';
 import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
 import { SkeletonPdfServices } from './services/skeleton.service';
@@ -45,13 +46,15 @@ export class PdfsController {
   ) { }
 
   // Solo permitir intranet y verificar que el préstamo exista
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view', { model: 'loanApplication', param: 'loanId' })
   @Get('loan-documents/:loanId')
   @ApiOperation({ summary: 'Obtener documentos generados de un préstamo (solo intranet)' })
   @ApiParam({ name: 'loanId', description: 'ID del préstamo' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de documentos del préstamo' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.view sobre la empresa del cliente' })
   @ApiNotFoundResponse({ description: 'Préstamo no encontrado' })
   async getLoanDocuments(
     @Param('loanId') loanId: string,
@@ -70,14 +73,19 @@ export class PdfsController {
   }
 
   // Solo para personal de intranet
-  @UseGuards(IntranetAuthGuard)
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('loan.view')
   @Get('loans-with-documents')
   @ApiOperation({ summary: 'Obtener préstamos con documentos generados (solo intranet)' })
   @ApiQuery({ name: 'status', required: false, description: 'Filtrar por estado del préstamo' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de préstamos con documentos' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  async getLoansWithDocuments(@Query('status') status?: string) {
+  @ApiForbiddenResponse({ description: 'Requiere el permiso loan.view' })
+  async getLoansWithDocuments(
+    @CompanyScope() companies: companiesUser[] | null,
+    @Query('status') status?: string,
+  ) {
     try {
       // Get all loan applications with generated documents
       const loansWithDocs = await this.prismaService.loanApplication.findMany({
@@ -85,7 +93,8 @@ export class PdfsController {
           GeneratedDocuments: {
             some: {}  // Has at least one document
           },
-          status: status ? status as StatusLoan : undefined  // Cast to StatusLoan enum
+          status: status ? status as StatusLoan : undefined,  // Cast to StatusLoan enum
+          ...(companies && { user: { currentCompanie: { in: companies } } }),
         },
         include: {
           user: {
@@ -115,24 +124,24 @@ export class PdfsController {
     }
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Get('pending-documents')
-  @ApiOperation({ summary: 'Obtener documentos pendientes de generación (solo admin/employee)' })
+  @ApiOperation({ summary: 'Obtener documentos pendientes de generación (permiso document.generate)' })
   @ApiBearerAuth()
   @ApiResponse({ status: 200, description: 'Lista de documentos pendientes' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   async getPendingDocuments() {
     return this.pdfsService.findnewDocs();
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate')
-  @ApiOperation({ summary: 'Generar documentos PDF para un préstamo (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar documentos PDF para un préstamo (permiso document.generate)' })
   @ApiBody({
     schema: {
       type: 'object',
@@ -146,7 +155,7 @@ export class PdfsController {
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Documentos generados exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiNotFoundResponse({ description: 'Usuario o préstamo no encontrado' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generateDocuments(
@@ -181,11 +190,11 @@ export class PdfsController {
     );
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate/about-loan')
-  @ApiOperation({ summary: 'Generar PDF "Acerca del Préstamo" (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar PDF "Acerca del Préstamo" (permiso document.generate)' })
   @ApiBody({
     schema: {
       type: 'object',
@@ -201,7 +210,7 @@ export class PdfsController {
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'PDF generado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generateAboutLoan(
     @Body() params: {
@@ -215,94 +224,103 @@ export class PdfsController {
     return this.pdfsSkeleton.generateAboutLoanPdf(params);
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate/instruction-letter')
-  @ApiOperation({ summary: 'Generar carta de instrucciones (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar carta de instrucciones (permiso document.generate)' })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         signature: { type: 'string', description: 'Firma digital' },
         numberDocument: { type: 'string', description: 'Número de documento' },
-        name: { type: 'string', description: 'Nombre del destinatario' }
+        name: { type: 'string', description: 'Nombre del destinatario' },
+        amount: { type: 'number', description: 'Monto del préstamo en pesos (opcional)' },
+        dueDate: { type: 'string', format: 'date', description: 'Fecha de vencimiento (opcional)' },
+        promissoryNumber: { type: 'string', description: 'Número del pagaré (opcional)' }
       }
     }
   })
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Carta generada exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generateInstructionLetter(
-    @Body() params: { signature: string; numberDocument: string; name: string }
+    @Body() params: { signature: string; numberDocument: string; name: string } & LegalDocumentData
   ) {
     return this.pdfsSkeleton.generateInstructionLetterPdf(params);
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate/salary-payment')
-  @ApiOperation({ summary: 'Generar autorización de pago de salario (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar autorización de pago de salario (permiso document.generate)' })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         signature: { type: 'string', description: 'Firma digital' },
         numberDocument: { type: 'string', description: 'Número de documento' },
-        name: { type: 'string', description: 'Nombre del empleado' }
+        name: { type: 'string', description: 'Nombre del empleado' },
+        amount: { type: 'number', description: 'Monto del préstamo en pesos (opcional)' },
+        dueDate: { type: 'string', format: 'date', description: 'Fecha de vencimiento (opcional)' },
+        promissoryNumber: { type: 'string', description: 'Número del pagaré (opcional)' }
       }
     }
   })
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Autorización generada exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generateSalaryPayment(
-    @Body() params: { signature: string; numberDocument: string; name: string }
+    @Body() params: { signature: string; numberDocument: string; name: string } & LegalDocumentData
   ) {
     return this.pdfsSkeleton.generateSalaryPaymentAuthorizationPdf(params);
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate/promissory-note')
-  @ApiOperation({ summary: 'Generar pagaré (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar pagaré (permiso document.generate)' })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         signature: { type: 'string', description: 'Firma digital' },
         numberDocument: { type: 'string', description: 'Número de documento' },
-        name: { type: 'string', description: 'Nombre del firmante' }
+        name: { type: 'string', description: 'Nombre del firmante' },
+        amount: { type: 'number', description: 'Monto del préstamo en pesos (opcional)' },
+        dueDate: { type: 'string', format: 'date', description: 'Fecha de vencimiento (opcional)' },
+        promissoryNumber: { type: 'string', description: 'Número del pagaré (opcional)' }
       }
     }
   })
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Pagaré generado exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generatePromissoryNote(
-    @Body() params: { signature: string; numberDocument: string; name: string }
+    @Body() params: { signature: string; numberDocument: string; name: string } & LegalDocumentData
   ) {
     return this.pdfsSkeleton.generatePromissoryNotePdf(params);
   }
 
-  // Solo para administradores y empleados
-  @UseGuards(IntranetAuthGuard, RolesGuard)
-  @Roles('admin', 'employee')
+  // Requiere el permiso document.generate
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('document.generate')
   @Post('generate/multiple')
-  @ApiOperation({ summary: 'Generar múltiples PDFs (solo admin/employee)' })
+  @ApiOperation({ summary: 'Generar múltiples PDFs (permiso document.generate)' })
   @ApiBody({ description: 'Array de parámetros para generar múltiples documentos' })
   @ApiBearerAuth()
   @ApiResponse({ status: 201, description: 'Documentos generados exitosamente' })
   @ApiUnauthorizedResponse({ description: 'No autenticado' })
-  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso document.generate' })
   @ApiBadRequestResponse({ description: 'Datos inválidos' })
   async generateMultiple(
     @Body() documentsParams: Array<DocumentParams>
@@ -3,24 +3,16 @@ import { PdfsService } from './pdfs.service';
 import { PdfsController } from './pdfs.controller';
 import { GoogleCloudModule } from 'src/gcp/gcp.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
-import {
-  SKELETON_JSON_00,
-  SKELETON_JSON_01,
-  SKELETON_JSON_02,
-  SKELETON_JSON_03,
-  SKELETON_SUB_JSON_02,
-  skeletonJson00,
-  skeletonJson01,
-  skeletonJson02,
-  skeletonSubJson02,
-  skeletonJson03,
-} from 'templates/AboutPdf';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { SKELETON_JSON_00, skeletonJson00 } from 'templates/AboutPdf';
+import { LEGAL_TEMPLATES, legalTemplates } from 'templates/LegalTemplates';
 import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
 import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
 import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
 import { BatchPDFService } from './services/batch.service';
 import { GeneratePDFService } from './services/generate.service';
 import { HelpersPDFService } from './services/helpers.service';
+import { LayoutPDFService } from './services/layout.service';
 import { QueryService } from './services/query.service';
 import { SkeletonPdfServices } from './services/skeleton.service';
 import { TransformerPDFService } from './services/transformer.service';
@@ -31,6 +23,7 @@ import { ApiTags } from '@nestjs/swagger';
   imports: [
     GoogleCloudModule,
     PrismaModule,
+    IntranetRoleModule,
   ],
   controllers: [PdfsController],
   providers: [
@@ -38,6 +31,7 @@ import { ApiTags } from '@nestjs/swagger';
     BatchPDFService,
     GeneratePDFService,
     HelpersPDFService,
+    LayoutPDFService,
     QueryService,
     SkeletonPdfServices,
     TransformerPDFService,
@@ -50,20 +44,8 @@ import { ApiTags } from '@nestjs/swagger';
       useValue: skeletonJson00,
     },
     {
-      provide: SKELETON_JSON_01,
-      useValue: skeletonJson01,
-    },
-    {
-      provide: SKELETON_JSON_02,
-      useValue: skeletonJson02,
-    },
-    {
-      provide: SKELETON_SUB_JSON_02,
-      useValue: skeletonSubJson02,
-    },
-    {
-      provide: SKELETON_JSON_03,
-      useValue: skeletonJson03,
+      provide: LEGAL_TEMPLATES,
+      useValue: legalTemplates,
     }
   ],
   exports: [PdfsService],
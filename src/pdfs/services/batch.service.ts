@@ -2,6 +2,7 @@ import { Injectable, Logger } from "@nestjs/common";
 import { PrismaService } from "src/prisma/prisma.service";
 import { DocumentsUploadService } from "./upload.service";
 import { DocumentGenerationParams, PromissoryNoteGenerationParams } from "../dto/create-pdf.dto";
+import { promissoryNumberOf } from "templates/LegalTemplates";
 
 export interface BatchProcessingResult {
     processed: number;
@@ -124,6 +125,12 @@ export class BatchPDFService {
         documentNumber: string,
         fullName: string
     ): Array<DocumentGenerationParams | PromissoryNoteGenerationParams> {
+        // El nuevo monto solo cuenta si el cliente lo aceptó
+        const legalData = {
+            amount: loan.newCantity && loan.newCantityOpt ? loan.newCantity : loan.cantity,
+            promissoryNumber: promissoryNumberOf(loan.id),
+        };
+
         return [
             {
                 documentType: 'about-loan',
@@ -139,7 +146,8 @@ export class BatchPDFService {
                 signature: loan.signature,
                 numberDocument: documentNumber,
                 name: fullName,
-                userId: loan.userId
+                userId: loan.userId,
+                ...legalData
             },
             {
                 documentType: 'salary-payment-authorization',
@@ -147,13 +155,15 @@ export class BatchPDFService {
                 numberDocument: documentNumber,
                 name: fullName,
                 userId: loan.userId,
+                ...legalData,
             },
             {
                 documentType: 'promissory-note',
                 signature: loan.signature,
                 numberDocument: documentNumber,
                 name: fullName,
-                userId: loan.userId
+                userId: loan.userId,
+                ...legalData
             }
         ];
     }
@@ -68,6 +68,7 @@ export class GeneratePDFService {
                     autoDownload: docParams.autoDownload,
                     entity: docParams.entity as string,
                     accountNumber: docParams.accountNumber as string,
+                    schedule: docParams.schedule,
                 });
                 fileName = `gestion_de_cobro_${docParams.numberDocument}.pdf`;
                 break;
@@ -76,7 +77,10 @@ export class GeneratePDFService {
                 pdfBuffer = await this.skeletons.generateInstructionLetterPdf({
                     signature: docParams.signature,
                     numberDocument: docParams.numberDocument,
-                    name: docParams.name
+                    name: docParams.name,
+                    amount: docParams.amount,
+                    dueDate: docParams.dueDate,
+                    promissoryNumber: docParams.promissoryNumber,
                 });
                 fileName = `carta_instruccion_${docParams.numberDocument}.pdf`;
                 break;
@@ -85,7 +89,10 @@ export class GeneratePDFService {
                 pdfBuffer = await this.skeletons.generateSalaryPaymentAuthorizationPdf({
                     signature: docParams.signature,
                     numberDocument: docParams.numberDocument,
-                    name: docParams.name
+                    name: docParams.name,
+                    amount: docParams.amount,
+                    dueDate: docParams.dueDate,
+                    promissoryNumber: docParams.promissoryNumber,
                 });
                 fileName = `autorizacion_pago_${docParams.numberDocument}.pdf`;
                 break;
@@ -94,7 +101,10 @@ export class GeneratePDFService {
                 pdfBuffer = await this.skeletons.generatePromissoryNotePdf({
                     signature: docParams.signature,
                     numberDocument: docParams.numberDocument,
-                    name: docParams.name
+                    name: docParams.name,
+                    amount: docParams.amount,
+                    dueDate: docParams.dueDate,
+                    promissoryNumber: docParams.promissoryNumber,
                 });
                 fileName = `pagare_${docParams.numberDocument}.pdf`;
                 break;
@@ -0,0 +1,174 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { jsPDF } from "jspdf";
+import { HelpersPDFService } from "./helpers.service";
+import { LayoutBlock, LayoutTemplate, TemplateValues } from "../dto/layout-template.dto";
+
+const MARGIN_X = 10;
+const MARGIN_TOP = 15;
+const MARGIN_BOTTOM = 15;
+const PARAGRAPH_GAP = 4;
+const SIGNATURE_WIDTH = 50;
+const SIGNATURE_HEIGHT = 20;
+const SIGNATURE_LINE_GAP = 5;
+const BLANK = "_________________";
+
+interface LayoutContext {
+    doc: jsPDF;
+    y: number;
+    values: TemplateValues;
+    signature: Buffer | null;
+}
+
+/**
+ * Reemplaza los marcadores {{clave}} con los valores del documento.
+ * Un valor faltante deja el espacio en blanco para llenarlo a mano, como en el formato impreso.
+ */
+export const fillPlaceholders = (text: string, values: TemplateValues): string =>
+    text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key]?.trim() || BLANK);
+
+@Injectable()
+export class LayoutPDFService {
+    private readonly logger = new Logger(LayoutPDFService.name);
+
+    constructor(private helpers: HelpersPDFService) { }
+
+    /**
+     * Diagrama una plantilla bloque por bloque: los párrafos fluyen y pasan a la siguiente
+     * página cuando no caben, y las firmas nunca se parten entre dos páginas.
+     */
+    async render(template: LayoutTemplate, values: TemplateValues, signature?: string): Promise<Buffer> {
+        const doc = new jsPDF();
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(template.fontSize);
+
+        const context: LayoutContext = {
+            doc,
+            y: MARGIN_TOP,
+            values,
+            signature: signature ? await this.loadSignature(signature) : null,
+        };
+
+        for (const block of template.blocks) {
+            await this.renderBlock(context, block);
+        }
+
+        return Buffer.from(doc.output('arraybuffer'));
+    }
+
+    private async renderBlock(context: LayoutContext, block: LayoutBlock): Promise<void> {
+        switch (block.type) {
+            case 'title':
+                // Un título siempre queda con al menos tres líneas del texto que le sigue
+                this.ensureSpace(context, this.lineHeight(context.doc) * 4);
+                context.doc.setFont("helvetica", "bold");
+                this.flowText(context, block.text, 0);
+                context.doc.setFont("helvetica", "normal");
+                break;
+
+            case 'paragraph':
+                this.flowText(context, block.text, block.indent ?? 0);
+                break;
+
+            case 'image':
+                await this.renderImage(context, block.src, block.width, block.height);
+                break;
+
+            case 'signature':
+                this.renderSignature(context, block.label, block.lines ?? [], block.documentBeside ?? false);
+                break;
+
+            case 'spacer':
+                context.y += block.height;
+                break;
+
+            case 'pageBreak':
+                this.newPage(context);
+                break;
+        }
+    }
+
+    private flowText(context: LayoutContext, text: string, indent: number) {
+        const { doc } = context;
+        const x = MARGIN_X + indent;
+        const lines: string[] = doc.splitTextToSize(fillPlaceholders(text, context.values), this.contentWidth(doc) - indent);
+        const lineHeight = this.lineHeight(doc);
+
+        for (const line of lines) {
+            this.ensureSpace(context, lineHeight);
+            this.helpers.addText(doc, line, x, context.y, { baseline: 'top' });
+            context.y += lineHeight;
+        }
+
+        context.y += PARAGRAPH_GAP;
+    }
+
+    private async renderImage(context: LayoutContext, src: string, width: number, height: number) {
+        try {
+            const image = await this.helpers.loadImage(src);
+            this.ensureSpace(context, height);
+            context.doc.addImage(`data:image/png;base64,${image.toString('base64')}`, 'PNG', MARGIN_X, context.y, width, height);
+            context.y += height + PARAGRAPH_GAP * 2;
+        } catch (error) {
+            // El logo es decorativo: sin él el documento sigue siendo válido
+            this.logger.warn(`No se pudo cargar la imagen ${src}`, error);
+        }
+    }
+
+    private renderSignature(context: LayoutContext, label: string, lines: string[], documentBeside: boolean) {
+        const { doc } = context;
+        const lineY = SIGNATURE_HEIGHT + 2;
+        this.ensureSpace(context, lineY + SIGNATURE_LINE_GAP * (lines.length + 2));
+
+        const top = context.y;
+        if (context.signature) {
+            doc.addImage(`data:image/png;base64,${context.signature.toString('base64')}`, 'PNG', MARGIN_X, top, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+        }
+
+        doc.line(MARGIN_X, top + lineY, MARGIN_X + SIGNATURE_WIDTH, top + lineY);
+        this.helpers.addText(doc, label, MARGIN_X, top + lineY + 6);
+        lines.forEach((line, index) =>
+            this.helpers.addText(doc, fillPlaceholders(line, context.values), MARGIN_X, top + lineY + 6 + SIGNATURE_LINE_GAP * (index + 1)));
+
+        if (documentBeside) {
+            const docX = MARGIN_X + 60;
+            const docY = top + SIGNATURE_HEIGHT;
+            this.helpers.addText(doc, fillPlaceholders("{{numberDocument}}", context.values), docX, docY);
+            doc.line(docX, docY + 2, docX + 40, docY + 2);
+            this.helpers.addText(doc, "C.C.", docX, docY + 6);
+        }
+
+        context.y = top + lineY + 6 + SIGNATURE_LINE_GAP * (lines.length + 1) + PARAGRAPH_GAP;
+    }
+
+    private async loadSignature(signature: string): Promise<Buffer> {
+        try {
+            return await this.helpers.loadImage(signature);
+        } catch (error) {
+            this.logger.error("Error loading signature image", error);
+            throw error;
+        }
+    }
+
+    // Pasa a una página nueva si el contenido no cabe, salvo que ya esté al inicio de una
+    private ensureSpace(context: LayoutContext, height: number) {
+        const pageBottom = context.doc.internal.pageSize.getHeight() - MARGIN_BOTTOM;
+
+        if (context.y + height > pageBottom && context.y > MARGIN_TOP) {
+            this.newPage(context);
+        }
+    }
+
+    private newPage(context: LayoutContext) {
+        context.doc.addPage();
+        context.y = MARGIN_TOP;
+    }
+
+    private contentWidth(doc: jsPDF): number {
+        return doc.internal.pageSize.getWidth() - MARGIN_X * 2;
+    }
+
+    // Alto de una línea en mm para el tamaño de fuente actual
+    private lineHeight(doc: jsPDF): number {
+        return (doc.getFontSize() * doc.getLineHeightFactor()) / doc.internal.scaleFactor;
+    }
+}
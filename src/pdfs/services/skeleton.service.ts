@@ -1,25 +1,23 @@
 import { Inject, Injectable, Logger } from "@nestjs/common";
 
-import {
-    SKELETON_JSON_00,
-    SKELETON_JSON_01,
-    SKELETON_JSON_02,
-    SKELETON_JSON_03,
-    SKELETON_SUB_JSON_02
-} from "templates/AboutPdf";
-
-import {
-    SkeletonJson00Type,
-    SkeletonJson01Type,
-    SkeletonJson02Type,
-    SkeletonJson03Type,
-    SkeletonSubJson02Type
-} from "../dto/create-pdf.dto";
+import { SKELETON_JSON_00 } from "templates/AboutPdf";
+import { LEGAL_TEMPLATES } from "templates/LegalTemplates";
+import { formatCop } from "handlers/money";
+
+import { LegalDocumentData, PaymentPlanRow, SkeletonJson00Type } from "../dto/create-pdf.dto";
+import { LayoutTemplate, LegalDocumentType, TemplateValues } from "../dto/layout-template.dto";
 
 import { jsPDF } from "jspdf";
 import { HelpersPDFService } from "./helpers.service";
+import { LayoutPDFService } from "./layout.service";
 import { BankTypes, handleKeyToString } from "handlers/bank-to-string";
 
+interface LegalPdfParams extends LegalDocumentData {
+    signature: string;
+    numberDocument: string;
+    name: string;
+}
+
 @Injectable()
 export class SkeletonPdfServices {
     private readonly logger = new Logger(SkeletonPdfServices.name);
@@ -27,15 +25,10 @@ export class SkeletonPdfServices {
     constructor(
         @Inject(SKELETON_JSON_00)
         private readonly Skeleton00: SkeletonJson00Type,
-        @Inject(SKELETON_JSON_01)
-        private readonly Skeleton01: SkeletonJson01Type,
-        @Inject(SKELETON_JSON_02)
-        private readonly Skeleton02: SkeletonJson02Type,
-        @Inject(SKELETON_SUB_JSON_02)
-        private readonly SkeletonSub02: SkeletonSubJson02Type,
-        @Inject(SKELETON_JSON_03)
-        private readonly Skeleton03: SkeletonJson03Type,
+        @Inject(LEGAL_TEMPLATES)
+        private readonly templates: Record<LegalDocumentType, LayoutTemplate>,
         private helpers: HelpersPDFService,
+        private layout: LayoutPDFService,
     ) { }
 
     /**
@@ -49,8 +42,9 @@ export class SkeletonPdfServices {
         entity: string,
         accountNumber: string,
         autoDownload?: boolean;
+        schedule?: PaymentPlanRow[];
     }): Promise<Buffer> {
-        const { signature, numberDocument, entity, accountNumber } = params;
+        const { signature, numberDocument, entity, accountNumber, schedule } = params;
         const jsonData = this.Skeleton00;
         const doc = new jsPDF();
         doc.setFontSize(10);
@@ -129,113 +123,95 @@ export class SkeletonPdfServices {
             }
         }
 
+        // Payment plan pages
+        if (schedule && schedule.length > 0) {
+            this.addPaymentPlan(doc, schedule);
+        }
+
         // Return the PDF as a buffer
         return Buffer.from(doc.output('arraybuffer'));
     }
 
     /**
-     * Generates a PDF document for an instruction letter with signature
-     * @param params The parameters for generating the PDF
-     * @returns Buffer containing the generated PDF
+     * Adds the installment table on new pages, repeating the header on each page
      */
-    async generateInstructionLetterPdf(params: {
-        signature: string;
-        numberDocument: string;
-        name: string;
-    }): Promise<Buffer> {
-        const { signature, numberDocument, name } = params;
-        const jsonData = this.Skeleton01;
-        const doc = new jsPDF();
-
-        // Helper function to add a signature and document info
-        const addSignatureAndDocument = async (
-            yPosition: number,
-            signature: string,
-            name: string,
-            numberDocument: string
-        ) => {
-            try {
-                const img = await this.helpers.loadImage(signature);
-                const imgWidth = 50;
-                const imgHeight = 20;
-
-                // Convert Buffer to base64 string
-                const base64Img = img.toString('base64');
-
-                // Add signature image
-                doc.addImage(`data:image/png;base64,${base64Img}`, 'PNG', 10, yPosition, imgWidth, imgHeight);
-
-                // Add line under signature
-                const lineY = yPosition + imgHeight + 2;
-                doc.line(10, lineY, 10 + imgWidth, lineY);
-
-                // Add text labels
-                this.helpers.addText(doc, "Firma del solicitante", 10, lineY + 6);
-                this.helpers.addText(doc, "Nombre: " + name, 10, lineY + 11);
-                this.helpers.addText(doc, "Identificación: " + numberDocument, 10, lineY + 16);
-            } catch (error) {
-                this.logger.error("Error adding signature to PDF", error);
-                throw error;
-            }
+    private addPaymentPlan(doc: jsPDF, schedule: PaymentPlanRow[]) {
+        const columns = [
+            { label: "Cuota", x: 10 },
+            { label: "Vencimiento", x: 28 },
+            { label: "Capital", x: 62 },
+            { label: "Interés", x: 94 },
+            { label: "Cargos", x: 122 },
+            { label: "Total cuota", x: 148 },
+            { label: "Saldo", x: 178 },
+        ];
+        const pageBottom = 280;
+
+        const addHeader = (y: number): number => {
+            doc.setFont("helvetica", "bold");
+            columns.forEach(column => this.helpers.addText(doc, column.label, column.x, y));
+            doc.setFont("helvetica", "normal");
+            doc.line(10, y + 2, 200, y + 2);
+            return y + 8;
         };
 
-        // Begin creating PDF
-        doc.setFontSize(10);
-        let y = 15; // Initial Y position
-
-        // First page
-        this.helpers.addText(doc, jsonData.firstParagraph, 10, y, { maxWidth: 190 });
-        y += 95;
-
-        this.helpers.addText(
-            doc,
-            jsonData.firstText +
-            `__________________________________________,` +
-            jsonData.secondText +
-            `______________________, ` +
-            jsonData.secondParagraph,
-            10,
-            y,
-            { maxWidth: 190 }
-        );
-        y += 40;
-
-        this.helpers.addText(doc, jsonData.inst01, 20, y, { maxWidth: 180 });
-        y += 15;
-
-        this.helpers.addText(doc, jsonData.inst02, 20, y, { maxWidth: 180 });
-        y += 30;
-
-        this.helpers.addText(doc, jsonData.inst03, 20, y, { maxWidth: 180 });
-        y += 15;
-
-        this.helpers.addText(doc, jsonData.inst04, 20, y, { maxWidth: 180 });
-        y += 15;
-
-        this.helpers.addText(doc, jsonData.inst05, 20, y, { maxWidth: 180 });
-        y += 15;
-
-        this.helpers.addText(doc, jsonData.finalSecondParagraph, 10, y, { maxWidth: 180 });
-        y += 10;
-
-        // Add signature to first page
-        await addSignatureAndDocument(y, signature, name, numberDocument);
-
-        // Second page
         doc.addPage();
-        y = 15; // Reset Y position for second page
+        doc.setFontSize(12);
+        this.helpers.addText(doc, "Plan de pagos", 10, 15);
+        doc.setFontSize(9);
+        let y = addHeader(25);
+
+        for (const row of schedule) {
+            if (y > pageBottom) {
+                doc.addPage();
+                y = addHeader(15);
+            }
 
-        this.helpers.addText(doc, jsonData.threeParagraph, 10, y, { maxWidth: 190 });
-        y += 35;
+            const values = [
+                String(row.number),
+                new Date(row.dueDate).toLocaleDateString('es-CO'),
+                formatCop(row.principal),
+                formatCop(row.interest),
+                formatCop(row.fees),
+                formatCop(row.total),
+                formatCop(row.balance),
+            ];
+            values.forEach((value, index) => this.helpers.addText(doc, value, columns[index].x, y));
+            y += 6;
+        }
 
-        this.helpers.addText(doc, jsonData.fourParagraph, 10, y, { maxWidth: 190 });
-        y += 15;
+        const totals = schedule.reduce(
+            (acc, row) => ({
+                principal: acc.principal + row.principal,
+                interest: acc.interest + row.interest,
+                fees: acc.fees + row.fees,
+                total: acc.total + row.total,
+            }),
+            { principal: 0, interest: 0, fees: 0, total: 0 },
+        );
 
-        // Add signature to second page
-        await addSignatureAndDocument(y, signature, name, numberDocument);
+        if (y > pageBottom) {
+            doc.addPage();
+            y = 15;
+        }
+        doc.line(10, y - 4, 200, y - 4);
+        doc.setFont("helvetica", "bold");
+        this.helpers.addText(doc, "Totales", columns[0].x, y);
+        this.helpers.addText(doc, formatCop(totals.principal), columns[2].x, y);
+        this.helpers.addText(doc, formatCop(totals.interest), columns[3].x, y);
+        this.helpers.addText(doc, formatCop(totals.fees), columns[4].x, y);
+        this.helpers.addText(doc, formatCop(totals.total), columns[5].x, y);
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(10);
+    }
 
-        // Return PDF as buffer
-        return Buffer.from(doc.output('arraybuffer'));
+    /**
+     * Generates a PDF document for an instruction letter with signature
+     * @param params The parameters for generating the PDF
+     * @returns Buffer containing the generated PDF
+     */
+    async generateInstructionLetterPdf(params: LegalPdfParams): Promise<Buffer> {
+        return this.layout.render(this.templates['instruction-letter'], this.legalValues(params), params.signature);
     }
 
     /**
@@ -243,142 +219,8 @@ export class SkeletonPdfServices {
      * @param params The parameters for generating the PDF
      * @returns Buffer containing the generated PDF
      */
-    async generateSalaryPaymentAuthorizationPdf(params: {
-        signature: string;
-        numberDocument: string;
-        name: string;
-    }): Promise<Buffer> {
-        const { signature, numberDocument, name } = params;
-        const skeletonPdf = this.Skeleton02
-        const sub_skeletonPdf = this.SkeletonSub02;
-        const doc = new jsPDF();
-
-        /**
-         * Adds signature and document details to the PDF
-         */
-        const addSignatureAndDocument = async (yPosition: number, signature: string) => {
-            try {
-                const img = await this.helpers.loadImage(signature);
-
-                // Convert Buffer to base64 string
-                const base64Img = img.toString('base64');
-
-                const imgWidth = 50;
-                const imgHeight = 20;
-
-                // Add signature image
-                doc.addImage(`data:image/png;base64,${base64Img}`, 'PNG', 10, yPosition, imgWidth, imgHeight);
-
-                // Add line under signature
-                const lineY = yPosition + imgHeight + 2;
-                doc.line(10, lineY, 10 + imgWidth, lineY);
-
-                // Add signature label
-                this.helpers.addText(doc, "Firma del solicitante", 10, lineY + 6);
-
-                // Add document number
-                const docX = 70;
-                const docY = yPosition + imgHeight / 1;
-                this.helpers.addText(doc, numberDocument, docX, docY);
-                doc.line(docX, docY + 2, docX + 40, docY + 2);
-                this.helpers.addText(doc, "C.C.", docX, docY + 6);
-            } catch (error) {
-                this.logger.error("Error adding signature to PDF", error);
-                throw error;
-            }
-        };
-
-        // Begin creating PDF
-        doc.setFontSize(10);
-
-        // First page - Salary Payment Authorization
-        let y = 8;
-        this.helpers.addText(doc, skeletonPdf.title, 10, y, { maxWidth: 190 });
-        y += 8;
-
-        this.helpers.addText(doc, skeletonPdf.firstParagraph + " ______________________", 10, y, {
-            maxWidth: 190,
-        });
-        y += 5;
-
-        this.helpers.addText(doc, skeletonPdf.subFirstParagraph, 10, y, {
-            maxWidth: 190,
-        });
-        y += 50;
-
-        this.helpers.addText(doc, skeletonPdf.secondParagraph, 10, y, { maxWidth: 190 });
-        y += 30;
-
-        this.helpers.addText(doc, skeletonPdf.thirdParagraph, 10, y, { maxWidth: 190 });
-        y += 49;
-
-        this.helpers.addText(
-            doc,
-            skeletonPdf.footer +
-            " _________________ a los ___________ dias del mes de ___________ de _____________.",
-            10,
-            y,
-            { maxWidth: 190 }
-        );
-        y += 20;
-
-        // Add signature to first page
-        await addSignatureAndDocument(y, signature);
-
-        // Second page - Supplemental document
-        doc.addPage();
-        let y2 = 8;
-
-        this.helpers.addText(doc, sub_skeletonPdf.title, 10, y2, { maxWidth: 190 });
-        y2 += 10;
-
-        this.helpers.addText(
-            doc,
-            sub_skeletonPdf.firstParagraph + " ______________________",
-            10,
-            y2,
-            { maxWidth: 190 }
-        );
-        y2 += 4;
-
-        this.helpers.addText(
-            doc,
-            sub_skeletonPdf.subFirstParagraph +
-            " $ ____________________LETRAS (___________________) " +
-            sub_skeletonPdf.TwoSubFirstParagraph +
-            "____" +
-            sub_skeletonPdf.ThreeSubFirstParagraph +
-            " $____________________LETRAS(____________________________________) " +
-            sub_skeletonPdf.FourSubFirstParagraph +
-            "______" +
-            sub_skeletonPdf.FiveSubFirstParagraph,
-            10,
-            y2,
-            { maxWidth: 190 }
-        );
-        y2 += 53;
-
-        this.helpers.addText(doc, sub_skeletonPdf.secondParagraph, 10, y2, { maxWidth: 190 });
-        y2 += 30;
-
-        this.helpers.addText(doc, sub_skeletonPdf.thirdParagraph, 10, y2, { maxWidth: 190 });
-        y2 += 53;
-
-        this.helpers.addText(
-            doc,
-            sub_skeletonPdf.footer +
-            " ________________ a los _____________________ dias del mes de ______________________ de ____________",
-            10,
-            y2,
-            { maxWidth: 190 }
-        );
-        y2 += 20;
-
-        // Add signature to second page
-        await addSignatureAndDocument(y2, signature);
-
-        // Return PDF as buffer
-        return Buffer.from(doc.output('arraybuffer'));
+    async generateSalaryPaymentAuthorizationPdf(params: LegalPdfParams): Promise<Buffer> {
+        return this.layout.render(this.templates['salary-payment-authorization'], this.legalValues(params), params.signature);
     }
 
     /**
@@ -386,94 +228,27 @@ export class SkeletonPdfServices {
      * @param params The parameters for generating the PDF
      * @returns Buffer containing the generated PDF
      */
-    async generatePromissoryNotePdf(params: {
-        signature: string;
-        numberDocument: string;
-        name: string;
-    }): Promise<Buffer> {
-        const { signature, numberDocument, name } = params;
-        const skeletonPdf = this.Skeleton03;
-        const doc = new jsPDF();
-
+    async generatePromissoryNotePdf(params: LegalPdfParams): Promise<Buffer> {
         try {
-            // Update JSON data with provided information
-            const jsonData = { ...skeletonPdf };
-            jsonData.firstParagraph.namePerson = name;
-            jsonData.firstParagraph.numberDocument = numberDocument;
-
-            // Starting position
-            let y = 8;
-
-            // Add logo if available
-            if (jsonData.logoHeader) {
-                const logoBuffer = await this.helpers.loadImage(jsonData.logoHeader);
-                const base64Logo = logoBuffer.toString('base64');
-
-                const imgWidth = 70;
-                const imgHeight = 20; // Fixed height for consistent positioning
-
-                doc.addImage(`data:image/png;base64,${base64Logo}`, 'PNG', 10, y, imgWidth, imgHeight);
-                y += 28;
-            }
-
-            // Add text content
-            doc.setFontSize(10);
-
-            // Promissory note number and due date
-            this.helpers.addText(doc, jsonData.numero_pagare.publicText + " _________________", 10, y);
-            y += 10;
-
-            this.helpers.addText(doc, jsonData.fecha_vencimiento.publicText + " _________________", 10, y);
-            y += 10;
-
-            // First paragraph with debtor information
-            const firstParagraph = `${name} ${jsonData.firstParagraph.publicfirstText} ${numberDocument} ${jsonData.firstParagraph.publicSecondText} _________________ ${jsonData.firstParagraph.publicFiveText} _________________`;
-            this.helpers.addText(doc, firstParagraph, 10, y, { maxWidth: 190 });
-            y += 15;
-
-            // Terms and conditions paragraphs
-            this.helpers.addText(doc, jsonData.secondParagraph, 10, y, { maxWidth: 180 });
-            y += 68;
-
-            this.helpers.addText(doc, jsonData.threeParagraph, 10, y, { maxWidth: 180 });
-            y += 25;
-
-            this.helpers.addText(doc, jsonData.fourParagraph, 10, y, { maxWidth: 180 });
-            y += 85;
-
-            // Final paragraph with date
-            const fiveParagraph = `${jsonData.fiveParagraph.publicFirstText} ${jsonData.fiveParagraph.publicSecondText} _________________`;
-            this.helpers.addText(doc, fiveParagraph, 10, y, { maxWidth: 190 });
-            y += 10;
-
-            // Add signature
-            if (signature) {
-                const img = await this.helpers.loadImage(signature);
-                const base64Img = img.toString('base64');
-
-                const sigWidth = 50;
-                const sigHeight = 20;
-
-                doc.addImage(`data:image/png;base64,${base64Img}`, 'PNG', 10, y, sigWidth, sigHeight);
-
-                // Add line and text under signature
-                const lineY = y + sigHeight + 2;
-                doc.line(10, lineY, 10 + sigWidth, lineY);
-                this.helpers.addText(doc, "Firma del solicitante", 10, lineY + 6);
-
-                // Add document number beside signature
-                const docX = 70;
-                const docY = y + sigHeight / 1;
-                this.helpers.addText(doc, numberDocument, docX, docY);
-                doc.line(docX, docY + 2, docX + 40, docY + 2);
-                this.helpers.addText(doc, "C.C.", docX, docY + 6);
-            }
-
-            // Return PDF as buffer
-            return Buffer.from(doc.output('arraybuffer'));
+            return await this.layout.render(this.templates['promissory-note'], this.legalValues(params), params.signature);
         } catch (error) {
             this.logger.error('Error generating promissory note PDF', error);
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Values for the {{...}} placeholders of the legal templates
+     */
+    private legalValues(params: LegalPdfParams): TemplateValues {
+        return {
+            name: params.name,
+            numberDocument: params.numberDocument,
+            amount: params.amount !== undefined && params.amount !== null ? formatCop(params.amount) : null,
+            dueDate: params.dueDate
+                ? new Date(params.dueDate).toLocaleDateString('es-CO', { day: 'numeric', month: 'long', year: 'numeric' })
+                : null,
+            promissoryNumber: params.promissoryNumber,
+        };
+    }
+}
@@ -65,5 +65,22 @@ export class TransformerPDFService {
         if ('accountNumber' in param) {
             transformedParam.accountNumber = param.accountNumber;
         }
+
+        if ('schedule' in param && param.schedule) {
+            transformedParam.schedule = param.schedule;
+        }
+
+        // Datos del préstamo para los marcadores de las plantillas legales
+        if ('amount' in param && param.amount !== undefined) {
+            transformedParam.amount = param.amount;
+        }
+
+        if ('dueDate' in param && param.dueDate) {
+            transformedParam.dueDate = param.dueDate;
+        }
+
+        if ('promissoryNumber' in param && param.promissoryNumber) {
+            transformedParam.promissoryNumber = param.promissoryNumber;
+        }
     }
 }
\ No newline at end of file
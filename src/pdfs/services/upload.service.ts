@@ -1,5 +1,8 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
 import { DocumentGenerationParams, PromissoryNoteGenerationParams } from "../dto/create-pdf.dto";
+import { LayoutTemplate, LegalDocumentType } from "../dto/layout-template.dto";
+import { LEGAL_TEMPLATES } from "templates/LegalTemplates";
 import { GoogleCloudService } from "src/gcp/gcp.service";
 import { PrismaService } from "src/prisma/prisma.service";
 import { GeneratePDFService } from "./generate.service";
@@ -14,7 +17,9 @@ export class DocumentsUploadService {
         private readonly googleCloudService: GoogleCloudService,
         private readonly prismaService: PrismaService,
         private readonly pdfGenerationService: GeneratePDFService,
-        private readonly documentTransformer: TransformerPDFService
+        private readonly documentTransformer: TransformerPDFService,
+        @Inject(LEGAL_TEMPLATES)
+        private readonly templates: Record<LegalDocumentType, LayoutTemplate>,
     ) { }
 
     /**
@@ -138,11 +143,29 @@ export class DocumentsUploadService {
                 uploadId,
                 publicUrl,
                 documentTypes,
+                templateVersions: this.templateVersionsOf(documentTypes),
                 fileType: 'application/zip',
             },
         });
     }
 
+    /**
+     * Template version used for each legal document in the ZIP.
+     * Documents without a declarative template (about-loan) are left out
+     */
+    private templateVersionsOf(documentTypes: string[]): Prisma.InputJsonObject {
+        const versions: Record<string, number> = {};
+
+        for (const documentType of documentTypes) {
+            const template = this.templates[documentType as LegalDocumentType];
+            if (template) {
+                versions[documentType] = template.version;
+            }
+        }
+
+        return versions;
+    }
+
     private extractFilePathFromUrl(publicUrl: string): string {
         const bucketName = process.env.NAME_BUCKET_GOOGLE_STORAGE as string;
         const baseUrl = `https://storage.googleapis.com/${bucketName}/`;
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitPolicyName } from '../rate-limit.policies';
+
+export const RATE_LIMIT_KEY = 'rate_limit';
+
+/**
+ * Aplica a la ruta una política de RATE_LIMIT_POLICIES. El guard es global, así que
+ * corre antes que los guards de la ruta (incluido el login con passport)
+ */
+export const RateLimit = (policy: RateLimitPolicyName) => SetMetadata(RATE_LIMIT_KEY, policy);
@@ -0,0 +1,92 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_POLICIES } from './rate-limit.policies';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+} from '@nestjs/swagger';
+
+@ApiTags('rate-limits')
+@Controller('admin/rate-limits')
+@UseGuards(IntranetAuthGuard, PermissionsGuard)
+@RequirePermission('rate-limit.manage')
+export class RateLimitController {
+  constructor(private readonly rateLimit: RateLimitService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'Consultar contadores y bloqueos de los endpoints de autenticación (permiso rate-limit.manage)' })
+  @ApiQuery({ name: 'identifier', required: false, description: 'IP o correo' })
+  @ApiQuery({ name: 'policy', required: false, enum: Object.keys(RATE_LIMIT_POLICIES), description: 'Política de límite' })
+  @ApiQuery({ name: 'locked', required: false, type: Boolean, description: 'Solo los bloqueos vigentes' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Contadores más recientes (máximo 200)' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso rate-limit.manage' })
+  @ApiBadRequestResponse({ description: 'Política no válida' })
+  async list(
+    @Query('identifier') identifier?: string,
+    @Query('policy') policy?: string,
+    @Query('locked') locked?: string,
+  ) {
+    return this.rateLimit.list({ identifier, policy, locked: locked === 'true' });
+  }
+
+  @Post('clear')
+  @ApiOperation({ summary: 'Desbloquear una IP o un correo en todas las políticas (permiso rate-limit.manage)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        identifier: { type: 'string', description: 'IP o correo a desbloquear' },
+      },
+      required: ['identifier'],
+    },
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Cantidad de contadores eliminados' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso rate-limit.manage' })
+  @ApiBadRequestResponse({ description: 'Falta el identificador' })
+  async clearIdentifier(@Body('identifier') identifier: string) {
+    if (typeof identifier !== 'string') {
+      throw new BadRequestException('Debe indicar la IP o el correo a desbloquear');
+    }
+
+    return this.rateLimit.clearIdentifier(identifier);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Eliminar un contador y su bloqueo (permiso rate-limit.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del contador' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Contador eliminado' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso rate-limit.manage' })
+  @ApiNotFoundResponse({ description: 'Contador no encontrado' })
+  async clear(@Param('id', ParseUUIDPipe) id: string) {
+    return this.rateLimit.clear(id);
+  }
+}
@@ -0,0 +1,68 @@
+import { CanActivate, ExecutionContext, HttpException, HttpStatus, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_KEY } from './decorators/rate-limit.decorator';
+import { RATE_LIMIT_POLICIES, RateLimitPolicyName } from './rate-limit.policies';
+import { RateLimitService, RateLimitSubject } from './rate-limit.service';
+
+/**
+ * Guard global: solo actúa en las rutas con @RateLimit. Si la ruta está bloqueada o
+ * superó su límite responde 429 con la cabecera Retry-After. Si los contadores fallan
+ * responde 503 en las políticas con failClosed y deja pasar en las demás.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimit: RateLimitService,
+  ) { }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') return true;
+
+    const policy = this.reflector.get<RateLimitPolicyName>(RATE_LIMIT_KEY, context.getHandler());
+    if (!policy) return true;
+
+    const request = context.switchToHttp().getRequest();
+    const subject: RateLimitSubject = {
+      ip: request.ip,
+      email: typeof request.body?.email === 'string' ? request.body.email : null,
+      route: request.route?.path ?? request.path,
+    };
+
+    let decision;
+    try {
+      decision = await this.rateLimit.consume(policy, subject);
+    } catch (error) {
+      this.logger.error(`Error al consultar el límite de peticiones de ${policy}`, error);
+
+      // En los PIN no se atiende sin límite; en el resto (login) la ruta sigue disponible
+      if (RATE_LIMIT_POLICIES[policy].failClosed) {
+        throw new ServiceUnavailableException('No fue posible validar el límite de intentos, intente de nuevo en unos minutos');
+      }
+      return true;
+    }
+
+    request.rateLimit = { policy, subject };
+
+    if (!decision.allowed) {
+      context.switchToHttp().getResponse().setHeader('Retry-After', String(decision.retryAfter));
+      throw new HttpException({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: decision.locked
+          ? `Demasiados intentos fallidos. Intente de nuevo en ${this.describe(decision.retryAfter)}`
+          : `Demasiadas solicitudes. Intente de nuevo en ${this.describe(decision.retryAfter)}`,
+        retryAfter: decision.retryAfter,
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    return true;
+  }
+
+  private describe(seconds: number): string {
+    if (seconds < 60) return `${seconds} segundos`;
+    const minutes = Math.ceil(seconds / 60);
+    return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
+  }
+}
@@ -0,0 +1,35 @@
+import { CallHandler, ExecutionContext, Injectable, Logger, NestInterceptor } from '@nestjs/common';
+import { Observable, from } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
+import { RateLimitService } from './rate-limit.service';
+
+/**
+ * Limpia los intentos fallidos cuando una ruta con @RateLimit responde sin error.
+ * Las respuestas con error no se tocan: RateLimitGuard ya las contó como fallidas.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  private logger = new Logger(RateLimitInterceptor.name);
+
+  constructor(private readonly rateLimit: RateLimitService) { }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.getType() === 'http' ? context.switchToHttp().getRequest() : null;
+    const tracked = request?.rateLimit;
+
+    if (!tracked) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      mergeMap(data => from((async () => {
+        try {
+          await this.rateLimit.recordSuccess(tracked.policy, tracked.subject);
+        } catch (error) {
+          this.logger.error(`Error al reiniciar los intentos de ${tracked.policy}`, error);
+        }
+        return data;
+      })())),
+    );
+  }
+}
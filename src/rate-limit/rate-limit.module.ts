@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitController } from './rate-limit.controller';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+
+@Module({
+  imports: [PrismaModule, ScheduleModule.forRoot(), IntranetRoleModule],
+  controllers: [RateLimitController],
+  providers: [
+    RateLimitService,
+    IntranetAuthGuard,
+    // Globales: solo actúan en las rutas marcadas con @RateLimit
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+    { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor },
+  ],
+  exports: [RateLimitService],
+})
+export class RateLimitModule { }
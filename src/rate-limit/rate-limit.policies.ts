@@ -0,0 +1,80 @@
+export type RateLimitDimension = 'ip' | 'email' | 'route';
+
+export type RateLimitPolicyName =
+  | 'login'
+  | 'pin-send'
+  | 'pin-verify'
+  | 'bot-pin-send'
+  | 'bot-pin-verify'
+  | 'password-reset';
+
+export interface RateLimitWindow {
+  max: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitPolicy {
+  limits: Partial<Record<RateLimitDimension, RateLimitWindow>>;
+  // Bloqueo por intentos fallidos, por IP y por correo. La duración se duplica con cada bloqueo seguido
+  lockout?: { maxFailures: number; baseSeconds: number; maxSeconds: number };
+  // Si los contadores no responden se rechaza la petición en vez de atenderla sin límite.
+  // Se usa en los PIN, donde probar códigos sin límite permitiría adivinarlos
+  failClosed?: boolean;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Límites de los endpoints de autenticación. Las rutas del bot no limitan por IP porque
+ * todas sus peticiones llegan desde el mismo servidor; ahí el control es por correo.
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  'login': {
+    limits: {
+      ip: { max: 30, windowSeconds: 15 * MINUTE },
+      email: { max: 10, windowSeconds: 15 * MINUTE },
+      route: { max: 600, windowSeconds: MINUTE },
+    },
+    lockout: { maxFailures: 5, baseSeconds: MINUTE, maxSeconds: HOUR },
+  },
+  'pin-send': {
+    limits: {
+      ip: { max: 10, windowSeconds: HOUR },
+      email: { max: 3, windowSeconds: 10 * MINUTE },
+      route: { max: 300, windowSeconds: MINUTE },
+    },
+    failClosed: true,
+  },
+  'pin-verify': {
+    limits: {
+      ip: { max: 30, windowSeconds: 15 * MINUTE },
+      email: { max: 10, windowSeconds: 10 * MINUTE },
+      route: { max: 600, windowSeconds: MINUTE },
+    },
+    lockout: { maxFailures: 5, baseSeconds: 5 * MINUTE, maxSeconds: 24 * HOUR },
+    failClosed: true,
+  },
+  'bot-pin-send': {
+    limits: {
+      email: { max: 3, windowSeconds: 10 * MINUTE },
+      route: { max: 300, windowSeconds: MINUTE },
+    },
+    failClosed: true,
+  },
+  'bot-pin-verify': {
+    limits: {
+      email: { max: 10, windowSeconds: 10 * MINUTE },
+      route: { max: 600, windowSeconds: MINUTE },
+    },
+    lockout: { maxFailures: 5, baseSeconds: 5 * MINUTE, maxSeconds: 24 * HOUR },
+    failClosed: true,
+  },
+  'password-reset': {
+    limits: {
+      ip: { max: 10, windowSeconds: HOUR },
+      email: { max: 3, windowSeconds: HOUR },
+      route: { max: 300, windowSeconds: MINUTE },
+    },
+  },
+};
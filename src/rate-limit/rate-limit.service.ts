@@ -0,0 +1,268 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, RateLimitCounter } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RATE_LIMIT_POLICIES, RateLimitDimension, RateLimitPolicyName } from './rate-limit.policies';
+
+// Quién hace la petición; el correo solo existe en las rutas que lo reciben en el body
+export interface RateLimitSubject {
+  ip?: string | null;
+  email?: string | null;
+  route: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfter: number; // Segundos hasta poder intentar de nuevo, 0 si se permite
+  locked: boolean;
+}
+
+export interface RateLimitFilters {
+  identifier?: string;
+  policy?: string;
+  locked?: boolean;
+}
+
+interface CounterKey {
+  key: string;
+  dimension: RateLimitDimension;
+  identifier: string;
+}
+
+// Un contador sin actividad por este tiempo ya no limita nada y se elimina
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+const MAX_LISTED = 200;
+const MAX_CREATE_ATTEMPTS = 3;
+
+@Injectable()
+export class RateLimitService {
+  private logger = new Logger(RateLimitService.name);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  /**
+   * Registra la petición en los contadores de la política y decide si se atiende.
+   * Cada intento en una ruta con bloqueo cuenta como fallido hasta que recordSuccess lo
+   * limpie, porque el login rechaza en su guard y ahí no corre ningún interceptor.
+   * Los contadores se incrementan de forma atómica y la decisión se toma sobre el valor
+   * ya incrementado, así que peticiones simultáneas no pueden pasar todas del límite.
+   */
+  async consume(policyName: RateLimitPolicyName, subject: RateLimitSubject): Promise<RateLimitDecision> {
+    const policy = RATE_LIMIT_POLICIES[policyName];
+    const now = new Date();
+    const keys = this.keysFor(policyName, subject);
+
+    const lockedUntil = (await this.prisma.rateLimitCounter.findMany({
+      where: { key: { in: keys.map(key => key.key) }, lockedUntil: { gt: now } },
+      select: { lockedUntil: true },
+    })).map(counter => counter.lockedUntil!.getTime());
+
+    if (lockedUntil.length > 0) {
+      return { allowed: false, retryAfter: this.secondsUntil(Math.max(...lockedUntil), now), locked: true };
+    }
+
+    const counters = await Promise.all(keys.map(key =>
+      this.increment(policyName, key, this.tracksFailures(policyName, key), now),
+    ));
+
+    let retryAfter = 0;
+    let locked = false;
+    const lockedKeys = new Set<string>();
+
+    for (const [index, key] of keys.entries()) {
+      const limit = policy.limits[key.dimension]!;
+      const counter = counters[index];
+
+      if (counter.hits > limit.max) {
+        retryAfter = Math.max(retryAfter, this.secondsUntil(counter.windowStart.getTime() + limit.windowSeconds * 1000, now));
+      }
+
+      // El intento que supera los fallidos permitidos bloquea; solo una petición simultánea aplica el bloqueo
+      if (this.tracksFailures(policyName, key) && counter.failures > policy.lockout!.maxFailures) {
+        const seconds = Math.min(policy.lockout!.baseSeconds * 2 ** counter.lockouts, policy.lockout!.maxSeconds);
+        const { count } = await this.prisma.rateLimitCounter.updateMany({
+          where: { key: key.key, failures: { gt: policy.lockout!.maxFailures } },
+          data: { lockedUntil: new Date(now.getTime() + seconds * 1000), lockouts: { increment: 1 }, failures: 0 },
+        });
+
+        if (count > 0) {
+          this.logger.warn(`Bloqueo de ${seconds}s para ${key.key} tras ${policy.lockout!.maxFailures} intentos fallidos`);
+        }
+
+        lockedKeys.add(key.key);
+        retryAfter = Math.max(retryAfter, seconds);
+        locked = true;
+      }
+    }
+
+    const allowed = retryAfter === 0;
+
+    // Solo cuenta como intento fallido el que llega al endpoint: se devuelve el que se reservó
+    if (!allowed) {
+      await Promise.all(keys
+        .filter(key => this.tracksFailures(policyName, key) && !lockedKeys.has(key.key))
+        .map(key => this.prisma.rateLimitCounter.updateMany({
+          where: { key: key.key, failures: { gt: 0 } },
+          data: { failures: { decrement: 1 } },
+        })));
+    }
+
+    return { allowed, retryAfter, locked };
+  }
+
+  // El intento terminó bien: los fallidos anteriores ya no cuentan y el escalado se reinicia
+  async recordSuccess(policyName: RateLimitPolicyName, subject: RateLimitSubject): Promise<void> {
+    if (!RATE_LIMIT_POLICIES[policyName].lockout) return;
+
+    const keys = this.keysFor(policyName, subject).filter(key => key.dimension !== 'route');
+
+    await this.prisma.rateLimitCounter.updateMany({
+      where: { key: { in: keys.map(key => key.key) } },
+      data: { failures: 0, lockouts: 0 },
+    });
+  }
+
+  async list(filters: RateLimitFilters) {
+    const now = new Date();
+    const where: Prisma.RateLimitCounterWhereInput = {};
+
+    if (filters.identifier) where.identifier = filters.identifier.trim().toLowerCase();
+    if (filters.policy) {
+      if (!(filters.policy in RATE_LIMIT_POLICIES)) {
+        throw new BadRequestException(`Política no válida: ${filters.policy}`);
+      }
+      where.policy = filters.policy;
+    }
+    if (filters.locked) where.lockedUntil = { gt: now };
+
+    const counters = await this.prisma.rateLimitCounter.findMany({
+      where,
+      orderBy: { lastHitAt: 'desc' },
+      take: MAX_LISTED,
+    });
+
+    return counters.map(counter => ({
+      ...counter,
+      locked: !!counter.lockedUntil && counter.lockedUntil > now,
+      retryAfter: counter.lockedUntil && counter.lockedUntil > now ? this.secondsUntil(counter.lockedUntil.getTime(), now) : 0,
+    }));
+  }
+
+  async clear(id: string): Promise<RateLimitCounter> {
+    const counter = await this.prisma.rateLimitCounter.findUnique({ where: { id } });
+    if (!counter) {
+      throw new NotFoundException(`Contador con ID ${id} no encontrado`);
+    }
+
+    await this.prisma.rateLimitCounter.delete({ where: { id } });
+    this.logger.log(`Contador ${counter.key} eliminado manualmente`);
+
+    return counter;
+  }
+
+  // Quita todos los límites y bloqueos de una IP o un correo
+  async clearIdentifier(identifier: string): Promise<{ cleared: number }> {
+    const value = identifier?.trim().toLowerCase();
+    if (!value) {
+      throw new BadRequestException('Debe indicar la IP o el correo a desbloquear');
+    }
+
+    const { count } = await this.prisma.rateLimitCounter.deleteMany({ where: { identifier: value } });
+    this.logger.log(`${count} contadores eliminados manualmente para ${value}`);
+
+    return { cleared: count };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeStale(): Promise<void> {
+    const now = new Date();
+
+    try {
+      const { count } = await this.prisma.rateLimitCounter.deleteMany({
+        where: {
+          lastHitAt: { lt: new Date(now.getTime() - STALE_AFTER_MS) },
+          OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        },
+      });
+
+      if (count > 0) {
+        this.logger.log(`${count} contadores de límite de peticiones inactivos eliminados`);
+      }
+    } catch (error) {
+      this.logger.error('Error al limpiar los contadores de límite de peticiones', error);
+    }
+  }
+
+  private keysFor(policyName: RateLimitPolicyName, subject: RateLimitSubject): CounterKey[] {
+    const { limits } = RATE_LIMIT_POLICIES[policyName];
+    const identifiers: Record<RateLimitDimension, string | null> = {
+      ip: subject.ip?.trim().toLowerCase() || null,
+      email: subject.email?.trim().toLowerCase() || null,
+      route: subject.route,
+    };
+
+    return (Object.keys(limits) as RateLimitDimension[])
+      .filter(dimension => identifiers[dimension])
+      .map(dimension => ({
+        key: `${policyName}:${dimension}:${identifiers[dimension]}`,
+        dimension,
+        identifier: identifiers[dimension]!,
+      }));
+  }
+
+  private tracksFailures(policyName: RateLimitPolicyName, key: CounterKey): boolean {
+    return !!RATE_LIMIT_POLICIES[policyName].lockout && key.dimension !== 'route';
+  }
+
+  /**
+   * Suma la petición al contador (y un intento fallido si corresponde) con un incremento
+   * atómico, reiniciando antes la ventana si ya venció. Devuelve el contador actualizado.
+   */
+  private async increment(
+    policyName: RateLimitPolicyName,
+    key: CounterKey,
+    countFailure: boolean,
+    now: Date,
+  ): Promise<RateLimitCounter> {
+    const { windowSeconds } = RATE_LIMIT_POLICIES[policyName].limits[key.dimension]!;
+
+    for (let attempt = 1; ; attempt++) {
+      // Condicional sobre windowStart: si dos peticiones ven la ventana vencida solo una la reinicia
+      await this.prisma.rateLimitCounter.updateMany({
+        where: { key: key.key, windowStart: { lte: new Date(now.getTime() - windowSeconds * 1000) } },
+        data: { hits: 0, failures: 0, windowStart: now },
+      });
+
+      try {
+        return await this.prisma.rateLimitCounter.upsert({
+          where: { key: key.key },
+          create: {
+            key: key.key,
+            policy: policyName,
+            dimension: key.dimension,
+            identifier: key.identifier,
+            hits: 1,
+            failures: countFailure ? 1 : 0,
+            windowStart: now,
+            lastHitAt: now,
+          },
+          update: {
+            hits: { increment: 1 },
+            ...(countFailure && { failures: { increment: 1 } }),
+            lastHitAt: now,
+          },
+        });
+      } catch (error) {
+        // Otra petición creó el contador al mismo tiempo; el reintento ya lo encuentra e incrementa
+        if (attempt < MAX_CREATE_ATTEMPTS && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private secondsUntil(time: number, now: Date): number {
+    return Math.max(1, Math.ceil((time - now.getTime()) / 1000));
+  }
+}
@@ -0,0 +1,445 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { companiesUser, Document, Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  digitRange,
+  digitsOf,
+  editDistance,
+  escapeRegex,
+  tokenize,
+  typoBudget,
+  wordsWithPositions,
+} from 'handlers/search-text';
+
+export type ClientSearchField =
+  | 'names'
+  | 'firstLastName'
+  | 'secondLastName'
+  | 'document'
+  | 'phone'
+  | 'phone_whatsapp'
+  | 'email';
+
+export interface ClientSearchHighlight {
+  field: ClientSearchField;
+  value: string; // Valor original del campo
+  ranges: [number, number][]; // Tramos [inicio, fin) que coincidieron dentro de value
+}
+
+export interface ClientSearchHit {
+  user: User & { Document: Document[] };
+  score: number;
+  highlights: ClientSearchHighlight[];
+}
+
+interface SearchTerm {
+  kind: 'word' | 'digits' | 'email';
+  value: string;
+}
+
+// Qué coincidió en el índice con cada término, para puntuar y resaltar
+interface TermMatch {
+  kind: 'name' | 'document' | 'phone' | 'email';
+  value: string;
+  prefix: boolean; // Solo coincide el inicio de la palabra (value es lo buscado)
+  score: number;
+}
+
+interface IndexRow {
+  userId: string;
+  nameTokens: string[];
+  fullName: string;
+  documents: string[];
+  phones: string[];
+  email: string;
+}
+
+interface RankedRow {
+  row: IndexRow;
+  score: number;
+  matches: TermMatch[];
+}
+
+// Candidatos leídos del índice en una pasada, con el total de filas que coincidieron
+interface CandidateBatch {
+  rows: IndexRow[];
+  total: number;
+}
+
+interface RankResult {
+  ranked: RankedRow[];
+  // Coincidencias que no se leyeron por superar CANDIDATE_LIMIT
+  unread: number;
+}
+
+const NAME_FIELDS = ['names', 'firstLastName', 'secondLastName'] as const;
+// Máximo de candidatos que se leen del índice por búsqueda antes de puntuar. Antes del
+// corte se ordenan por coincidencias exactas, así que lo que queda fuera son coincidencias
+// parciales; en ese caso la búsqueda se marca como `truncated` y el total es estimado.
+const CANDIDATE_LIMIT = 1000;
+const BATCH_SIZE = 500;
+
+/**
+ * Búsqueda de clientes por nombre, documento, teléfono o correo sobre un índice
+ * con los textos ya normalizados. Los términos se combinan con AND: cada uno debe
+ * coincidir con algún campo. Los nombres toleran tildes, mayúsculas, palabras
+ * incompletas y errores de tipeo; los resultados vuelven ordenados por relevancia.
+ */
+@Injectable()
+export class ClientSearchService implements OnApplicationBootstrap {
+  private logger = new Logger(ClientSearchService.name);
+
+  constructor(private readonly prisma: PrismaService) { }
+
+  // Indexa los clientes que aún no están en el índice (creados antes de que existiera)
+  async onApplicationBootstrap() {
+    try {
+      const indexed = await this.reindexAll(true);
+      if (indexed > 0) {
+        this.logger.log(`${indexed} clientes agregados al índice de búsqueda`);
+      }
+    } catch (error) {
+      this.logger.error('Error al construir el índice de búsqueda de clientes', error);
+    }
+  }
+
+  async search(
+    query: string,
+    { skip = 0, take = 20, companies }: { skip?: number; take?: number; companies?: companiesUser[] } = {},
+  ): Promise<{ total: number; truncated: boolean; hits: ClientSearchHit[] }> {
+    let { ranked, unread } = await this.rank(query);
+
+    // El índice no guarda la empresa del cliente, así que se filtra sobre los candidatos ya puntuados
+    if (companies) {
+      const allowed = await this.prisma.user.findMany({
+        where: { id: { in: ranked.map(({ row }) => row.userId) }, currentCompanie: { in: companies } },
+        select: { id: true },
+      });
+      const allowedIds = new Set(allowed.map(user => user.id));
+      ranked = ranked.filter(({ row }) => allowedIds.has(row.userId));
+    }
+
+    const page = ranked.slice(skip, skip + take);
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: page.map(({ row }) => row.userId) } },
+      include: { Document: true },
+    });
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    // Un cliente eliminado fuera de ClientService puede seguir en el índice hasta la próxima reindexación
+    const hits = page
+      .filter(({ row }) => usersById.has(row.userId))
+      .map(({ row, score, matches }) => {
+        const user = usersById.get(row.userId)!;
+        return { user, score, highlights: this.highlights(user, matches) };
+      });
+
+    // Las filas no leídas se cuentan como coincidencias: el total es una cota superior
+    return { total: ranked.length + unread, truncated: unread > 0, hits };
+  }
+
+  // IDs de los clientes que coinciden, del más al menos relevante (hasta CANDIDATE_LIMIT)
+  async matchingUserIds(query: string): Promise<string[]> {
+    return (await this.rank(query)).ranked.map(({ row }) => row.userId);
+  }
+
+  /**
+   * Actualiza la entrada de un cliente (o la borra si el cliente ya no existe).
+   * Un fallo del índice no debe tumbar la escritura que lo disparó, así que solo se registra.
+   */
+  async reindexUser(userId: string): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        include: { Document: true },
+      });
+
+      if (!user) {
+        await this.prisma.clientSearchIndex.deleteMany({ where: { userId } });
+        return;
+      }
+
+      const entry = this.entryFor(user);
+      await this.prisma.clientSearchIndex.upsert({
+        where: { userId },
+        create: entry,
+        update: entry,
+      });
+    } catch (error) {
+      this.logger.error(`Error al indexar el cliente ${userId}`, error);
+    }
+  }
+
+  /**
+   * Reconstruye el índice por lotes. Con `onlyMissing` solo agrega los clientes
+   * que no tienen entrada. Devuelve cuántas entradas se escribieron.
+   */
+  async reindexAll(onlyMissing = false): Promise<number> {
+    const indexed = onlyMissing
+      ? new Set((await this.prisma.clientSearchIndex.findMany({ select: { userId: true } })).map(row => row.userId))
+      : new Set<string>();
+
+    let written = 0;
+    let cursor: string | undefined;
+
+    for (; ;) {
+      const users = await this.prisma.user.findMany({
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { id: 'asc' },
+        include: { Document: true },
+      });
+
+      if (users.length === 0) break;
+      cursor = users[users.length - 1].id;
+
+      const pending = users.filter(user => !indexed.has(user.id));
+      if (pending.length > 0) {
+        await this.prisma.clientSearchIndex.deleteMany({ where: { userId: { in: pending.map(user => user.id) } } });
+        await this.prisma.clientSearchIndex.createMany({ data: pending.map(user => this.entryFor(user)) });
+        written += pending.length;
+      }
+    }
+
+    return written;
+  }
+
+  private entryFor(user: User & { Document: Document[] }): Prisma.ClientSearchIndexCreateInput {
+    const nameTokens = tokenize(`${user.names} ${user.firstLastName} ${user.secondLastName}`);
+
+    return {
+      userId: user.id,
+      nameTokens: [...new Set(nameTokens)],
+      fullName: nameTokens.join(' '),
+      documents: user.Document.map(document => digitsOf(document.number)).filter(Boolean),
+      phones: [...new Set([user.phone, user.phone_whatsapp].map(digitsOf).filter(Boolean))],
+      email: user.email.trim().toLowerCase(),
+    };
+  }
+
+  private async rank(query: string): Promise<RankResult> {
+    const terms = this.parseQuery(query);
+    if (terms.length === 0) {
+      return { ranked: [], unread: 0 };
+    }
+
+    const strict = await this.fetchCandidates(terms, false, []);
+    const candidates = strict.rows;
+    let unread = strict.total - strict.rows.length;
+
+    // Segunda pasada para errores de tipeo: se buscan palabras que empiecen por las dos primeras letras
+    const tolerant = terms.some(term => term.kind === 'word' && typoBudget(term.value) > 0);
+    if (tolerant && unread === 0 && candidates.length < CANDIDATE_LIMIT) {
+      const typos = await this.fetchCandidates(terms, true, candidates.map(row => row.userId));
+      candidates.push(...typos.rows);
+      unread += typos.total - typos.rows.length;
+    }
+
+    const phrase = terms.filter(term => term.kind === 'word').map(term => term.value).join(' ');
+    const ranked: RankedRow[] = [];
+
+    for (const row of candidates) {
+      const matches = terms.map(term => this.matchTerm(term, row));
+      if (matches.some(match => match === null)) continue;
+
+      let score = matches.reduce((total, match) => total + match!.score, 0);
+      // Premia que las palabras aparezcan juntas y en el mismo orden del nombre
+      if (phrase.includes(' ') && row.fullName.includes(phrase)) {
+        score += 10;
+      }
+
+      ranked.push({ row, score, matches: matches as TermMatch[] });
+    }
+
+    ranked.sort((a, b) => b.score - a.score || a.row.fullName.localeCompare(b.row.fullName));
+    return { ranked, unread };
+  }
+
+  /**
+   * Separa la consulta en términos. Una consulta hecha solo de dígitos y separadores
+   * ("300 123 4567", "1.061.234.567") es un único número de documento o teléfono.
+   */
+  private parseQuery(query: string): SearchTerm[] {
+    const clean = (query ?? '').trim();
+
+    if (/^[\d\s.\-()+]+$/.test(clean)) {
+      const digits = digitsOf(clean);
+      return digits.length >= 3 ? [{ kind: 'digits', value: digits }] : [];
+    }
+
+    const terms: SearchTerm[] = [];
+    for (const part of clean.split(/\s+/).filter(Boolean)) {
+      if (part.includes('@')) {
+        terms.push({ kind: 'email', value: part.toLowerCase() });
+      } else if (/^\d{3,}$/.test(part)) {
+        terms.push({ kind: 'digits', value: part });
+      } else {
+        terms.push(...tokenize(part).map(value => ({ kind: 'word' as const, value })));
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Lee los candidatos de una pasada y cuenta en la misma consulta cuántas filas
+   * coincidieron. Antes de aplicar CANDIDATE_LIMIT se ordenan por cuántos términos
+   * coinciden exactamente, para que el corte no deje fuera las mejores coincidencias.
+   */
+  private async fetchCandidates(terms: SearchTerm[], tolerant: boolean, exclude: string[]): Promise<CandidateBatch> {
+    const conditions: Prisma.InputJsonObject[] = terms.map(term => this.termCondition(term, tolerant));
+    if (exclude.length > 0) {
+      conditions.push({ userId: { $nin: exclude } });
+    }
+
+    const [result] = await this.prisma.clientSearchIndex.aggregateRaw({
+      pipeline: [
+        { $match: { $and: conditions } },
+        {
+          $facet: {
+            total: [{ $count: 'count' }],
+            rows: [
+              { $addFields: { exactMatches: { $add: terms.map(term => this.exactMatchExpression(term)) } } },
+              { $sort: { exactMatches: -1, fullName: 1 } },
+              { $limit: CANDIDATE_LIMIT - exclude.length },
+              { $project: { _id: 0, userId: 1, nameTokens: 1, fullName: 1, documents: 1, phones: 1, email: 1 } },
+            ],
+          },
+        },
+      ],
+      options: { allowDiskUse: true },
+    }) as unknown as { total: { count: number }[]; rows: IndexRow[] }[];
+
+    return { rows: result?.rows ?? [], total: result?.total[0]?.count ?? 0 };
+  }
+
+  // 1 si el término coincide completo con un campo de la fila, 0 si no
+  private exactMatchExpression(term: SearchTerm): Prisma.InputJsonObject {
+    switch (term.kind) {
+      case 'digits':
+        return { $cond: [{ $or: [{ $in: [term.value, '$documents'] }, { $in: [term.value, '$phones'] }] }, 1, 0] };
+      case 'email':
+        return { $cond: [{ $eq: ['$email', term.value] }, 1, 0] };
+      case 'word':
+        return { $cond: [{ $in: [term.value, '$nameTokens'] }, 1, 0] };
+    }
+  }
+
+  private termCondition(term: SearchTerm, tolerant: boolean): Prisma.InputJsonObject {
+    const value = escapeRegex(term.value);
+
+    switch (term.kind) {
+      case 'digits':
+        return { $or: [{ documents: { $regex: value } }, { phones: { $regex: value } }] };
+      case 'email':
+        return { email: { $regex: value } };
+      case 'word':
+        if (tolerant && typoBudget(term.value) > 0) {
+          return { nameTokens: { $regex: `^${escapeRegex(term.value.slice(0, 2))}` } };
+        }
+        return { $or: [{ nameTokens: { $regex: `^${value}` } }, { email: { $regex: `^${value}` } }] };
+    }
+  }
+
+  // Mejor coincidencia de un término con una entrada del índice, o null si no coincide
+  private matchTerm(term: SearchTerm, row: IndexRow): TermMatch | null {
+    const candidates: (TermMatch | null)[] = [];
+
+    if (term.kind === 'digits') {
+      for (const document of row.documents) {
+        if (document.includes(term.value)) {
+          const score = document === term.value ? 40 : document.startsWith(term.value) ? 30 : 20;
+          candidates.push({ kind: 'document', value: term.value, prefix: false, score });
+        }
+      }
+      for (const phone of row.phones) {
+        if (phone.includes(term.value)) {
+          const score = phone === term.value ? 35 : phone.endsWith(term.value) ? 25 : 20;
+          candidates.push({ kind: 'phone', value: term.value, prefix: false, score });
+        }
+      }
+    }
+
+    if (term.kind === 'email' && row.email.includes(term.value)) {
+      const score = row.email === term.value ? 40 : row.email.startsWith(term.value) ? 25 : 15;
+      candidates.push({ kind: 'email', value: term.value, prefix: false, score });
+    }
+
+    if (term.kind === 'word') {
+      const budget = typoBudget(term.value);
+
+      for (const token of row.nameTokens) {
+        if (token === term.value) {
+          candidates.push({ kind: 'name', value: token, prefix: false, score: 30 });
+        } else if (token.startsWith(term.value)) {
+          candidates.push({ kind: 'name', value: term.value, prefix: true, score: 20 });
+        } else if (budget > 0) {
+          const distance = editDistance(term.value, token, budget);
+          if (distance <= budget) {
+            candidates.push({ kind: 'name', value: token, prefix: false, score: 15 - 5 * (distance - 1) });
+          }
+        }
+      }
+
+      if (term.value.length >= 3 && row.email.startsWith(term.value)) {
+        candidates.push({ kind: 'email', value: term.value, prefix: false, score: 12 });
+      }
+    }
+
+    return candidates.reduce<TermMatch | null>(
+      (best, match) => (match && (!best || match.score > best.score) ? match : best),
+      null,
+    );
+  }
+
+  // Ubica en los valores originales del cliente lo que coincidió en el índice
+  private highlights(user: User & { Document: Document[] }, matches: TermMatch[]): ClientSearchHighlight[] {
+    const result = new Map<string, ClientSearchHighlight>();
+
+    const add = (field: ClientSearchField, value: string, range: [number, number] | null) => {
+      if (!range) return;
+
+      const key = `${field}:${value}`;
+      const highlight = result.get(key) ?? { field, value, ranges: [] };
+      if (!highlight.ranges.some(([start, end]) => start === range[0] && end === range[1])) {
+        highlight.ranges.push(range);
+      }
+      result.set(key, highlight);
+    };
+
+    for (const match of matches) {
+      switch (match.kind) {
+        case 'name':
+          for (const field of NAME_FIELDS) {
+            for (const word of wordsWithPositions(user[field])) {
+              if (match.prefix ? word.word.startsWith(match.value) : word.word === match.value) {
+                const end = match.prefix ? Math.min(word.end, word.start + match.value.length) : word.end;
+                add(field, user[field], [word.start, end]);
+              }
+            }
+          }
+          break;
+        case 'document':
+          for (const document of user.Document) {
+            add('document', document.number, digitRange(document.number, match.value));
+          }
+          break;
+        case 'phone':
+          add('phone', user.phone, digitRange(user.phone, match.value));
+          add('phone_whatsapp', user.phone_whatsapp, digitRange(user.phone_whatsapp, match.value));
+          break;
+        case 'email': {
+          const start = user.email.toLowerCase().indexOf(match.value);
+          add('email', user.email, start === -1 ? null : [start, start + match.value.length]);
+          break;
+        }
+      }
+    }
+
+    return [...result.values()].map(highlight => ({
+      ...highlight,
+      ranges: highlight.ranges.sort((a, b) => a[0] - b[0]),
+    }));
+  }
+}
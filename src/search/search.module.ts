@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { ClientSearchService } from './client-search.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [ClientSearchService],
+  exports: [ClientSearchService],
+})
+export class SearchModule { }
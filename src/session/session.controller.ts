@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common';
+import { SessionUserType } from '@prisma/client';
+import { SessionService } from './session.service';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+
+@ApiTags('auth')
+@Controller('auth/sessions')
+export class SessionController {
+  constructor(private readonly sessions: SessionService) { }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get()
+  @ApiOperation({ summary: 'Listar las sesiones activas del usuario autenticado' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Sesiones activas; la sesión actual se marca con current' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  async listOwn(@CurrentUser() user: any) {
+    const sessions = await this.sessions.listActive(user.id, user.type);
+    return sessions.map(session => ({ ...session, current: session.id === user.sessionId }));
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Post('revoke-others')
+  @ApiOperation({ summary: 'Cerrar todas las sesiones excepto la actual' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Cantidad de sesiones cerradas' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  async revokeOthers(@CurrentUser() user: any) {
+    const revoked = await this.sessions.revokeAllForUser(user.id, user.type, 'killed', user.sessionId);
+    return { revoked };
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Delete(':sessionId')
+  @ApiOperation({ summary: 'Cerrar una sesión propia' })
+  @ApiParam({ name: 'sessionId', description: 'ID de la sesión' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Sesión cerrada' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'La sesión pertenece a otro usuario' })
+  @ApiNotFoundResponse({ description: 'Sesión no encontrada' })
+  async revokeOwn(
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.sessions.revokeOwn(sessionId, user.id, user.type);
+    return { message: 'Sesión cerrada correctamente' };
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('session.manage')
+  @Get('users/:userType/:userId')
+  @ApiOperation({ summary: 'Listar las sesiones activas de un usuario (permiso session.manage)' })
+  @ApiParam({ name: 'userType', enum: ['client', 'intranet'], description: 'Tipo de usuario' })
+  @ApiParam({ name: 'userId', description: 'ID del usuario' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Sesiones activas del usuario' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso session.manage' })
+  @ApiBadRequestResponse({ description: 'Tipo de usuario inválido' })
+  async listForUser(
+    @Param('userType') userType: SessionUserType,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ) {
+    this.assertUserType(userType);
+    return this.sessions.listActive(userId, userType);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('session.manage')
+  @Delete('users/:userType/:userId')
+  @ApiOperation({ summary: 'Cerrar todas las sesiones de un usuario (permiso session.manage)' })
+  @ApiParam({ name: 'userType', enum: ['client', 'intranet'], description: 'Tipo de usuario' })
+  @ApiParam({ name: 'userId', description: 'ID del usuario' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Cantidad de sesiones cerradas' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso session.manage' })
+  @ApiBadRequestResponse({ description: 'Tipo de usuario inválido' })
+  async revokeForUser(
+    @Param('userType') userType: SessionUserType,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ) {
+    this.assertUserType(userType);
+    const revoked = await this.sessions.revokeAllForUser(userId, userType, 'killed');
+    return { revoked };
+  }
+
+  private assertUserType(userType: string) {
+    if (!Object.values(SessionUserType).includes(userType as SessionUserType)) {
+      throw new BadRequestException('Tipo de usuario inválido. Valores permitidos: client, intranet');
+    }
+  }
+}
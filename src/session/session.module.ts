@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { SessionService } from './session.service';
+import { SessionController } from './session.controller';
+import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+
+@Module({
+  imports: [PrismaModule, IntranetRoleModule],
+  controllers: [SessionController],
+  providers: [
+    SessionService,
+    ClientAuthGuard,
+    IntranetAuthGuard,
+    CombinedAuthGuard,
+  ],
+  exports: [SessionService],
+})
+export class SessionModule { }
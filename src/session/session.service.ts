@@ -0,0 +1,267 @@
+import { ForbiddenException, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AuthSession, SessionUserType } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+// Duración máxima de una sesión y de su refresh token; debe coincidir con el maxAge de la cookie de refresh
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Los access tokens son cortos y se renuevan con el refresh token
+export const ACCESS_TOKEN_TTL = '15m';
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Evita escribir en cada request: lastSeenAt solo se actualiza si pasó este intervalo
+const LAST_SEEN_THROTTLE_MS = 5 * 60 * 1000;
+
+// Las sesiones expiradas o revocadas se conservan un tiempo para auditoría
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SessionRevokeReason = 'logout' | 'password_change' | 'ban' | 'deactivated' | 'killed' | 'refresh_reuse';
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(private prisma: PrismaService) { }
+
+  async create(
+    userId: string,
+    userType: SessionUserType,
+    meta: { ip?: string; userAgent?: string } = {},
+    ttlMs: number = SESSION_TTL_MS,
+  ): Promise<AuthSession> {
+    const session = await this.prisma.authSession.create({
+      data: {
+        userId,
+        userType,
+        ip: meta.ip ?? null,
+        userAgent: meta.userAgent?.slice(0, 255) ?? null,
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    });
+
+    this.logger.debug('Sesión creada', {
+      event: 'session_created',
+      sessionId: session.id,
+      userId,
+      userType,
+    });
+
+    return session;
+  }
+
+  /**
+   * Verifica que el jti de un token corresponda a una sesión vigente del usuario
+   */
+  async isActive(sessionId: string | undefined, userId: string, userType: SessionUserType): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+
+    const session = await this.prisma.authSession.findUnique({ where: { id: sessionId } });
+    const now = new Date();
+
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.userType !== userType ||
+      session.revokedAt ||
+      session.expiresAt <= now
+    ) {
+      return false;
+    }
+
+    if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS) {
+      await this.prisma.authSession.update({
+        where: { id: sessionId },
+        data: { lastSeenAt: now },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Genera el refresh token de una sesión. Solo se guarda su hash; el token
+   * incluye el id de la sesión para ubicarla al rotarlo.
+   */
+  async issueRefreshToken(sessionId: string): Promise<string> {
+    const secret = randomBytes(48).toString('base64url');
+
+    await this.prisma.authSession.update({
+      where: { id: sessionId },
+      data: { refreshTokenHash: this.hash(secret) },
+    });
+
+    return `${sessionId}.${secret}`;
+  }
+
+  /**
+   * Cambia un refresh token por uno nuevo. Si se presenta un token ya rotado se asume
+   * que fue robado y se revoca la sesión completa, lo que invalida también el token vigente.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    userType: SessionUserType,
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Refresh token inválido');
+    }
+
+    const session = await this.prisma.authSession.findUnique({ where: { id: sessionId } });
+
+    if (!session || session.userType !== userType || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('La sesión ha expirado, inicie sesión nuevamente');
+    }
+
+    const presentedHash = this.hash(secret);
+    const nextSecret = randomBytes(48).toString('base64url');
+
+    // Compare-and-set: solo rota si el hash sigue siendo el vigente, así dos
+    // peticiones con el mismo token no pueden rotarlo ambas
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, refreshTokenHash: presentedHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hash(nextSecret),
+        rotationCount: { increment: 1 },
+        rotatedAt: new Date(),
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (count !== 1) {
+      await this.revoke(sessionId, 'refresh_reuse');
+      this.logger.warn('Reutilización de refresh token detectada', {
+        event: 'refresh_token_reuse',
+        sessionId,
+        userId: session.userId,
+        userType,
+      });
+      throw new UnauthorizedException('La sesión ha sido cerrada por seguridad, inicie sesión nuevamente');
+    }
+
+    return { session, refreshToken: `${sessionId}.${nextSecret}` };
+  }
+
+  /**
+   * Revoca la sesión de un refresh token vigente. No lanza si el token es inválido:
+   * se usa en el logout, que debe funcionar aunque la sesión ya no exista.
+   */
+  async revokeByRefreshToken(
+    refreshToken: string,
+    userType: SessionUserType,
+    reason: SessionRevokeReason,
+  ): Promise<string | null> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+    if (!sessionId || !secret) {
+      return null;
+    }
+
+    const { count } = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, userType, refreshTokenHash: this.hash(secret), revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (count !== 1) {
+      return null;
+    }
+
+    this.logger.debug('Sesión revocada', { event: 'session_revoked', sessionId, reason });
+    return sessionId;
+  }
+
+  async listActive(userId: string, userType: SessionUserType) {
+    return this.prisma.authSession.findMany({
+      where: {
+        userId,
+        userType,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastSeenAt: 'desc' },
+      omit: { refreshTokenHash: true },
+    });
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await this.prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    this.logger.debug('Sesión revocada', { event: 'session_revoked', sessionId, reason });
+  }
+
+  /**
+   * Revoca una sesión validando que pertenezca al usuario que la solicita
+   */
+  async revokeOwn(sessionId: string, userId: string, userType: SessionUserType): Promise<void> {
+    const session = await this.prisma.authSession.findUnique({ where: { id: sessionId } });
+
+    if (!session) {
+      throw new NotFoundException('Sesión no encontrada');
+    }
+
+    if (session.userId !== userId || session.userType !== userType) {
+      throw new ForbiddenException('No autorizado para cerrar esta sesión');
+    }
+
+    await this.revoke(sessionId, 'killed');
+  }
+
+  /**
+   * Revoca todas las sesiones activas de un usuario, opcionalmente conservando una
+   */
+  async revokeAllForUser(
+    userId: string,
+    userType: SessionUserType,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const { count } = await this.prisma.authSession.updateMany({
+      where: {
+        userId,
+        userType,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    this.logger.log(`Sesiones revocadas: ${count}`, {
+      event: 'sessions_revoked',
+      userId,
+      userType,
+      reason,
+      count,
+    });
+
+    return count;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  /**
+   * Elimina las sesiones expiradas o revocadas hace más de 30 días
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanupSessions(): Promise<void> {
+    const threshold = new Date(Date.now() - RETENTION_MS);
+
+    const { count } = await this.prisma.authSession.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: threshold } },
+          { revokedAt: { lt: threshold } },
+        ],
+      },
+    });
+
+    this.logger.log(`Sesiones antiguas eliminadas: ${count}`);
+  }
+}
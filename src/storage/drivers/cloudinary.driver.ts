@@ -0,0 +1,127 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v2 as cloudinary } from 'cloudinary';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectInfo, StorageUploadOptions, StoredObject } from './storage-driver';
+
+const UPLOAD_TIMEOUT_MS = 60000;
+
+/**
+ * Driver para Cloudinary. La ruta del objeto es el public_id (carpeta incluida).
+ * Los recursos de tipo upload son públicos, por lo que la URL firmada no expira.
+ */
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = 'cloudinary';
+  readonly bucket: string;
+  private readonly logger = new Logger(CloudinaryStorageDriver.name);
+
+  constructor(configService: ConfigService) {
+    const cloudName = configService.get<string>('CLOUDINARY_CLOUD_NAME');
+    const apiKey = configService.get<string>('CLOUDINARY_API_KEY');
+    const apiSecret = configService.get<string>('CLOUDINARY_API_SECRET');
+
+    if (!cloudName || !apiKey || !apiSecret) {
+      // No lanzamos para permitir que la aplicación inicie; las operaciones fallarán al usarse
+      this.logger.error('Configuración de Cloudinary incompleta');
+    }
+
+    cloudinary.config({ cloud_name: cloudName, api_key: apiKey, api_secret: apiSecret });
+    this.bucket = cloudName ?? '';
+  }
+
+  async upload(key: string, body: Buffer, options: StorageUploadOptions = {}): Promise<StoredObject> {
+    const isImage = options.contentType?.startsWith('image/') ?? true;
+
+    const uploadOptions: cloudinary.uploader.UploadApiOptions = {
+      public_id: key,
+      resource_type: 'auto', // Detecta automáticamente el tipo de recurso
+      overwrite: true,
+      timeout: UPLOAD_TIMEOUT_MS,
+      ...(isImage && { quality: 'auto:good', fetch_format: 'auto' }),
+      ...(options.metadata && { context: options.metadata }),
+    };
+
+    const result = await new Promise<cloudinary.uploader.UploadApiResponse>((resolve, reject) => {
+      const upload = cloudinary.uploader.upload_stream(uploadOptions, (error, response) => {
+        if (error) {
+          reject(error);
+        } else if (response) {
+          resolve(response);
+        } else {
+          reject(new Error('Upload result is undefined'));
+        }
+      });
+
+      upload.end(body);
+    });
+
+    return { key: result.public_id, url: result.secure_url };
+  }
+
+  async delete(key: string): Promise<void> {
+    const result = await cloudinary.uploader.destroy(key, { invalidate: true });
+
+    if (result.result !== 'ok' && result.result !== 'not found') {
+      throw new Error(`Cloudinary no eliminó ${key}: ${result.result}`);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await cloudinary.api.resource(key);
+      return true;
+    } catch (error) {
+      if (error?.error?.http_code === 404 || error?.http_code === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async signedUrl(key: string): Promise<string> {
+    return cloudinary.url(key, { secure: true, sign_url: true });
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const response = await axios.get<Readable>(this.publicUrl(key), { responseType: 'stream' });
+    return response.data;
+  }
+
+  async list(prefix: string): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await cloudinary.api.resources({
+        type: 'upload',
+        prefix,
+        max_results: 500,
+        ...(cursor && { next_cursor: cursor }),
+      });
+
+      for (const resource of page.resources) {
+        objects.push({
+          key: resource.public_id,
+          size: resource.bytes,
+          createdAt: new Date(resource.created_at),
+          contentType: resource.format ? `${resource.resource_type}/${resource.format}` : undefined,
+        });
+      }
+
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    return objects;
+  }
+
+  publicUrl(key: string): string {
+    return cloudinary.url(key, { secure: true });
+  }
+
+  keyFromUrl(url: string): string | null {
+    // Formato: https://res.cloudinary.com/CLOUD/image/upload/v123/carpeta/archivo.jpg
+    const match = url.match(/^https?:\/\/res\.cloudinary\.com\/([^/]+)\/\w+\/upload\/(?:[^/]*,[^/]*\/)?(?:v\d+\/)?(.+?)(?:\.\w+)?(?:\?.*)?$/);
+    return match && match[1] === this.bucket ? decodeURIComponent(match[2]) : null;
+  }
+}
@@ -0,0 +1,103 @@
+import { Logger } from '@nestjs/common';
+import { Storage } from '@google-cloud/storage';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectInfo, StorageUploadOptions, StoredObject } from './storage-driver';
+
+const GCS_HOST = 'https://storage.googleapis.com';
+const RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+
+/**
+ * Driver para Google Cloud Storage
+ */
+export class GcsStorageDriver implements StorageDriver {
+  readonly name = 'gcs';
+  private readonly logger = new Logger(GcsStorageDriver.name);
+
+  constructor(
+    private readonly storage: Storage,
+    readonly bucket: string,
+  ) { }
+
+  async upload(key: string, body: Buffer, options: StorageUploadOptions = {}): Promise<StoredObject> {
+    await this.storage
+      .bucket(this.bucket)
+      .file(key)
+      .save(body, {
+        metadata: {
+          contentType: options.contentType || 'application/octet-stream',
+          ...(options.metadata && { metadata: options.metadata }),
+        },
+        ...(options.public && { public: true }),
+        resumable: body.length > RESUMABLE_THRESHOLD,
+      });
+
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.bucket(this.bucket).file(key).delete({ ignoreNotFound: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const [exists] = await this.storage.bucket(this.bucket).file(key).exists();
+    return exists;
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const [url] = await this.storage
+      .bucket(this.bucket)
+      .file(key)
+      .getSignedUrl({
+        version: 'v4',
+        action: 'read',
+        expires: Date.now() + expiresInSeconds * 1000,
+      });
+
+    return url;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const file = this.storage.bucket(this.bucket).file(key);
+    const [exists] = await file.exists();
+
+    if (!exists) {
+      throw new Error(`El objeto ${key} no existe en gs://${this.bucket}`);
+    }
+
+    return file.createReadStream();
+  }
+
+  async list(prefix: string): Promise<StorageObjectInfo[]> {
+    const [files] = await this.storage.bucket(this.bucket).getFiles({ prefix });
+
+    return files.map(file => ({
+      key: file.name,
+      size: parseInt(String(file.metadata.size ?? '0'), 10),
+      createdAt: new Date(file.metadata.timeCreated ?? 0),
+      contentType: file.metadata.contentType,
+    }));
+  }
+
+  publicUrl(key: string): string {
+    return `${GCS_HOST}/${this.bucket}/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    // Formato: https://storage.googleapis.com/BUCKET_NAME/FILE_NAME
+    const prefix = `${GCS_HOST}/${this.bucket}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null;
+  }
+
+  async ensureBucket(): Promise<void> {
+    const [exists] = await this.storage.bucket(this.bucket).exists();
+
+    if (!exists) {
+      this.logger.log(`Bucket ${this.bucket} does not exist. Creating it now...`);
+      await this.storage.createBucket(this.bucket, {
+        location: 'us-central1',
+        storageClass: 'STANDARD',
+      });
+      this.logger.log(`Bucket ${this.bucket} created successfully`);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, Dirent, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectInfo, StorageUploadOptions, StoredObject } from './storage-driver';
+
+export interface LocalStorageOptions {
+  root: string; // Directorio base; cada bucket es una subcarpeta
+  baseUrl: string; // URL pública del controlador que sirve los archivos
+  secret: string; // Llave para firmar URLs temporales
+}
+
+/**
+ * Driver sobre el sistema de archivos local, pensado para desarrollo y pruebas
+ * sin credenciales de la nube. Los archivos se sirven por StorageController.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly directory: string;
+
+  constructor(
+    readonly bucket: string,
+    private readonly options: LocalStorageOptions,
+  ) {
+    this.directory = path.resolve(options.root, bucket);
+  }
+
+  async upload(key: string, body: Buffer, options: StorageUploadOptions = {}): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    if (options.contentType || options.metadata) {
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({
+        contentType: options.contentType,
+        metadata: options.metadata,
+      }));
+    }
+
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(this.resolve(key));
+      return stat.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Date.now() + expiresInSeconds * 1000;
+    return `${this.publicUrl(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new Error(`El objeto ${key} no existe en ${this.directory}`);
+    }
+
+    return createReadStream(this.resolve(key));
+  }
+
+  async list(prefix: string): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+
+    const walk = async (directory: string) => {
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          continue;
+        }
+
+        if (entry.name.endsWith('.meta.json')) continue;
+
+        const key = path.relative(this.directory, fullPath).split(path.sep).join('/');
+        if (!key.startsWith(prefix)) continue;
+
+        const stat = await fs.stat(fullPath);
+        const meta = await this.readMeta(key);
+
+        objects.push({
+          key,
+          size: stat.size,
+          createdAt: stat.birthtime.getTime() > 0 ? stat.birthtime : stat.mtime,
+          contentType: meta?.contentType,
+        });
+      }
+    };
+
+    await walk(this.directory);
+    return objects;
+  }
+
+  publicUrl(key: string): string {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.options.baseUrl}/${this.bucket}/${encodedKey}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.options.baseUrl}/${this.bucket}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null;
+  }
+
+  async ensureBucket(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  /**
+   * Verifica una URL generada por signedUrl
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now() || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const received = Buffer.from(signature);
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  async readMeta(key: string): Promise<{ contentType?: string; metadata?: Record<string, string> } | null> {
+    try {
+      return JSON.parse(await fs.readFile(`${this.resolve(key)}.meta.json`, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.options.secret)
+      .update(`${this.bucket}/${key}:${expires}`)
+      .digest('hex');
+  }
+
+  // Ruta absoluta del objeto, sin permitir salir del directorio del bucket
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+
+    if (!filePath.startsWith(this.directory + path.sep)) {
+      throw new Error(`Ruta de objeto inválida: ${key}`);
+    }
+
+    return filePath;
+  }
+}
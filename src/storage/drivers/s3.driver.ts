@@ -0,0 +1,272 @@
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac } from 'crypto';
+import axios, { AxiosResponse, Method } from 'axios';
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectInfo, StorageUploadOptions, StoredObject } from './storage-driver';
+
+const SERVICE = 's3';
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const EMPTY_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Driver para almacenamiento compatible con S3 (AWS, MinIO, R2, Spaces...).
+ * Firma las peticiones con AWS Signature V4 y usa rutas estilo path
+ * (ENDPOINT/BUCKET/KEY), que soportan todos los proveedores compatibles.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly endpoint: URL;
+  private readonly region: string;
+  private readonly accessKeyId: string;
+  private readonly secretAccessKey: string;
+  private readonly publicBaseUrl: string;
+
+  constructor(
+    configService: ConfigService,
+    readonly bucket: string,
+  ) {
+    const endpoint = configService.get<string>('S3_ENDPOINT');
+    const accessKeyId = configService.get<string>('S3_ACCESS_KEY_ID');
+    const secretAccessKey = configService.get<string>('S3_SECRET_ACCESS_KEY');
+
+    if (!endpoint || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 storage not properly configured');
+    }
+
+    this.endpoint = new URL(endpoint.replace(/\/+$/, ''));
+    this.region = configService.get<string>('S3_REGION') ?? 'us-east-1';
+    this.accessKeyId = accessKeyId;
+    this.secretAccessKey = secretAccessKey;
+    this.publicBaseUrl = (configService.get<string>('S3_PUBLIC_URL') ?? this.endpoint.toString()).replace(/\/+$/, '');
+  }
+
+  async upload(key: string, body: Buffer, options: StorageUploadOptions = {}): Promise<StoredObject> {
+    const headers: Record<string, string> = {
+      'content-type': options.contentType || 'application/octet-stream',
+      ...(options.public && { 'x-amz-acl': 'public-read' }),
+    };
+
+    for (const [name, value] of Object.entries(options.metadata ?? {})) {
+      headers[`x-amz-meta-${name.toLowerCase()}`] = value;
+    }
+
+    await this.request('PUT', key, { headers, body });
+
+    return { key, url: this.publicUrl(key) };
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 responde 204 aunque el objeto no exista
+    await this.request('DELETE', key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key, { allowNotFound: true });
+    return response.status !== 404;
+  }
+
+  async signedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const url = this.objectUrl(key);
+    const { amzDate, scope } = this.credentialScope(new Date());
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': ALGORITHM,
+      'X-Amz-Credential': `${this.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+    };
+
+    const signature = this.signature('GET', url, query, { host: url.host }, 'UNSIGNED-PAYLOAD', amzDate, scope);
+
+    return `${url.toString()}?${this.canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const response = await this.request('GET', key, { responseType: 'stream' });
+    return response.data;
+  }
+
+  async list(prefix: string): Promise<StorageObjectInfo[]> {
+    const objects: StorageObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.request('GET', '', {
+        query: {
+          'list-type': '2',
+          prefix,
+          ...(continuationToken && { 'continuation-token': continuationToken }),
+        },
+        responseType: 'text',
+      });
+
+      const xml = String(response.data);
+
+      for (const [, content] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        objects.push({
+          key: this.decodeXml(this.xmlValue(content, 'Key') ?? ''),
+          size: parseInt(this.xmlValue(content, 'Size') ?? '0', 10),
+          createdAt: new Date(this.xmlValue(content, 'LastModified') ?? 0),
+        });
+      }
+
+      continuationToken = this.xmlValue(xml, 'IsTruncated') === 'true'
+        ? this.xmlValue(xml, 'NextContinuationToken') ?? undefined
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${this.bucket}/${this.encodeKey(key)}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicBaseUrl}/${this.bucket}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split('?')[0]) : null;
+  }
+
+  async ensureBucket(): Promise<void> {
+    const url = new URL(`${this.endpoint.toString().replace(/\/+$/, '')}/${this.bucket}`);
+    const head = await this.send('HEAD', url, {}, { allowNotFound: true });
+
+    if (head.status === 404) {
+      await this.send('PUT', url, {}, {});
+    }
+  }
+
+  private async request(
+    method: Method,
+    key: string,
+    options: {
+      headers?: Record<string, string>;
+      query?: Record<string, string>;
+      body?: Buffer;
+      responseType?: 'stream' | 'text';
+      allowNotFound?: boolean;
+    } = {},
+  ): Promise<AxiosResponse> {
+    return this.send(method, this.objectUrl(key), options.query ?? {}, options);
+  }
+
+  private async send(
+    method: Method,
+    url: URL,
+    query: Record<string, string>,
+    options: {
+      headers?: Record<string, string>;
+      body?: Buffer;
+      responseType?: 'stream' | 'text';
+      allowNotFound?: boolean;
+    },
+  ): Promise<AxiosResponse> {
+    const { amzDate, scope } = this.credentialScope(new Date());
+    const payloadHash = options.body ? createHash('sha256').update(options.body).digest('hex') : EMPTY_HASH;
+
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host: url.host,
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash,
+    };
+
+    const signedHeaders = Object.keys(headers).map(name => name.toLowerCase()).sort().join(';');
+    const signature = this.signature(String(method).toUpperCase(), url, query, headers, payloadHash, amzDate, scope);
+
+    // axios pone el host por su cuenta
+    const requestHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host'));
+    const queryString = this.canonicalQuery(query);
+
+    return axios.request({
+      method,
+      url: queryString ? `${url.toString()}?${queryString}` : url.toString(),
+      data: options.body,
+      responseType: options.responseType,
+      maxBodyLength: Infinity,
+      headers: {
+        ...requestHeaders,
+        Authorization: `${ALGORITHM} Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      validateStatus: status => (status >= 200 && status < 300) || (options.allowNotFound === true && status === 404),
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    const base = this.endpoint.toString().replace(/\/+$/, '');
+    return new URL(key ? `${base}/${this.bucket}/${this.encodeKey(key)}` : `${base}/${this.bucket}/`);
+  }
+
+  private credentialScope(date: Date): { amzDate: string; scope: string } {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, scope: `${amzDate.slice(0, 8)}/${this.region}/${SERVICE}/aws4_request` };
+  }
+
+  private signature(
+    method: string,
+    url: URL,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string,
+    scope: string,
+  ): string {
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(query),
+      names.map(name => `${name}:${String(lowered[name]).trim()}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      ALGORITHM,
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const [date, region] = scope.split('/');
+    const signingKey = [date, region, SERVICE, 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      `AWS4${this.secretAccessKey}`,
+    );
+
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(name => `${this.encode(name)}=${this.encode(query[name])}`)
+      .join('&');
+  }
+
+  private encodeKey(key: string): string {
+    return key.split('/').map(part => this.encode(part)).join('/');
+  }
+
+  // Codificación RFC 3986 que exige la firma V4
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private xmlValue(xml: string, tag: string): string | null {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? match[1] : null;
+  }
+
+  private decodeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,47 @@
+import { Readable } from 'stream';
+
+export type StorageDriverName = 'gcs' | 'cloudinary' | 'local' | 's3';
+
+export interface StorageUploadOptions {
+  contentType?: string;
+  public?: boolean; // Lectura pública sin URL firmada
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  createdAt: Date;
+  contentType?: string;
+}
+
+/**
+ * Operaciones de almacenamiento de archivos sobre un bucket (o carpeta) concreto.
+ * Cada backend (GCS, Cloudinary, disco local, S3 compatible) implementa esta
+ * interfaz para que los servicios no dependan de un SDK específico.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  readonly bucket: string;
+
+  upload(key: string, body: Buffer, options?: StorageUploadOptions): Promise<StoredObject>;
+  // No falla si el objeto ya no existe
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+  stream(key: string): Promise<Readable>;
+  list(prefix: string): Promise<StorageObjectInfo[]>;
+
+  // URL permanente del objeto, la que se guarda en base de datos
+  publicUrl(key: string): string;
+  // Ruta del objeto a partir de una URL generada por este driver; null si la URL no le pertenece
+  keyFromUrl(url: string): string | null;
+
+  // Crea el bucket si el backend lo permite y aún no existe
+  ensureBucket?(): Promise<void>;
+}
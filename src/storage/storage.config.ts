@@ -0,0 +1,42 @@
+import { StorageDriverName } from './drivers/storage-driver';
+
+// Uso que se le da a cada bucket; cada rol puede vivir en un backend distinto
+export type StorageRole = 'docs' | 'extracts' | 'backups' | 'images';
+
+export interface StorageRoleConfig {
+  defaultDriver: StorageDriverName;
+  legacyBucket?: () => string | undefined; // Variable histórica del bucket de GCS
+  publicRead: boolean; // Si los objetos se leen por su URL sin firmar
+}
+
+/**
+ * Configuración por rol. El driver se elige con STORAGE_DRIVER_<ROL> (o STORAGE_DRIVER
+ * para todos) y el bucket con STORAGE_BUCKET_<ROL>.
+ * - docs: documentos de préstamos y cédulas
+ * - extracts: extractos de préstamos, de lectura pública
+ * - backups: bucket privado con los backups, los ZIP generados y los adjuntos del outbox
+ * - images: avatares, selfies, firmas y capturas de reportes
+ */
+export const STORAGE_ROLES: Record<StorageRole, StorageRoleConfig> = {
+  docs: {
+    defaultDriver: 'gcs',
+    legacyBucket: () => process.env.NAME_BUCKET_GOOGLE_STORAGE_DOCS,
+    publicRead: true,
+  },
+  extracts: {
+    defaultDriver: 'gcs',
+    legacyBucket: () => 'creditoya-backup',
+    publicRead: true,
+  },
+  backups: {
+    defaultDriver: 'gcs',
+    legacyBucket: () => process.env.NAME_BUCKET_GOOGLE_STORAGE,
+    publicRead: false,
+  },
+  images: {
+    defaultDriver: 'cloudinary',
+    publicRead: true,
+  },
+};
+
+export const STORAGE_DRIVERS: StorageDriverName[] = ['gcs', 'cloudinary', 'local', 's3'];
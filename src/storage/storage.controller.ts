@@ -0,0 +1,58 @@
+import { Controller, ForbiddenException, Get, NotFoundException, Param, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
+import * as path from 'path';
+import { StorageService } from './storage.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse
+} from '@nestjs/swagger';
+
+@ApiTags('storage')
+@Controller('storage')
+export class StorageController {
+  constructor(private readonly storage: StorageService) { }
+
+  // Sirve los archivos del driver local; los buckets privados exigen una URL firmada
+  @Get('local/:bucket/*key')
+  @ApiOperation({ summary: 'Descargar un archivo del almacenamiento local' })
+  @ApiParam({ name: 'bucket', description: 'Bucket configurado con el driver local' })
+  @ApiParam({ name: 'key', description: 'Ruta del archivo dentro del bucket' })
+  @ApiQuery({ name: 'expires', required: false, description: 'Expiración de la URL firmada (ms)' })
+  @ApiQuery({ name: 'signature', required: false, description: 'Firma de la URL' })
+  @ApiResponse({ status: 200, description: 'Contenido del archivo' })
+  @ApiForbiddenResponse({ description: 'URL firmada inválida o expirada' })
+  @ApiNotFoundResponse({ description: 'Archivo no encontrado' })
+  async serveLocal(
+    @Param('bucket') bucket: string,
+    @Param('key') keyParam: string | string[],
+    @Res() res: Response,
+    @Query('expires') expires?: string,
+    @Query('signature') signature?: string,
+  ) {
+    const local = this.storage.localBucket(bucket);
+    if (!local) {
+      throw new NotFoundException('Archivo no encontrado');
+    }
+
+    const key = Array.isArray(keyParam) ? keyParam.join('/') : keyParam;
+
+    if (!this.storage.isPublic(local.role) && !local.driver.verifySignature(key, Number(expires), signature ?? '')) {
+      throw new ForbiddenException('URL firmada inválida o expirada');
+    }
+
+    if (!(await local.driver.exists(key))) {
+      throw new NotFoundException('Archivo no encontrado');
+    }
+
+    const meta = await local.driver.readMeta(key);
+
+    res.type(meta?.contentType || path.extname(key) || 'application/octet-stream');
+
+    (await local.driver.stream(key)).pipe(res);
+  }
+}
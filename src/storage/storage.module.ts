@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CREDENTIAL_GCP, CredentialGCP } from 'templates/cloud';
+import { StorageService } from './storage.service';
+import { StorageController } from './storage.controller';
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [StorageController],
+  providers: [
+    StorageService,
+    {
+      provide: CREDENTIAL_GCP,
+      useValue: CredentialGCP,
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule { }
@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Storage } from '@google-cloud/storage';
+import * as path from 'path';
+import DecryptJson from 'handlers/decryptJson';
+import { CREDENTIAL_GCP, GpcTypes } from 'templates/cloud';
+import { StorageDriver, StorageDriverName } from './drivers/storage-driver';
+import { GcsStorageDriver } from './drivers/gcs.driver';
+import { CloudinaryStorageDriver } from './drivers/cloudinary.driver';
+import { LocalStorageDriver } from './drivers/local.driver';
+import { S3StorageDriver } from './drivers/s3.driver';
+import { STORAGE_DRIVERS, STORAGE_ROLES, StorageRole } from './storage.config';
+
+/**
+ * Resuelve el driver de almacenamiento configurado para cada rol de bucket.
+ * Los drivers se crean la primera vez que se usan, así un backend sin
+ * credenciales no impide iniciar la aplicación si ningún rol lo usa.
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly drivers = new Map<StorageRole, StorageDriver>();
+  private gcsClient: Storage | null = null;
+  private cloudinaryDriver: CloudinaryStorageDriver | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CREDENTIAL_GCP)
+    private readonly credential: GpcTypes,
+  ) { }
+
+  /**
+   * Driver configurado para el rol
+   */
+  driver(role: StorageRole): StorageDriver {
+    const cached = this.drivers.get(role);
+    if (cached) {
+      return cached;
+    }
+
+    const name = this.driverName(role);
+    const driver = this.createDriver(role, name);
+
+    this.logger.log(`Almacenamiento "${role}" usando ${name} (${driver.bucket || 'sin bucket'})`);
+    this.drivers.set(role, driver);
+
+    return driver;
+  }
+
+  driverName(role: StorageRole): StorageDriverName {
+    const configured = (
+      this.configService.get<string>(`STORAGE_DRIVER_${role.toUpperCase()}`) ??
+      this.configService.get<string>('STORAGE_DRIVER')
+    )?.toLowerCase();
+
+    if (!configured) {
+      return STORAGE_ROLES[role].defaultDriver;
+    }
+
+    if (!STORAGE_DRIVERS.includes(configured as StorageDriverName)) {
+      throw new Error(`Driver de almacenamiento desconocido para ${role}: ${configured}`);
+    }
+
+    return configured as StorageDriverName;
+  }
+
+  isPublic(role: StorageRole): boolean {
+    return STORAGE_ROLES[role].publicRead;
+  }
+
+  /**
+   * Descarga completa de un objeto en memoria
+   */
+  async download(role: StorageRole, key: string): Promise<Buffer> {
+    const stream = await this.driver(role).stream(key);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Ruta del objeto a partir de lo que se guardó en base de datos, que puede
+   * ser la URL pública o directamente la ruta dentro del bucket.
+   */
+  resolveKey(role: StorageRole, urlOrKey: string): string {
+    const key = this.driver(role).keyFromUrl(urlOrKey);
+
+    if (key) {
+      return key;
+    }
+
+    if (/^https?:\/\//.test(urlOrKey)) {
+      throw new Error(`La URL ${urlOrKey} no pertenece al almacenamiento "${role}"`);
+    }
+
+    return urlOrKey;
+  }
+
+  /**
+   * Rol y driver local que sirven un bucket; null si ningún rol usa el disco local para él
+   */
+  localBucket(bucket: string): { role: StorageRole; driver: LocalStorageDriver } | null {
+    for (const role of Object.keys(STORAGE_ROLES) as StorageRole[]) {
+      if (this.driverName(role) !== 'local') continue;
+
+      const driver = this.driver(role) as LocalStorageDriver;
+      if (driver.bucket === bucket) {
+        return { role, driver };
+      }
+    }
+
+    return null;
+  }
+
+  private createDriver(role: StorageRole, name: StorageDriverName): StorageDriver {
+    switch (name) {
+      case 'gcs':
+        return new GcsStorageDriver(this.getGcsClient(), this.bucketFor(role));
+      case 'cloudinary':
+        // Cloudinary usa una configuración global, así que todos los roles comparten el driver
+        this.cloudinaryDriver ??= new CloudinaryStorageDriver(this.configService);
+        return this.cloudinaryDriver;
+      case 's3':
+        return new S3StorageDriver(this.configService, this.bucketFor(role));
+      case 'local':
+        return new LocalStorageDriver(this.bucketFor(role, role), {
+          root: this.configService.get<string>('STORAGE_LOCAL_ROOT') ?? path.resolve(process.cwd(), 'storage_local'),
+          baseUrl: (
+            this.configService.get<string>('STORAGE_LOCAL_PUBLIC_URL') ??
+            `http://localhost:${this.configService.get<string>('PORT') ?? 3000}/storage/local`
+          ).replace(/\/+$/, ''),
+          secret: this.localSecret(),
+        });
+    }
+  }
+
+  private bucketFor(role: StorageRole, fallback?: string): string {
+    const bucket =
+      this.configService.get<string>(`STORAGE_BUCKET_${role.toUpperCase()}`) ??
+      STORAGE_ROLES[role].legacyBucket?.() ??
+      fallback;
+
+    if (!bucket) {
+      throw new Error(`Configuración de bucket no encontrada para el almacenamiento "${role}"`);
+    }
+
+    return bucket;
+  }
+
+  private localSecret(): string {
+    const secret =
+      this.configService.get<string>('STORAGE_LOCAL_SECRET') ??
+      this.configService.get<string>('JWT_SECRET');
+
+    if (!secret) {
+      throw new Error('STORAGE_LOCAL_SECRET o JWT_SECRET es requerido para firmar URLs locales');
+    }
+
+    return secret;
+  }
+
+  /**
+   * Cliente de Google Cloud Storage con las credenciales desencriptadas, compartido por todos los roles
+   */
+  private getGcsClient(): Storage {
+    if (this.gcsClient) {
+      return this.gcsClient;
+    }
+
+    try {
+      const decryptedCredentials = DecryptJson({
+        encryptedData: this.credential.k,
+        password: process.env.KEY_DECRYPT as string,
+      });
+
+      this.gcsClient = new Storage({
+        projectId: process.env.PROJECT_ID_GOOGLE,
+        credentials: decryptedCredentials,
+      });
+
+      this.logger.log('Instancia de Storage creada exitosamente');
+      return this.gcsClient;
+    } catch (error) {
+      this.logger.error('Error al obtener instancia de Storage:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PriorityStatus, StatusIssues } from '@prisma/client';
+
+export class CreateIssueDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(5000)
+  description: string;
+}
+
+export class TriageIssueDto {
+  @IsOptional()
+  @IsEnum(StatusIssues)
+  status?: StatusIssues;
+
+  @IsOptional()
+  @IsEnum(PriorityStatus)
+  priority?: PriorityStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  resSupport?: string;
+}
@@ -0,0 +1,179 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  BadRequestException,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { appReport, PriorityStatus, StatusIssues } from '@prisma/client';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { MAX_ISSUE_IMAGES, SupportService } from './support.service';
+import { CreateIssueDto, TriageIssueDto } from './dto/issue.dto';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+import { AuditEntity } from 'src/audit/decorators/audit-entity.decorator';
+
+@ApiTags('support')
+@Controller('support')
+export class SupportController {
+  constructor(private readonly support: SupportService) { }
+
+  // Clientes y personal de intranet pueden reportar problemas
+  @UseGuards(CombinedAuthGuard)
+  @Post('issues')
+  @UseInterceptors(FilesInterceptor('images', MAX_ISSUE_IMAGES))
+  @ApiOperation({ summary: 'Reportar un problema con capturas opcionales' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', description: 'Descripción del problema' },
+        images: {
+          type: 'array',
+          items: { type: 'string', format: 'binary' },
+          description: `Capturas de pantalla (máximo ${MAX_ISSUE_IMAGES})`
+        }
+      },
+      required: ['description']
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 201, description: 'Reporte creado' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiBadRequestResponse({ description: 'Descripción vacía o capturas inválidas' })
+  async create(
+    @Body() data: CreateIssueDto,
+    @UploadedFiles() images: Express.Multer.File[],
+    @CurrentUser() user: any,
+  ) {
+    return this.support.create(data, { id: user.id, email: user.email, type: user.type }, images ?? []);
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get('issues/mine')
+  @ApiOperation({ summary: 'Listar los reportes del usuario autenticado' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 10 })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de reportes propios' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  async findMine(
+    @CurrentUser() user: any,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(10), ParseIntPipe) pageSize: number,
+  ) {
+    return this.support.findMine(user.id, page, pageSize);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('support.manage')
+  @Get('issues')
+  @ApiOperation({ summary: 'Listar reportes para su gestión (permiso support.manage)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 10 })
+  @ApiQuery({ name: 'status', required: false, enum: Object.values(StatusIssues), description: 'Filtrar por estado' })
+  @ApiQuery({ name: 'priority', required: false, enum: Object.values(PriorityStatus), description: 'Filtrar por prioridad' })
+  @ApiQuery({ name: 'app', required: false, enum: Object.values(appReport), description: 'Filtrar por aplicación de origen' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de reportes' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiBadRequestResponse({ description: 'Filtro inválido' })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(10), ParseIntPipe) pageSize: number,
+    @Query('status') status?: StatusIssues,
+    @Query('priority') priority?: PriorityStatus,
+    @Query('app') app?: appReport,
+  ) {
+    if (status && !Object.values(StatusIssues).includes(status)) {
+      throw new BadRequestException('Estado inválido');
+    }
+    if (priority && !Object.values(PriorityStatus).includes(priority)) {
+      throw new BadRequestException('Prioridad inválida');
+    }
+    if (app && !Object.values(appReport).includes(app)) {
+      throw new BadRequestException('Aplicación inválida');
+    }
+    return this.support.findAll(page, pageSize, { status, priority, app });
+  }
+
+  @UseGuards(CombinedAuthGuard)
+  @Get('issues/:id')
+  @ApiOperation({ summary: 'Obtener un reporte' })
+  @ApiParam({ name: 'id', description: 'ID del reporte' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Detalle del reporte' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No autorizado para ver este reporte' })
+  @ApiNotFoundResponse({ description: 'Reporte no encontrado' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.support.findOne(id, { id: user.id, email: user.email, type: user.type });
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('support.manage')
+  @AuditEntity('reportIssue')
+  @Patch('issues/:id')
+  @ApiOperation({ summary: 'Gestionar un reporte: prioridad, estado y respuesta (permiso support.manage)' })
+  @ApiParam({ name: 'id', description: 'ID del reporte' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: Object.values(StatusIssues), description: 'Nuevo estado' },
+        priority: { type: 'string', enum: Object.values(PriorityStatus), description: 'Prioridad' },
+        resSupport: { type: 'string', description: 'Respuesta de soporte para quien reportó' }
+      }
+    }
+  })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Reporte actualizado; si cambió el estado se notifica a quien reportó' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  @ApiNotFoundResponse({ description: 'Reporte no encontrado' })
+  @ApiBadRequestResponse({ description: 'Datos inválidos' })
+  async triage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: TriageIssueDto,
+    @CurrentUser() user: any,
+  ) {
+    if (data.status && !Object.values(StatusIssues).includes(data.status)) {
+      throw new BadRequestException('Estado inválido');
+    }
+    if (data.priority && !Object.values(PriorityStatus).includes(data.priority)) {
+      throw new BadRequestException('Prioridad inválida');
+    }
+    return this.support.triage(id, data, user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailModule } from 'src/mail/mail.module';
+import { CloudinaryModule } from 'src/cloudinary/cloudinary.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { SupportService } from './support.service';
+import { SupportController } from './support.controller';
+
+@Module({
+  imports: [PrismaModule, MailModule, CloudinaryModule, IntranetRoleModule],
+  controllers: [SupportController],
+  providers: [
+    SupportService,
+    ClientAuthGuard,
+    IntranetAuthGuard,
+    CombinedAuthGuard,
+  ],
+})
+export class SupportModule { }
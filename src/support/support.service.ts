@@ -0,0 +1,181 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { appReport, PriorityStatus, Prisma, ReportIssue, StatusIssues } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CloudinaryService, FolderNames } from 'src/cloudinary/cloudinary.service';
+import { MailService } from 'src/mail/mail.service';
+import { FileToString } from 'handlers/FileToString';
+import { CreateIssueDto, TriageIssueDto } from './dto/issue.dto';
+
+export const MAX_ISSUE_IMAGES = 5;
+
+// Texto del estado que ve quien reportó
+const STATUS_LABELS: Record<StatusIssues, string> = {
+  activo: 'Recibido',
+  pendiente: 'En revisión',
+  corregido: 'Corregido',
+};
+
+export interface IssueReporter {
+  id: string;
+  email: string;
+  type: 'client' | 'intranet';
+}
+
+@Injectable()
+export class SupportService {
+  private readonly logger = new Logger(SupportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cloudinary: CloudinaryService,
+    private readonly mail: MailService,
+  ) { }
+
+  async create(data: CreateIssueDto, reporter: IssueReporter, images: Express.Multer.File[] = []): Promise<ReportIssue> {
+    if (!data?.description?.trim()) {
+      throw new BadRequestException('La descripción del problema es requerida');
+    }
+
+    if (images.length > MAX_ISSUE_IMAGES) {
+      throw new BadRequestException(`Solo se permiten ${MAX_ISSUE_IMAGES} capturas por reporte`);
+    }
+
+    if (images.some(image => !image.mimetype?.startsWith('image/'))) {
+      throw new BadRequestException('Las capturas deben ser imágenes');
+    }
+
+    try {
+      const folder: FolderNames = 'reports-images';
+      const urls = await Promise.all(
+        images.map(async image => this.cloudinary.uploadImage(await FileToString(image), folder)),
+      );
+
+      const issue = await this.prisma.reportIssue.create({
+        data: {
+          description: data.description.trim(),
+          images: urls,
+          app: reporter.type === 'client' ? appReport.clients : appReport.intranet,
+          reporterId: reporter.id,
+          reporterEmail: reporter.email,
+        },
+      });
+
+      this.logger.debug('Reporte de problema creado', {
+        event: 'issue_created',
+        issueId: issue.id,
+        app: issue.app,
+        reporterId: reporter.id,
+        images: urls.length,
+      });
+
+      return issue;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error('Error al crear el reporte de problema', error);
+      throw new BadRequestException('Error al crear el reporte');
+    }
+  }
+
+  async findMine(reporterId: string, page: number = 1, pageSize: number = 10) {
+    return this.paginate({ reporterId }, page, pageSize);
+  }
+
+  async findAll(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: { status?: StatusIssues; priority?: PriorityStatus; app?: appReport } = {},
+  ) {
+    const where: Prisma.ReportIssueWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.priority && { priority: filters.priority }),
+      ...(filters.app && { app: filters.app }),
+    };
+
+    return this.paginate(where, page, pageSize);
+  }
+
+  /**
+   * Obtiene un reporte; los clientes solo pueden ver los suyos
+   */
+  async findOne(id: string, viewer?: IssueReporter): Promise<ReportIssue> {
+    const issue = await this.prisma.reportIssue.findUnique({ where: { id } });
+
+    if (!issue) {
+      throw new NotFoundException(`Reporte con ID ${id} no encontrado`);
+    }
+
+    if (viewer?.type === 'client' && issue.reporterId !== viewer.id) {
+      throw new ForbiddenException('No autorizado para ver este reporte');
+    }
+
+    return issue;
+  }
+
+  /**
+   * Actualiza prioridad, estado o respuesta de soporte. Si cambia el estado
+   * se notifica por correo a quien reportó.
+   */
+  async triage(id: string, data: TriageIssueDto, triagedBy: string): Promise<ReportIssue> {
+    if (!data.status && !data.priority && data.resSupport === undefined) {
+      throw new BadRequestException('No se indicaron cambios para el reporte');
+    }
+
+    const issue = await this.findOne(id);
+
+    try {
+      const updated = await this.prisma.reportIssue.update({
+        where: { id },
+        data: {
+          ...(data.status && { status: data.status }),
+          ...(data.priority && { priority: data.priority }),
+          ...(data.resSupport !== undefined && { resSupport: data.resSupport.trim() || null }),
+          triagedBy,
+        },
+      });
+
+      this.logger.debug('Reporte de problema actualizado', {
+        event: 'issue_triaged',
+        issueId: id,
+        triagedBy,
+        previousStatus: issue.status,
+        status: updated.status,
+        priority: updated.priority,
+      });
+
+      if (updated.status !== issue.status && updated.reporterEmail) {
+        // El correo no debe impedir la actualización del reporte
+        try {
+          await this.mail.sendIssueStatusMail({
+            issueId: updated.id,
+            status: STATUS_LABELS[updated.status],
+            resSupport: updated.resSupport,
+            mail: updated.reporterEmail,
+          });
+        } catch (mailError) {
+          this.logger.error(`No se pudo notificar el cambio de estado del reporte ${id}: ${mailError.message}`);
+        }
+      }
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error al actualizar el reporte ${id}`, error);
+      throw new BadRequestException('Error al actualizar el reporte');
+    }
+  }
+
+  private async paginate(where: Prisma.ReportIssueWhereInput, page: number, pageSize: number) {
+    const [total, data] = await Promise.all([
+      this.prisma.reportIssue.count({ where }),
+      this.prisma.reportIssue.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { created_at: 'desc' },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+}
@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { WhatsappProvider, WhatsappSendResult } from './whatsapp.provider';
+
+/**
+ * Proveedor para la API de WhatsApp Cloud de Meta
+ */
+export class CloudApiWhatsappProvider implements WhatsappProvider {
+  readonly name = 'cloud';
+  private readonly logger = new Logger(CloudApiWhatsappProvider.name);
+  private readonly token: string;
+  private readonly phoneNumberId: string;
+  private readonly apiVersion: string;
+
+  constructor(configService: ConfigService) {
+    const token = configService.get<string>('WHATSAPP_TOKEN');
+    const phoneNumberId = configService.get<string>('WHATSAPP_PHONE_NUMBER_ID');
+
+    if (!token || !phoneNumberId) {
+      throw new Error('WhatsApp Cloud API not properly configured');
+    }
+
+    this.token = token;
+    this.phoneNumberId = phoneNumberId;
+    this.apiVersion = configService.get<string>('WHATSAPP_API_VERSION') ?? 'v20.0';
+  }
+
+  async sendText(to: string, text: string): Promise<WhatsappSendResult> {
+    try {
+      const response = await axios.post(
+        `https://graph.facebook.com/${this.apiVersion}/${this.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          to,
+          type: 'text',
+          text: { body: text, preview_url: false },
+        },
+        {
+          headers: { Authorization: `Bearer ${this.token}` },
+          timeout: 15000,
+        },
+      );
+
+      return { messageId: response.data?.messages?.[0]?.id ?? '' };
+    } catch (error) {
+      const detail = error.response?.data?.error?.message ?? error.message;
+      this.logger.error(`Failed to send WhatsApp message to ${to}: ${detail}`);
+      throw new Error(`Failed to send WhatsApp message: ${detail}`);
+    }
+  }
+}
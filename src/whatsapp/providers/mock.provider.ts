@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { WhatsappProvider, WhatsappSendResult } from './whatsapp.provider';
+
+export interface MockWhatsappMessage {
+  messageId: string;
+  to: string;
+  text: string;
+  sentAt: Date;
+}
+
+/**
+ * Proveedor local para desarrollo y pruebas: no envía nada, guarda los mensajes en memoria
+ */
+export class MockWhatsappProvider implements WhatsappProvider {
+  readonly name = 'mock';
+  private readonly logger = new Logger(MockWhatsappProvider.name);
+  private readonly MAX_MESSAGES = 200;
+  private sent: MockWhatsappMessage[] = [];
+
+  async sendText(to: string, text: string): Promise<WhatsappSendResult> {
+    const message = { messageId: `mock.${randomUUID()}`, to, text, sentAt: new Date() };
+
+    this.sent.push(message);
+    if (this.sent.length > this.MAX_MESSAGES) {
+      this.sent.shift();
+    }
+
+    this.logger.debug(`Mock WhatsApp message to ${to}`, { event: 'whatsapp_mock_sent', messageId: message.messageId });
+    return { messageId: message.messageId };
+  }
+
+  getSent(to?: string): MockWhatsappMessage[] {
+    return to ? this.sent.filter(m => m.to === to) : [...this.sent];
+  }
+
+  clear(): void {
+    this.sent = [];
+  }
+}
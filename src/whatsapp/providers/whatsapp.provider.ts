@@ -0,0 +1,15 @@
+// Token de inyección del proveedor de mensajería configurado
+export const WHATSAPP_PROVIDER = 'WHATSAPP_PROVIDER';
+
+export interface WhatsappSendResult {
+  messageId: string;
+}
+
+/**
+ * Envío de mensajes salientes. Cada proveedor (Cloud API, mock local) implementa esta interfaz
+ * para que el servicio del bot no dependa de un API específico.
+ */
+export interface WhatsappProvider {
+  readonly name: string;
+  sendText(to: string, text: string): Promise<WhatsappSendResult>;
+}
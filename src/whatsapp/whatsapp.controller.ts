@@ -0,0 +1,154 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  Headers,
+  HttpCode,
+  ParseIntPipe,
+  DefaultValuePipe,
+  BadRequestException,
+  UseGuards,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { statusSession } from '@prisma/client';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { RequirePermission } from 'src/auth/decorators/require-permission.decorator';
+import { DevGuard } from 'src/auth/guards/dev.guard';
+import { AuditEntity } from 'src/audit/decorators/audit-entity.decorator';
+import { WhatsappService } from './whatsapp.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiBody,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse
+} from '@nestjs/swagger';
+
+@ApiTags('whatsapp')
+@Controller('whatsapp')
+export class WhatsappController {
+  constructor(private readonly whatsapp: WhatsappService) { }
+
+  @Get('webhook')
+  @ApiOperation({ summary: 'Verificación de suscripción del webhook de WhatsApp' })
+  @ApiQuery({ name: 'hub.mode', required: true })
+  @ApiQuery({ name: 'hub.verify_token', required: true })
+  @ApiQuery({ name: 'hub.challenge', required: true })
+  @ApiResponse({ status: 200, description: 'Retorna el challenge recibido' })
+  @ApiForbiddenResponse({ description: 'Token de verificación inválido' })
+  verifyWebhook(
+    @Query('hub.mode') mode: string,
+    @Query('hub.verify_token') token: string,
+    @Query('hub.challenge') challenge: string,
+  ) {
+    return this.whatsapp.verifySubscription(mode, token, challenge);
+  }
+
+  // El proveedor solo necesita un 200; los errores de cada mensaje se registran en el servicio
+  @Post('webhook')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Recibir mensajes entrantes de WhatsApp' })
+  @ApiResponse({ status: 200, description: 'Mensajes procesados' })
+  @ApiUnauthorizedResponse({ description: 'Firma del webhook inválida' })
+  async receiveWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('x-hub-signature-256') signature: string,
+    @Body() payload: any,
+  ) {
+    this.whatsapp.verifySignature(request.rawBody, signature);
+
+    const messages = this.whatsapp.extractMessages(payload);
+    for (const message of messages) {
+      await this.whatsapp.handleMessage(message);
+    }
+
+    return { received: messages.length };
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('client.view')
+  @Get('sessions')
+  @ApiOperation({ summary: 'Listar sesiones de WhatsApp del bot (permiso client.view)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Número de página', example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, description: 'Tamaño de página', example: 20 })
+  @ApiQuery({ name: 'status', required: false, enum: Object.values(statusSession), description: 'Filtrar por estado' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Lista paginada de sesiones' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'No tiene permisos suficientes' })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('pageSize', new DefaultValuePipe(20), ParseIntPipe) pageSize: number,
+    @Query('status') status?: statusSession,
+  ) {
+    if (status && !Object.values(statusSession).includes(status)) {
+      throw new BadRequestException('Estado inválido');
+    }
+    return this.whatsapp.findAll(page, pageSize, status);
+  }
+
+  @UseGuards(IntranetAuthGuard, PermissionsGuard)
+  @RequirePermission('whatsapp.manage')
+  @AuditEntity('whatsappSession', 'phone', 'phone')
+  @Delete('sessions/:phone')
+  @ApiOperation({ summary: 'Revocar la sesión de WhatsApp de un número (permiso whatsapp.manage)' })
+  @ApiParam({ name: 'phone', description: 'Número de WhatsApp' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: 200, description: 'Sesión revocada' })
+  @ApiUnauthorizedResponse({ description: 'No autenticado' })
+  @ApiForbiddenResponse({ description: 'Requiere el permiso whatsapp.manage' })
+  @ApiNotFoundResponse({ description: 'No hay sesión para el número' })
+  async revoke(@Param('phone') phone: string) {
+    return this.whatsapp.revokeByPhone(phone);
+  }
+
+  // Simula un mensaje entrante sin pasar por el proveedor real
+  @UseGuards(DevGuard)
+  @Post('mock/inbound')
+  @ApiOperation({ summary: 'Simular un mensaje entrante con el proveedor mock (solo desarrollo)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'Número de origen', example: '573001234567' },
+        text: { type: 'string', description: 'Texto del mensaje', example: 'hola' }
+      },
+      required: ['from', 'text']
+    }
+  })
+  @ApiResponse({ status: 201, description: 'Respuesta que enviaría el bot' })
+  @ApiBadRequestResponse({ description: 'El proveedor configurado no es el mock' })
+  async mockInbound(@Body() body: { from: string; text: string }) {
+    this.whatsapp.getMockProvider();
+
+    if (!body?.from || !body?.text) {
+      throw new BadRequestException('Los campos "from" y "text" son requeridos');
+    }
+
+    const reply = await this.whatsapp.handleMessage({ from: body.from, text: body.text });
+    return { reply };
+  }
+
+  @UseGuards(DevGuard)
+  @Get('mock/outbox')
+  @ApiOperation({ summary: 'Mensajes enviados por el proveedor mock (solo desarrollo)' })
+  @ApiQuery({ name: 'to', required: false, description: 'Filtrar por número de destino' })
+  @ApiResponse({ status: 200, description: 'Mensajes enviados' })
+  @ApiBadRequestResponse({ description: 'El proveedor configurado no es el mock' })
+  getMockOutbox(@Query('to') to?: string) {
+    return this.whatsapp.getMockProvider().getSent(to);
+  }
+}
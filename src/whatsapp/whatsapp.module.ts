@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { McpModule } from 'src/mcp/mcp.module';
+import { SessionModule } from 'src/session/session.module';
+import { IntranetRoleModule } from 'src/intranet-role/intranet-role.module';
+import { ClientAuthGuard } from 'src/auth/guards/client-auth.guard';
+import { IntranetAuthGuard } from 'src/auth/guards/intranet-auth.guard';
+import { CombinedAuthGuard } from 'src/auth/guards/combined-auth.guard';
+import { WhatsappService } from './whatsapp.service';
+import { WhatsappController } from './whatsapp.controller';
+import { WHATSAPP_PROVIDER } from './providers/whatsapp.provider';
+import { CloudApiWhatsappProvider } from './providers/cloud-api.provider';
+import { MockWhatsappProvider } from './providers/mock.provider';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, McpModule, SessionModule, IntranetRoleModule],
+  controllers: [WhatsappController],
+  providers: [
+    WhatsappService,
+    ClientAuthGuard,
+    IntranetAuthGuard,
+    CombinedAuthGuard,
+    {
+      // WHATSAPP_PROVIDER=cloud usa la API de Meta; el mock local solo se permite en desarrollo
+      provide: WHATSAPP_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get<string>('WHATSAPP_PROVIDER') === 'cloud') {
+          return new CloudApiWhatsappProvider(configService);
+        }
+        if (process.env.NODE_ENV !== 'development') {
+          throw new Error('WHATSAPP_PROVIDER=cloud is required outside development');
+        }
+        return new MockWhatsappProvider();
+      },
+    },
+  ],
+})
+export class WhatsappModule { }
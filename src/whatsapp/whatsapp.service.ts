@@ -0,0 +1,436 @@
+import { BadRequestException, ForbiddenException, Inject, Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoanApplication, Prisma, statusSession, WhatsappSession } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { BotAuthService } from 'src/mcp/bot-auth.service';
+import { SessionService } from 'src/session/session.service';
+import { formatCop } from 'handlers/money';
+import { WHATSAPP_PROVIDER, WhatsappProvider } from './providers/whatsapp.provider';
+import { MockWhatsappProvider } from './providers/mock.provider';
+
+export interface WhatsappInboundMessage {
+  from: string;
+  id?: string;
+  text?: string;
+}
+
+// Herramientas MCP que el canal puede invocar
+type BotTool = 'get_client_profile' | 'get_latest_loan' | 'get_all_loans' | 'get_loan_details' | 'respond_to_new_amount';
+
+const MENU = [
+  'Puedes escribir:',
+  '• *prestamo*: estado de tu última solicitud',
+  '• *prestamos*: todas tus solicitudes',
+  '• *detalle N*: detalle de la solicitud N de la lista',
+  '• *aceptar N* / *rechazar N*: responder a una nueva cantidad propuesta',
+  '• *perfil*: tus datos registrados',
+  '• *salir*: cerrar la sesión en este número',
+].join('\n');
+
+@Injectable()
+export class WhatsappService {
+  private readonly logger = new Logger(WhatsappService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly bot: BotAuthService,
+    private readonly sessions: SessionService,
+    @Inject(WHATSAPP_PROVIDER) private readonly provider: WhatsappProvider,
+  ) { }
+
+  /**
+   * Valida la firma X-Hub-Signature-256 (HMAC SHA-256 del cuerpo crudo con el app secret).
+   * Sin secreto configurado solo se aceptan webhooks sin firmar en desarrollo: el webhook es
+   * público y sin firma cualquiera podría hacerse pasar por el teléfono de un cliente.
+   */
+  verifySignature(rawBody: Buffer | undefined, signature: string | undefined): void {
+    const secret = this.configService.get<string>('WHATSAPP_APP_SECRET');
+
+    if (!secret) {
+      if (process.env.NODE_ENV === 'development') return;
+      throw new UnauthorizedException('Webhook de WhatsApp sin secreto configurado');
+    }
+
+    if (!rawBody || !signature?.startsWith('sha256=')) {
+      throw new UnauthorizedException('Firma del webhook ausente');
+    }
+
+    const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+    const received = Buffer.from(signature.slice('sha256='.length));
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      this.logger.warn('Firma de webhook de WhatsApp inválida', { event: 'whatsapp_invalid_signature' });
+      throw new UnauthorizedException('Firma del webhook inválida');
+    }
+  }
+
+  /**
+   * Responde la verificación de suscripción del webhook
+   */
+  verifySubscription(mode: string, token: string, challenge: string): string {
+    const verifyToken = this.configService.get<string>('WHATSAPP_VERIFY_TOKEN');
+
+    if (mode !== 'subscribe' || !verifyToken || token !== verifyToken) {
+      throw new ForbiddenException('Token de verificación inválido');
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Extrae los mensajes entrantes del payload del webhook (entry[].changes[].value.messages[])
+   */
+  extractMessages(payload: any): WhatsappInboundMessage[] {
+    const messages: WhatsappInboundMessage[] = [];
+
+    for (const entry of payload?.entry ?? []) {
+      for (const change of entry?.changes ?? []) {
+        for (const message of change?.value?.messages ?? []) {
+          if (!message?.from) continue;
+          messages.push({
+            from: message.from,
+            id: message.id,
+            text: message.type === 'text' ? message.text?.body : undefined,
+          });
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Procesa un mensaje entrante y envía la respuesta. Retorna el texto enviado,
+   * o null si el mensaje ya había sido procesado.
+   */
+  async handleMessage(message: WhatsappInboundMessage): Promise<string | null> {
+    const phone = this.normalizePhone(message.from);
+    if (!phone) {
+      return null;
+    }
+
+    let chat = await this.prisma.whatsappSession.upsert({
+      where: { phone },
+      create: { phone },
+      update: {},
+    });
+
+    // El proveedor reintenta el webhook si no recibe respuesta a tiempo
+    if (message.id && chat.lastMessageId === message.id) {
+      return null;
+    }
+
+    chat = await this.prisma.whatsappSession.update({
+      where: { id: chat.id },
+      data: { lastMessageId: message.id ?? null, lastMessageAt: new Date() },
+    });
+
+    let reply: string;
+    try {
+      reply = message.text?.trim()
+        ? await this.reply(chat, message.text.trim())
+        : 'Por ahora solo puedo leer mensajes de texto.';
+    } catch (error) {
+      this.logger.error(`Error procesando mensaje de WhatsApp de ${phone}`, error);
+      reply = 'Ocurrió un error procesando tu mensaje. Intenta de nuevo en unos minutos.';
+    }
+
+    await this.provider.sendText(phone, reply);
+
+    this.logger.debug('Mensaje de WhatsApp respondido', {
+      event: 'whatsapp_message_handled',
+      phone,
+      authenticated: Boolean(chat.sessionId && chat.status === 'activo'),
+      provider: this.provider.name,
+    });
+
+    return reply;
+  }
+
+  async findAll(page: number = 1, pageSize: number = 20, status?: statusSession) {
+    const where: Prisma.WhatsappSessionWhereInput = status ? { status } : {};
+
+    const [total, data] = await Promise.all([
+      this.prisma.whatsappSession.count({ where }),
+      this.prisma.whatsappSession.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: { lastMessageAt: 'desc' },
+      }),
+    ]);
+
+    return { data, total, page, pageSize };
+  }
+
+  async revokeByPhone(phone: string): Promise<WhatsappSession> {
+    const chat = await this.prisma.whatsappSession.findUnique({ where: { phone: this.normalizePhone(phone) } });
+
+    if (!chat) {
+      throw new NotFoundException(`No hay sesión de WhatsApp para el número ${phone}`);
+    }
+
+    return this.revoke(chat);
+  }
+
+  /**
+   * Proveedor mock, solo disponible cuando es el proveedor configurado
+   */
+  getMockProvider(): MockWhatsappProvider {
+    if (!(this.provider instanceof MockWhatsappProvider)) {
+      throw new BadRequestException('El proveedor de WhatsApp configurado no es el mock');
+    }
+    return this.provider;
+  }
+
+  private async reply(chat: WhatsappSession, text: string): Promise<string> {
+    const command = this.normalizeText(text);
+
+    if (chat.sessionId && chat.status === 'activo') {
+      const token = await this.bot.tokenForSession(chat.sessionId);
+
+      if (token) {
+        return this.runCommand(chat, token, command);
+      }
+
+      // La sesión fue cerrada desde otro lado (logout, cambio de contraseña, suspensión)
+      await this.revoke(chat);
+      return 'Tu sesión terminó. Escribe cualquier mensaje para ingresar de nuevo.';
+    }
+
+    if (/^\d{6}$/.test(command) && chat.pendingEmail) {
+      return this.verifyPin(chat, command);
+    }
+
+    if (chat.pendingEmail && command !== 'reenviar') {
+      return `Escribe el código de 6 dígitos que enviamos a ${this.maskEmail(chat.pendingEmail)}. Si no lo recibiste escribe *reenviar*.`;
+    }
+
+    return this.startLogin(chat);
+  }
+
+  // Busca al cliente por su número registrado y le envía un PIN al correo
+  private async startLogin(chat: WhatsappSession): Promise<string> {
+    const last10 = chat.phone.slice(-10);
+    const candidates = await this.prisma.user.findMany({
+      where: { phone_whatsapp: { contains: last10 } },
+      select: { id: true, email: true, phone_whatsapp: true, isBan: true },
+    });
+    const users = candidates.filter(u => this.normalizePhone(u.phone_whatsapp) === chat.phone);
+
+    if (users.length === 0) {
+      return 'Este número no está registrado en Creditoya. Actualiza tu número de WhatsApp en tu perfil para usar el bot.';
+    }
+
+    if (users.length > 1) {
+      this.logger.warn('Número de WhatsApp asociado a varios clientes', { event: 'whatsapp_phone_ambiguous', phone: chat.phone });
+      return 'Este número está asociado a más de una cuenta. Comunícate con soporte para continuar.';
+    }
+
+    const [user] = users;
+    if (user.isBan) {
+      return 'Tu cuenta está suspendida. Comunícate con soporte.';
+    }
+
+    let result: Awaited<ReturnType<BotAuthService['sendAuthPin']>>;
+    try {
+      result = await this.bot.sendAuthPin(user.email);
+    } catch (error) {
+      // Por ejemplo, si escribe *reenviar* antes de que pase el tiempo de espera
+      if (error instanceof BadRequestException) {
+        return error.message;
+      }
+      throw error;
+    }
+
+    if (!result.pinSent) {
+      return result.message;
+    }
+
+    await this.prisma.whatsappSession.update({
+      where: { id: chat.id },
+      data: { userId: user.id, pendingEmail: user.email },
+    });
+
+    return `¡Hola! Para continuar escribe el código de 6 dígitos que enviamos a ${this.maskEmail(user.email)}.`;
+  }
+
+  private async verifyPin(chat: WhatsappSession, pin: string): Promise<string> {
+    try {
+      const result = await this.bot.verifyAuthPin(chat.pendingEmail as string, pin, 'whatsapp');
+
+      await this.prisma.whatsappSession.update({
+        where: { id: chat.id },
+        data: {
+          sessionId: result.sessionId,
+          userId: result.user?.id ?? chat.userId,
+          pendingEmail: null,
+          status: 'activo',
+          revokedAt: null,
+        },
+      });
+
+      this.logger.log(`Sesión de WhatsApp iniciada para ${chat.phone}`, {
+        event: 'whatsapp_session_started',
+        userId: result.user?.id,
+        sessionId: result.sessionId,
+      });
+
+      return `Bienvenido(a) ${result.user?.names ?? ''}.\n\n${MENU}`;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  private async runCommand(chat: WhatsappSession, token: string, command: string): Promise<string> {
+    const [action, arg] = command.split(/\s+/);
+
+    try {
+      switch (action) {
+        case 'salir': {
+          await this.revoke(chat);
+          return 'Sesión cerrada. Escribe cualquier mensaje para ingresar de nuevo.';
+        }
+
+        case 'perfil': {
+          const { user } = await this.runTool('get_client_profile', { token });
+          return [
+            `*${user.names} ${user.firstLastName} ${user.secondLastName}*`,
+            `Correo: ${user.email}`,
+            `Empresa: ${user.currentCompanie}`,
+            `WhatsApp: ${user.phone_whatsapp}`,
+          ].join('\n');
+        }
+
+        case 'prestamo':
+        case 'ultimo': {
+          const { loan } = await this.runTool('get_latest_loan', { token });
+          return loan ? this.formatLoan(loan) : 'No tienes solicitudes de préstamo.';
+        }
+
+        case 'prestamos': {
+          const { loans } = await this.runTool('get_all_loans', { token });
+          if (!loans?.length) return 'No tienes solicitudes de préstamo.';
+          return loans.map((loan: LoanApplication, i: number) => `${i + 1}. ${this.formatLoanLine(loan)}`).join('\n');
+        }
+
+        case 'detalle': {
+          const loanId = await this.resolveLoanId(token, arg);
+          if (!loanId) return 'Indica el número de la solicitud, por ejemplo: *detalle 1*';
+          const { loan } = await this.runTool('get_loan_details', { token, loanId });
+          return this.formatLoan(loan);
+        }
+
+        case 'aceptar':
+        case 'rechazar': {
+          const loanId = await this.resolveLoanId(token, arg);
+          if (!loanId) return `Indica el número de la solicitud, por ejemplo: *${action} 1*`;
+          const result = await this.runTool('respond_to_new_amount', { token, loanId, accept: action === 'aceptar' });
+          return result.message;
+        }
+
+        default:
+          return MENU;
+      }
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof NotFoundException) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  // Ejecuta una herramienta del bot con los mismos nombres que expone MCP
+  private async runTool(name: BotTool, args: { token: string; loanId?: string; accept?: boolean }): Promise<any> {
+    switch (name) {
+      case 'get_client_profile':
+        return this.bot.getClientProfile(args.token);
+      case 'get_latest_loan':
+        return this.bot.getLatestLoan(args.token);
+      case 'get_all_loans':
+        return this.bot.getAllLoans(args.token);
+      case 'get_loan_details':
+        return this.bot.getLoanDetails(args.token, args.loanId as string);
+      case 'respond_to_new_amount':
+        return this.bot.respondToNewAmount(args.token, args.loanId as string, args.accept as boolean);
+    }
+  }
+
+  // "N" es la posición en la lista de "prestamos"; también se acepta el ID completo
+  private async resolveLoanId(token: string, arg?: string): Promise<string | null> {
+    if (!arg) return null;
+    if (!/^\d+$/.test(arg)) return arg;
+
+    const { loans } = await this.runTool('get_all_loans', { token });
+    return loans?.[Number(arg) - 1]?.id ?? null;
+  }
+
+  private async revoke(chat: WhatsappSession): Promise<WhatsappSession> {
+    if (chat.sessionId) {
+      await this.sessions.revoke(chat.sessionId, 'logout');
+    }
+
+    const revoked = await this.prisma.whatsappSession.update({
+      where: { id: chat.id },
+      data: { status: 'revocado', revokedAt: new Date(), sessionId: null, pendingEmail: null },
+    });
+
+    this.logger.log(`Sesión de WhatsApp revocada para ${chat.phone}`, {
+      event: 'whatsapp_session_revoked',
+      sessionId: chat.sessionId,
+    });
+
+    return revoked;
+  }
+
+  private formatLoanLine(loan: LoanApplication): string {
+    const status = loan.isDisbursed ? 'Desembolsado' : loan.status;
+    return `${formatCop(loan.cantity)} - ${status} - ${loan.created_at.toLocaleDateString('es-CO')}`;
+  }
+
+  private formatLoan(loan: LoanApplication): string {
+    const lines = [
+      `*Solicitud ${loan.id.slice(0, 8)}*`,
+      `Monto: ${formatCop(loan.cantity)}`,
+      `Estado: ${loan.isDisbursed ? 'Desembolsado' : loan.status}`,
+      `Fecha: ${loan.created_at.toLocaleDateString('es-CO')}`,
+    ];
+
+    if (loan.newCantity && loan.newCantityOpt === null) {
+      lines.push(`Nueva cantidad propuesta: ${formatCop(loan.newCantity)}. Responde *aceptar N* o *rechazar N*.`);
+    }
+    if (loan.reasonReject) {
+      lines.push(`Motivo: ${loan.reasonReject}`);
+    }
+    if (loan.outstandingBalance !== null && loan.outstandingBalance !== undefined) {
+      lines.push(`Saldo pendiente: ${formatCop(loan.outstandingBalance)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  // Solo dígitos; los celulares colombianos de 10 dígitos se completan con el indicativo 57
+  private normalizePhone(phone: string): string {
+    const digits = (phone ?? '').replace(/\D/g, '');
+    return digits.length === 10 && digits.startsWith('3') ? `57${digits}` : digits;
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/\*/g, '')
+      .trim();
+  }
+
+  private maskEmail(email: string): string {
+    const [name, domain] = email.split('@');
+    return `${name.slice(0, 2)}***@${domain}`;
+  }
+}
@@ -0,0 +1,110 @@
+import { LayoutTemplate, LegalDocumentType } from "src/pdfs/dto/layout-template.dto";
+import { skeletonJson01, skeletonJson02, skeletonJson03, skeletonSubJson02 } from "./AboutPdf";
+
+export const LEGAL_TEMPLATES = 'LEGAL_TEMPLATES';
+
+// Espacios que se siguen llenando a mano al firmar
+const BLANK = "_________________";
+
+const applicantSignature = {
+    type: 'signature' as const,
+    label: "Firma del solicitante",
+    lines: ["Nombre: {{name}}", "Identificación: {{numberDocument}}"],
+};
+
+const applicantSignatureWithDocument = {
+    type: 'signature' as const,
+    label: "Firma del solicitante",
+    documentBeside: true,
+};
+
+/**
+ * Plantillas de los documentos legales. El texto sale de los esqueletos de AboutPdf;
+ * cualquier cambio en el texto o en el orden de los bloques debe subir `version`.
+ */
+export const legalTemplates: Record<LegalDocumentType, LayoutTemplate> = {
+    'instruction-letter': {
+        type: 'instruction-letter',
+        version: 2,
+        fontSize: 10,
+        blocks: [
+            { type: 'paragraph', text: skeletonJson01.firstParagraph },
+            { type: 'title', text: skeletonJson01.firstText },
+            {
+                type: 'paragraph',
+                text: `{{name}}, ${skeletonJson01.secondText} {{numberDocument}}, ${skeletonJson01.secondParagraph}`,
+            },
+            { type: 'paragraph', text: skeletonJson01.inst01, indent: 10 },
+            { type: 'paragraph', text: skeletonJson01.inst02, indent: 10 },
+            { type: 'paragraph', text: skeletonJson01.inst03, indent: 10 },
+            { type: 'paragraph', text: skeletonJson01.inst04, indent: 10 },
+            { type: 'paragraph', text: skeletonJson01.inst05, indent: 10 },
+            { type: 'paragraph', text: skeletonJson01.finalSecondParagraph },
+            applicantSignature,
+            { type: 'pageBreak' },
+            { type: 'paragraph', text: skeletonJson01.threeParagraph },
+            { type: 'paragraph', text: skeletonJson01.fourParagraph },
+            applicantSignature,
+        ],
+    },
+    'salary-payment-authorization': {
+        type: 'salary-payment-authorization',
+        version: 2,
+        fontSize: 10,
+        blocks: [
+            { type: 'title', text: skeletonJson02.title },
+            { type: 'paragraph', text: `${skeletonJson02.firstParagraph} ${BLANK} ${skeletonJson02.subFirstParagraph}` },
+            { type: 'paragraph', text: skeletonJson02.secondParagraph },
+            { type: 'paragraph', text: skeletonJson02.thirdParagraph },
+            {
+                type: 'paragraph',
+                text: `${skeletonJson02.footer} ${BLANK} a los ${BLANK} dias del mes de ${BLANK} de ${BLANK}.`,
+            },
+            applicantSignatureWithDocument,
+            { type: 'pageBreak' },
+            { type: 'title', text: skeletonSubJson02.title },
+            {
+                type: 'paragraph',
+                text: `${skeletonSubJson02.firstParagraph} ${BLANK} ${skeletonSubJson02.subFirstParagraph}` +
+                    ` $ ${BLANK} LETRAS (${BLANK}) ${skeletonSubJson02.TwoSubFirstParagraph}____` +
+                    `${skeletonSubJson02.ThreeSubFirstParagraph} $ ${BLANK} LETRAS (${BLANK}) ` +
+                    `${skeletonSubJson02.FourSubFirstParagraph}______ ${skeletonSubJson02.FiveSubFirstParagraph}`,
+            },
+            { type: 'paragraph', text: skeletonSubJson02.secondParagraph },
+            { type: 'paragraph', text: skeletonSubJson02.thirdParagraph },
+            {
+                type: 'paragraph',
+                text: `${skeletonSubJson02.footer} ${BLANK} a los ${BLANK} dias del mes de ${BLANK} de ${BLANK}.`,
+            },
+            applicantSignatureWithDocument,
+        ],
+    },
+    'promissory-note': {
+        type: 'promissory-note',
+        version: 2,
+        fontSize: 10,
+        blocks: [
+            { type: 'image', src: skeletonJson03.logoHeader, width: 70, height: 20 },
+            { type: 'paragraph', text: `${skeletonJson03.numero_pagare.publicText} {{promissoryNumber}}` },
+            { type: 'paragraph', text: `${skeletonJson03.fecha_vencimiento.publicText}{{dueDate}}` },
+            {
+                type: 'paragraph',
+                text: `{{name}} ${skeletonJson03.firstParagraph.publicfirstText} {{numberDocument}} ` +
+                    `${skeletonJson03.firstParagraph.publicSecondText}{{dueDate}}` +
+                    `${skeletonJson03.firstParagraph.publicFiveText}{{amount}}`,
+            },
+            { type: 'paragraph', text: skeletonJson03.secondParagraph },
+            { type: 'paragraph', text: skeletonJson03.threeParagraph },
+            { type: 'paragraph', text: skeletonJson03.fourParagraph },
+            {
+                type: 'paragraph',
+                text: `${skeletonJson03.fiveParagraph.publicFirstText} ${skeletonJson03.fiveParagraph.publicSecondText}${BLANK}`,
+            },
+            applicantSignatureWithDocument,
+        ],
+    },
+};
+
+// Número del pagaré: se deriva del id del préstamo para que sea el mismo cada vez que se regenere
+export const promissoryNumberOf = (loanId: string): string =>
+    loanId.replace(/-/g, "").slice(0, 10).toUpperCase();
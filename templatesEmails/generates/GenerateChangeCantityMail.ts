@@ -1,3 +1,5 @@
+import { formatCop } from "handlers/money";
+
 export const ChangeCantityMail = ({
   loanId,
   cantity_aproved,
@@ -5,7 +7,7 @@ export const ChangeCantityMail = ({
   reason_aproved,
 }: {
   loanId: string;
-  cantity_aproved: string;
+  cantity_aproved: number;
   employeeName: string;
   reason_aproved: string;
 }) => {
@@ -36,7 +38,7 @@ export const ChangeCantityMail = ({
     <mj-section>
       <mj-column>
         <mj-text font-size="15px" font-weight="bold">Cantidad Aprobada</mj-text>
-        <mj-text font-size="12px" color="#388E3C">$ ${cantity_aproved}</mj-text>
+        <mj-text font-size="12px" color="#388E3C">${formatCop(cantity_aproved)}</mj-text>
       </mj-column>
       <mj-column>
         <mj-text font-size="15px" font-weight="bold">Evaluado por:</mj-text>
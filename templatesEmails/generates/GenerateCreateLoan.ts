@@ -1,11 +1,11 @@
-import { stringToPriceCOP } from "handlers/stringToCop";
+import { formatCop } from "handlers/money";
 
 export const generateMailCreateLoan = ({
   loanId,
   reqCantity,
 }: {
   loanId: string;
-  reqCantity: string;
+  reqCantity: number;
 }) => {
   return `<mjml>
     <mj-head>
@@ -34,7 +34,7 @@ export const generateMailCreateLoan = ({
       <mj-section>
         <mj-column>
           <mj-text font-size="15px" font-weight="bold">Cantidad Solicitada</mj-text>
-          <mj-text font-size="25px">${stringToPriceCOP(reqCantity)}</mj-text>
+          <mj-text font-size="25px">${formatCop(reqCantity)}</mj-text>
         </mj-column>
       </mj-section>
   
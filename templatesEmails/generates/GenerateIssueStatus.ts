@@ -0,0 +1,55 @@
+export const generateMailIssueStatus = ({
+  issueId,
+  status,
+  resSupport,
+}: {
+  issueId: string;
+  status: string;
+  resSupport?: string | null;
+}) => {
+  return `<mjml>
+  <mj-head>
+    <mj-attributes>
+      <mj-all font-family="Roboto, sans-serif" />
+    </mj-attributes>
+    <mj-style inline="inline">
+      @import url('https://fonts.googleapis.com/css2?family=Roboto:wght@400;500&display=swap');
+    </mj-style>
+  </mj-head>
+
+  <mj-body>
+    <mj-section>
+      <mj-column>
+        <mj-image width="200px" src="https://res.cloudinary.com/dvquomppa/image/upload/v1717654334/credito_ya/cirm9vbdngqyxymcpfad.png"></mj-image>
+      </mj-column>
+    </mj-section>
+
+    <mj-section background-color="#E0F7FA">
+      <mj-column>
+        <mj-text font-size="16px" font-weight="bold" color="#00796B">Tu reporte ha sido actualizado</mj-text>
+        <mj-text font-size="12px" color="#00796B">ID: ${issueId}</mj-text>
+      </mj-column>
+    </mj-section>
+
+    <mj-section>
+      <mj-column>
+        <mj-text font-size="15px" font-weight="bold">Nuevo estado</mj-text>
+        <mj-text font-size="12px" color="#388E3C">${status}</mj-text>
+      </mj-column>
+    </mj-section>
+${resSupport ? `
+    <mj-section>
+      <mj-column>
+        <mj-text font-size="15px" font-weight="bold">Respuesta de soporte</mj-text>
+        <mj-text font-size="12px">${resSupport}</mj-text>
+      </mj-column>
+    </mj-section>
+` : ''}
+    <mj-section>
+      <mj-column>
+        <mj-text font-size="12px" color="#757575">Gracias por ayudarnos a mejorar Creditoya.</mj-text>
+      </mj-column>
+    </mj-section>
+  </mj-body>
+</mjml>`;
+};
@@ -0,0 +1,121 @@
+/**
+ * Benchmark de los listados de préstamos sobre 100k solicitudes.
+ *
+ * Uso (contra una base de datos exclusiva para pruebas, nunca la de producción):
+ *   BENCHMARK_MONGODB_URI="mongodb://.../creditoya_bench" npm run bench:loans
+ *   BENCHMARK_MONGODB_URI=... npm run bench:loans -- --reset   # vuelve a sembrar los datos
+ *
+ * Compara la implementación anterior de getAll (todos los IDs de usuario en memoria
+ * y un findUnique por préstamo) con las agregaciones actuales, y la paginación por
+ * skip contra la paginación por cursor en una página profunda.
+ */
+import { Logger } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GoogleCloudService } from 'src/gcp/gcp.service';
+import { QueryService } from 'src/loan/services/query.service';
+import { UtilityService } from 'src/loan/services/utility.service';
+import { ClientSearchService } from 'src/search/client-search.service';
+import { clearLoanListingFixture, countLoanListingFixture, seedLoanListingFixture } from './loan-listing.fixture';
+
+const FIXTURE = { users: 20_000, loans: 100_000 };
+const RUNS = 5;
+const PAGE_SIZE = 20;
+const DEEP_PAGE = 1000;
+
+const logger = new Logger('LoanListingBenchmark');
+
+// Implementación previa de QueryService.getAll, conservada solo como referencia para medir
+async function legacyGetAll(prisma: PrismaClient, page: number, pageSize: number) {
+  const total = await prisma.loanApplication.count();
+  const validUserIds = (await prisma.user.findMany({ select: { id: true } })).map(u => u.id);
+  const loans = await prisma.loanApplication.findMany({
+    orderBy: { created_at: 'asc' },
+    skip: (page - 1) * pageSize,
+    take: pageSize,
+  });
+
+  const data = await Promise.all(loans.map(async loan => ({
+    ...loan,
+    user: validUserIds.includes(loan.userId)
+      ? await prisma.user.findUnique({ where: { id: loan.userId } })
+      : null,
+  })));
+
+  return { data, total };
+}
+
+async function measure(label: string, fn: () => Promise<unknown>) {
+  await fn(); // calentamiento
+
+  const times: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const start = process.hrtime.bigint();
+    await fn();
+    times.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+
+  times.sort((a, b) => a - b);
+  return { escenario: label, medianaMs: Math.round(times[Math.floor(RUNS / 2)]), maxMs: Math.round(times[RUNS - 1]) };
+}
+
+async function main() {
+  const url = process.env.BENCHMARK_MONGODB_URI;
+  if (!url) {
+    throw new Error('BENCHMARK_MONGODB_URI es requerido (usa una base de datos exclusiva para el benchmark)');
+  }
+
+  const prisma = new PrismaClient({ datasources: { db: { url } } });
+  const clientSearch = new ClientSearchService(prisma as PrismaService);
+  const utility = new UtilityService(prisma as PrismaService, null as unknown as GoogleCloudService, clientSearch);
+  const query = new QueryService(prisma as PrismaService, utility);
+
+  try {
+    if (process.argv.includes('--reset')) {
+      await clearLoanListingFixture(prisma);
+    }
+
+    if ((await countLoanListingFixture(prisma)) < FIXTURE.loans) {
+      logger.log(`Sembrando ${FIXTURE.loans} préstamos y ${FIXTURE.users} usuarios...`);
+      await clearLoanListingFixture(prisma);
+      await seedLoanListingFixture(prisma, FIXTURE);
+    }
+
+    // La búsqueda por nombre usa el índice de clientes
+    await clientSearch.reindexAll(true);
+
+    // Cursor de la página anterior a la profunda, para comparar skip contra keyset
+    let deepCursor: string | null = null;
+    for (let page = 1, cursor: string | undefined; page < DEEP_PAGE; page++) {
+      const result = await query.getAll(page, PAGE_SIZE, '', 'asc', false, { cursor });
+      cursor = result.nextCursor ?? undefined;
+      deepCursor = result.nextCursor;
+    }
+
+    const results = [
+      await measure('getAll página 1 (anterior)', () => legacyGetAll(prisma, 1, PAGE_SIZE)),
+      await measure('getAll página 1 (agregación)', () => query.getAll(1, PAGE_SIZE)),
+      await measure(`getAll página ${DEEP_PAGE} con skip`, () => query.getAll(DEEP_PAGE, PAGE_SIZE)),
+      await measure(`getAll página ${DEEP_PAGE} con cursor`, () =>
+        query.getAll(DEEP_PAGE, PAGE_SIZE, '', 'asc', false, { cursor: deepCursor ?? undefined })),
+      await measure('getAll ordenado por monto', () => query.getAll(1, PAGE_SIZE, '', 'desc', true)),
+      await measure('getAll búsqueda por nombre', () => query.getAll(1, PAGE_SIZE, 'María Gómez')),
+      await measure('getAll búsqueda por documento', () => query.getAll(1, PAGE_SIZE, '1000000700')),
+      await measure('pendientes', () => query.getPendingLoans(1, PAGE_SIZE)),
+      await measure('aprobados con rango de montos', () =>
+        query.getApprovedLoans(1, PAGE_SIZE, undefined, { minAmount: 500000, maxAmount: 1500000 })),
+      await measure('nueva cantidad', () => query.getLoansWithDefinedNewCantity(1, PAGE_SIZE)),
+      await measure('pendientes de desembolso', () => query.pendingLoanDisbursement(1, PAGE_SIZE)),
+    ];
+
+    // Único resultado del benchmark: la tabla resumen con la mediana y el máximo de cada escenario
+    console.table(results);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  logger.error('Error ejecutando el benchmark', error instanceof Error ? error.stack : error);
+  process.exit(1);
+});
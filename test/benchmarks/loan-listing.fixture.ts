@@ -0,0 +1,134 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const BATCH_SIZE = 1000;
+const ID_PREFIX = 'bench-';
+
+const NAMES = ['Juan', 'María', 'Carlos', 'Ana', 'Luis', 'Sofía', 'Andrés', 'Valentina', 'Jorge', 'Camila'];
+const LAST_NAMES = ['Gómez', 'Rodríguez', 'Martínez', 'López', 'García', 'Pérez', 'Ramírez', 'Torres', 'Díaz', 'Muñoz'];
+const STATUSES = ['Pendiente', 'Aprobado', 'Aplazado', 'Archivado', 'Borrador'];
+const COMPANIES = ['valor_agregado', 'incauca_sas', 'incauca_cosecha', 'providencia_sas', 'pichichi_sas'];
+
+export interface LoanListingFixtureSize {
+  users: number;
+  loans: number;
+}
+
+// Generador determinista para que cada corrida use los mismos datos
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+const pick = <T>(rand: () => number, items: T[]): T => items[Math.floor(rand() * items.length)];
+const pad = (value: number) => String(value).padStart(7, '0');
+
+/**
+ * Inserta usuarios, documentos y solicitudes de préstamo de prueba. Todos los
+ * _id llevan el prefijo "bench-" para poder borrarlos sin tocar otros datos.
+ */
+export async function seedLoanListingFixture(prisma: PrismaClient, size: LoanListingFixtureSize): Promise<void> {
+  const rand = random(42);
+  const start = Date.UTC(2023, 0, 1);
+  const span = Date.UTC(2025, 0, 1) - start;
+
+  for (let offset = 0; offset < size.users; offset += BATCH_SIZE) {
+    const users: Prisma.InputJsonObject[] = [];
+    const documents: Prisma.InputJsonObject[] = [];
+
+    for (let i = offset; i < Math.min(offset + BATCH_SIZE, size.users); i++) {
+      const userId = `${ID_PREFIX}user-${pad(i)}`;
+      const createdAt = { $date: new Date(start + Math.floor(rand() * span)).toISOString() };
+
+      users.push({
+        _id: userId,
+        password: 'bench',
+        email: `bench${i}@example.com`,
+        names: pick(rand, NAMES),
+        firstLastName: pick(rand, LAST_NAMES),
+        secondLastName: pick(rand, LAST_NAMES),
+        currentCompanie: pick(rand, COMPANIES),
+        avatar: 'No definido',
+        phone: `3${pad(i)}00`,
+        residence_phone_number: 'No definido',
+        phone_whatsapp: 'No definido',
+        genre: 'No definido',
+        residence_address: 'No definidos',
+        city: 'No definidos',
+        createdAt,
+        updatedAt: createdAt,
+      });
+
+      documents.push({
+        _id: `${ID_PREFIX}doc-${pad(i)}`,
+        userId,
+        documentSides: 'No definido',
+        upId: 'No definido',
+        imageWithCC: 'No definido',
+        typeDocument: 'CC',
+        number: String(1000000000 + i * 7),
+        createdAt,
+        updatedAt: createdAt,
+      });
+    }
+
+    await prisma.$runCommandRaw({ insert: 'User', documents: users, ordered: false });
+    await prisma.$runCommandRaw({ insert: 'Document', documents: documents, ordered: false });
+  }
+
+  for (let offset = 0; offset < size.loans; offset += BATCH_SIZE) {
+    const loans: Prisma.InputJsonObject[] = [];
+
+    for (let i = offset; i < Math.min(offset + BATCH_SIZE, size.loans); i++) {
+      const status = pick(rand, STATUSES);
+      const createdAt = { $date: new Date(start + Math.floor(rand() * span)).toISOString() };
+      const hasNewCantity = status === 'Aprobado' && rand() < 0.1;
+
+      loans.push({
+        _id: `${ID_PREFIX}loan-${pad(i)}`,
+        userId: `${ID_PREFIX}user-${pad(Math.floor(rand() * size.users))}`,
+        phone: `3${pad(i)}11`,
+        cantity: (1 + Math.floor(rand() * 60)) * 50000,
+        newCantity: hasNewCantity ? (1 + Math.floor(rand() * 20)) * 50000 : null,
+        reasonChangeCantity: hasNewCantity ? 'Capacidad de pago' : null,
+        newCantityOpt: null,
+        bankSavingAccount: true,
+        bankNumberAccount: '0000000000',
+        entity: 'bancolombia',
+        terms_and_conditions: true,
+        signature: 'No definido',
+        upSignatureId: 'No definido',
+        isDisbursed: false,
+        status,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+    }
+
+    await prisma.$runCommandRaw({ insert: 'LoanApplication', documents: loans, ordered: false });
+  }
+}
+
+export async function clearLoanListingFixture(prisma: PrismaClient): Promise<void> {
+  const filter = { _id: { $regex: `^${ID_PREFIX}` } };
+
+  for (const collection of ['LoanApplication', 'Document', 'User']) {
+    await prisma.$runCommandRaw({ delete: collection, deletes: [{ q: filter, limit: 0 }] });
+  }
+
+  await prisma.$runCommandRaw({
+    delete: 'ClientSearchIndex',
+    deletes: [{ q: { userId: { $regex: `^${ID_PREFIX}` } }, limit: 0 }],
+  });
+}
+
+export async function countLoanListingFixture(prisma: PrismaClient): Promise<number> {
+  const result = (await prisma.$runCommandRaw({
+    count: 'LoanApplication',
+    query: { _id: { $regex: `^${ID_PREFIX}` } },
+  })) as { n: number };
+
+  return result.n;
+}
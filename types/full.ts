@@ -123,8 +123,8 @@ export type ILoanApplication = {
     upid_third_flyer?: string | null;
     reasonReject?: string | null;
     reasonChangeCantity?: string | null;
-    cantity: string;
-    newCantity?: string | null;
+    cantity: number;
+    newCantity?: number | null;
     newCantityOpt?: boolean | null;
     bankSavingAccount: boolean;
     bankNumberAccount: string;